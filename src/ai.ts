@@ -10,6 +10,7 @@
 
 import { Tool, streamText, ModelMessage, StepResult, LanguageModel, stepCountIs } from 'ai';
 import { preferencesManager } from './preferences';
+import { fileSystemManager } from './fileSystem';
 
 
 export type AIProvider = 'anthropic' | 'openai' | 'google';
@@ -190,9 +191,13 @@ You have access to tools to interact with the user's file system, including:
 - read_file_content: Get actual file content when you need to analyze or process it
 - create_file: Create a new file with specified content
 - write_file: Write or update content in an existing file
+- edit_file: Change part of an existing file with search/replace or line-range edits
+- apply_patch: Apply a unified diff that creates, changes or deletes one or more files
 - rename_file / move_file: Rename or move a file
 - delete_file: Delete a file (use with caution)
-- list_files / tree: List files in the directory
+- delete_directory: Delete a directory, with recursive to include everything inside it (use with caution)
+- copy_directory / move_directory: Copy or move a whole directory
+- list_files / tree: List files in the directory (pass maxDepth to stay shallow in large folders)
 - grep: Search for patterns in files
 - head_file / tail_file: Read first/last lines of a file
 - diff: Compare two files
@@ -204,6 +209,7 @@ IMPORTANT - Context-efficient tool usage:
 - If you need to actually analyze or work with file content (e.g., find specific code, extract data), use read_file_content
 - For searching, use grep which returns only matching lines
 - For previewing, use head_file or tail_file for partial content
+- Text tools refuse binary files (images, PDFs, archives); cp, rename_file and move_file copy them intact
 
 Guidelines:
 1. Always confirm destructive operations (delete, overwrite) before executing
@@ -213,7 +219,22 @@ Guidelines:
 5. If you're unsure about a file operation, ask for clarification
 6. Respect the user's permission settings for each tool
 
-The user has selected a folder, and you can work with any files within that folder and its subfolders.`;
+${this.describeWorkspace()}`;
+  }
+
+  /**
+   * Describe the mounted folders and how to address files in each
+   */
+  private describeWorkspace(): string {
+    const roots = fileSystemManager.getRoots();
+    if (roots.length <= 1) {
+      return 'The user has selected a folder, and you can work with any files within that folder and its subfolders.';
+    }
+
+    const [defaultRoot, ...others] = roots.map((root) => root.name);
+    return `The user has mounted ${roots.length} folders: ${defaultRoot} (the default), ${others.join(', ')}.
+Paths in ${defaultRoot} need no prefix. Paths in the other folders start with the folder's name, e.g. ${others[0]}:/src/index.ts, and list_files and tree show them that way.
+Tools can copy and move files between folders. Some folders may be read-only, in which case changes there are denied.`;
   }
 }
 
@@ -0,0 +1,240 @@
+/**
+ * Audit Log
+ *
+ * An append-only record of every tool call the AI makes, kept in IndexedDB
+ * apart from conversations so it outlives them. Each entry records when the
+ * call was made, in which conversation, the tool and its arguments, how its
+ * permission was decided, the paths it named and whether it succeeded.
+ *
+ * `record` wraps a tool's execution and passes it the entry being recorded.
+ * Tools wrapped with `wrapTools` look theirs up with `getCall` by the id of the
+ * tool call, at any point of their execution, and pass it to their permission
+ * check to fill in the decision and paths. A pipe folds the checks of its
+ * stages into its own entry with `mergeAuditCall`.
+ */
+
+import type { Tool } from 'ai';
+import { storageManager } from './storage';
+
+/**
+ * How a call's permission was decided:
+ * - auto: allowed without asking, by the tool's level, a path rule or a grant
+ * - asked: the user approved it
+ * - denied: denied by a level or rule, or by the user
+ */
+export type AuditDecision = 'auto' | 'asked' | 'denied';
+
+export type AuditStatus = 'success' | 'error' | 'denied';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  /** Conversation whose turn made the call, if any */
+  conversationId: string | null;
+  toolName: string;
+  /** Arguments, with long strings shortened */
+  args: unknown;
+  decision: AuditDecision;
+  /** Paths the call named, normalized as permission rules see them */
+  paths: string[];
+  status: AuditStatus;
+  /** Why the call failed */
+  error?: string;
+}
+
+export interface AuditFilter {
+  toolName?: string;
+  conversationId?: string;
+  decision?: AuditDecision;
+  status?: AuditStatus;
+  /** Text a path of the entry contains */
+  path?: string;
+}
+
+/**
+ * A call being executed, waiting for its permission check to fill it in
+ */
+export interface PendingAuditCall {
+  decision: AuditDecision;
+  paths: string[];
+}
+
+/** Decisions from the least to the most restrictive */
+const DECISION_ORDER: AuditDecision[] = ['auto', 'asked', 'denied'];
+
+/**
+ * Fold a permission check made on a call's behalf, such as one for a pipe
+ * stage, into the call: its paths are added and the more restrictive decision wins
+ */
+export function mergeAuditCall(call: PendingAuditCall, part: PendingAuditCall): void {
+  for (const path of part.paths) {
+    if (!call.paths.includes(path)) {
+      call.paths.push(path);
+    }
+  }
+  if (DECISION_ORDER.indexOf(part.decision) > DECISION_ORDER.indexOf(call.decision)) {
+    call.decision = part.decision;
+  }
+}
+
+/** Strings in arguments longer than this, such as file contents, are shortened */
+const MAX_ARG_STRING_LENGTH = 1000;
+
+/**
+ * Shorten long strings in a call's arguments so entries stay small
+ */
+export function shortenArgs(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_ARG_STRING_LENGTH
+      ? `${value.slice(0, MAX_ARG_STRING_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(shortenArgs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shortenArgs(item)]));
+  }
+  return value;
+}
+
+/**
+ * Get a call's status from its result. Tools report failure as `{ error }`,
+ * WASM tools also as `{ success: false }`.
+ */
+export function getResultStatus(result: unknown, decision: AuditDecision): { status: AuditStatus; error?: string } {
+  if (decision === 'denied') {
+    return { status: 'denied' };
+  }
+
+  const values = (result ?? {}) as Record<string, unknown>;
+  if (typeof values.error === 'string') {
+    return { status: 'error', error: values.error };
+  }
+  if (values.success === false) {
+    return { status: 'error', error: typeof values.stderr === 'string' && values.stderr ? values.stderr : undefined };
+  }
+  return { status: 'success' };
+}
+
+/**
+ * Get the entries matching every criterion of a filter
+ */
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const path = filter.path?.trim();
+  return entries.filter(
+    (entry) =>
+      (!filter.toolName || entry.toolName === filter.toolName) &&
+      (!filter.conversationId || entry.conversationId === filter.conversationId) &&
+      (!filter.decision || entry.decision === filter.decision) &&
+      (!filter.status || entry.status === filter.status) &&
+      (!path || entry.paths.some((entryPath) => entryPath.includes(path)))
+  );
+}
+
+/**
+ * Format entries as JSON Lines, one entry per line
+ */
+export function toJsonLines(entries: AuditEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+}
+
+export class AuditLog {
+  private activeConversationId: string | null = null;
+  /** Entries of the calls of wrapped tools that are running, by tool call id */
+  private runningCalls: Map<string, PendingAuditCall> = new Map();
+
+  /**
+   * Set the conversation whose turn is running; calls are recorded against it
+   */
+  setActiveConversation(conversationId: string | null): void {
+    this.activeConversationId = conversationId;
+  }
+
+  /**
+   * Wrap tools so every call they execute is recorded
+   */
+  wrapTools(tools: Record<string, Tool>): Record<string, Tool> {
+    return Object.fromEntries(
+      Object.entries(tools).map(([name, definition]) => {
+        const execute = definition.execute;
+        if (!execute) {
+          return [name, definition];
+        }
+        return [
+          name,
+          {
+            ...definition,
+            execute: (input: unknown, options) =>
+              this.record(name, input, async (call) => {
+                this.runningCalls.set(options.toolCallId, call);
+                try {
+                  return await execute(input, options);
+                } finally {
+                  this.runningCalls.delete(options.toolCallId);
+                }
+              }),
+          },
+        ];
+      })
+    );
+  }
+
+  /**
+   * Execute a tool call and append its entry once it finishes. `execute` gets
+   * the entry for the call's permission check to fill in.
+   * Failing to store the entry doesn't fail the call.
+   */
+  async record<T>(toolName: string, args: unknown, execute: (call: PendingAuditCall) => Promise<T>): Promise<T> {
+    const call: PendingAuditCall = { decision: 'auto', paths: [] };
+    const timestamp = Date.now();
+    const conversationId = this.activeConversationId;
+
+    let outcome: { status: AuditStatus; error?: string } = { status: 'error' };
+    try {
+      const result = await execute(call);
+      outcome = getResultStatus(result, call.decision);
+      return result;
+    } catch (error) {
+      outcome = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+      throw error;
+    } finally {
+      await this.append({
+        id: crypto.randomUUID(),
+        timestamp,
+        conversationId,
+        toolName,
+        args: shortenArgs(args),
+        decision: call.decision,
+        paths: call.paths,
+        ...outcome,
+      });
+    }
+  }
+
+  /**
+   * Get the entry being recorded for a call of a wrapped tool, by the tool call
+   * id the tool is executed with, or null if the call isn't being recorded
+   */
+  getCall(toolCallId: string): PendingAuditCall | null {
+    return this.runningCalls.get(toolCallId) ?? null;
+  }
+
+  /**
+   * Get every entry, oldest first
+   */
+  async list(): Promise<AuditEntry[]> {
+    return storageManager.getAllAuditEntries();
+  }
+
+  private async append(entry: AuditEntry): Promise<void> {
+    try {
+      await storageManager.addAuditEntry(entry);
+    } catch (error) {
+      console.error('Failed to append audit log entry:', error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const auditLog = new AuditLog();
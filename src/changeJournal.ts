@@ -0,0 +1,266 @@
+/**
+ * Change Journal
+ *
+ * Snapshots files before AI tools change them, grouped by assistant turn,
+ * so the user can undo (and redo) a whole turn or a single file.
+ * Turns are saved to IndexedDB when they end; once the journal grows past
+ * its size cap, the oldest turns are dropped.
+ */
+
+import { fileSystemManager } from './fileSystem';
+import { storageManager } from './storage';
+
+/** Content kept across all turns, in bytes */
+const MAX_JOURNAL_SIZE = 50 * 1024 * 1024;
+
+/** Files larger than this (in bytes) are changed without a snapshot */
+const MAX_SNAPSHOT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * A file changed during a turn
+ */
+export interface JournalFileChange {
+  path: string;
+  /** Bytes before the turn changed the file, null if it didn't exist */
+  before: Uint8Array<ArrayBuffer> | null;
+  /** Bytes when the turn ended, null if the file had been deleted */
+  after: Uint8Array<ArrayBuffer> | null;
+  /** Set when the file couldn't be snapshotted, so it can't be undone */
+  skipped?: boolean;
+  undone: boolean;
+}
+
+/**
+ * The files changed during one assistant turn
+ */
+export interface JournalTurn {
+  id: string;
+  conversationId: string;
+  createdAt: number;
+  files: JournalFileChange[];
+}
+
+export type JournalDirection = 'undo' | 'redo';
+
+/**
+ * Content a turn holds, in bytes
+ */
+function turnSize(turn: JournalTurn): number {
+  return turn.files.reduce(
+    (total, file) => total + (file.before?.byteLength ?? 0) + (file.after?.byteLength ?? 0),
+    0
+  );
+}
+
+function sameContent(a: Uint8Array | null, b: Uint8Array | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return a.byteLength === b.byteLength && a.every((byte, index) => byte === b[index]);
+}
+
+export class ChangeJournal {
+  private activeTurn: JournalTurn | null = null;
+
+  /**
+   * Start recording the files changed through the file system manager
+   * @returns the new turn's ID
+   */
+  beginTurn(conversationId: string): string {
+    const turn: JournalTurn = {
+      id: crypto.randomUUID(),
+      conversationId,
+      createdAt: Date.now(),
+      files: [],
+    };
+    this.activeTurn = turn;
+    fileSystemManager.setBeforeChangeCallback((path) => this.snapshot(turn, path));
+    return turn.id;
+  }
+
+  /**
+   * Stop recording and save the turn
+   * @returns the turn, or null if no files changed or there was no active turn
+   */
+  async endTurn(): Promise<JournalTurn | null> {
+    const turn = this.activeTurn;
+    // Cleared before awaiting, so a second call returns null
+    this.activeTurn = null;
+    fileSystemManager.setBeforeChangeCallback(null);
+
+    if (!turn || turn.files.length === 0) {
+      return null;
+    }
+
+    for (const file of turn.files) {
+      if (file.skipped) continue;
+      try {
+        file.after = await this.readCurrent(file.path);
+      } catch (error) {
+        console.warn(`Could not record the new content of ${file.path}:`, error);
+        file.skipped = true;
+      }
+    }
+
+    try {
+      await storageManager.saveJournalTurn(turn);
+      await this.enforceSizeCap();
+      return (await storageManager.getJournalTurn(turn.id)) ? turn : null;
+    } catch (error) {
+      console.error('Failed to save change journal turn:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a saved turn by ID
+   */
+  async getTurn(turnId: string): Promise<JournalTurn | null> {
+    return storageManager.getJournalTurn(turnId);
+  }
+
+  /**
+   * List the files whose current content no longer matches the turn, so undoing
+   * or redoing them would overwrite changes made since
+   */
+  async findConflicts(turnId: string, direction: JournalDirection, paths?: string[]): Promise<string[]> {
+    const turn = await this.requireTurn(turnId);
+    const conflicts: string[] = [];
+
+    for (const file of this.filesToRestore(turn, direction, paths)) {
+      const expected = direction === 'undo' ? file.after : file.before;
+      try {
+        if (!sameContent(await this.readCurrent(file.path), expected)) {
+          conflicts.push(file.path);
+        }
+      } catch {
+        conflicts.push(file.path);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Restore files to their content before the turn (all of the turn's files if no paths are given)
+   */
+  async undo(turnId: string, paths?: string[]): Promise<JournalTurn> {
+    return this.restore(turnId, 'undo', paths);
+  }
+
+  /**
+   * Reapply the turn's changes to files that were undone
+   */
+  async redo(turnId: string, paths?: string[]): Promise<JournalTurn> {
+    return this.restore(turnId, 'redo', paths);
+  }
+
+  /**
+   * Snapshot a file the first time the turn changes it
+   */
+  private async snapshot(turn: JournalTurn, path: string): Promise<void> {
+    if (turn.files.some((file) => file.path === path)) {
+      return;
+    }
+
+    // Added before reading so concurrent changes to the same file only snapshot once
+    const file: JournalFileChange = { path, before: null, after: null, undone: false };
+    turn.files.push(file);
+
+    try {
+      file.before = await this.readCurrent(path);
+    } catch (error) {
+      console.warn(`Could not snapshot ${path} before it changed:`, error);
+      file.skipped = true;
+    }
+  }
+
+  /**
+   * Read a file's current bytes, or null if it doesn't exist
+   */
+  private async readCurrent(path: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    const entry = await fileSystemManager.resolvePath(path);
+    if (!entry || entry.kind !== 'file') {
+      return null;
+    }
+
+    const metadata = await fileSystemManager.getFileMetadata(path);
+    if (metadata.size > MAX_SNAPSHOT_SIZE) {
+      throw new Error(`${path} is too large to snapshot`);
+    }
+    return fileSystemManager.readFileBytes(path);
+  }
+
+  private async requireTurn(turnId: string): Promise<JournalTurn> {
+    const turn = await storageManager.getJournalTurn(turnId);
+    if (!turn) {
+      throw new Error('These changes are no longer in the undo history');
+    }
+    return turn;
+  }
+
+  private filesToRestore(turn: JournalTurn, direction: JournalDirection, paths?: string[]): JournalFileChange[] {
+    return turn.files.filter(
+      (file) =>
+        !file.skipped &&
+        file.undone === (direction === 'redo') &&
+        (!paths || paths.includes(file.path))
+    );
+  }
+
+  private async restore(turnId: string, direction: JournalDirection, paths?: string[]): Promise<JournalTurn> {
+    const turn = await this.requireTurn(turnId);
+    const files = this.filesToRestore(turn, direction, paths);
+
+    // Unwind in reverse order of the turn's changes
+    if (direction === 'undo') {
+      files.reverse();
+    }
+
+    try {
+      for (const file of files) {
+        await this.writeContent(file.path, direction === 'undo' ? file.before : file.after);
+        file.undone = direction === 'undo';
+      }
+    } finally {
+      // Save whatever was restored, even if a later file failed
+      await storageManager.saveJournalTurn(turn);
+    }
+
+    return turn;
+  }
+
+  /**
+   * Write a file's content, creating or deleting the file as needed
+   */
+  private async writeContent(path: string, content: Uint8Array<ArrayBuffer> | null): Promise<void> {
+    const entry = await fileSystemManager.resolvePath(path);
+
+    if (content === null) {
+      if (entry) {
+        await fileSystemManager.deleteFile(path);
+      }
+    } else if (entry?.kind === 'file') {
+      await fileSystemManager.writeFileBytes(path, content);
+    } else {
+      await fileSystemManager.createFile(path, content);
+    }
+  }
+
+  /**
+   * Drop the oldest turns until the journal fits within its size cap
+   */
+  private async enforceSizeCap(): Promise<void> {
+    const turns = await storageManager.getAllJournalTurns();
+    let total = turns.reduce((sum, turn) => sum + turnSize(turn), 0);
+
+    for (const turn of turns) {
+      if (total <= MAX_JOURNAL_SIZE) break;
+      await storageManager.deleteJournalTurn(turn.id);
+      total -= turnSize(turn);
+    }
+  }
+}
+
+// Export a singleton instance
+export const changeJournal = new ChangeJournal();
@@ -0,0 +1,261 @@
+/**
+ * Workspace Checkpoints
+ *
+ * A checkpoint records a content-hash manifest of every file in the mounted
+ * roots (honouring ignore rules). File contents are stored in OPFS as blobs
+ * named by their SHA-256 hash, so content shared between checkpoints is only
+ * stored once. Manifests are kept in IndexedDB.
+ */
+
+import { fileSystemManager } from './fileSystem';
+import { opfsFileSystem } from './opfsFileSystem';
+import { storageManager } from './storage';
+
+/** OPFS directory holding checkpoint blobs */
+const BLOB_DIRECTORY = '.checkpoints';
+
+/** Files larger than this (in bytes) are left out of checkpoints */
+const MAX_CHECKPOINT_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * A file recorded in a checkpoint
+ */
+export interface CheckpointFile {
+  path: string;
+  /** SHA-256 of the content, naming its blob */
+  hash: string;
+  size: number;
+}
+
+/**
+ * A checkpoint manifest
+ */
+export interface Checkpoint {
+  id: string;
+  name: string;
+  /** Name of the folder the checkpoint was taken from, the default root's */
+  folder: string;
+  /**
+   * Names of the roots the checkpoint covers, the default root first.
+   * Missing from checkpoints taken before multiple roots, which cover the default root only.
+   */
+  roots?: string[];
+  createdAt: number;
+  files: CheckpointFile[];
+  /** Files too large to record; restoring leaves them as they are */
+  skipped: string[];
+}
+
+/**
+ * A change restoring a checkpoint would make to the folder
+ */
+export interface CheckpointChange {
+  path: string;
+  action: 'create' | 'modify' | 'delete';
+  /** Hash of the checkpoint's content, null when the file will be deleted */
+  hash: string | null;
+}
+
+/**
+ * SHA-256 of a file's bytes, as hex
+ */
+async function hashContent(content: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function blobPath(hash: string): string {
+  return `${BLOB_DIRECTORY}/${hash}`;
+}
+
+/**
+ * Names of the roots a checkpoint covers
+ */
+function checkpointRoots(checkpoint: Checkpoint): string[] {
+  return checkpoint.roots ?? [fileSystemManager.getRoots()[0]?.name ?? ''];
+}
+
+/**
+ * Whether the mounted roots include every root a checkpoint covers, with the same
+ * default root so its paths mean the same files
+ */
+function canRestore(checkpoint: Checkpoint): boolean {
+  const mounted = fileSystemManager.getRoots().map((root) => root.name);
+  const roots = checkpointRoots(checkpoint);
+  return (
+    checkpoint.folder === fileSystemManager.getRootPath() &&
+    roots[0] === mounted[0] &&
+    roots.every((name) => mounted.includes(name))
+  );
+}
+
+export class CheckpointManager {
+  /**
+   * Record the current state of the mounted roots
+   */
+  async create(name: string): Promise<Checkpoint> {
+    const checkpoint: Checkpoint = {
+      id: crypto.randomUUID(),
+      name: name.trim() || new Date().toLocaleString(),
+      folder: fileSystemManager.getRootPath(),
+      roots: fileSystemManager.getRoots().map((root) => root.name),
+      createdAt: Date.now(),
+      files: [],
+      skipped: [],
+    };
+
+    for (const path of await this.listWorkspaceFiles(checkpoint.roots!)) {
+      const metadata = await fileSystemManager.getFileMetadata(path);
+      if (metadata.size > MAX_CHECKPOINT_FILE_SIZE) {
+        checkpoint.skipped.push(path);
+        continue;
+      }
+
+      const content = await fileSystemManager.readFileBytes(path);
+      const hash = await hashContent(content);
+      if (!(await this.hasBlob(hash))) {
+        await opfsFileSystem.createFile(blobPath(hash), content);
+      }
+      checkpoint.files.push({ path, hash, size: metadata.size });
+    }
+
+    await storageManager.saveCheckpoint(checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * List the checkpoints that can be restored with the mounted roots, newest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    const checkpoints = await storageManager.getAllCheckpoints();
+    return checkpoints.filter(canRestore).reverse();
+  }
+
+  /**
+   * List the changes restoring a checkpoint would make, sorted by path.
+   * Roots mounted since the checkpoint was taken are left alone.
+   */
+  async preview(checkpointId: string): Promise<CheckpointChange[]> {
+    const checkpoint = await this.requireCheckpoint(checkpointId);
+    if (!canRestore(checkpoint)) {
+      throw new Error(`Mount ${checkpointRoots(checkpoint).join(', ')} to restore this checkpoint`);
+    }
+
+    const recorded = new Map(checkpoint.files.map((file) => [file.path, file.hash]));
+    const changes: CheckpointChange[] = [];
+
+    for (const path of await this.listWorkspaceFiles(checkpointRoots(checkpoint))) {
+      if (checkpoint.skipped.includes(path)) continue;
+
+      const hash = recorded.get(path);
+      if (hash === undefined) {
+        changes.push({ path, action: 'delete', hash: null });
+        continue;
+      }
+      recorded.delete(path);
+
+      const metadata = await fileSystemManager.getFileMetadata(path);
+      const changed =
+        metadata.size > MAX_CHECKPOINT_FILE_SIZE ||
+        (await hashContent(await fileSystemManager.readFileBytes(path))) !== hash;
+      if (changed) {
+        changes.push({ path, action: 'modify', hash });
+      }
+    }
+
+    for (const [path, hash] of recorded) {
+      changes.push({ path, action: 'create', hash });
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Roll the roots the checkpoint covers back to it
+   * @returns the changes made
+   */
+  async restore(checkpointId: string): Promise<CheckpointChange[]> {
+    const changes = await this.preview(checkpointId);
+
+    for (const change of changes) {
+      if (change.hash === null) {
+        await fileSystemManager.deleteFile(change.path);
+        continue;
+      }
+
+      const content = await this.readBlob(change.hash);
+      if (change.action === 'create') {
+        await fileSystemManager.createFile(change.path, content);
+      } else {
+        await fileSystemManager.writeFileBytes(change.path, content);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Delete a checkpoint and the blobs no other checkpoint uses
+   */
+  async delete(checkpointId: string): Promise<void> {
+    const checkpoint = await this.requireCheckpoint(checkpointId);
+    await storageManager.deleteCheckpoint(checkpointId);
+
+    const inUse = new Set<string>();
+    for (const other of await storageManager.getAllCheckpoints()) {
+      for (const file of other.files) {
+        inUse.add(file.hash);
+      }
+    }
+
+    for (const hash of new Set(checkpoint.files.map((file) => file.hash))) {
+      if (inUse.has(hash)) continue;
+      try {
+        await opfsFileSystem.deleteFile(blobPath(hash));
+      } catch (error) {
+        console.warn(`Failed to delete checkpoint blob ${hash}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Read a file's content as recorded by a checkpoint
+   */
+  async readBlob(hash: string): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      return await opfsFileSystem.readFileBytes(blobPath(hash));
+    } catch {
+      throw new Error('Checkpoint content is missing from browser storage');
+    }
+  }
+
+  /**
+   * Paths of the files in the named roots, honouring ignore rules
+   */
+  private async listWorkspaceFiles(roots: string[]): Promise<string[]> {
+    const entries = await fileSystemManager.listFiles();
+    return entries
+      .filter((entry) => entry.kind === 'file' && roots.includes(fileSystemManager.getRootName(entry.path) ?? ''))
+      .map((entry) => entry.path);
+  }
+
+  private async hasBlob(hash: string): Promise<boolean> {
+    try {
+      await opfsFileSystem.getFileMetadata(blobPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async requireCheckpoint(checkpointId: string): Promise<Checkpoint> {
+    const checkpoint = await storageManager.getCheckpoint(checkpointId);
+    if (!checkpoint) {
+      throw new Error('Checkpoint not found');
+    }
+    return checkpoint;
+  }
+}
+
+// Export a singleton instance
+export const checkpointManager = new CheckpointManager();
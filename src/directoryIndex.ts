@@ -0,0 +1,188 @@
+/**
+ * Directory Index
+ *
+ * Keeps the listing of each directory read by the file system manager, along
+ * with the ignore rules it defines and the size and modification time of files,
+ * so repeated listings and searches don't walk the folder again.
+ * Directories are indexed lazily, the first time they are listed, and changes
+ * (from the manager's own operations or from FileSystemObserver records) drop
+ * only the listings and metadata they affect.
+ *
+ * Without an observer, nothing reports changes made outside the app, so listings
+ * and metadata are only trusted for a short time after they were read
+ * (UNOBSERVED_MAX_AGE_MS): the tool calls of one turn, which often list the
+ * same folders over and over, share a walk, while a file changed in another
+ * program shows up within seconds. The manager's own changes still update the
+ * index at once. An older directory is revalidated when listed: its entries are
+ * read again and only the parsed ignore rules are reused, when the ignore files'
+ * sizes and modification times are unchanged.
+ * The index is not persisted between sessions: the File System Access API gives
+ * directories no modification time, so a saved listing could only be checked by
+ * reading the directory again, which is the walk the index saves.
+ */
+
+import type { FileSystemEntry } from './fileSystem';
+import { IGNORE_FILE_NAMES, IgnoreRule } from './ignore';
+
+/**
+ * The entries directly inside a directory
+ */
+export interface IndexedDirectory {
+  /** Every child, including ignored ones */
+  entries: FileSystemEntry[];
+  /** Rules from the directory's own ignore files */
+  rules: IgnoreRule[];
+  /** The ignore files the rules were read from */
+  ignoreFiles: IgnoreFileStamp[];
+}
+
+/**
+ * Size and modification time of an ignore file, telling whether its rules need reading again
+ */
+export interface IgnoreFileStamp {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface IndexedFileMetadata {
+  name: string;
+  size: number;
+  lastModified: number;
+  type: string;
+}
+
+/**
+ * How long listings and metadata are trusted when no observer reports changes
+ */
+export const UNOBSERVED_MAX_AGE_MS = 10_000;
+
+/**
+ * Path of the directory containing a path: '' for the default root's top
+ * directory, `name:` for the top directory of another root
+ */
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Whether a directory's ignore files are the ones its indexed rules were read from
+ */
+export function sameIgnoreFiles(indexed: IgnoreFileStamp[], current: IgnoreFileStamp[]): boolean {
+  return (
+    indexed.length === current.length &&
+    indexed.every(
+      (file, i) =>
+        file.name === current[i]!.name &&
+        file.size === current[i]!.size &&
+        file.lastModified === current[i]!.lastModified
+    )
+  );
+}
+
+export class DirectoryIndex {
+  private directories: Map<string, IndexedDirectory> = new Map();
+  private metadata: Map<string, IndexedFileMetadata> = new Map();
+  /** When each directory listing and file's metadata was stored */
+  private storedAt: Map<string, number> = new Map();
+  private version = 0;
+
+  /**
+   * Current version, bumped by every change. Read it before listing a
+   * directory or file, so a change made meanwhile keeps the stale result out.
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Get a directory's listing, if it was stored at most `maxAge` milliseconds ago
+   */
+  getDirectory(path: string, maxAge: number = Infinity): IndexedDirectory | undefined {
+    return this.isFresh(`dir:${path}`, maxAge) ? this.directories.get(path) : undefined;
+  }
+
+  /**
+   * Store a directory's listing, unless the index changed since `version`
+   */
+  setDirectory(path: string, directory: IndexedDirectory, version: number): void {
+    if (version === this.version) {
+      this.directories.set(path, directory);
+      this.storedAt.set(`dir:${path}`, Date.now());
+    }
+  }
+
+  /**
+   * Get a file's metadata, if it was stored at most `maxAge` milliseconds ago
+   */
+  getMetadata(path: string, maxAge: number = Infinity): IndexedFileMetadata | undefined {
+    return this.isFresh(`file:${path}`, maxAge) ? this.metadata.get(path) : undefined;
+  }
+
+  /**
+   * Store a file's metadata, unless the index changed since `version`
+   */
+  setMetadata(path: string, metadata: IndexedFileMetadata, version: number): void {
+    if (version === this.version) {
+      this.metadata.set(path, metadata);
+      this.storedAt.set(`file:${path}`, Date.now());
+    }
+  }
+
+  private isFresh(key: string, maxAge: number): boolean {
+    return maxAge === Infinity || Date.now() - (this.storedAt.get(key) ?? -Infinity) <= maxAge;
+  }
+
+  /**
+   * An entry appeared at a path: its directory is listed again next time
+   */
+  added(path: string): void {
+    this.version++;
+    this.directories.delete(parentPath(path));
+    this.metadata.delete(path);
+  }
+
+  /**
+   * An entry was removed from a path: its directory is listed again next time,
+   * and everything indexed at or below the path is dropped
+   */
+  removed(path: string): void {
+    this.version++;
+    this.directories.delete(parentPath(path));
+    for (const map of [this.directories, this.metadata]) {
+      for (const indexedPath of map.keys()) {
+        if (indexedPath === path || indexedPath.startsWith(`${path}/`)) {
+          map.delete(indexedPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * A file's content changed: its metadata is read again next time, and if it
+   * is an ignore file, so is its directory
+   */
+  modified(path: string): void {
+    this.version++;
+    this.metadata.delete(path);
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if ((IGNORE_FILE_NAMES as readonly string[]).includes(name)) {
+      this.directories.delete(parentPath(path));
+    }
+  }
+
+  /**
+   * An entry moved: drop what was indexed at its old path and list both directories again
+   */
+  moved(oldPath: string, newPath: string): void {
+    this.removed(oldPath);
+    this.added(newPath);
+  }
+
+  clear(): void {
+    this.version++;
+    this.directories.clear();
+    this.metadata.clear();
+  }
+}
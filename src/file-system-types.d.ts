@@ -9,6 +9,8 @@ interface FileSystemHandle {
   isSameEntry(other: FileSystemHandle): Promise<boolean>;
   queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
   requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  /** Not available in every browser, so check before calling */
+  move?(destination: FileSystemDirectoryHandle, newName: string): Promise<void>;
 }
 
 interface FileSystemFileHandle extends FileSystemHandle {
@@ -4,6 +4,9 @@
  */
 
 import { storageManager } from './storage';
+import { recentFolders } from './recentFolders';
+import { DirectoryIndex, IndexedDirectory, sameIgnoreFiles, UNOBSERVED_MAX_AGE_MS } from './directoryIndex';
+import { DEFAULT_IGNORE_RULES, IGNORE_FILE_NAMES, IgnoreRule, isIgnored, parseIgnoreFile } from './ignore';
 
 /**
  * TypeScript declarations for FileSystemObserver (experimental API)
@@ -60,14 +63,65 @@ export interface DirectoryEntry {
 
 export type FileSystemEntry = FileEntry | DirectoryEntry;
 
+/**
+ * A folder mounted in the workspace. Paths in the first (default) root have no
+ * prefix; paths in the other roots start with the root's name, e.g. `web:/src/app.ts`.
+ */
+export interface WorkspaceRoot {
+  name: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+/** Matches a path starting with a root name: `web:`, `web:/` or `web:/src/app.ts` */
+const ROOT_PREFIX_PATTERN = /^([A-Za-z0-9_-]+):(?:\/+(.*))?$/;
+
+/**
+ * Turn a folder name into a root name usable as a path prefix
+ */
+function toRootName(folderName: string): string {
+  return folderName.trim().replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'folder';
+}
+
+/**
+ * Content a file can be written with: text, or raw bytes for binary files
+ */
+export type FileContent = string | Uint8Array<ArrayBuffer>;
+
+/**
+ * Check whether content looks binary: a NUL byte within its first 8 KB
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 8192).includes(0);
+}
+
+export interface ListFilesOptions {
+  /** Only list entries below this directory */
+  path?: string;
+  /** Also list entries excluded by .gitignore and .codoignore rules */
+  includeIgnored?: boolean;
+  /** Only list entries this many levels below the starting directory (1 lists its direct children) */
+  maxDepth?: number;
+}
+
 export type FileSystemChangeCallback = (changes: FileSystemChangeRecord[]) => void;
 
+/**
+ * Callback run before a file is written, created or deleted through the manager
+ */
+export type BeforeFileChangeCallback = (path: string) => Promise<void>;
+
 export class FileSystemManager {
-  private rootHandle: FileSystemDirectoryHandle | null = null;
-  private rootPath: string = '';
+  private roots: WorkspaceRoot[] = [];
   private fileCache: Map<string, FileSystemEntry> = new Map();
+  /**
+   * Directory listings and file metadata, trusted while observing changes and for
+   * UNOBSERVED_MAX_AGE_MS otherwise; older listings are revalidated and only their
+   * ignore rules reused
+   */
+  private directoryIndex = new DirectoryIndex();
   private observer: FileSystemObserver | null = null;
   private changeCallback: FileSystemChangeCallback | null = null;
+  private beforeChangeCallback: BeforeFileChangeCallback | null = null;
 
   /**
    * Check if File System Access API is supported
@@ -90,6 +144,13 @@ export class FileSystemManager {
     return this.observer !== null;
   }
 
+  /**
+   * How old an indexed listing or metadata may be to be trusted without reading it again
+   */
+  private getIndexMaxAge(): number {
+    return this.isObserving() ? Infinity : UNOBSERVED_MAX_AGE_MS;
+  }
+
   /**
    * Set a callback to be notified of file system changes
    */
@@ -98,31 +159,147 @@ export class FileSystemManager {
   }
 
   /**
-   * Request user to select a directory
+   * Set a callback to run before each file write, create or delete,
+   * e.g. to snapshot the file's current content
+   */
+  setBeforeChangeCallback(callback: BeforeFileChangeCallback | null): void {
+    this.beforeChangeCallback = callback;
+  }
+
+  /**
+   * Request user to select a directory, replacing any mounted roots with it
    */
   async selectDirectory(): Promise<FileSystemDirectoryHandle> {
+    const handle = await this.pickDirectory();
+
+    this.roots = [{ name: toRootName(handle.name), handle }];
+    this.fileCache.clear();
+    this.directoryIndex.clear();
+    await this.saveRoots();
+    await this.rememberFolders(this.roots);
+
+    return handle;
+  }
+
+  /**
+   * Mount previously used folders in place of the current roots, requesting
+   * permission where it has lapsed. Must be called from a user gesture.
+   */
+  async openRoots(roots: WorkspaceRoot[]): Promise<void> {
+    const opened: WorkspaceRoot[] = [];
+    for (const root of roots) {
+      await this.requestAccess(root.handle);
+      let rootName = toRootName(root.name);
+      for (let suffix = 2; opened.some((other) => other.name === rootName); suffix++) {
+        rootName = `${toRootName(root.name)}-${suffix}`;
+      }
+      opened.push({ name: rootName, handle: root.handle });
+    }
+
+    this.roots = opened;
+    this.fileCache.clear();
+    this.directoryIndex.clear();
+    await this.saveRoots();
+    await this.rememberFolders(this.roots);
+  }
+
+  /**
+   * Mount a directory alongside the current roots: the given handle, requesting
+   * permission if it has lapsed, or else one the user picks
+   * @param name the root's path prefix; defaults to the folder's name, made unique
+   */
+  async addRoot(name?: string, directoryHandle?: FileSystemDirectoryHandle): Promise<WorkspaceRoot> {
+    const requestedName = name?.trim();
+    if (requestedName && !/^[A-Za-z0-9_-]+$/.test(requestedName)) {
+      throw new Error('Root names may only contain letters, digits, "-" and "_"');
+    }
+    if (requestedName && this.getRoot(requestedName)) {
+      throw new Error(`A root named "${requestedName}" is already mounted`);
+    }
+
+    let handle: FileSystemDirectoryHandle;
+    if (directoryHandle) {
+      await this.requestAccess(directoryHandle);
+      handle = directoryHandle;
+    } else {
+      handle = await this.pickDirectory();
+    }
+    for (const root of this.roots) {
+      if (await root.handle.isSameEntry(handle)) {
+        throw new Error(`This folder is already mounted as "${root.name}"`);
+      }
+    }
+
+    let rootName = requestedName || toRootName(handle.name);
+    for (let suffix = 2; this.getRoot(rootName); suffix++) {
+      rootName = `${toRootName(handle.name)}-${suffix}`;
+    }
+
+    const root: WorkspaceRoot = { name: rootName, handle };
+    this.roots.push(root);
+    await this.saveRoots();
+    await this.rememberFolders([root]);
+
+    if (this.observer) {
+      await this.observeRoot(root);
+    }
+    return root;
+  }
+
+  /**
+   * Unmount a root. Removing the default root makes the next root the default,
+   * so its paths lose their prefix.
+   */
+  async removeRoot(name: string): Promise<void> {
+    const root = this.getRoot(name);
+    if (!root) {
+      throw new Error(`Unknown workspace root "${name}"`);
+    }
+
+    this.roots = this.roots.filter((other) => other !== root);
+    this.fileCache.clear();
+    this.directoryIndex.clear();
+    this.observer?.unobserve(root.handle);
+    await this.saveRoots();
+  }
+
+  /**
+   * Get the mounted roots, the default root first
+   */
+  getRoots(): WorkspaceRoot[] {
+    return [...this.roots];
+  }
+
+  /**
+   * Get a mounted root by name
+   */
+  getRoot(name: string): WorkspaceRoot | null {
+    return this.roots.find((root) => root.name === name) ?? null;
+  }
+
+  /**
+   * Get the name of the root a path belongs to, or null if no root matches
+   */
+  getRootName(path: string): string | null {
+    try {
+      return this.locate(path).root.name;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Show the directory picker
+   */
+  private async pickDirectory(): Promise<FileSystemDirectoryHandle> {
     if (!this.isSupported()) {
       throw new Error('File System Access API is not supported in this browser');
     }
 
     try {
-      const handle = await window.showDirectoryPicker({
+      return await window.showDirectoryPicker({
         mode: 'readwrite',
       });
-
-      this.rootHandle = handle;
-      this.rootPath = handle.name;
-      this.fileCache.clear();
-
-      // Persist the directory handle to IndexedDB
-      try {
-        await storageManager.saveDirectoryHandle(handle);
-      } catch (saveError) {
-        console.warn('Failed to persist directory handle:', saveError);
-        // Don't throw - directory selection succeeded even if persistence failed
-      }
-
-      return handle;
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
         throw new Error('Directory selection was cancelled');
@@ -132,7 +309,43 @@ export class FileSystemManager {
   }
 
   /**
-   * Check if there's a saved directory handle in storage
+   * Make sure a directory handle has read/write permission, prompting if needed
+   */
+  private async requestAccess(handle: FileSystemDirectoryHandle): Promise<void> {
+    const options: FileSystemHandlePermissionDescriptor = { mode: 'readwrite' };
+    if (
+      (await handle.queryPermission(options)) !== 'granted' &&
+      (await handle.requestPermission(options)) !== 'granted'
+    ) {
+      throw new Error(`Permission denied to access "${handle.name}"`);
+    }
+  }
+
+  /**
+   * Move folders to the top of the recent folders list
+   */
+  private async rememberFolders(roots: WorkspaceRoot[]): Promise<void> {
+    try {
+      await recentFolders.record(roots);
+    } catch (error) {
+      console.warn('Failed to update recent folders:', error);
+    }
+  }
+
+  /**
+   * Persist the mounted roots to IndexedDB
+   */
+  private async saveRoots(): Promise<void> {
+    try {
+      await storageManager.saveWorkspaceRoots(this.roots);
+    } catch (saveError) {
+      console.warn('Failed to persist workspace roots:', saveError);
+      // Don't throw - the roots are mounted even if persistence failed
+    }
+  }
+
+  /**
+   * Check if there are saved roots in storage
    */
   async hasSavedDirectory(): Promise<boolean> {
     if (!this.isSupported()) {
@@ -140,8 +353,8 @@ export class FileSystemManager {
     }
 
     try {
-      const savedHandle = await storageManager.getDirectoryHandle();
-      return savedHandle !== null;
+      const savedRoots = await storageManager.getWorkspaceRoots();
+      return savedRoots.length > 0;
     } catch (error) {
       console.warn('Failed to check for saved directory:', error);
       return false;
@@ -149,111 +362,206 @@ export class FileSystemManager {
   }
 
   /**
-   * Restore a previously saved directory handle from IndexedDB
-   * Returns true if restoration was successful, false otherwise
+   * Restore the previously saved roots from IndexedDB.
+   * Roots whose permission was denied or whose folder is gone are forgotten;
+   * roots that need a permission prompt are left saved but not mounted.
+   * Returns true if at least one root was restored, false otherwise
    */
   async restoreDirectory(): Promise<boolean> {
     if (!this.isSupported()) {
       return false;
     }
 
+    let savedRoots: WorkspaceRoot[];
     try {
-      // Get the saved handle from storage
-      const savedHandle = await storageManager.getDirectoryHandle();
-      if (!savedHandle) {
-        return false;
-      }
+      savedRoots = await storageManager.getWorkspaceRoots();
+    } catch (error) {
+      console.warn('Failed to restore directory handles:', error);
+      return false;
+    }
 
-      // Verify we still have permission to access this directory
-      const permission = await savedHandle.queryPermission({ mode: 'readwrite' });
-
-      if (permission === 'granted') {
-        // We have permission, restore the handle
-        this.rootHandle = savedHandle;
-        this.rootPath = savedHandle.name;
-        this.fileCache.clear();
-        return true;
-      } else if (permission === 'prompt') {
-        // Permission needs to be requested, but we can't do that without a user gesture
-        // during auto-restore. Preserve the handle for later manual restoration.
-        // User will need to click "Select folder" which will trigger permission request.
-        return false;
-      } else if (permission === 'denied') {
-        // Permission was explicitly denied by the user
-        // Clean up the saved handle as it's no longer usable
-        await storageManager.deleteDirectoryHandle();
-        return false;
-      }
+    const restored: WorkspaceRoot[] = [];
+    const kept: WorkspaceRoot[] = [];
 
-      return false;
-    } catch (error) {
-      console.warn('Failed to restore directory handle:', error);
-
-      // Only clean up the handle if it's truly invalid (e.g., NotFoundError)
-      // Preserve it for other errors that might be transient
-      if (error instanceof DOMException && error.name === 'NotFoundError') {
-        try {
-          await storageManager.deleteDirectoryHandle();
-        } catch (deleteError) {
-          console.warn('Failed to clean up invalid handle:', deleteError);
+    for (const { name, handle } of savedRoots) {
+      // Folders saved before roots had names are named after the folder
+      const root: WorkspaceRoot = { name: toRootName(name), handle };
+      try {
+        // Verify we still have permission to access this directory
+        const permission = await root.handle.queryPermission({ mode: 'readwrite' });
+
+        if (permission === 'granted') {
+          restored.push(root);
+          kept.push(root);
+        } else if (permission === 'prompt') {
+          // Permission needs to be requested, but we can't do that without a user gesture
+          // during auto-restore. Preserve the handle; it can be re-granted from recent folders.
+          kept.push(root);
+        }
+        // Permission was explicitly denied by the user: the handle is no longer usable
+      } catch (error) {
+        console.warn(`Failed to restore directory handle for "${root.name}":`, error);
+
+        // Only drop the handle if it's truly invalid (e.g., NotFoundError)
+        // Preserve it for other errors that might be transient
+        if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+          kept.push(root);
         }
       }
+    }
+
+    if (kept.length !== savedRoots.length || kept.some((root, index) => root.name !== savedRoots[index]!.name)) {
+      try {
+        await storageManager.saveWorkspaceRoots(kept);
+      } catch (saveError) {
+        console.warn('Failed to clean up invalid handles:', saveError);
+      }
+    }
 
+    if (restored.length === 0) {
       return false;
     }
+
+    this.roots = restored;
+    this.fileCache.clear();
+    this.directoryIndex.clear();
+    await this.rememberFolders(this.roots);
+    return true;
   }
 
   /**
-   * Get the current root directory handle
+   * Get the default root's directory handle
    */
   getRootHandle(): FileSystemDirectoryHandle | null {
-    return this.rootHandle;
+    return this.roots[0]?.handle ?? null;
   }
 
   /**
-   * Get the root directory name/path
+   * Get the default root's folder name
    */
   getRootPath(): string {
-    return this.rootPath;
+    return this.roots[0]?.handle.name ?? '';
   }
 
   /**
-   * List all files and directories in the root directory (recursive)
+   * Normalize a path to the form entries use: no prefix for the default root,
+   * `name:/` for other roots, and no leading or trailing slashes.
+   * Paths naming an unknown root are returned unchanged.
    */
-  async listFiles(
-    directoryHandle: FileSystemDirectoryHandle = this.rootHandle!,
-    basePath: string = ''
-  ): Promise<FileSystemEntry[]> {
-    if (!this.rootHandle) {
+  normalizePath(path: string): string {
+    try {
+      const { relativePath, base } = this.locate(path);
+      return this.joinPath(base, relativePath);
+    } catch {
+      return path;
+    }
+  }
+
+  /**
+   * Find the root a path belongs to
+   * @returns the root, the path within it, and the path of the root's top directory
+   */
+  private locate(path: string): { root: WorkspaceRoot; relativePath: string; base: string } {
+    const defaultRoot = this.roots[0];
+    if (!defaultRoot) {
       throw new Error('No directory selected');
     }
 
+    const match = ROOT_PREFIX_PATTERN.exec(path);
+    const root = match ? this.getRoot(match[1]!) : defaultRoot;
+    if (!root) {
+      throw new Error(`Unknown workspace root "${match![1]}"`);
+    }
+
+    const relativePath = (match ? match[2] ?? '' : path).replace(/^\/+|\/+$/g, '');
+    return { root, relativePath, base: this.rootBase(root) };
+  }
+
+  /**
+   * Path of a root's top directory: empty for the default root, `name:` for the others
+   */
+  private rootBase(root: WorkspaceRoot): string {
+    return root === this.roots[0] ? '' : `${root.name}:`;
+  }
+
+  private joinPath(base: string, relativePath: string): string {
+    return base && relativePath ? `${base}/${relativePath}` : base || relativePath;
+  }
+
+  /**
+   * List files and directories recursively, from `options.path` or from every root,
+   * down to `options.maxDepth` levels.
+   * When listing every root, each root other than the default is listed as a
+   * directory named `name:` ahead of its contents.
+   * Entries matched by a root's `.codoignore` or by `.gitignore` files at any depth
+   * are skipped, along with everything inside ignored directories, unless
+   * `options.includeIgnored` is set.
+   * Directories listed before come from the index while changes are being observed,
+   * and for a few seconds after they were listed otherwise.
+   */
+  async listFiles(options: ListFilesOptions = {}): Promise<FileSystemEntry[]> {
+    const rules: IgnoreRule[] | null = options.includeIgnored ? null : DEFAULT_IGNORE_RULES;
+    const maxDepth = options.maxDepth ?? Infinity;
+    const { root, relativePath, base } = this.locate(options.path ?? '');
+
+    if (!options.path) {
+      const entries = await this.walkDirectory(root.handle, base, '', rules, maxDepth);
+      for (const other of this.roots.slice(1)) {
+        const otherBase = this.rootBase(other);
+        entries.push({ name: otherBase, path: otherBase, handle: other.handle, kind: 'directory' });
+        entries.push(...(await this.walkDirectory(other.handle, otherBase, '', rules, maxDepth - 1)));
+      }
+      return entries;
+    }
+
+    let directoryRules = rules;
+    let directoryHandle = root.handle;
+    let currentPath = '';
+
+    // Collect the ignore rules of each ancestor on the way down to the starting directory
+    for (const part of relativePath ? relativePath.split('/') : []) {
+      if (directoryRules) {
+        const directory = await this.readDirectory(directoryHandle, base, currentPath);
+        directoryRules = [...directoryRules, ...directory.rules];
+      }
+      directoryHandle = await directoryHandle.getDirectoryHandle(part);
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+    }
+
+    return this.walkDirectory(directoryHandle, base, relativePath, directoryRules, maxDepth);
+  }
+
+  /**
+   * Recursively list a directory down to `depth` levels, caching every entry found.
+   * `relativePath` is the directory's path within the root whose top directory is `base`.
+   * `rules` is null when ignore files should not be honoured.
+   */
+  private async walkDirectory(
+    directoryHandle: FileSystemDirectoryHandle,
+    base: string,
+    relativePath: string,
+    rules: IgnoreRule[] | null,
+    depth: number
+  ): Promise<FileSystemEntry[]> {
+    if (depth < 1) {
+      return [];
+    }
+
     const entries: FileSystemEntry[] = [];
+    const directory = await this.readDirectory(directoryHandle, base, relativePath);
+    const directoryRules = rules && [...rules, ...directory.rules];
 
-    for await (const [name, handle] of directoryHandle.entries()) {
-      const path = basePath ? `${basePath}/${name}` : name;
-
-      if (handle.kind === 'file') {
-        const entry: FileEntry = {
-          name,
-          path,
-          handle: handle as FileSystemFileHandle,
-          kind: 'file',
-        };
-        entries.push(entry);
-        this.fileCache.set(path, entry);
-      } else if (handle.kind === 'directory') {
-        const entry: DirectoryEntry = {
-          name,
-          path,
-          handle: handle as FileSystemDirectoryHandle,
-          kind: 'directory',
-        };
-        entries.push(entry);
-        this.fileCache.set(path, entry);
+    for (const entry of directory.entries) {
+      const childPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+      if (directoryRules && isIgnored(childPath, entry.kind === 'directory', directoryRules)) {
+        continue;
+      }
 
+      entries.push(entry);
+      if (entry.kind === 'directory') {
         // Recursively list subdirectory contents
-        const subEntries = await this.listFiles(handle as FileSystemDirectoryHandle, path);
+        const subEntries = await this.walkDirectory(entry.handle, base, childPath, directoryRules, depth - 1);
         entries.push(...subEntries);
       }
     }
@@ -262,51 +570,239 @@ export class FileSystemManager {
   }
 
   /**
-   * Read file contents
+   * Get a directory's children and ignore rules, from the index while observing
+   * changes or if indexed recently, otherwise by reading the directory and reusing
+   * the indexed rules if its ignore files are unchanged. Every child is cached.
    */
-  async readFile(path: string): Promise<string> {
-    const entry = this.fileCache.get(path);
+  private async readDirectory(
+    directoryHandle: FileSystemDirectoryHandle,
+    base: string,
+    relativePath: string
+  ): Promise<IndexedDirectory> {
+    const path = this.joinPath(base, relativePath);
+    const fresh = this.directoryIndex.getDirectory(path, this.getIndexMaxAge());
+    if (fresh) {
+      return fresh;
+    }
+    const indexed = this.directoryIndex.getDirectory(path);
+
+    const version = this.directoryIndex.getVersion();
+    const entries: FileSystemEntry[] = [];
+    for await (const [name, handle] of directoryHandle.entries()) {
+      const childPath = this.joinPath(path, name);
+      const entry: FileSystemEntry =
+        handle.kind === 'file'
+          ? { name, path: childPath, handle: handle as FileSystemFileHandle, kind: 'file' }
+          : { name, path: childPath, handle: handle as FileSystemDirectoryHandle, kind: 'directory' };
+      entries.push(entry);
+      this.fileCache.set(childPath, entry);
+    }
+
+    const ignoreFiles: File[] = [];
+    const names: readonly string[] = relativePath === '' ? IGNORE_FILE_NAMES : ['.gitignore'];
+    for (const name of names) {
+      const entry = entries.find((candidate) => candidate.name === name);
+      if (entry?.kind === 'file') {
+        ignoreFiles.push(await entry.handle.getFile());
+      }
+    }
+
+    const stamps = ignoreFiles.map(({ name, size, lastModified }) => ({ name, size, lastModified }));
+    const rules =
+      indexed && sameIgnoreFiles(indexed.ignoreFiles, stamps)
+        ? indexed.rules
+        : await this.readIgnoreRules(ignoreFiles, relativePath);
+
+    const directory: IndexedDirectory = { entries, rules, ignoreFiles: stamps };
+    this.directoryIndex.setDirectory(path, directory, version);
+    return directory;
+  }
+
+  /**
+   * Parse a directory's ignore files: its `.gitignore`, plus `.codoignore` at a root.
+   * `path` is the directory's path within its root.
+   */
+  private async readIgnoreRules(files: File[], path: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+    for (const file of files) {
+      rules.push(...parseIgnoreFile(await file.text(), path));
+    }
+    return rules;
+  }
+
+  /**
+   * Look up an entry by path. Paths that aren't cached, such as files skipped
+   * by ignore rules, are resolved through the directory handles.
+   */
+  async resolvePath(path: string): Promise<FileSystemEntry | null> {
+    const cached = this.fileCache.get(path);
+    if (cached) {
+      return cached;
+    }
+
+    let location: ReturnType<FileSystemManager['locate']>;
+    try {
+      location = this.locate(path);
+    } catch {
+      return null;
+    }
+    const { root, relativePath, base } = location;
+
+    const pathParts = relativePath.split('/').filter(Boolean);
+    const name = pathParts.pop();
+    if (!name) {
+      // The top directory of a root other than the default one
+      return base ? { name: base, path: base, handle: root.handle, kind: 'directory' } : null;
+    }
+    const normalizedPath = this.joinPath(base, [...pathParts, name].join('/'));
+
+    try {
+      let dirHandle = root.handle;
+      for (const part of pathParts) {
+        dirHandle = await dirHandle.getDirectoryHandle(part);
+      }
+
+      let entry: FileSystemEntry;
+      try {
+        entry = { name, path: normalizedPath, handle: await dirHandle.getFileHandle(name), kind: 'file' };
+      } catch {
+        entry = { name, path: normalizedPath, handle: await dirHandle.getDirectoryHandle(name), kind: 'directory' };
+      }
+      this.fileCache.set(normalizedPath, entry);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a file entry, throwing if the path is missing or is a directory
+   */
+  private async getFileEntry(path: string): Promise<FileEntry> {
+    const entry = await this.resolvePath(path);
     if (!entry || entry.kind !== 'file') {
       throw new Error(`File not found: ${path}`);
     }
+    return entry;
+  }
 
+  /**
+   * Read file contents
+   */
+  async readFile(path: string): Promise<string> {
+    const entry = await this.getFileEntry(path);
     const file = await entry.handle.getFile();
     return await file.text();
   }
 
+  /**
+   * Read a file's raw bytes, for binary files that text decoding would corrupt
+   */
+  async readFileBytes(path: string): Promise<Uint8Array<ArrayBuffer>> {
+    const entry = await this.getFileEntry(path);
+    const file = await entry.handle.getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  /**
+   * Open a file's contents as a byte stream, for reading large files incrementally
+   */
+  async readFileStream(path: string): Promise<ReadableStream<Uint8Array>> {
+    const entry = await this.getFileEntry(path);
+    const file = await entry.handle.getFile();
+    return file.stream();
+  }
+
+  /**
+   * Check whether a file looks binary, reading only its first 8 KB
+   */
+  async isBinaryFile(path: string): Promise<boolean> {
+    const entry = await this.getFileEntry(path);
+    const file = await entry.handle.getFile();
+    return isBinaryContent(new Uint8Array(await file.slice(0, 8192).arrayBuffer()));
+  }
+
   /**
    * Write content to a file
    */
   async writeFile(path: string, content: string): Promise<void> {
-    const entry = this.fileCache.get(path);
-    if (!entry || entry.kind !== 'file') {
-      throw new Error(`File not found: ${path}`);
-    }
+    await this.writeContent(path, content);
+  }
 
+  /**
+   * Write raw bytes to a file
+   */
+  async writeFileBytes(path: string, data: Uint8Array<ArrayBuffer>): Promise<void> {
+    await this.writeContent(path, data);
+  }
+
+  private async writeContent(path: string, content: FileContent): Promise<void> {
+    const entry = await this.getFileEntry(path);
+    await this.beforeChangeCallback?.(entry.path);
     const writable = await entry.handle.createWritable();
     await writable.write(content);
     await writable.close();
+    this.directoryIndex.modified(entry.path);
   }
 
   /**
-   * Create a new file
+   * Create a new file, overwriting any existing file
    * Note: Both the created file and any parent directories are added to the cache.
    */
-  async createFile(path: string, content: string = ''): Promise<FileEntry> {
-    if (!this.rootHandle) {
-      throw new Error('No directory selected');
+  async createFile(path: string, content: FileContent = ''): Promise<FileEntry> {
+    const { relativePath, base } = this.locate(path);
+    const normalizedPath = this.joinPath(base, relativePath);
+    await this.beforeChangeCallback?.(normalizedPath);
+
+    const entry = await this.createFileEntry(normalizedPath);
+
+    // Write initial content
+    const writable = await entry.handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    this.directoryIndex.modified(entry.path);
+
+    return entry;
+  }
+
+  /**
+   * Get or create a file's handle, creating parent directories as needed, and cache it
+   */
+  private async createFileEntry(path: string): Promise<FileEntry> {
+    const { relativePath, base } = this.locate(path);
+    const fileName = relativePath.split('/').pop()!;
+    if (!fileName) {
+      throw new Error(`Invalid file path: ${path}`);
     }
+    const dirHandle = await this.createParentDirectories(path);
+    const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
 
-    const pathParts = path.split('/');
-    const fileName = pathParts.pop()!;
+    const entry: FileEntry = {
+      name: fileName,
+      path: this.joinPath(base, relativePath),
+      handle: fileHandle,
+      kind: 'file',
+    };
 
-    let dirHandle = this.rootHandle;
-    let currentPath = '';
+    this.fileCache.set(entry.path, entry);
+    this.directoryIndex.added(entry.path);
+    return entry;
+  }
+
+  /**
+   * Get the handle of the directory containing a path, creating and caching
+   * any missing directories on the way
+   */
+  private async createParentDirectories(path: string): Promise<FileSystemDirectoryHandle> {
+    const { root, relativePath, base } = this.locate(path);
+    let dirHandle = root.handle;
+    let currentPath = base;
 
     // Navigate to the directory (create if needed) and cache any created directories
-    for (const part of pathParts) {
-      currentPath = currentPath ? `${currentPath}/${part}` : part;
+    for (const part of relativePath.split('/').slice(0, -1)) {
+      currentPath = this.joinPath(currentPath, part);
       dirHandle = await dirHandle.getDirectoryHandle(part, { create: true });
+      this.directoryIndex.added(currentPath);
 
       // Cache the directory if not already cached
       if (!this.fileCache.has(currentPath)) {
@@ -320,60 +816,51 @@ export class FileSystemManager {
       }
     }
 
-    const fileHandle = await dirHandle.getFileHandle(fileName, { create: true });
-
-    // Write initial content
-    const writable = await fileHandle.createWritable();
-    await writable.write(content);
-    await writable.close();
-
-    const entry: FileEntry = {
-      name: fileName,
-      path,
-      handle: fileHandle,
-      kind: 'file',
-    };
-
-    this.fileCache.set(path, entry);
-    return entry;
+    return dirHandle;
   }
 
   /**
    * Delete a file
    */
   async deleteFile(path: string): Promise<void> {
-    if (!this.rootHandle) {
-      throw new Error('No directory selected');
-    }
-
-    const pathParts = path.split('/');
-    const fileName = pathParts.pop()!;
-    const dirPath = pathParts.join('/');
-
-    let dirHandle = this.rootHandle;
+    const { relativePath, base } = this.locate(path);
+    const normalizedPath = this.joinPath(base, relativePath);
+    await this.beforeChangeCallback?.(normalizedPath);
 
     // Navigate to the directory
-    if (dirPath) {
-      for (const part of pathParts) {
-        dirHandle = await dirHandle.getDirectoryHandle(part);
-      }
-    }
+    const dirHandle = await this.getParentHandle(normalizedPath);
 
-    await dirHandle.removeEntry(fileName);
-    this.fileCache.delete(path);
+    await dirHandle.removeEntry(relativePath.split('/').pop()!);
+    this.fileCache.delete(normalizedPath);
+    this.directoryIndex.removed(normalizedPath);
   }
 
   /**
    * Rename/move a file
-   * Uses a safe approach: create new file, then delete old file
-   * If deletion fails, cleans up the new file to prevent duplicates
+   * Uses the native FileSystemHandle.move() where the browser supports it.
+   * Otherwise copies the file, checks the copy has the same byte length, then
+   * deletes the old file; if deletion fails, cleans up the new file to prevent duplicates
    */
   async renameFile(oldPath: string, newPath: string): Promise<void> {
-    // Read the file content first
-    const content = await this.readFile(oldPath);
+    const entry = await this.getFileEntry(oldPath);
+    if (await this.moveEntry(entry, newPath, [entry.path])) {
+      return;
+    }
 
-    // Create new file with the content
-    await this.createFile(newPath, content);
+    const size = (await entry.handle.getFile()).size;
+    const copy = await this.copyFile(oldPath, newPath);
+    const copiedSize = (await copy.handle.getFile()).size;
+    if (copiedSize !== size) {
+      try {
+        await this.deleteFile(newPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw new Error(
+        `Failed to complete rename: the copy of "${oldPath}" has ${copiedSize} of ${size} bytes, ` +
+          'so the original was kept'
+      );
+    }
 
     // Try to delete the old file
     try {
@@ -401,41 +888,45 @@ export class FileSystemManager {
     lastModified: number;
     type: string;
   }> {
-    const entry = this.fileCache.get(path);
-    if (!entry || entry.kind !== 'file') {
-      throw new Error(`File not found: ${path}`);
+    const entry = await this.getFileEntry(path);
+    const indexed = this.directoryIndex.getMetadata(entry.path, this.getIndexMaxAge());
+    if (indexed) {
+      return { ...indexed };
     }
 
+    const version = this.directoryIndex.getVersion();
     const file = await entry.handle.getFile();
-    return {
+    const metadata = {
       name: file.name,
       size: file.size,
       lastModified: file.lastModified,
       type: file.type,
     };
+    this.directoryIndex.setMetadata(entry.path, { ...metadata }, version);
+    return metadata;
   }
 
   /**
-   * Check if we have permission to access the directory
+   * Check if we have permission to access every root
    */
   async verifyPermission(mode: 'read' | 'readwrite' = 'readwrite'): Promise<boolean> {
-    if (!this.rootHandle) {
+    if (this.roots.length === 0) {
       return false;
     }
 
     const options: FileSystemHandlePermissionDescriptor = { mode };
 
-    // Check if permission was already granted
-    if ((await this.rootHandle.queryPermission(options)) === 'granted') {
-      return true;
-    }
-
-    // Request permission
-    if ((await this.rootHandle.requestPermission(options)) === 'granted') {
-      return true;
+    for (const root of this.roots) {
+      // Check if permission was already granted, otherwise request it
+      if (
+        (await root.handle.queryPermission(options)) !== 'granted' &&
+        (await root.handle.requestPermission(options)) !== 'granted'
+      ) {
+        return false;
+      }
     }
 
-    return false;
+    return true;
   }
 
   /**
@@ -453,37 +944,35 @@ export class FileSystemManager {
    * Create a directory (and any parent directories if needed)
    */
   async createDirectory(path: string): Promise<DirectoryEntry> {
-    if (!this.rootHandle) {
-      throw new Error('No directory selected');
-    }
-
     // Validate path is not empty or whitespace-only
     const trimmedPath = path.trim();
     if (!trimmedPath) {
       throw new Error('Invalid directory path: path cannot be empty or whitespace-only');
     }
 
-    const pathParts = trimmedPath.split('/').filter((part) => part.length > 0);
+    const { root, relativePath, base } = this.locate(trimmedPath);
+    const pathParts = relativePath.split('/').filter((part) => part.length > 0);
     if (pathParts.length === 0) {
       throw new Error('Invalid directory path: path contains only slashes');
     }
 
     // Check if a file already exists at any path segment
-    let checkPath = '';
+    let checkPath = base;
     for (const part of pathParts) {
-      checkPath = checkPath ? `${checkPath}/${part}` : part;
+      checkPath = this.joinPath(checkPath, part);
       const existingEntry = this.fileCache.get(checkPath);
       if (existingEntry && existingEntry.kind === 'file') {
         throw new Error(`Cannot create directory: a file already exists at "${checkPath}"`);
       }
     }
 
-    let dirHandle = this.rootHandle;
-    let currentPath = '';
+    let dirHandle = root.handle;
+    let currentPath = base;
 
     for (const part of pathParts) {
-      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      currentPath = this.joinPath(currentPath, part);
       dirHandle = await dirHandle.getDirectoryHandle(part, { create: true });
+      this.directoryIndex.added(currentPath);
 
       // Cache the directory
       if (!this.fileCache.has(currentPath)) {
@@ -497,21 +986,228 @@ export class FileSystemManager {
       }
     }
 
-    const entry = this.fileCache.get(trimmedPath) as DirectoryEntry;
+    const entry = this.fileCache.get(currentPath) as DirectoryEntry;
     return entry;
   }
 
   /**
-   * Copy a file to a new location
+   * Copy a file to a new location, streaming its bytes so binary files are copied intact
    */
   async copyFile(sourcePath: string, destinationPath: string): Promise<FileEntry> {
-    // Read the source file content
-    const content = await this.readFile(sourcePath);
+    const destination = this.normalizePath(destinationPath);
+    if (this.normalizePath(sourcePath) === destination) {
+      throw new Error(`Source and destination are the same file: "${sourcePath}"`);
+    }
+    const source = await (await this.getFileEntry(sourcePath)).handle.getFile();
+    await this.beforeChangeCallback?.(destination);
+
+    const entry = await this.createFileEntry(destination);
+    const writable = await entry.handle.createWritable();
+    // pipeTo closes the writable once every chunk is written
+    await source.stream().pipeTo(writable);
 
-    // Create the destination file with the same content
-    const newEntry = await this.createFile(destinationPath, content);
+    return entry;
+  }
+
+  /**
+   * Delete a directory. Unless `recursive` is set, the directory must be empty.
+   * Every file inside is passed to the before-change callback first, and the
+   * directory and everything below it are dropped from the cache.
+   */
+  async deleteDirectory(path: string, recursive: boolean = false): Promise<void> {
+    const entry = await this.getDirectoryEntry(path);
+    const contents = await this.listFiles({ path: entry.path, includeIgnored: true });
+    if (contents.length > 0 && !recursive) {
+      throw new Error(`Directory not empty: ${entry.path}`);
+    }
+
+    for (const item of contents) {
+      if (item.kind === 'file') {
+        await this.beforeChangeCallback?.(item.path);
+      }
+    }
+
+    const parentHandle = await this.getParentHandle(entry.path);
+    await parentHandle.removeEntry(entry.name, { recursive });
+    this.removeFromCache(entry.path);
+    this.directoryIndex.removed(entry.path);
+  }
+
+  /**
+   * Copy a directory and everything in it, including ignored files.
+   * The destination must not exist; a partial copy is removed if any file fails.
+   * @returns the number of files and directories created
+   */
+  async copyDirectory(
+    sourcePath: string,
+    destinationPath: string
+  ): Promise<{ files: number; directories: number }> {
+    const source = await this.getDirectoryEntry(sourcePath);
+    const destination = await this.checkDirectoryDestination(source, destinationPath);
+
+    const contents = await this.listFiles({ path: source.path, includeIgnored: true });
+    await this.createDirectory(destination);
+    const counts = { files: 0, directories: 1 };
+
+    try {
+      // Directories are listed before their contents, so parents are created first
+      for (const item of contents) {
+        const target = destination + item.path.slice(source.path.length);
+        if (item.kind === 'directory') {
+          await this.createDirectory(target);
+          counts.directories++;
+        } else {
+          await this.copyFile(item.path, target);
+          counts.files++;
+        }
+      }
+    } catch (error) {
+      try {
+        await this.deleteDirectory(destination, true);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw error;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Move a directory with the native FileSystemHandle.move() where supported,
+   * otherwise by copying it, then deleting the original
+   * If deletion fails, cleans up the copy to prevent duplicates
+   * @returns the number of files and directories moved
+   */
+  async moveDirectory(
+    sourcePath: string,
+    destinationPath: string
+  ): Promise<{ files: number; directories: number }> {
+    const source = await this.getDirectoryEntry(sourcePath);
+    if (!this.locate(source.path).relativePath) {
+      throw new Error(`Cannot move the workspace root "${sourcePath}"`);
+    }
+    const destination = await this.checkDirectoryDestination(source, destinationPath);
+    const contents = await this.listFiles({ path: source.path, includeIgnored: true });
+    const files = contents.filter((item) => item.kind === 'file').map((item) => item.path);
+
+    if (await this.moveEntry(source, destination, files)) {
+      return { files: files.length, directories: contents.length - files.length + 1 };
+    }
+
+    const counts = await this.copyDirectory(sourcePath, destinationPath);
+
+    try {
+      await this.deleteDirectory(sourcePath, true);
+    } catch (deleteError) {
+      try {
+        await this.deleteDirectory(destinationPath, true);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw new Error(
+        `Failed to complete move: could not delete original directory "${sourcePath}". ` +
+          `Error: ${(deleteError as Error).message}`
+      );
+    }
+
+    return counts;
+  }
+
+  /**
+   * Check a directory can be copied or moved to a path: it must not exist or be inside the source
+   * @returns the normalized destination path
+   */
+  private async checkDirectoryDestination(source: DirectoryEntry, destinationPath: string): Promise<string> {
+    const destination = this.normalizePath(destinationPath);
+    if (destination === source.path || destination.startsWith(`${source.path}/`)) {
+      throw new Error(`Cannot copy or move "${source.path}" into itself`);
+    }
+    if (await this.resolvePath(destination)) {
+      throw new Error(`Destination already exists: ${destination}`);
+    }
+    return destination;
+  }
+
+  /**
+   * Move an entry with the native FileSystemHandle.move(), keeping the cache in step.
+   * `files` are the file paths being moved, passed to the before-change callback at
+   * both their old and new locations.
+   * @returns false if the browser can't move the handle, so the caller should copy instead
+   */
+  private async moveEntry(entry: FileSystemEntry, newPath: string, files: string[]): Promise<boolean> {
+    if (typeof entry.handle.move !== 'function') {
+      return false;
+    }
+
+    const { relativePath, base } = this.locate(newPath);
+    const destination = this.joinPath(base, relativePath);
+    const name = relativePath.split('/').pop();
+    if (!name) {
+      throw new Error(`Invalid destination path: ${newPath}`);
+    }
+    if (destination === entry.path) {
+      throw new Error(`Source and destination are the same: "${entry.path}"`);
+    }
+
+    for (const path of files) {
+      await this.beforeChangeCallback?.(path);
+      await this.beforeChangeCallback?.(destination + path.slice(entry.path.length));
+    }
 
-    return newEntry;
+    const parentHandle = await this.createParentDirectories(destination);
+    try {
+      await entry.handle.move(parentHandle, name);
+    } catch (error) {
+      if ((error as DOMException).name === 'NotSupportedError') {
+        return false;
+      }
+      throw error;
+    }
+
+    // The handle now points at the new location; entries below a moved directory are re-listed on demand
+    this.removeFromCache(entry.path);
+    this.fileCache.set(destination, { ...entry, name, path: destination });
+    this.directoryIndex.moved(entry.path, destination);
+    return true;
+  }
+
+  /**
+   * Resolve a directory entry, throwing if the path is missing or is a file
+   */
+  private async getDirectoryEntry(path: string): Promise<DirectoryEntry> {
+    const entry = await this.resolvePath(path);
+    if (!entry || entry.kind !== 'directory') {
+      throw new Error(`Directory not found: ${path}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Get the handle of the directory containing a path
+   */
+  private async getParentHandle(path: string): Promise<FileSystemDirectoryHandle> {
+    const { root, relativePath } = this.locate(path);
+    if (!relativePath) {
+      throw new Error(`Cannot change the top directory of workspace root "${root.name}"`);
+    }
+
+    let dirHandle = root.handle;
+    for (const part of relativePath.split('/').slice(0, -1)) {
+      dirHandle = await dirHandle.getDirectoryHandle(part);
+    }
+    return dirHandle;
+  }
+
+  /**
+   * Drop a path and everything below it from the cache
+   */
+  private removeFromCache(path: string): void {
+    for (const cachedPath of this.fileCache.keys()) {
+      if (cachedPath === path || cachedPath.startsWith(`${path}/`)) {
+        this.fileCache.delete(cachedPath);
+      }
+    }
   }
 
   /**
@@ -545,10 +1241,10 @@ export class FileSystemManager {
   }
 
   /**
-   * Start observing the root directory for changes
+   * Start observing every root for changes
    */
   async startObserving(): Promise<boolean> {
-    if (!this.rootHandle) {
+    if (this.roots.length === 0) {
       console.warn('Cannot start observing: no root directory selected');
       return false;
     }
@@ -561,15 +1257,18 @@ export class FileSystemManager {
     try {
       // Stop any existing observer
       this.stopObserving();
+      // Listings indexed while unobserved may have gone stale since they were read
+      this.directoryIndex.clear();
 
       // Create new observer
       this.observer = new FileSystemObserver((records) => {
         this.handleFileSystemChanges(records);
       });
 
-      // Start observing the root directory recursively
-      await this.observer.observe(this.rootHandle, { recursive: true });
-      console.info('FileSystemObserver started for:', this.rootPath);
+      // Start observing each root recursively
+      for (const root of this.roots) {
+        await this.observeRoot(root);
+      }
       return true;
     } catch (error) {
       console.error('Failed to start FileSystemObserver:', error);
@@ -577,6 +1276,11 @@ export class FileSystemManager {
     }
   }
 
+  private async observeRoot(root: WorkspaceRoot): Promise<void> {
+    await this.observer!.observe(root.handle, { recursive: true });
+    console.info('FileSystemObserver started for:', root.name);
+  }
+
   /**
    * Stop observing file system changes
    */
@@ -584,42 +1288,49 @@ export class FileSystemManager {
     if (this.observer) {
       this.observer.disconnect();
       this.observer = null;
+      // Changes are no longer seen, so listings are revalidated from now on
       console.info('FileSystemObserver stopped');
     }
   }
 
   /**
-   * Handle file system change events
+   * Handle file system change events, updating the cache and index before
+   * notifying the change callback
    */
   private handleFileSystemChanges(records: FileSystemChangeRecord[]): void {
     console.log('File system changes detected:', records);
 
-    // Notify callback if set
-    if (this.changeCallback) {
-      this.changeCallback(records);
-    }
-
     // Update cache based on change types
     for (const record of records) {
-      const path = record.relativePathComponents.join('/');
+      const root = this.roots.find((candidate) => candidate.handle === record.root);
+      if (!root) {
+        continue;
+      }
+      const base = this.rootBase(root);
+      const path = this.joinPath(base, record.relativePathComponents.join('/'));
 
       switch (record.type) {
         case 'disappeared':
           // Remove from cache
           this.fileCache.delete(path);
+          this.directoryIndex.removed(path);
           break;
 
         case 'appeared':
+          // The parent directory is listed again on next use
+          this.directoryIndex.added(path);
+          break;
+
         case 'modified':
-          // Cache will be updated on next listFiles() call
-          // or we could proactively update it here
+          this.directoryIndex.modified(path);
           break;
 
         case 'moved':
           // Handle file/directory move
           if (record.relativePathMovedFrom && record.relativePathComponents.length > 0) {
-            const oldPath = record.relativePathMovedFrom.join('/');
+            const oldPath = this.joinPath(base, record.relativePathMovedFrom.join('/'));
             const oldEntry = this.fileCache.get(oldPath);
+            this.directoryIndex.moved(oldPath, path);
 
             // Remove old entry
             this.fileCache.delete(oldPath);
@@ -652,9 +1363,15 @@ export class FileSystemManager {
           // Clear cache and let it be rebuilt
           console.warn('FileSystemObserver encountered unknown/error event, clearing cache');
           this.fileCache.clear();
+          this.directoryIndex.clear();
           break;
       }
     }
+
+    // Notify callback if set
+    if (this.changeCallback) {
+      this.changeCallback(records);
+    }
   }
 
   /**
@@ -663,15 +1380,16 @@ export class FileSystemManager {
   async reset(): Promise<void> {
     this.stopObserving();
     this.changeCallback = null;
-    this.rootHandle = null;
-    this.rootPath = '';
+    this.beforeChangeCallback = null;
+    this.roots = [];
     this.fileCache.clear();
+    this.directoryIndex.clear();
 
-    // Clean up saved directory handle
+    // Clean up saved directory handles
     try {
-      await storageManager.deleteDirectoryHandle();
+      await storageManager.saveWorkspaceRoots([]);
     } catch (error) {
-      console.warn('Failed to clean up saved directory handle:', error);
+      console.warn('Failed to clean up saved directory handles:', error);
     }
   }
 }
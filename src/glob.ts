@@ -0,0 +1,122 @@
+/**
+ * Glob pattern matching
+ * Converts shell-style glob patterns into regular expressions for path filtering
+ *
+ * Supported syntax:
+ * - `*` matches any characters except `/`
+ * - `**` matches any characters including `/` (`**\/` also matches zero directories)
+ * - `?` matches a single character except `/`
+ * - `[abc]`, `[a-z]`, `[!abc]` character classes
+ * - `{a,b}` alternation
+ * - `\` escapes the next character
+ */
+
+const REGEX_SPECIAL_CHARS = /[.+^${}()|[\]\\/]/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(REGEX_SPECIAL_CHARS, '\\$&');
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let groupDepth = 0;
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i]!;
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          // '**/' matches zero or more leading directories
+          source += '(?:.*/)?';
+          i += 3;
+        } else {
+          source += '.*';
+          i += 2;
+        }
+      } else {
+        source += '[^/]*';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        i++;
+        continue;
+      }
+      let charClass = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (charClass.startsWith('!')) {
+        charClass = '^' + charClass.slice(1);
+      }
+      source += `[${charClass}]`;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      groupDepth++;
+      source += '(?:';
+      i++;
+      continue;
+    }
+
+    if (char === '}' && groupDepth > 0) {
+      groupDepth--;
+      source += ')';
+      i++;
+      continue;
+    }
+
+    if (char === ',' && groupDepth > 0) {
+      source += '|';
+      i++;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]!);
+      i += 2;
+      continue;
+    }
+
+    source += escapeRegExp(char);
+    i++;
+  }
+
+  // Close any unterminated alternation groups
+  source += ')'.repeat(groupDepth);
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a relative path matches a glob pattern.
+ *
+ * Patterns without a slash match the file or directory name at any depth
+ * (e.g. `*.json`), patterns with a slash match the whole relative path
+ * (e.g. `src/**\/*.ts`).
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalizedGlob = glob.replace(/^\.?\//, '');
+
+  if (!normalizedGlob.includes('/')) {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    return globToRegExp(normalizedGlob).test(name);
+  }
+
+  return globToRegExp(normalizedGlob).test(path);
+}
@@ -0,0 +1,90 @@
+/**
+ * Ignore rules
+ * Parses .gitignore-style files so listing and search can skip ignored paths
+ *
+ * Supported syntax:
+ * - blank lines and `#` comments are skipped (`\#` matches a literal `#`)
+ * - `!pattern` re-includes a path excluded by an earlier rule
+ * - a trailing `/` only matches directories
+ * - a leading or middle `/` anchors the pattern to the ignore file's directory,
+ *   otherwise it matches a name at any depth below it
+ * - glob syntax as supported by `globToRegExp`
+ */
+
+import { globToRegExp } from './glob';
+
+/**
+ * Ignore files read from the root directory; nested directories only use `.gitignore`
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.codoignore'] as const;
+
+export interface IgnoreRule {
+  /** Directory of the ignore file the rule came from, relative to the root ('' for the root) */
+  base: string;
+  /** Matches paths relative to `base` */
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parse the contents of an ignore file located in the `base` directory
+ */
+export function parseIgnoreFile(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    // Trailing whitespace is dropped unless escaped with a backslash
+    let line = rawLine.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    if (line === '') continue;
+
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+
+    rules.push({
+      base,
+      pattern: globToRegExp(anchored ? line : `**/${line}`),
+      negate,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Rules applied whenever ignore files are honoured, before any ignore file is read
+ */
+export const DEFAULT_IGNORE_RULES: IgnoreRule[] = parseIgnoreFile('.git/');
+
+/**
+ * Check whether a path is ignored. The last matching rule wins, so rules must be
+ * ordered from the outermost ignore file to the innermost.
+ *
+ * Only the path itself is tested: callers walking a directory tree skip
+ * ignored directories rather than testing everything inside them.
+ */
+export function isIgnored(path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.pattern.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
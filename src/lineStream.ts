@@ -0,0 +1,131 @@
+/**
+ * Line streams
+ * Async iterables of lines used to stream text through the pipe tool
+ *
+ * A stream holds exactly the lines `text.split('\n')` would produce, so
+ * joining it with '\n' gives back the original text, including a final newline.
+ */
+
+export type LineStream = AsyncIterable<string>;
+
+/**
+ * Stream the lines of an in-memory string
+ */
+export async function* linesFromText(text: string): LineStream {
+  yield* text.split('\n');
+}
+
+/**
+ * Stream the lines of a UTF-8 byte stream, such as `File.stream()`.
+ * The reader is cancelled if the consumer stops early.
+ */
+export async function* linesFromStream(stream: ReadableStream<Uint8Array>): LineStream {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      pending += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline = pending.indexOf('\n');
+      while (newline !== -1) {
+        yield pending.slice(0, newline);
+        pending = pending.slice(newline + 1);
+        newline = pending.indexOf('\n');
+      }
+
+      if (done) break;
+    }
+    yield pending;
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Stream the lines of several streams one after another, like joining their text with '\n'
+ */
+export async function* concatLines(streams: LineStream[]): LineStream {
+  for (const lines of streams) {
+    yield* lines;
+  }
+}
+
+/**
+ * Drop the empty line left at the end of the stream by a final newline
+ */
+export async function* dropTrailingEmptyLine(lines: LineStream): LineStream {
+  let heldEmpty = false;
+
+  for await (const line of lines) {
+    if (heldEmpty) {
+      yield '';
+      heldEmpty = false;
+    }
+    if (line === '') {
+      heldEmpty = true;
+    } else {
+      yield line;
+    }
+  }
+}
+
+/**
+ * Read a whole stream into an array of lines
+ */
+export async function collectLines(lines: LineStream): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const line of lines) {
+    collected.push(line);
+  }
+  return collected;
+}
+
+/**
+ * Read a whole stream back into a string
+ */
+export async function joinLines(lines: LineStream): Promise<string> {
+  return (await collectLines(lines)).join('\n');
+}
+
+/**
+ * Count the UTF-8 encoded size of a string without encoding it
+ */
+function utf8ByteLength(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code < 0xdc00) {
+      // Surrogate pair
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Pass lines through, throwing once more than maxBytes of text have gone by.
+ * `what` names the stream in the error, e.g. a stage's input or output.
+ */
+export async function* limitBytes(lines: LineStream, maxBytes: number, what = 'output'): LineStream {
+  let total = 0;
+  let first = true;
+
+  for await (const line of lines) {
+    total += utf8ByteLength(line) + (first ? 0 : 1);
+    first = false;
+    if (total > maxBytes) {
+      throw new Error(`${what} exceeded the ${maxBytes} byte limit`);
+    }
+    yield line;
+  }
+}
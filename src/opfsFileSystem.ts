@@ -160,6 +160,15 @@ export class OPFSFileSystem {
     return await file.text();
   }
 
+  /**
+   * Read a file's raw bytes
+   */
+  async readFileBytes(path: string): Promise<Uint8Array<ArrayBuffer>> {
+    const fileHandle = await this.getFileHandleByPath(path);
+    const file = await fileHandle.getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
   /**
    * Write content to a file
    */
@@ -173,7 +182,7 @@ export class OPFSFileSystem {
   /**
    * Create a new file (and parent directories if needed)
    */
-  async createFile(path: string, content: string = ''): Promise<OPFSFileEntry> {
+  async createFile(path: string, content: string | Uint8Array<ArrayBuffer> = ''): Promise<OPFSFileEntry> {
     await this.ensureInitialized();
 
     const pathParts = path.split('/').filter(p => p.length > 0);
@@ -276,8 +285,7 @@ export class OPFSFileSystem {
    * Rename/move a file
    */
   async renameFile(oldPath: string, newPath: string): Promise<void> {
-    const content = await this.readFile(oldPath);
-    await this.createFile(newPath, content);
+    await this.copyFile(oldPath, newPath);
 
     try {
       await this.deleteFile(oldPath);
@@ -332,11 +340,19 @@ export class OPFSFileSystem {
   }
 
   /**
-   * Copy a file
+   * Copy a file, streaming its bytes so binary files are copied intact
    */
   async copyFile(sourcePath: string, destinationPath: string): Promise<OPFSFileEntry> {
-    const content = await this.readFile(sourcePath);
-    return await this.createFile(destinationPath, content);
+    if (sourcePath === destinationPath) {
+      throw new Error(`Source and destination are the same file: "${sourcePath}"`);
+    }
+
+    const source = await (await this.getFileHandleByPath(sourcePath)).getFile();
+    const entry = await this.createFile(destinationPath);
+    const writable = await (await this.getFileHandleByPath(destinationPath)).createWritable();
+    // pipeTo closes the writable once every chunk is written
+    await source.stream().pipeTo(writable);
+    return entry;
   }
 
   /**
@@ -394,7 +410,7 @@ export class OPFSFileSystem {
    */
   async importFile(file: File, destinationPath?: string): Promise<OPFSFileEntry> {
     const path = destinationPath || file.name;
-    const content = await file.text();
+    const content = new Uint8Array(await file.arrayBuffer());
     return await this.createFile(path, content);
   }
 
@@ -429,7 +445,7 @@ export class OPFSFileSystem {
       if (handle.kind === 'file') {
         const fileHandle = handle as FileSystemFileHandle;
         const file = await fileHandle.getFile();
-        const content = await file.text();
+        const content = new Uint8Array(await file.arrayBuffer());
         const filePath = `${currentPath}/${name}`;
         const entry = await this.createFile(filePath, content);
         entries.push(entry);
@@ -449,8 +465,8 @@ export class OPFSFileSystem {
    * Export a file from OPFS to a downloadable blob
    */
   async exportFile(path: string): Promise<Blob> {
-    const content = await this.readFile(path);
-    return new Blob([content], { type: 'text/plain' });
+    const fileHandle = await this.getFileHandleByPath(path);
+    return await fileHandle.getFile();
   }
 
   /**
@@ -0,0 +1,278 @@
+/**
+ * Unified diff patches
+ * Parses multi-file unified diffs and applies their hunks with offset and fuzz tolerance
+ */
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * A hunk of a unified diff. Lines keep their ' ', '-' or '+' prefix.
+ */
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+  /** The old side's last line has no final newline */
+  oldNoNewline: boolean;
+  /** The new side's last line has no final newline */
+  newNoNewline: boolean;
+}
+
+/**
+ * The changes to one file. A null oldPath creates the file, a null newPath deletes it.
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Read a path from a `---` or `+++` header, dropping any timestamp after a tab
+ */
+function parseHeaderPath(value: string): string | null {
+  const path = value.split('\t')[0]!.trim();
+  return path === '/dev/null' ? null : path;
+}
+
+/**
+ * Strip git's a/ and b/ prefixes when both sides use them
+ */
+function stripGitPrefixes(patch: FilePatch): void {
+  const oldPrefixed = patch.oldPath === null || patch.oldPath.startsWith('a/');
+  const newPrefixed = patch.newPath === null || patch.newPath.startsWith('b/');
+  if (oldPrefixed && newPrefixed) {
+    patch.oldPath = patch.oldPath?.slice(2) ?? null;
+    patch.newPath = patch.newPath?.slice(2) ?? null;
+  }
+}
+
+function isFileHeader(lines: string[], index: number): boolean {
+  return lines[index]!.startsWith('--- ') && (lines[index + 1]?.startsWith('+++ ') ?? false);
+}
+
+/**
+ * Parse a unified diff covering one or more files.
+ * Lines outside hunks (`diff --git`, `index`, commentary) are skipped.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    if (isFileHeader(lines, i)) {
+      current = {
+        oldPath: parseHeaderPath(lines[i]!.slice(4)),
+        newPath: parseHeaderPath(lines[i + 1]!.slice(4)),
+        hunks: [],
+      };
+      if (current.oldPath === null && current.newPath === null) {
+        throw new Error(`line ${i + 1}: both sides of the file header are /dev/null`);
+      }
+      stripGitPrefixes(current);
+      patches.push(current);
+      i += 2;
+      continue;
+    }
+
+    const match = lines[i]!.match(HUNK_HEADER);
+    if (!match) {
+      i++;
+      continue;
+    }
+    if (!current) {
+      throw new Error(`line ${i + 1}: hunk before any file header (--- / +++)`);
+    }
+
+    const hunk: PatchHunk = {
+      header: lines[i]!,
+      oldStart: Number(match[1]),
+      oldLines: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newLines: match[4] === undefined ? 1 : Number(match[4]),
+      lines: [],
+      oldNoNewline: false,
+      newNoNewline: false,
+    };
+    i++;
+
+    // Blank lines are usually context lines that lost their leading space,
+    // but trailing ones may just separate this hunk from the next file
+    let trailingBlankLines = 0;
+    while (i < lines.length) {
+      const line = lines[i]!;
+      if (line.startsWith('@@') || line.startsWith('diff ') || isFileHeader(lines, i)) break;
+
+      const prefix = line[0];
+      if (prefix === '\\') {
+        const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+        if (previous !== '+') hunk.oldNoNewline = true;
+        if (previous !== '-') hunk.newNoNewline = true;
+      } else if (prefix === ' ' || prefix === '-' || prefix === '+') {
+        hunk.lines.push(line);
+        trailingBlankLines = 0;
+      } else if (line === '') {
+        hunk.lines.push(' ');
+        trailingBlankLines++;
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const oldCount = hunk.lines.filter((line) => line[0] !== '+').length;
+    const extraLines = Math.min(trailingBlankLines, Math.max(0, oldCount - hunk.oldLines));
+    hunk.lines.splice(hunk.lines.length - extraLines, extraLines);
+
+    if (hunk.lines.length === 0) {
+      throw new Error(`${hunk.header}: hunk has no lines`);
+    }
+    current.hunks.push(hunk);
+  }
+
+  if (patches.length === 0) {
+    throw new Error('no file headers (--- / +++) found in patch');
+  }
+  return patches;
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * How a single hunk was applied
+ */
+export interface HunkResult {
+  hunk: number;
+  header: string;
+  applied: boolean;
+  /** 1-based line in the original file where the hunk was applied */
+  line?: number;
+  /** Lines between where the hunk said it applies and where it matched */
+  offset?: number;
+  /** Context lines ignored at each end of the hunk to make it match */
+  fuzz?: number;
+  error?: string;
+}
+
+/**
+ * Find where a block of lines matches, searching outwards from the expected position
+ */
+function findLines(lines: string[], block: string[], expected: number, minPosition: number): number {
+  const lastPosition = lines.length - block.length;
+  const start = Math.min(Math.max(expected, minPosition), Math.max(lastPosition, minPosition));
+
+  const matchesAt = (position: number) => block.every((line, index) => lines[position + index] === line);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    const before = start - distance;
+    const after = start + distance;
+    if (before < minPosition && after > lastPosition) break;
+    if (before >= minPosition && before <= lastPosition && matchesAt(before)) return before;
+    if (distance > 0 && after >= minPosition && after <= lastPosition && matchesAt(after)) return after;
+  }
+  return -1;
+}
+
+/**
+ * Count the context lines at the start and end of a hunk
+ */
+function countContext(hunkLines: string[]): { leading: number; trailing: number } {
+  let leading = 0;
+  while (leading < hunkLines.length && hunkLines[leading]![0] === ' ') leading++;
+  let trailing = 0;
+  while (trailing < hunkLines.length - leading && hunkLines[hunkLines.length - 1 - trailing]![0] === ' ') trailing++;
+  return { leading, trailing };
+}
+
+/**
+ * Apply hunks to a file's content in order. Each hunk is searched for near the
+ * line it names, carrying forward the offset of earlier hunks; if it doesn't
+ * match exactly, up to `maxFuzz` context lines are ignored at each end.
+ * The content is null if any hunk failed.
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  maxFuzz: number = 2
+): { content: string | null; results: HunkResult[] } {
+  const lines = content === '' ? [] : content.split('\n');
+  let endsWithNewline = true;
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else if (lines.length > 0) {
+    endsWithNewline = false;
+  }
+
+  const results: HunkResult[] = [];
+  let shift = 0;
+  let lineDelta = 0;
+  let minPosition = 0;
+
+  hunks.forEach((hunk, index) => {
+    const { leading, trailing } = countContext(hunk.lines);
+    const base = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const dropLeading = Math.min(fuzz, leading);
+      const dropTrailing = Math.min(fuzz, trailing);
+      // No more context left to ignore
+      if (fuzz > Math.max(leading, trailing)) break;
+
+      const hunkLines = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing);
+      const oldBlock = hunkLines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+      const newBlock = hunkLines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+
+      const expected = Math.max(0, base + dropLeading + shift);
+      const position = findLines(lines, oldBlock, expected, minPosition);
+      if (position === -1) continue;
+
+      const reachesEnd = position + oldBlock.length === lines.length;
+      lines.splice(position, oldBlock.length, ...newBlock);
+      if (reachesEnd && dropTrailing === 0) {
+        if (hunk.newNoNewline) endsWithNewline = false;
+        else if (hunk.oldNoNewline) endsWithNewline = true;
+      }
+
+      const originalPosition = position - lineDelta;
+      results.push({
+        hunk: index + 1,
+        header: hunk.header,
+        applied: true,
+        line: originalPosition + 1,
+        offset: originalPosition - (base + dropLeading),
+        fuzz,
+      });
+
+      shift = position - (base + dropLeading) + newBlock.length - oldBlock.length;
+      lineDelta += newBlock.length - oldBlock.length;
+      minPosition = position + newBlock.length;
+      return;
+    }
+
+    results.push({
+      hunk: index + 1,
+      header: hunk.header,
+      applied: false,
+      error: 'context does not match the file',
+    });
+  });
+
+  if (results.some((result) => !result.applied)) {
+    return { content: null, results };
+  }
+  return {
+    content: lines.join('\n') + (endsWithNewline && lines.length > 0 ? '\n' : ''),
+    results,
+  };
+}
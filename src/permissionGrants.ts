@@ -0,0 +1,131 @@
+/**
+ * Permission Grants
+ *
+ * Temporary permissions the user gives from a permission dialog, so tools set
+ * to "ask" stop asking: a tool for the rest of a conversation, or a tool on
+ * particular files for a few minutes. Grants are kept in memory only, per
+ * conversation, and apply while that conversation's turn is running.
+ * Tools denied outright, by their level or a path rule, are never granted,
+ * and calls touching a workspace root set to "ask" ask every time.
+ */
+
+/** How long a grant for particular files lasts, in milliseconds */
+export const FILE_GRANT_DURATION = 10 * 60 * 1000;
+
+export interface PermissionGrant {
+  id: string;
+  conversationId: string;
+  toolName: string;
+  /** Files the grant covers; a grant without paths covers every call of the tool */
+  paths?: string[];
+  createdAt: number;
+  /** When the grant lapses; grants for a whole conversation don't */
+  expiresAt?: number;
+}
+
+/**
+ * How far approving a call that asks can reach beyond it
+ */
+export interface ApprovalReach {
+  /** A grant for the conversation or the files would cover later calls */
+  grant: boolean;
+  /** Setting the tool to always allowed would stop the asking */
+  remember: boolean;
+}
+
+export type PermissionGrantsChangeCallback = () => void;
+
+export class PermissionGrantManager {
+  private grants: PermissionGrant[] = [];
+  private activeConversationId: string | null = null;
+  private changeCallback: PermissionGrantsChangeCallback | null = null;
+
+  /**
+   * Set the conversation whose turn is running; its grants apply until this is cleared
+   */
+  setActiveConversation(conversationId: string | null): void {
+    this.activeConversationId = conversationId;
+  }
+
+  /**
+   * Get the conversation whose turn is running, if any
+   */
+  getActiveConversation(): string | null {
+    return this.activeConversationId;
+  }
+
+  /**
+   * Set a callback run whenever grants are added or revoked
+   */
+  setChangeCallback(callback: PermissionGrantsChangeCallback | null): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Allow a tool for the rest of a conversation
+   */
+  grantForConversation(conversationId: string, toolName: string): PermissionGrant {
+    return this.add({ conversationId, toolName });
+  }
+
+  /**
+   * Allow a tool on particular files for FILE_GRANT_DURATION
+   */
+  grantForFiles(conversationId: string, toolName: string, paths: string[]): PermissionGrant {
+    if (paths.length === 0) {
+      throw new Error('A file grant needs at least one path');
+    }
+    return this.add({ conversationId, toolName, paths: [...paths], expiresAt: Date.now() + FILE_GRANT_DURATION });
+  }
+
+  /**
+   * Check whether the active conversation's grants cover a call of a tool on `paths`:
+   * a grant for the whole conversation, or file grants covering every path
+   */
+  isGranted(toolName: string, paths: string[]): boolean {
+    if (!this.activeConversationId) {
+      return false;
+    }
+
+    const grants = this.list(this.activeConversationId).filter((grant) => grant.toolName === toolName);
+    if (grants.some((grant) => !grant.paths)) {
+      return true;
+    }
+    return paths.length > 0 && paths.every((path) => grants.some((grant) => grant.paths?.includes(path)));
+  }
+
+  /**
+   * List a conversation's grants that haven't lapsed, oldest first
+   */
+  list(conversationId: string): PermissionGrant[] {
+    const now = Date.now();
+    this.grants = this.grants.filter((grant) => grant.expiresAt === undefined || grant.expiresAt > now);
+    return this.grants.filter((grant) => grant.conversationId === conversationId);
+  }
+
+  /**
+   * Revoke a grant
+   */
+  revoke(grantId: string): void {
+    this.grants = this.grants.filter((grant) => grant.id !== grantId);
+    this.changeCallback?.();
+  }
+
+  /**
+   * Revoke every grant of a conversation, e.g. when it is deleted
+   */
+  clearConversation(conversationId: string): void {
+    this.grants = this.grants.filter((grant) => grant.conversationId !== conversationId);
+    this.changeCallback?.();
+  }
+
+  private add(grant: Omit<PermissionGrant, 'id' | 'createdAt'>): PermissionGrant {
+    const added: PermissionGrant = { ...grant, id: crypto.randomUUID(), createdAt: Date.now() };
+    this.grants.push(added);
+    this.changeCallback?.();
+    return added;
+  }
+}
+
+// Export a singleton instance
+export const permissionGrants = new PermissionGrantManager();
@@ -0,0 +1,61 @@
+/**
+ * Permission Profiles
+ *
+ * Named sets of tool levels, such as "Read-only" or "Autopilot", that replace
+ * the level of every native and WASM tool at once. A profile lists levels for
+ * particular tools and a default for the rest, depending on whether a tool can
+ * change files, so the built-in profiles also cover WASM tools installed later.
+ * Path rules and workspace root permissions still apply on top of a profile.
+ * A conversation bound to a profile uses its levels only while it is open,
+ * leaving the stored levels as the user set them.
+ *
+ * The user's own profiles are stored by PreferencesManager; built-in ones live here.
+ */
+
+import type { PermissionLevel, PermissionProfile } from './preferences';
+
+export const BUILT_IN_PROFILES: readonly PermissionProfile[] = [
+  {
+    id: 'read-only',
+    name: 'Read-only',
+    toolPermissions: {},
+    defaults: { read: 'always', write: 'never' },
+  },
+  {
+    id: 'review',
+    name: 'Review',
+    toolPermissions: {},
+    defaults: { read: 'always', write: 'ask' },
+  },
+  {
+    id: 'autopilot',
+    name: 'Autopilot',
+    toolPermissions: {},
+    defaults: { read: 'always', write: 'always' },
+  },
+];
+
+/**
+ * Find a built-in or saved profile by id
+ */
+export function findPermissionProfile(
+  profileId: string,
+  savedProfiles: PermissionProfile[]
+): PermissionProfile | undefined {
+  return [...BUILT_IN_PROFILES, ...savedProfiles].find((profile) => profile.id === profileId);
+}
+
+/**
+ * Get the level a profile gives a tool
+ * @param changesFiles whether the tool can change files
+ */
+export function getProfileLevel(profile: PermissionProfile, toolName: string, changesFiles: boolean): PermissionLevel {
+  return profile.toolPermissions[toolName] ?? (changesFiles ? profile.defaults.write : profile.defaults.read);
+}
+
+/**
+ * Check whether a WASM tool's manifest lets it change files
+ */
+export function wasmToolChangesFiles(fileAccess: 'none' | 'read' | 'write' | 'readwrite'): boolean {
+  return fileAccess === 'write' || fileAccess === 'readwrite';
+}
@@ -0,0 +1,61 @@
+/**
+ * Permission Rules
+ *
+ * Evaluates path-scoped permission rules, such as "write_file always under
+ * docs/**" or "every tool never under .env*", against the paths a tool call
+ * names. Native tools, pipe stages and WASM tools all go through
+ * `applyPermissionRules`, so a rule means the same thing everywhere.
+ *
+ * Rules are checked in order and the first one matching a path decides for it;
+ * paths no rule matches keep the tool's own level. Globs use `matchesGlob`, so
+ * a glob without a slash matches a name at any depth, and paths in workspace
+ * roots other than the default one start with `name:/`.
+ */
+
+import { globToRegExp, matchesGlob } from './glob';
+import type { PermissionLevel, PermissionRule } from './preferences';
+
+/** Tool name of rules that apply to every tool */
+export const ANY_TOOL = '*';
+
+/**
+ * Check whether a rule covers a tool call on a path. A glob ending in `/**`
+ * also matches the directory itself, so `secrets/**` covers deleting `secrets`.
+ */
+export function ruleMatches(rule: PermissionRule, toolName: string, path: string): boolean {
+  if (rule.tool !== ANY_TOOL && rule.tool !== toolName) {
+    return false;
+  }
+  if (matchesGlob(path, rule.pathGlob)) {
+    return true;
+  }
+  const directoryGlob = rule.pathGlob.replace(/^\.?\//, '');
+  return directoryGlob.endsWith('/**') && globToRegExp(directoryGlob.slice(0, -3)).test(path);
+}
+
+/**
+ * Get the permission level for a tool call on `paths`, starting from the tool's `level`.
+ * The call is denied if any path is, asks if any path asks, and is otherwise
+ * allowed. A call naming no paths keeps `level`.
+ */
+export function applyPermissionRules(
+  rules: PermissionRule[],
+  toolName: string,
+  paths: string[],
+  level: PermissionLevel
+): PermissionLevel {
+  if (paths.length === 0) {
+    return level;
+  }
+
+  const decisions = paths.map(
+    (path) => rules.find((rule) => ruleMatches(rule, toolName, path))?.decision ?? level
+  );
+  if (decisions.includes('never')) {
+    return 'never';
+  }
+  if (decisions.includes('ask')) {
+    return 'ask';
+  }
+  return 'always';
+}
@@ -20,6 +20,39 @@ import { storageManager, ProviderConfig } from './storage';
 
 export type PermissionLevel = 'always' | 'ask' | 'never';
 
+/**
+ * How tools may use a workspace root:
+ * - default: each tool's own permission level applies
+ * - ask: always ask, even for tools set to always allow
+ * - read-only: tools that change files are denied, others use their own level
+ */
+export type RootPermission = 'default' | 'ask' | 'read-only';
+
+/**
+ * A path-scoped permission: `decision` applies when `tool` is called on a path
+ * matching `pathGlob`. See permissionRules.ts for how rules are evaluated.
+ */
+export interface PermissionRule {
+  id: string;
+  /** A native or WASM tool's name, or '*' for every tool */
+  tool: string;
+  pathGlob: string;
+  decision: PermissionLevel;
+}
+
+/**
+ * A named set of levels for native and WASM tools, applied all at once.
+ * See permissionProfiles.ts for the built-in profiles and how levels are resolved.
+ */
+export interface PermissionProfile {
+  id: string;
+  name: string;
+  /** Levels of particular tools, by the name the AI calls them */
+  toolPermissions: Record<string, PermissionLevel>;
+  /** Level of tools not listed, by whether they can change files */
+  defaults: { read: PermissionLevel; write: PermissionLevel };
+}
+
 export type ToolName =
   | 'open_file'
   | 'read_file_content'
@@ -28,6 +61,8 @@ export type ToolName =
   | 'delete_file'
   | 'create_file'
   | 'write_file'
+  | 'edit_file'
+  | 'apply_patch'
   | 'list_files'
   | 'get_file_metadata'
   | 'cat'
@@ -36,6 +71,9 @@ export type ToolName =
   | 'tail_file'
   | 'cp'
   | 'mkdir'
+  | 'delete_directory'
+  | 'copy_directory'
+  | 'move_directory'
   | 'tree'
   | 'diff'
   | 'wc'
@@ -51,6 +89,8 @@ export interface ToolPermissions {
   delete_file: PermissionLevel;
   create_file: PermissionLevel;
   write_file: PermissionLevel;
+  edit_file: PermissionLevel;
+  apply_patch: PermissionLevel;
   list_files: PermissionLevel;
   get_file_metadata: PermissionLevel;
   cat: PermissionLevel;
@@ -59,6 +99,9 @@ export interface ToolPermissions {
   tail_file: PermissionLevel;
   cp: PermissionLevel;
   mkdir: PermissionLevel;
+  delete_directory: PermissionLevel;
+  copy_directory: PermissionLevel;
+  move_directory: PermissionLevel;
   tree: PermissionLevel;
   diff: PermissionLevel;
   wc: PermissionLevel;
@@ -69,6 +112,16 @@ export interface ToolPermissions {
 
 export interface UserPreferences {
   toolPermissions: ToolPermissions;
+  /** Levels of WASM tools, by the name the AI calls them; missing tools ask */
+  wasmToolPermissions: Record<string, PermissionLevel>;
+  /** Permission per workspace root, by root name; missing roots use 'default' */
+  rootPermissions: Record<string, RootPermission>;
+  /** Path rules, checked in order before each tool's own level */
+  permissionRules: PermissionRule[];
+  /** Profiles the user saved; the built-in ones aren't stored */
+  permissionProfiles: PermissionProfile[];
+  /** Profile the tool levels were last set from, or null once a level is changed by hand */
+  activePermissionProfileId: string | null;
   dataShareWarningAcknowledged: boolean;
   // Legacy fields for migration only
   apiKey?: string;
@@ -84,6 +137,8 @@ const DEFAULT_PERMISSIONS: ToolPermissions = {
   delete_file: 'ask',
   create_file: 'ask',
   write_file: 'ask',
+  edit_file: 'ask',
+  apply_patch: 'ask',
   list_files: 'ask',
   get_file_metadata: 'ask',
   cat: 'ask',
@@ -92,6 +147,9 @@ const DEFAULT_PERMISSIONS: ToolPermissions = {
   tail_file: 'ask',
   cp: 'ask',
   mkdir: 'ask',
+  delete_directory: 'ask',
+  copy_directory: 'ask',
+  move_directory: 'ask',
   tree: 'ask',
   diff: 'ask',
   wc: 'ask',
@@ -100,17 +158,50 @@ const DEFAULT_PERMISSIONS: ToolPermissions = {
   pipe: 'ask',
 };
 
+/** Every native tool */
+export const TOOL_NAMES = Object.keys(DEFAULT_PERMISSIONS) as ToolName[];
+
 const DEFAULT_PREFERENCES: UserPreferences = {
   toolPermissions: DEFAULT_PERMISSIONS,
+  wasmToolPermissions: {},
+  rootPermissions: {},
+  permissionRules: [],
+  permissionProfiles: [],
+  activePermissionProfileId: null,
   dataShareWarningAcknowledged: false,
 };
 
 const STORAGE_KEY = 'co-do-preferences';
 const MIGRATION_KEY = 'co-do-migrated';
+/** Prefix of the localStorage keys WASM tool levels were kept under before they moved into preferences */
+const LEGACY_WASM_PERMISSION_PREFIX = 'wasm_tool_permission_';
+
+function isPermissionLevel(value: unknown): value is PermissionLevel {
+  return value === 'always' || value === 'ask' || value === 'never';
+}
+
+/**
+ * Tool levels from the profile a conversation is bound to, used in place of the
+ * stored levels while that conversation is open or its turn is running
+ */
+interface ConversationProfileLevels {
+  profileId: string;
+  toolPermissions: ToolPermissions;
+  wasmToolPermissions: Record<string, PermissionLevel>;
+}
 
 export class PreferencesManager {
   private preferences: UserPreferences;
   private initialized: boolean = false;
+  /**
+   * Levels of the conversations bound to a profile, by conversation. Kept in
+   * memory only, so the stored levels stay the user's own.
+   */
+  private conversationProfiles: Map<string, ConversationProfileLevels> = new Map();
+  /** The conversation on screen, whose levels the settings show */
+  private openConversationId: string | null = null;
+  /** The conversation whose turn is running, whose levels its tool calls use */
+  private activeConversationId: string | null = null;
 
   constructor() {
     this.preferences = this.loadPreferences();
@@ -127,6 +218,7 @@ export class PreferencesManager {
 
     // Check if we need to migrate from localStorage
     await this.migrateFromLocalStorage();
+    this.migrateWasmToolPermissions();
 
     this.initialized = true;
   }
@@ -174,6 +266,34 @@ export class PreferencesManager {
     }
   }
 
+  /**
+   * Move WASM tool levels from their old localStorage keys into preferences.
+   * Levels already in preferences win; the old keys are removed either way.
+   */
+  migrateWasmToolPermissions(): void {
+    const legacyKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LEGACY_WASM_PERMISSION_PREFIX)) {
+        legacyKeys.push(key);
+      }
+    }
+    if (legacyKeys.length === 0) return;
+
+    const wasmToolPermissions = { ...this.preferences.wasmToolPermissions };
+    for (const key of legacyKeys) {
+      const toolName = key.slice(LEGACY_WASM_PERMISSION_PREFIX.length);
+      const level = localStorage.getItem(key);
+      if (isPermissionLevel(level) && !(toolName in wasmToolPermissions)) {
+        wasmToolPermissions[toolName] = level;
+      }
+      localStorage.removeItem(key);
+    }
+
+    this.preferences.wasmToolPermissions = wasmToolPermissions;
+    this.savePreferences();
+  }
+
   /**
    * Load preferences from localStorage
    */
@@ -189,6 +309,7 @@ export class PreferencesManager {
             ...DEFAULT_PERMISSIONS,
             ...parsed.toolPermissions,
           },
+          wasmToolPermissions: { ...parsed.wasmToolPermissions },
         };
       }
     } catch (error) {
@@ -209,25 +330,251 @@ export class PreferencesManager {
   }
 
   /**
-   * Get permission level for a tool
+   * Set the conversation on screen, whose profile levels the settings show and,
+   * between turns, tool calls use
+   */
+  setOpenConversation(conversationId: string | null): void {
+    this.openConversationId = conversationId;
+  }
+
+  /**
+   * Set the conversation whose turn is running; its profile levels apply to tool
+   * calls until this is cleared, whichever conversation is opened meanwhile
+   */
+  setActiveConversation(conversationId: string | null): void {
+    this.activeConversationId = conversationId;
+  }
+
+  /**
+   * Get the profile levels tool calls use: the running conversation's, or the open one's between turns
+   */
+  private getCallProfile(): ConversationProfileLevels | undefined {
+    const conversationId = this.activeConversationId ?? this.openConversationId;
+    return conversationId === null ? undefined : this.conversationProfiles.get(conversationId);
+  }
+
+  /**
+   * Get the profile levels of the open conversation, which the settings show
+   */
+  private getOpenProfile(): ConversationProfileLevels | undefined {
+    return this.openConversationId === null ? undefined : this.conversationProfiles.get(this.openConversationId);
+  }
+
+  /**
+   * Get the profile levels of the open and the running conversation, without repeats
+   */
+  private getInUseProfiles(): ConversationProfileLevels[] {
+    return [...new Set([this.getOpenProfile(), this.getCallProfile()])].filter(
+      (profile): profile is ConversationProfileLevels => profile !== undefined
+    );
+  }
+
+  /**
+   * Get a tool's level for a call, from the profile of the conversation whose
+   * turn is running, or else the open one, if it is bound to one
    */
   getToolPermission(tool: ToolName): PermissionLevel {
-    return this.preferences.toolPermissions[tool];
+    return this.getCallProfile()?.toolPermissions[tool] ?? this.preferences.toolPermissions[tool];
   }
 
   /**
-   * Set permission level for a tool
+   * Set permission level for a tool. The stored levels no longer follow a profile
+   * afterwards; the profiles of the open and the running conversation take the
+   * new level too.
    */
   setToolPermission(tool: ToolName, level: PermissionLevel): void {
     this.preferences.toolPermissions[tool] = level;
+    this.preferences.activePermissionProfileId = null;
+    for (const profile of this.getInUseProfiles()) {
+      profile.toolPermissions[tool] = level;
+    }
     this.savePreferences();
   }
 
   /**
-   * Get all tool permissions
+   * Get all tool levels shown in the settings, from the open conversation's
+   * profile if it is bound to one
    */
   getAllToolPermissions(): ToolPermissions {
-    return { ...this.preferences.toolPermissions };
+    return { ...(this.getOpenProfile()?.toolPermissions ?? this.preferences.toolPermissions) };
+  }
+
+  /**
+   * Get a WASM tool's level for a call, by the name the AI calls it, from the
+   * profile of the conversation whose turn is running, or else the open one, if
+   * it is bound to one
+   */
+  getWasmToolPermission(toolName: string): PermissionLevel {
+    return this.getWasmLevel(this.getCallProfile(), toolName);
+  }
+
+  /**
+   * Get a WASM tool's level shown in the settings, from the open conversation's
+   * profile if it is bound to one
+   */
+  getOpenWasmToolPermission(toolName: string): PermissionLevel {
+    return this.getWasmLevel(this.getOpenProfile(), toolName);
+  }
+
+  private getWasmLevel(profile: ConversationProfileLevels | undefined, toolName: string): PermissionLevel {
+    const level = profile?.wasmToolPermissions[toolName] ?? this.preferences.wasmToolPermissions[toolName];
+    return isPermissionLevel(level) ? level : 'ask';
+  }
+
+  /**
+   * Set permission level for a WASM tool. The stored levels no longer follow a
+   * profile afterwards; the profiles of the open and the running conversation
+   * take the new level too.
+   */
+  setWasmToolPermission(toolName: string, level: PermissionLevel): void {
+    this.preferences.wasmToolPermissions = { ...this.preferences.wasmToolPermissions, [toolName]: level };
+    this.preferences.activePermissionProfileId = null;
+    for (const profile of this.getInUseProfiles()) {
+      profile.wasmToolPermissions[toolName] = level;
+    }
+    this.savePreferences();
+  }
+
+  /**
+   * Get the permission for a workspace root
+   */
+  getRootPermission(rootName: string): RootPermission {
+    return this.preferences.rootPermissions[rootName] ?? 'default';
+  }
+
+  /**
+   * Set the permission for a workspace root
+   */
+  setRootPermission(rootName: string, permission: RootPermission): void {
+    this.preferences.rootPermissions = { ...this.preferences.rootPermissions, [rootName]: permission };
+    this.savePreferences();
+  }
+
+  /**
+   * Get the path rules, in the order they are checked
+   */
+  getPermissionRules(): PermissionRule[] {
+    return [...this.preferences.permissionRules];
+  }
+
+  /**
+   * Add a path rule, checked after the existing ones
+   */
+  addPermissionRule(rule: Omit<PermissionRule, 'id'>): PermissionRule {
+    const pathGlob = rule.pathGlob.trim();
+    if (!pathGlob) {
+      throw new Error('Enter a path glob for the rule');
+    }
+
+    const added: PermissionRule = { ...rule, id: crypto.randomUUID(), pathGlob };
+    this.preferences.permissionRules = [...this.preferences.permissionRules, added];
+    this.savePreferences();
+    return added;
+  }
+
+  /**
+   * Remove a path rule
+   */
+  removePermissionRule(id: string): void {
+    this.preferences.permissionRules = this.preferences.permissionRules.filter((rule) => rule.id !== id);
+    this.savePreferences();
+  }
+
+  /**
+   * Move a path rule one place earlier (-1) or later (1) in the order they are checked
+   */
+  movePermissionRule(id: string, offset: -1 | 1): void {
+    const rules = [...this.preferences.permissionRules];
+    const index = rules.findIndex((rule) => rule.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= rules.length) {
+      return;
+    }
+
+    [rules[index], rules[target]] = [rules[target]!, rules[index]!];
+    this.preferences.permissionRules = rules;
+    this.savePreferences();
+  }
+
+  /**
+   * Get the profiles the user saved
+   */
+  getPermissionProfiles(): PermissionProfile[] {
+    return [...this.preferences.permissionProfiles];
+  }
+
+  /**
+   * Save a profile
+   */
+  addPermissionProfile(profile: Omit<PermissionProfile, 'id'>): PermissionProfile {
+    const name = profile.name.trim();
+    if (!name) {
+      throw new Error('Enter a name for the profile');
+    }
+
+    const added: PermissionProfile = { ...profile, id: crypto.randomUUID(), name };
+    this.preferences.permissionProfiles = [...this.preferences.permissionProfiles, added];
+    this.savePreferences();
+    return added;
+  }
+
+  /**
+   * Remove a saved profile
+   */
+  removePermissionProfile(id: string): void {
+    this.preferences.permissionProfiles = this.preferences.permissionProfiles.filter((profile) => profile.id !== id);
+    if (this.preferences.activePermissionProfileId === id) {
+      this.preferences.activePermissionProfileId = null;
+    }
+    for (const [conversationId, profile] of this.conversationProfiles) {
+      if (profile.profileId === id) {
+        this.conversationProfiles.delete(conversationId);
+      }
+    }
+    this.savePreferences();
+  }
+
+  /**
+   * Get the profile of the open conversation if it is bound to one, otherwise the
+   * profile the stored levels were last set from, if they haven't been changed since
+   */
+  getActivePermissionProfileId(): string | null {
+    return this.getOpenProfile()?.profileId ?? this.preferences.activePermissionProfileId;
+  }
+
+  /**
+   * Use a profile's levels in place of the stored ones for a conversation bound
+   * to it, or go back to the stored levels with null. Nothing is saved.
+   */
+  setConversationPermissionProfile(
+    conversationId: string,
+    profileId: string | null,
+    toolPermissions?: ToolPermissions,
+    wasmToolPermissions: Record<string, PermissionLevel> = {}
+  ): void {
+    if (profileId && toolPermissions) {
+      this.conversationProfiles.set(conversationId, {
+        profileId,
+        toolPermissions: { ...toolPermissions },
+        wasmToolPermissions: { ...wasmToolPermissions },
+      });
+    } else {
+      this.conversationProfiles.delete(conversationId);
+    }
+  }
+
+  /**
+   * Set the stored native and WASM tool levels from a profile, which becomes the active one
+   */
+  applyPermissionProfile(
+    profileId: string,
+    toolPermissions: ToolPermissions,
+    wasmToolPermissions: Record<string, PermissionLevel>
+  ): void {
+    this.preferences.toolPermissions = { ...toolPermissions };
+    this.preferences.wasmToolPermissions = { ...this.preferences.wasmToolPermissions, ...wasmToolPermissions };
+    this.preferences.activePermissionProfileId = profileId;
+    this.savePreferences();
   }
 
   /**
@@ -318,6 +665,10 @@ export class PreferencesManager {
         ...this.preferences.toolPermissions,
         ...preferences.toolPermissions,
       },
+      wasmToolPermissions: {
+        ...this.preferences.wasmToolPermissions,
+        ...preferences.wasmToolPermissions,
+      },
     };
     this.savePreferences();
   }
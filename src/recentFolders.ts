@@ -0,0 +1,141 @@
+/**
+ * Recent Folders
+ *
+ * A most-recently-used list of the folders mounted in the workspace, kept in
+ * IndexedDB with their directory handles. A handle that is back in the
+ * `prompt` permission state can be re-granted with one click, and
+ * conversations are linked to the folders they were started against.
+ */
+
+import { storageManager } from './storage';
+
+/** Folders kept in the list; the least recently used are dropped beyond this */
+const MAX_RECENT_FOLDERS = 10;
+
+/**
+ * A previously mounted folder
+ */
+export interface RecentFolder {
+  id: string;
+  /** Name of the workspace root the folder was last mounted as */
+  rootName: string;
+  handle: FileSystemDirectoryHandle;
+  lastUsedAt: number;
+  /** Conversations started against this folder */
+  conversationIds: string[];
+}
+
+export class RecentFolderManager {
+  /**
+   * Record folders as just used, adding any that aren't in the list yet
+   * @returns the folders' entries, in the order given
+   */
+  async record(roots: Array<{ name: string; handle: FileSystemDirectoryHandle }>): Promise<RecentFolder[]> {
+    const folders = await storageManager.getAllRecentFolders();
+    const recorded: RecentFolder[] = [];
+    const now = Date.now();
+
+    for (const root of roots) {
+      let folder = await this.find(folders, root.handle);
+      if (!folder) {
+        folder = { id: crypto.randomUUID(), rootName: root.name, handle: root.handle, lastUsedAt: now, conversationIds: [] };
+        folders.push(folder);
+      }
+      folder.rootName = root.name;
+      folder.lastUsedAt = now;
+      await storageManager.saveRecentFolder(folder);
+      recorded.push(folder);
+    }
+
+    await this.enforceLimit(folders);
+    return recorded;
+  }
+
+  /**
+   * List the folders, most recently used first
+   */
+  async list(): Promise<RecentFolder[]> {
+    return storageManager.getAllRecentFolders();
+  }
+
+  /**
+   * Get folders by ID, skipping any no longer in the list
+   */
+  async get(folderIds: string[]): Promise<RecentFolder[]> {
+    const folders = await storageManager.getAllRecentFolders();
+    return folderIds.flatMap((id) => folders.find((folder) => folder.id === id) ?? []);
+  }
+
+  /**
+   * Link a conversation to the folders it was started against
+   * @returns the folders' IDs, to store on the conversation
+   */
+  async linkConversation(
+    conversationId: string,
+    roots: Array<{ name: string; handle: FileSystemDirectoryHandle }>
+  ): Promise<string[]> {
+    const folders = await this.record(roots);
+    for (const folder of folders) {
+      if (!folder.conversationIds.includes(conversationId)) {
+        folder.conversationIds.push(conversationId);
+        await storageManager.saveRecentFolder(folder);
+      }
+    }
+    return folders.map((folder) => folder.id);
+  }
+
+  /**
+   * Check whether every one of the given folders is among the mounted handles
+   */
+  async areMounted(folders: RecentFolder[], mounted: FileSystemDirectoryHandle[]): Promise<boolean> {
+    for (const folder of folders) {
+      if (!(await this.find(mounted.map((handle) => ({ handle })), folder.handle))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get a folder's read/write permission state without prompting
+   */
+  async getPermission(folder: RecentFolder): Promise<PermissionState> {
+    try {
+      return await folder.handle.queryPermission({ mode: 'readwrite' });
+    } catch {
+      return 'denied';
+    }
+  }
+
+  /**
+   * Forget a folder
+   */
+  async remove(folderId: string): Promise<void> {
+    await storageManager.deleteRecentFolder(folderId);
+  }
+
+  private async find<T extends { handle: FileSystemDirectoryHandle }>(
+    items: T[],
+    handle: FileSystemDirectoryHandle
+  ): Promise<T | undefined> {
+    for (const item of items) {
+      if (await item.handle.isSameEntry(handle)) {
+        return item;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop the least recently used folders beyond the limit
+   */
+  private async enforceLimit(folders: RecentFolder[]): Promise<void> {
+    const sorted = [...folders].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    for (const folder of sorted.slice(MAX_RECENT_FOLDERS)) {
+      await storageManager.deleteRecentFolder(folder.id);
+    }
+  }
+}
+
+// Export a singleton instance
+export const recentFolders = new RecentFolderManager();
@@ -0,0 +1,447 @@
+/**
+ * Structured records for the pipe tool
+ * Parses JSON, JSON Lines and CSV into records and implements the record stages
+ */
+
+import { LineStream } from './lineStream';
+
+/**
+ * A single structured record, such as a CSV row or JSON object
+ */
+export type PipeRecord = Record<string, unknown>;
+
+export type RecordStream = AsyncIterable<PipeRecord>;
+
+/**
+ * File formats that can be read as records
+ */
+export const RECORD_FORMATS = ['json', 'jsonl', 'csv'] as const;
+
+export type RecordFormat = (typeof RECORD_FORMATS)[number];
+
+/**
+ * Work out the record format of a file from its extension
+ */
+export function recordFormatForPath(path: string): RecordFormat | null {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'json' || extension === 'jsonl' || extension === 'csv') {
+    return extension;
+  }
+  if (extension === 'ndjson') {
+    return 'jsonl';
+  }
+  return null;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Wrap values that aren't objects so every record has named fields
+ */
+function toRecord(value: unknown): PipeRecord {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return value as PipeRecord;
+  }
+  return { value };
+}
+
+/**
+ * Parse a whole JSON document: each element of a top-level array is a record,
+ * any other value is a single record
+ */
+export async function* parseJsonRecords(lines: LineStream): RecordStream {
+  const parts: string[] = [];
+  for await (const line of lines) {
+    parts.push(line);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(parts.join('\n'));
+  } catch (error) {
+    throw new Error(`invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (Array.isArray(parsed)) {
+    for (const item of parsed) {
+      yield toRecord(item);
+    }
+  } else {
+    yield toRecord(parsed);
+  }
+}
+
+/**
+ * Parse JSON Lines: one JSON value per line, blank lines are skipped
+ */
+export async function* parseJsonLinesRecords(lines: LineStream): RecordStream {
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`invalid JSON on line ${lineNumber}`);
+    }
+    yield toRecord(parsed);
+  }
+}
+
+/**
+ * Parse CSV with a header row. Quoted fields may contain delimiters, doubled
+ * quotes and newlines. Values are kept as strings.
+ */
+export async function* parseCsvRecords(lines: LineStream, delimiter: string = ','): RecordStream {
+  let header: string[] | null = null;
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for await (const rawLine of lines) {
+    // Tolerate CRLF line endings outside quoted fields
+    const line = !inQuotes && rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+    if (inQuotes) {
+      field += '\n';
+    } else if (line === '' && fields.length === 0) {
+      continue;
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]!;
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (line.startsWith(delimiter, i)) {
+        fields.push(field);
+        field = '';
+        i += delimiter.length - 1;
+      } else {
+        field += char;
+      }
+    }
+
+    // A quoted field continues onto the next line
+    if (inQuotes) continue;
+
+    fields.push(field);
+    field = '';
+
+    if (!header) {
+      header = fields.map((name) => name.trim());
+    } else {
+      const record: PipeRecord = {};
+      header.forEach((name, index) => {
+        record[name] = fields[index] ?? '';
+      });
+      yield record;
+    }
+    fields = [];
+  }
+
+  if (inQuotes) {
+    throw new Error('unterminated quoted field');
+  }
+}
+
+/**
+ * Parse lines of text in the given format into records
+ */
+export function parseRecords(lines: LineStream, format: RecordFormat): RecordStream {
+  switch (format) {
+    case 'json':
+      return parseJsonRecords(lines);
+    case 'jsonl':
+      return parseJsonLinesRecords(lines);
+    case 'csv':
+      return parseCsvRecords(lines);
+  }
+}
+
+/**
+ * Read a whole record stream into an array
+ */
+export async function collectRecords(records: RecordStream): Promise<PipeRecord[]> {
+  const collected: PipeRecord[] = [];
+  for await (const record of records) {
+    collected.push(record);
+  }
+  return collected;
+}
+
+// ============================================================================
+// FIELDS AND VALUES
+// ============================================================================
+
+/**
+ * Read a field from a record, following dotted paths into nested objects
+ */
+export function getField(record: PipeRecord, field: string): unknown {
+  if (Object.hasOwn(record, field)) {
+    return record[field];
+  }
+
+  let value: unknown = record;
+  for (const part of field.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, part)) {
+      return undefined;
+    }
+    value = (value as PipeRecord)[part];
+  }
+  return value;
+}
+
+/**
+ * Convert a value to a number when it is one, including numeric strings from CSV
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+/**
+ * Format a value for text output
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Compare two field values: numerically when both are numbers, otherwise as text.
+ * Missing values sort last in either direction.
+ */
+export function compareValues(a: unknown, b: unknown, descending: boolean = false): number {
+  const aMissing = a === undefined || a === null || a === '';
+  const bMissing = b === undefined || b === null || b === '';
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  const order = numA !== null && numB !== null
+    ? numA - numB
+    : formatValue(a).localeCompare(formatValue(b));
+
+  return descending ? -order : order;
+}
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+export const WHERE_OPERATORS = ['==', '!=', '>', '>=', '<', '<=', 'contains', 'matches', 'exists'] as const;
+
+export type WhereOperator = (typeof WHERE_OPERATORS)[number];
+
+/**
+ * A condition on one field of a record
+ */
+export interface WhereCondition {
+  field: string;
+  op: WhereOperator;
+  value?: unknown;
+}
+
+/**
+ * Build a predicate for a where condition
+ */
+export function createRecordFilter(condition: WhereCondition): (record: PipeRecord) => boolean {
+  const { field, op, value } = condition;
+
+  if (!WHERE_OPERATORS.includes(op)) {
+    throw new Error(`unknown operator: ${op}`);
+  }
+  if (op !== 'exists' && value === undefined) {
+    throw new Error(`value required for ${op}`);
+  }
+
+  const regex = op === 'matches' ? new RegExp(String(value)) : null;
+
+  return (record) => {
+    const actual = getField(record, field);
+
+    switch (op) {
+      case 'exists':
+        return actual !== undefined && actual !== null;
+      case 'contains':
+        return formatValue(actual).includes(formatValue(value));
+      case 'matches':
+        return regex!.test(formatValue(actual));
+      case '==':
+      case '!=': {
+        const numA = toNumber(actual);
+        const numB = toNumber(value);
+        const equal = numA !== null && numB !== null
+          ? numA === numB
+          : formatValue(actual) === formatValue(value);
+        return op === '==' ? equal : !equal;
+      }
+      default: {
+        if (actual === undefined || actual === null || actual === '') return false;
+        const order = compareValues(actual, value);
+        if (op === '>') return order > 0;
+        if (op === '>=') return order >= 0;
+        if (op === '<') return order < 0;
+        return order <= 0;
+      }
+    }
+  };
+}
+
+/**
+ * Keep only the given fields of a record, in the given order
+ */
+export function selectFields(record: PipeRecord, fields: string[]): PipeRecord {
+  const selected: PipeRecord = {};
+  for (const field of fields) {
+    selected[field] = getField(record, field);
+  }
+  return selected;
+}
+
+/**
+ * Aggregates computed per group, each a list of numeric fields
+ */
+export interface GroupAggregates {
+  sum?: string[];
+  avg?: string[];
+  min?: string[];
+  max?: string[];
+}
+
+/**
+ * Group records by a field, with a count and the requested aggregates per group.
+ * Groups are returned in order of first appearance; non-numeric values are ignored.
+ */
+export function groupRecords(
+  records: PipeRecord[],
+  field: string,
+  aggregates: GroupAggregates = {}
+): PipeRecord[] {
+  const groups = new Map<string, { key: unknown; records: PipeRecord[] }>();
+
+  for (const record of records) {
+    const key = getField(record, field);
+    const groupKey = formatValue(key);
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { key, records: [] };
+      groups.set(groupKey, group);
+    }
+    group.records.push(record);
+  }
+
+  return Array.from(groups.values()).map(({ key, records: groupRecords }) => {
+    const result: PipeRecord = { [field]: key ?? null, count: groupRecords.length };
+    const numbers = (name: string) =>
+      groupRecords.map((record) => toNumber(getField(record, name))).filter((n): n is number => n !== null);
+
+    for (const name of aggregates.sum ?? []) {
+      result[`sum_${name}`] = numbers(name).reduce((total, n) => total + n, 0);
+    }
+    for (const name of aggregates.avg ?? []) {
+      const values = numbers(name);
+      result[`avg_${name}`] = values.length > 0 ? values.reduce((total, n) => total + n, 0) / values.length : null;
+    }
+    for (const name of aggregates.min ?? []) {
+      const values = numbers(name);
+      result[`min_${name}`] = values.length > 0 ? Math.min(...values) : null;
+    }
+    for (const name of aggregates.max ?? []) {
+      const values = numbers(name);
+      result[`max_${name}`] = values.length > 0 ? Math.max(...values) : null;
+    }
+
+    return result;
+  });
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+/**
+ * Stream records as JSON Lines, the text form record stages exchange
+ */
+export async function* recordsToJsonLines(records: RecordStream): LineStream {
+  for await (const record of records) {
+    yield JSON.stringify(record);
+  }
+}
+
+/**
+ * Column names across all records, in order of first appearance
+ */
+function recordColumns(records: PipeRecord[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      columns.add(key);
+    }
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Render records as a Markdown table
+ */
+export function renderTable(records: PipeRecord[]): string {
+  const columns = recordColumns(records);
+  if (columns.length === 0) {
+    return '';
+  }
+
+  const cell = (value: unknown) => formatValue(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const rows = records.map((record) => columns.map((column) => cell(record[column])));
+  const header = columns.map(cell);
+  const widths = header.map((name, index) =>
+    Math.max(3, name.length, ...rows.map((row) => row[index]!.length))
+  );
+
+  const formatRow = (row: string[]) =>
+    '| ' + row.map((value, index) => value.padEnd(widths[index]!)).join(' | ') + ' |';
+
+  return [
+    formatRow(header),
+    '| ' + widths.map((width) => '-'.repeat(width)).join(' | ') + ' |',
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Render records as CSV with a header row, quoting fields where needed
+ */
+export function renderCsv(records: PipeRecord[]): string {
+  const columns = recordColumns(records);
+  const quote = (value: unknown) => {
+    const text = formatValue(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.map(quote).join(','),
+    ...records.map((record) => columns.map((column) => quote(record[column])).join(',')),
+  ].join('\n');
+}
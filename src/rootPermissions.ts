@@ -0,0 +1,60 @@
+/**
+ * Root Permissions
+ *
+ * Applies the permission set on each workspace root a call touches on top of
+ * the tool's level: changing files in a read-only root is never allowed, and a
+ * root set to "ask" asks every time, which no grant can cover. Native tools,
+ * pipe stages and WASM tools all go through `applyRootPermissions`, so a root
+ * means the same thing everywhere.
+ */
+
+import { fileSystemManager } from './fileSystem';
+import { preferencesManager, PermissionLevel, RootPermission } from './preferences';
+
+/**
+ * A normalized path a call names, and whether the call changes files there
+ */
+export interface CallPath {
+  path: string;
+  changed: boolean;
+}
+
+/**
+ * Get the permission of each workspace root a call touches, and whether the
+ * call changes files there. A call naming no path touches every root.
+ */
+export function getTouchedRoots(paths: CallPath[]): Array<{ permission: RootPermission; changed: boolean }> {
+  if (paths.length === 0) {
+    return fileSystemManager
+      .getRoots()
+      .map((root) => ({ permission: preferencesManager.getRootPermission(root.name), changed: false }));
+  }
+
+  return paths.flatMap(({ path, changed }) => {
+    const rootName = fileSystemManager.getRootName(path);
+    return rootName === null ? [] : [{ permission: preferencesManager.getRootPermission(rootName), changed }];
+  });
+}
+
+/**
+ * Get a call's permission level after the permissions of the roots it touches
+ * @param level the level before roots are considered, e.g. after path rules
+ */
+export function applyRootPermissions(paths: CallPath[], level: PermissionLevel): PermissionLevel {
+  const roots = getTouchedRoots(paths);
+
+  if (roots.some((root) => root.changed && root.permission === 'read-only')) {
+    return 'never';
+  }
+  if (level === 'always' && roots.some((root) => root.permission === 'ask')) {
+    return 'ask';
+  }
+  return level;
+}
+
+/**
+ * Check whether a call touches a root set to "ask", which a grant can't cover
+ */
+export function touchesAskRoot(paths: CallPath[]): boolean {
+  return getTouchedRoots(paths).some((root) => root.permission === 'ask');
+}
@@ -15,14 +15,25 @@ export interface ProviderConfig {
 }
 
 import type { StoredWasmTool } from './wasm-tools/types';
+import type { JournalTurn } from './changeJournal';
+import type { Checkpoint } from './checkpoints';
+import type { WorkspaceRoot } from './fileSystem';
+import type { RecentFolder } from './recentFolders';
+import type { AuditEntry } from './auditLog';
 
 const DB_NAME = 'co-do-db';
-const DB_VERSION = 4;
+const DB_VERSION = 8;
 const STORE_NAME = 'provider-configs';
 const DIRECTORY_STORE_NAME = 'directory-handles';
-const DIRECTORY_HANDLE_KEY = 'current-directory';
+/** Single folder saved before workspaces could mount several roots */
+const LEGACY_DIRECTORY_HANDLE_KEY = 'current-directory';
+const WORKSPACE_ROOTS_KEY = 'workspace-roots';
 const CONVERSATIONS_STORE_NAME = 'conversations';
 const WASM_TOOLS_STORE_NAME = 'wasm-tools';
+const CHANGE_JOURNAL_STORE_NAME = 'change-journal';
+const CHECKPOINTS_STORE_NAME = 'checkpoints';
+const RECENT_FOLDERS_STORE_NAME = 'recent-folders';
+const AUDIT_LOG_STORE_NAME = 'audit-log';
 
 /**
  * Tool activity record for storage
@@ -41,6 +52,8 @@ export interface StoredMessage {
   content: string;
   timestamp: number;
   toolActivity?: StoredToolActivity[];
+  /** Change journal turn holding the files this message's tools changed */
+  journalTurnId?: string;
 }
 
 /**
@@ -53,6 +66,10 @@ export interface Conversation {
   createdAt: number;
   updatedAt: number;
   hasUnread: boolean;
+  /** Recent folders mounted when the conversation started */
+  folderIds?: string[];
+  /** Permission profile applied whenever the conversation is opened */
+  permissionProfileId?: string;
 }
 
 /**
@@ -104,6 +121,30 @@ export class StorageManager {
           store.createIndex('name', 'manifest.name', { unique: true });
           store.createIndex('source', 'source', { unique: false });
         }
+
+        // Create object store for the change journal (v4 -> v5)
+        if (!db.objectStoreNames.contains(CHANGE_JOURNAL_STORE_NAME)) {
+          const store = db.createObjectStore(CHANGE_JOURNAL_STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt', { unique: false });
+        }
+
+        // Create object store for workspace checkpoint manifests (v5 -> v6)
+        if (!db.objectStoreNames.contains(CHECKPOINTS_STORE_NAME)) {
+          const store = db.createObjectStore(CHECKPOINTS_STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt', { unique: false });
+        }
+
+        // Create object store for recently used folders (v6 -> v7)
+        if (!db.objectStoreNames.contains(RECENT_FOLDERS_STORE_NAME)) {
+          const store = db.createObjectStore(RECENT_FOLDERS_STORE_NAME, { keyPath: 'id' });
+          store.createIndex('lastUsedAt', 'lastUsedAt', { unique: false });
+        }
+
+        // Create object store for the tool call audit log (v7 -> v8)
+        if (!db.objectStoreNames.contains(AUDIT_LOG_STORE_NAME)) {
+          const store = db.createObjectStore(AUDIT_LOG_STORE_NAME, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
       };
     });
   }
@@ -327,53 +368,44 @@ export class StorageManager {
   }
 
   /**
-   * Save the current directory handle to IndexedDB
+   * Save the mounted workspace roots to IndexedDB, in order
    */
-  async saveDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<void> {
+  async saveWorkspaceRoots(roots: WorkspaceRoot[]): Promise<void> {
     const db = this.ensureDB();
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([DIRECTORY_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(DIRECTORY_STORE_NAME);
-      const request = store.put({ key: DIRECTORY_HANDLE_KEY, handle });
+      store.put({ key: WORKSPACE_ROOTS_KEY, roots: roots.map(({ name, handle }) => ({ name, handle })) });
+      store.delete(LEGACY_DIRECTORY_HANDLE_KEY);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error('Failed to save directory handle'));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to save workspace roots'));
     });
   }
 
   /**
-   * Get the saved directory handle from IndexedDB
+   * Get the saved workspace roots from IndexedDB.
+   * A folder saved by an older version is returned as a single root with the folder's name.
    */
-  async getDirectoryHandle(): Promise<FileSystemDirectoryHandle | null> {
+  async getWorkspaceRoots(): Promise<WorkspaceRoot[]> {
     const db = this.ensureDB();
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([DIRECTORY_STORE_NAME], 'readonly');
       const store = transaction.objectStore(DIRECTORY_STORE_NAME);
-      const request = store.get(DIRECTORY_HANDLE_KEY);
+      const rootsRequest = store.get(WORKSPACE_ROOTS_KEY);
+      const legacyRequest = store.get(LEGACY_DIRECTORY_HANDLE_KEY);
 
-      request.onsuccess = () => {
-        const result = request.result;
-        resolve(result ? result.handle : null);
+      transaction.oncomplete = () => {
+        if (rootsRequest.result) {
+          resolve(rootsRequest.result.roots);
+          return;
+        }
+        const handle: FileSystemDirectoryHandle | undefined = legacyRequest.result?.handle;
+        resolve(handle ? [{ name: handle.name, handle }] : []);
       };
-      request.onerror = () => reject(new Error('Failed to get directory handle'));
-    });
-  }
-
-  /**
-   * Delete the saved directory handle from IndexedDB
-   */
-  async deleteDirectoryHandle(): Promise<void> {
-    const db = this.ensureDB();
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([DIRECTORY_STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(DIRECTORY_STORE_NAME);
-      const request = store.delete(DIRECTORY_HANDLE_KEY);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error('Failed to delete directory handle'));
+      transaction.onerror = () => reject(new Error('Failed to get workspace roots'));
     });
   }
 
@@ -651,6 +683,226 @@ export class StorageManager {
       request.onerror = () => reject(new Error('Failed to clear WASM tools'));
     });
   }
+
+  // ==========================================================================
+  // Change Journal Storage Methods
+  // ==========================================================================
+
+  /**
+   * Save a change journal turn
+   */
+  async saveJournalTurn(turn: JournalTurn): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHANGE_JOURNAL_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(CHANGE_JOURNAL_STORE_NAME);
+      const request = store.put(turn);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save change journal turn'));
+    });
+  }
+
+  /**
+   * Get a change journal turn by ID
+   */
+  async getJournalTurn(id: string): Promise<JournalTurn | null> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHANGE_JOURNAL_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(CHANGE_JOURNAL_STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get change journal turn'));
+    });
+  }
+
+  /**
+   * Get all change journal turns sorted by createdAt (oldest first)
+   */
+  async getAllJournalTurns(): Promise<JournalTurn[]> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHANGE_JOURNAL_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(CHANGE_JOURNAL_STORE_NAME);
+      const request = store.index('createdAt').getAll();
+
+      request.onsuccess = () => resolve(request.result as JournalTurn[]);
+      request.onerror = () => reject(new Error('Failed to get change journal turns'));
+    });
+  }
+
+  /**
+   * Delete a change journal turn
+   */
+  async deleteJournalTurn(id: string): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHANGE_JOURNAL_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(CHANGE_JOURNAL_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete change journal turn'));
+    });
+  }
+
+  // ==========================================================================
+  // Checkpoint Storage Methods
+  // ==========================================================================
+
+  /**
+   * Save a checkpoint manifest
+   */
+  async saveCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHECKPOINTS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(CHECKPOINTS_STORE_NAME);
+      const request = store.put(checkpoint);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save checkpoint'));
+    });
+  }
+
+  /**
+   * Get a checkpoint manifest by ID
+   */
+  async getCheckpoint(id: string): Promise<Checkpoint | null> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHECKPOINTS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(CHECKPOINTS_STORE_NAME);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get checkpoint'));
+    });
+  }
+
+  /**
+   * Get all checkpoint manifests sorted by createdAt (oldest first)
+   */
+  async getAllCheckpoints(): Promise<Checkpoint[]> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHECKPOINTS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(CHECKPOINTS_STORE_NAME);
+      const request = store.index('createdAt').getAll();
+
+      request.onsuccess = () => resolve(request.result as Checkpoint[]);
+      request.onerror = () => reject(new Error('Failed to get checkpoints'));
+    });
+  }
+
+  /**
+   * Delete a checkpoint manifest
+   */
+  async deleteCheckpoint(id: string): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CHECKPOINTS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(CHECKPOINTS_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete checkpoint'));
+    });
+  }
+
+  /**
+   * Save a recently used folder
+   */
+  async saveRecentFolder(folder: RecentFolder): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECENT_FOLDERS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(RECENT_FOLDERS_STORE_NAME);
+      const request = store.put(folder);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save recent folder'));
+    });
+  }
+
+  /**
+   * Get all recently used folders sorted by lastUsedAt (most recent first)
+   */
+  async getAllRecentFolders(): Promise<RecentFolder[]> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECENT_FOLDERS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(RECENT_FOLDERS_STORE_NAME);
+      const request = store.index('lastUsedAt').getAll();
+
+      request.onsuccess = () => resolve((request.result as RecentFolder[]).reverse());
+      request.onerror = () => reject(new Error('Failed to get recent folders'));
+    });
+  }
+
+  /**
+   * Delete a recently used folder
+   */
+  async deleteRecentFolder(id: string): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECENT_FOLDERS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(RECENT_FOLDERS_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete recent folder'));
+    });
+  }
+
+  // ==========================================================================
+  // Audit Log Storage Methods
+  // ==========================================================================
+
+  /**
+   * Append an audit log entry. Entries are never changed or deleted.
+   */
+  async addAuditEntry(entry: AuditEntry): Promise<void> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([AUDIT_LOG_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(AUDIT_LOG_STORE_NAME);
+      const request = store.add(entry);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to add audit log entry'));
+    });
+  }
+
+  /**
+   * Get all audit log entries sorted by timestamp (oldest first)
+   */
+  async getAllAuditEntries(): Promise<AuditEntry[]> {
+    const db = this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([AUDIT_LOG_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(AUDIT_LOG_STORE_NAME);
+      const request = store.index('timestamp').getAll();
+
+      request.onsuccess = () => resolve(request.result as AuditEntry[]);
+      request.onerror = () => reject(new Error('Failed to get audit log entries'));
+    });
+  }
 }
 
 // Export a singleton instance
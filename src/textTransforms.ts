@@ -0,0 +1,475 @@
+/**
+ * Line transforms for the pipe tool
+ * TypeScript implementations of sed, cut and tr that operate on piped lines
+ */
+
+// ============================================================================
+// SED
+// ============================================================================
+
+/**
+ * A sed address: line number, last line, or a regex match
+ */
+type SedAddress =
+  | { type: 'line'; line: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp };
+
+/**
+ * A parsed sed command with its optional address range
+ */
+interface SedCommand {
+  start?: SedAddress;
+  end?: SedAddress;
+  negate: boolean;
+  action:
+    | { type: 'substitute'; regex: RegExp; replacement: string; print: boolean }
+    | { type: 'delete' }
+    | { type: 'print' };
+  /** Whether the command's range is currently active (for two-address ranges) */
+  inRange: boolean;
+}
+
+/**
+ * Convert a sed replacement string to a JavaScript replacement string:
+ * `&` is the whole match, `\1`-`\9` are groups, `\&` and `\\` are literals.
+ */
+function toJsReplacement(replacement: string): string {
+  let result = '';
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i]!;
+    if (char === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i]!;
+      if (/[1-9]/.test(next)) {
+        result += '$' + next;
+      } else if (next === 'n') {
+        result += '\n';
+      } else if (next === 't') {
+        result += '\t';
+      } else {
+        result += next === '$' ? '$$' : next;
+      }
+    } else if (char === '&') {
+      result += '$&';
+    } else if (char === '$') {
+      result += '$$';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse sed scripts into commands.
+ *
+ * Supported syntax: `[addr[,addr]][!]cmd` where addr is a line number, `$`
+ * or `/regex/`, and cmd is `s/regex/replacement/[gip]`, `d` or `p`.
+ * Commands are separated by `;` or newlines. Regexes use JavaScript syntax.
+ */
+function parseSedScript(script: string): SedCommand[] {
+  const commands: SedCommand[] = [];
+  let pos = 0;
+
+  const skipSeparators = () => {
+    while (pos < script.length && /[\s;]/.test(script[pos]!)) pos++;
+  };
+
+  // Read text up to an unescaped delimiter, keeping escapes except for the delimiter itself
+  const readDelimited = (delimiter: string): string => {
+    let text = '';
+    while (pos < script.length && script[pos] !== delimiter) {
+      if (script[pos] === '\\' && pos + 1 < script.length) {
+        text += script[pos + 1] === delimiter ? delimiter : script.slice(pos, pos + 2);
+        pos += 2;
+      } else {
+        text += script[pos++];
+      }
+    }
+    if (pos >= script.length) {
+      throw new Error(`unterminated expression in "${script}"`);
+    }
+    pos++; // Skip closing delimiter
+    return text;
+  };
+
+  const readAddress = (): SedAddress | undefined => {
+    const char = script[pos];
+    if (char === '$') {
+      pos++;
+      return { type: 'last' };
+    }
+    if (char === '/') {
+      pos++;
+      return { type: 'regex', regex: new RegExp(readDelimited('/')) };
+    }
+    const match = /^\d+/.exec(script.slice(pos));
+    if (match) {
+      pos += match[0].length;
+      return { type: 'line', line: parseInt(match[0], 10) };
+    }
+    return undefined;
+  };
+
+  skipSeparators();
+  while (pos < script.length) {
+    const start = readAddress();
+    let end: SedAddress | undefined;
+    if (start && script[pos] === ',') {
+      pos++;
+      end = readAddress();
+      if (!end) {
+        throw new Error(`missing second address in "${script}"`);
+      }
+    }
+
+    let negate = false;
+    while (script[pos] === ' ') pos++;
+    if (script[pos] === '!') {
+      negate = true;
+      pos++;
+    }
+
+    const commandChar = script[pos++];
+    let action: SedCommand['action'];
+
+    switch (commandChar) {
+      case 's': {
+        const delimiter = script[pos++];
+        if (!delimiter || /[\s\\]/.test(delimiter)) {
+          throw new Error(`invalid substitute delimiter in "${script}"`);
+        }
+        const pattern = readDelimited(delimiter);
+        const replacement = readDelimited(delimiter);
+        let flags = '';
+        let print = false;
+        while (pos < script.length && /[gip]/.test(script[pos]!)) {
+          const flag = script[pos++]!;
+          if (flag === 'p') {
+            print = true;
+          } else if (!flags.includes(flag)) {
+            flags += flag;
+          }
+        }
+        action = {
+          type: 'substitute',
+          regex: new RegExp(pattern, flags),
+          replacement: toJsReplacement(replacement),
+          print,
+        };
+        break;
+      }
+      case 'd':
+        action = { type: 'delete' };
+        break;
+      case 'p':
+        action = { type: 'print' };
+        break;
+      default:
+        throw new Error(`unknown command: "${commandChar ?? ''}"`);
+    }
+
+    commands.push({ start, end, negate, action, inRange: false });
+    skipSeparators();
+  }
+
+  return commands;
+}
+
+/**
+ * Check whether a single address matches the current line
+ */
+function matchesAddress(address: SedAddress, line: string, lineNumber: number, isLast: boolean): boolean {
+  switch (address.type) {
+    case 'line':
+      return lineNumber === address.line;
+    case 'last':
+      return isLast;
+    case 'regex':
+      return address.regex.test(line);
+  }
+}
+
+/**
+ * Check whether a command applies to the current line, updating range state
+ */
+function commandApplies(command: SedCommand, line: string, lineNumber: number, isLast: boolean): boolean {
+  let selected: boolean;
+
+  if (!command.start) {
+    selected = true;
+  } else if (!command.end) {
+    selected = matchesAddress(command.start, line, lineNumber, isLast);
+  } else if (command.inRange) {
+    selected = true;
+    const end = command.end;
+    // A line-number end address at or before the current line closes the range
+    if (end.type === 'line' ? lineNumber >= end.line : matchesAddress(end, line, lineNumber, isLast)) {
+      command.inRange = false;
+    }
+  } else if (matchesAddress(command.start, line, lineNumber, isLast)) {
+    selected = true;
+    const end = command.end;
+    // The end address is only checked on following lines, except a line number already reached
+    command.inRange = end.type === 'line' ? end.line > lineNumber : !(end.type === 'last' && isLast);
+  } else {
+    selected = false;
+  }
+
+  return command.negate ? !selected : selected;
+}
+
+/**
+ * Run a sed script over lines.
+ * With quiet (like `sed -n`), only lines printed with `p` are output.
+ */
+export function runSed(lines: string[], script: string, quiet: boolean = false): string[] {
+  const commands = parseSedScript(script);
+  const output: string[] = [];
+
+  lines.forEach((originalLine, index) => {
+    let line = originalLine;
+    let deleted = false;
+    const lineNumber = index + 1;
+    const isLast = index === lines.length - 1;
+
+    for (const command of commands) {
+      if (!commandApplies(command, line, lineNumber, isLast)) continue;
+
+      const action = command.action;
+      if (action.type === 'delete') {
+        deleted = true;
+        break;
+      }
+      if (action.type === 'print') {
+        output.push(line);
+        continue;
+      }
+
+      action.regex.lastIndex = 0;
+      if (action.regex.test(line)) {
+        action.regex.lastIndex = 0;
+        line = line.replace(action.regex, action.replacement);
+        if (action.print) {
+          output.push(line);
+        }
+      }
+    }
+
+    if (!deleted && !quiet) {
+      output.push(line);
+    }
+  });
+
+  return output;
+}
+
+// ============================================================================
+// CUT
+// ============================================================================
+
+/**
+ * Parse a cut list such as "1,3-5,7-" into 1-indexed inclusive ranges
+ */
+function parseCutList(list: string): Array<{ from: number; to: number }> {
+  const ranges: Array<{ from: number; to: number }> = [];
+
+  for (const part of list.split(',')) {
+    const trimmed = part.trim();
+    const match = /^(\d*)(-?)(\d*)$/.exec(trimmed);
+    if (!trimmed || !match || (!match[1] && !match[3])) {
+      throw new Error(`invalid list: "${list}"`);
+    }
+
+    const from = match[1] ? parseInt(match[1], 10) : 1;
+    const to = match[2] ? (match[3] ? parseInt(match[3], 10) : Infinity) : from;
+    if (from < 1 || to < from) {
+      throw new Error(`invalid range: "${trimmed}"`);
+    }
+    ranges.push({ from, to });
+  }
+
+  return ranges;
+}
+
+function inRanges(position: number, ranges: Array<{ from: number; to: number }>): boolean {
+  return ranges.some(({ from, to }) => position >= from && position <= to);
+}
+
+/**
+ * Options for cut
+ */
+export interface CutOptions {
+  /** Field list, e.g. "1,3-5" */
+  fields?: string;
+  /** Character list, e.g. "1-10" */
+  characters?: string;
+  /** Field delimiter (default: tab) */
+  delimiter?: string;
+  /** Output delimiter (default: the input delimiter) */
+  outputDelimiter?: string;
+  /** Skip lines that don't contain the delimiter (like cut -s) */
+  onlyDelimited?: boolean;
+}
+
+/**
+ * Select fields or characters from each line (like Unix cut command)
+ */
+export function runCut(lines: string[], options: CutOptions): string[] {
+  if (options.fields && options.characters) {
+    throw new Error('only one of fields or characters may be given');
+  }
+
+  if (options.characters) {
+    const ranges = parseCutList(options.characters);
+    return lines.map((line) =>
+      Array.from(line)
+        .filter((_, i) => inRanges(i + 1, ranges))
+        .join('')
+    );
+  }
+
+  if (!options.fields) {
+    throw new Error('fields or characters required');
+  }
+
+  const ranges = parseCutList(options.fields);
+  const delimiter = options.delimiter ?? '\t';
+  if (delimiter.length === 0) {
+    throw new Error('delimiter must not be empty');
+  }
+  const outputDelimiter = options.outputDelimiter ?? delimiter;
+  const output: string[] = [];
+
+  for (const line of lines) {
+    if (!line.includes(delimiter)) {
+      // Like cut, lines without the delimiter pass through unless onlyDelimited is set
+      if (!options.onlyDelimited) {
+        output.push(line);
+      }
+      continue;
+    }
+
+    const selected = line.split(delimiter).filter((_, i) => inRanges(i + 1, ranges));
+    output.push(selected.join(outputDelimiter));
+  }
+
+  return output;
+}
+
+// ============================================================================
+// TR
+// ============================================================================
+
+const TR_CLASSES: Record<string, string> = {
+  lower: 'abcdefghijklmnopqrstuvwxyz',
+  upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digit: '0123456789',
+  alpha: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  alnum: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789',
+  space: ' \t\n\r\v\f',
+  blank: ' \t',
+  punct: '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~',
+};
+
+const TR_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '\\': '\\',
+};
+
+/**
+ * Expand a tr set such as "a-z", "[:upper:]" or "\n" into its characters
+ */
+function expandTrSet(set: string): string[] {
+  const chars: string[] = [];
+  let i = 0;
+
+  while (i < set.length) {
+    const classMatch = /^\[:(\w+):\]/.exec(set.slice(i));
+    if (classMatch) {
+      const members = TR_CLASSES[classMatch[1]!];
+      if (!members) {
+        throw new Error(`invalid character class: "${classMatch[1]}"`);
+      }
+      chars.push(...members);
+      i += classMatch[0].length;
+      continue;
+    }
+
+    let char = set[i]!;
+    if (char === '\\' && i + 1 < set.length) {
+      const next = set[i + 1]!;
+      char = TR_ESCAPES[next] ?? next;
+      i += 2;
+    } else {
+      i++;
+    }
+
+    // Range such as a-z (a trailing "-" is literal)
+    if (set[i] === '-' && i + 1 < set.length) {
+      const end = set[i + 1]!;
+      const startCode = char.charCodeAt(0);
+      const endCode = end.charCodeAt(0);
+      if (endCode < startCode) {
+        throw new Error(`invalid range: "${char}-${end}"`);
+      }
+      for (let code = startCode; code <= endCode; code++) {
+        chars.push(String.fromCharCode(code));
+      }
+      i += 2;
+      continue;
+    }
+
+    chars.push(char);
+  }
+
+  return chars;
+}
+
+/**
+ * Options for tr
+ */
+export interface TrOptions {
+  /** Characters to translate or delete */
+  set1: string;
+  /** Replacement characters (padded with its last character) */
+  set2?: string;
+  /** Delete characters in set1 instead of translating */
+  delete?: boolean;
+  /** Squeeze repeated characters (from set2, or set1 when not translating) */
+  squeeze?: boolean;
+}
+
+/**
+ * Translate, delete or squeeze characters (like Unix tr command)
+ */
+export function runTr(text: string, options: TrOptions): string {
+  const set1 = expandTrSet(options.set1);
+  const set2 = options.set2 !== undefined ? expandTrSet(options.set2) : [];
+
+  if (!options.delete && !options.squeeze && set2.length === 0) {
+    throw new Error('set2 required unless deleting or squeezing');
+  }
+
+  let chars = Array.from(text);
+
+  if (options.delete) {
+    const remove = new Set(set1);
+    chars = chars.filter((char) => !remove.has(char));
+  } else if (set2.length > 0) {
+    const map = new Map<string, string>();
+    set1.forEach((char, i) => {
+      map.set(char, set2[Math.min(i, set2.length - 1)]!);
+    });
+    chars = chars.map((char) => map.get(char) ?? char);
+  }
+
+  if (options.squeeze) {
+    const squeezeSet = new Set(set2.length > 0 ? set2 : set1);
+    chars = chars.filter((char, i) => !(i > 0 && char === chars[i - 1] && squeezeSet.has(char)));
+  }
+
+  return chars.join('');
+}
@@ -5,8 +5,45 @@
 
 import { Tool, tool } from 'ai';
 import { z } from 'zod';
-import { fileSystemManager } from './fileSystem';
-import { preferencesManager, ToolName } from './preferences';
+import { fileSystemManager, FileSystemEntry } from './fileSystem';
+import { matchesGlob } from './glob';
+import { runSed, runCut, runTr, CutOptions, TrOptions } from './textTransforms';
+import {
+  PipeRecord,
+  RecordStream,
+  RecordFormat,
+  RECORD_FORMATS,
+  WhereOperator,
+  GroupAggregates,
+  recordFormatForPath,
+  parseRecords,
+  collectRecords,
+  createRecordFilter,
+  selectFields,
+  compareValues,
+  getField,
+  groupRecords,
+  recordsToJsonLines,
+  renderTable,
+  renderCsv,
+} from './records';
+import {
+  LineStream,
+  linesFromText,
+  linesFromStream,
+  concatLines,
+  dropTrailingEmptyLine,
+  collectLines,
+  joinLines,
+  limitBytes,
+} from './lineStream';
+import { parsePatch, applyHunks, FilePatch, HunkResult } from './patch';
+import { wasmToolManager, checkWasmPermission } from './wasm-tools';
+import { preferencesManager, PermissionLevel, ToolName } from './preferences';
+import { applyPermissionRules, ruleMatches } from './permissionRules';
+import { applyRootPermissions, touchesAskRoot, CallPath } from './rootPermissions';
+import { permissionGrants, ApprovalReach } from './permissionGrants';
+import { auditLog, mergeAuditCall, PendingAuditCall } from './auditLog';
 import { toolResultCache, generateContentSummary } from './toolResultCache';
 
 /**
@@ -27,29 +64,268 @@ export function setPermissionCallback(callback: PermissionCallback): void {
 }
 
 /**
- * Check if a tool can be executed based on permissions
+ * Tools that change files, denied in read-only roots
+ */
+export const FILE_CHANGING_TOOLS: ReadonlySet<ToolName> = new Set<ToolName>([
+  'rename_file',
+  'move_file',
+  'delete_file',
+  'create_file',
+  'write_file',
+  'edit_file',
+  'apply_patch',
+  'cp',
+  'mkdir',
+  'delete_directory',
+  'copy_directory',
+  'move_directory',
+]);
+
+/**
+ * Arguments holding a path a tool touches. `source` is only read, even by tools that change files.
+ */
+const PATH_ARGUMENTS = ['path', 'oldPath', 'newPath', 'sourcePath', 'destinationPath', 'source', 'destination', 'file1', 'file2'];
+
+/**
+ * Arguments holding a list of paths: the files of a patch, the files cat reads,
+ * or the entries inside a directory a rule protects (see `withProtectedPaths`)
+ */
+const PATH_LIST_ARGUMENTS = ['files', 'paths', 'protected'];
+
+/**
+ * Get the normalized paths a tool call names, and whether the call changes files there
+ */
+function getCallPaths(toolName: ToolName, args: unknown): CallPath[] {
+  const values = (args ?? {}) as Record<string, unknown>;
+  const changes = FILE_CHANGING_TOOLS.has(toolName);
+  const paths: CallPath[] = [];
+
+  for (const key of PATH_ARGUMENTS) {
+    const value = values[key];
+    if (typeof value === 'string') {
+      paths.push({ path: fileSystemManager.normalizePath(value), changed: changes && key !== 'source' });
+    }
+  }
+  for (const key of PATH_LIST_ARGUMENTS) {
+    const list = values[key];
+    if (!Array.isArray(list)) continue;
+    for (const value of list) {
+      // Protected entries lie in the root of the directory the call names, which that path already covers
+      if (typeof value === 'string') {
+        paths.push({ path: fileSystemManager.normalizePath(value), changed: changes && key !== 'protected' });
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Get the normalized paths a tool call names, e.g. for a permission grant covering them
+ */
+export function getPermissionPaths(toolName: ToolName, args: unknown): string[] {
+  return getCallPaths(toolName, args).map(({ path }) => path);
+}
+
+/**
+ * Get a tool's permission level for a call, after the path rules matching the
+ * paths it names and the permissions of the roots it touches: changing files
+ * in a read-only root is never allowed, and an "ask" root always asks
+ * @param level the tool's own level, by default the one set in preferences
+ */
+function getCallPermission(
+  toolName: ToolName,
+  args: unknown,
+  level: PermissionLevel = preferencesManager.getToolPermission(toolName)
+): PermissionLevel {
+  const paths = getCallPaths(toolName, args);
+  const permission = applyPermissionRules(
+    preferencesManager.getPermissionRules(),
+    toolName,
+    paths.map(({ path }) => path),
+    level
+  );
+  return applyRootPermissions(paths, permission);
+}
+
+/**
+ * Check whether a grant can cover a call: not if it touches a root set to "ask", which asks every time
+ */
+function isGrantable(toolName: ToolName, args: unknown): boolean {
+  return !touchesAskRoot(getCallPaths(toolName, args));
+}
+
+/**
+ * Get how far approving a call that asks can reach, so a permission dialog only
+ * offers choices that take effect: remembering the tool as always allowed
+ * doesn't stop a path rule or root from asking
+ */
+export function getApprovalReach(toolName: ToolName, args: unknown): ApprovalReach {
+  return {
+    grant: isGrantable(toolName, args),
+    remember: getCallPermission(toolName, args, 'always') === 'always',
+  };
+}
+
+/**
+ * Get the decision of the first path rule covering a tool call on a path, or null if none does
+ */
+function getPathRuleDecision(toolName: ToolName, path: string): PermissionLevel | null {
+  const normalized = fileSystemManager.normalizePath(path);
+  const rule = preferencesManager.getPermissionRules().find((candidate) => ruleMatches(candidate, toolName, normalized));
+  return rule?.decision ?? null;
+}
+
+/**
+ * Get the entries found while walking a directory that a path rule denies or
+ * asks about for the tool, leaving out everything inside such directories.
+ * Entries covered by the same rule as `basePath` don't count, as checking the
+ * call covered them. Entries must be listed parents first, as `listFiles` does.
+ */
+function getRuleProtectedEntries<T extends { path: string; kind: 'file' | 'directory' }>(
+  toolName: ToolName,
+  entries: T[],
+  basePath: string = ''
+): T[] {
+  const rules = preferencesManager.getPermissionRules();
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const findRule = (path: string) => rules.find((rule) => ruleMatches(rule, toolName, path));
+  const baseRule = basePath ? findRule(fileSystemManager.normalizePath(basePath)) : undefined;
+  const protectedEntries: T[] = [];
+
+  for (const entry of entries) {
+    if (protectedEntries.some((directory) => entry.path.startsWith(`${directory.path}/`))) {
+      continue;
+    }
+    const rule = findRule(entry.path);
+    if (rule && rule.decision !== 'always' && rule !== baseRule) {
+      protectedEntries.push(entry);
+    }
+  }
+  return protectedEntries;
+}
+
+/**
+ * Drop the entries found while walking a directory that a path rule denies or
+ * asks about for the tool, along with everything inside such directories.
+ * The call was only checked against the path it names, so without this a
+ * walk would reach files a call naming them couldn't.
+ */
+function withoutRuleProtectedEntries<T extends { path: string; kind: 'file' | 'directory' }>(
+  toolName: ToolName,
+  entries: T[],
+  basePath: string = ''
+): T[] {
+  const protectedPaths = getRuleProtectedEntries(toolName, entries, basePath).map((entry) => entry.path);
+  if (protectedPaths.length === 0) {
+    return entries;
+  }
+  return entries.filter(
+    (entry) => !protectedPaths.some((path) => entry.path === path || entry.path.startsWith(`${path}/`))
+  );
+}
+
+/**
+ * Add to the arguments of a call on a whole directory the entries inside it
+ * that a path rule denies or asks about, at their paths and, for a copy or
+ * move, at the paths they get, so checking the call refuses or asks for them.
+ * The call only names the directory, so a rule like `never .env*` would
+ * otherwise not stop it from copying or deleting a `.env` inside.
+ */
+function withProtectedPaths<T extends object>(
+  toolName: ToolName,
+  args: T,
+  contents: FileSystemEntry[],
+  directory: string,
+  destination?: string
+): T & { protected?: string[] } {
+  const paths = getRuleProtectedEntries(toolName, contents, directory).map((entry) => entry.path);
+
+  if (destination !== undefined) {
+    const source = fileSystemManager.normalizePath(directory);
+    const target = fileSystemManager.normalizePath(destination);
+    const moved = contents.map((entry) => {
+      const relativePath = source ? entry.path.slice(source.length + 1) : entry.path;
+      return { ...entry, path: target ? `${target}/${relativePath}` : relativePath };
+    });
+    paths.push(...getRuleProtectedEntries(toolName, moved, destination).map((entry) => entry.path));
+  }
+
+  return paths.length > 0 ? { ...args, protected: paths } : args;
+}
+
+/**
+ * Check if a tool can be executed based on permissions. A tool that would ask
+ * is allowed without asking when a grant of the running conversation covers the call.
+ * The decision and paths are recorded in `auditCall`, the audit log entry of
+ * the call being executed (see `auditLog.getCall`), if it is being recorded.
  */
 async function checkPermission(
   toolName: ToolName,
-  args: unknown
+  args: unknown,
+  auditCall: PendingAuditCall | null
 ): Promise<boolean> {
-  const permission = preferencesManager.getToolPermission(toolName);
+  const permission = getCallPermission(toolName, args);
+  const paths = getPermissionPaths(toolName, args);
+  if (auditCall) {
+    auditCall.paths = paths;
+  }
 
   switch (permission) {
     case 'always':
       return true;
-    case 'never':
-      return false;
-    case 'ask':
+    case 'ask': {
+      if (isGrantable(toolName, args) && permissionGrants.isGranted(toolName, paths)) {
+        return true;
+      }
       if (!permissionCallback) {
         throw new Error('Permission callback not set');
       }
-      return await permissionCallback(toolName, args);
+      const allowed = await permissionCallback(toolName, args);
+      if (auditCall) {
+        auditCall.decision = allowed ? 'asked' : 'denied';
+      }
+      return allowed;
+    }
+    case 'never':
     default:
+      if (auditCall) {
+        auditCall.decision = 'denied';
+      }
       return false;
   }
 }
 
+/**
+ * Check whether a file exists, looking it up on disk when it isn't cached
+ */
+async function isExistingFile(path: string): Promise<boolean> {
+  return (await fileSystemManager.resolvePath(path))?.kind === 'file';
+}
+
+/**
+ * Read a file as text, refusing binary files whose decoded text would be garbage
+ */
+async function readTextFile(path: string): Promise<string> {
+  if (await fileSystemManager.isBinaryFile(path)) {
+    throw new Error(`${path} is a binary file and can't be read as text`);
+  }
+  return fileSystemManager.readFile(path);
+}
+
+/**
+ * Open a file as a byte stream of text, refusing binary files
+ */
+async function readTextFileStream(path: string): Promise<ReadableStream<Uint8Array>> {
+  if (await fileSystemManager.isBinaryFile(path)) {
+    throw new Error(`${path} is a binary file and can't be read as text`);
+  }
+  return fileSystemManager.readFileStream(path);
+}
+
 /**
  * Open and read a file
  *
@@ -62,14 +338,14 @@ export const openFileTool = tool({
   inputSchema: z.object({
     path: z.string().describe('The path to the file relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('open_file', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('open_file', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to open file' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       const { summary, lineCount, byteSize, fileType, preview } = generateContentSummary(content, input.path);
 
       // Store full content in cache for UI display
@@ -111,8 +387,12 @@ export const createFileTool = tool({
       .describe('The content to write to the file')
       .default(''),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('create_file', { path: input.path, content: input.content });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'create_file',
+      { path: input.path, content: input.content },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to create file' };
     }
@@ -142,8 +422,12 @@ export const writeFileTool = tool({
     path: z.string().describe('The path to the file relative to the root directory'),
     content: z.string().describe('The new content for the file'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('write_file', { path: input.path, content: input.content });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'write_file',
+      { path: input.path, content: input.content },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to write file' };
     }
@@ -163,6 +447,371 @@ export const writeFileTool = tool({
   },
 });
 
+/**
+ * A single replacement for edit_file: either search/replace text or a range of lines
+ */
+interface FileEdit {
+  oldText?: string;
+  newText: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Resolve edits against the original content and apply them all at once.
+ * Every edit refers to the content as it was before any edit, so line numbers
+ * stay valid however many edits come before them.
+ */
+function applyFileEdits(content: string, edits: FileEdit[]): string {
+  const lineStarts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+  const endsWithNewline = content.endsWith('\n');
+  const lineCount = content === '' ? 0 : endsWithNewline ? lineStarts.length - 1 : lineStarts.length;
+
+  const replacements = edits.map((edit, index) => {
+    const label = `edit ${index + 1}`;
+
+    if (edit.oldText !== undefined) {
+      if (edit.startLine !== undefined || edit.endLine !== undefined) {
+        throw new Error(`${label}: use either oldText or startLine/endLine, not both`);
+      }
+      if (edit.oldText === '') {
+        throw new Error(`${label}: oldText must not be empty`);
+      }
+
+      const from = content.indexOf(edit.oldText);
+      if (from === -1) {
+        throw new Error(`${label}: oldText not found`);
+      }
+      let occurrences = 0;
+      for (let i = from; i !== -1; i = content.indexOf(edit.oldText, i + 1)) {
+        occurrences++;
+      }
+      if (occurrences > 1) {
+        throw new Error(
+          `${label}: oldText matches ${occurrences} times; include more surrounding text to make it unique`
+        );
+      }
+      return { label, from, to: from + edit.oldText.length, text: edit.newText };
+    }
+
+    if (edit.startLine === undefined) {
+      throw new Error(`${label}: provide oldText or startLine`);
+    }
+    const startLine = edit.startLine;
+    const endLine = edit.endLine ?? startLine;
+    if (startLine > lineCount + 1 || endLine > lineCount || endLine < startLine - 1) {
+      throw new Error(`${label}: lines ${startLine}-${endLine} are out of range (file has ${lineCount} lines)`);
+    }
+
+    // Replace whole lines, keeping the line ending after the range
+    const from = lineStarts[startLine - 1] ?? content.length;
+    const rangeEnd = lineStarts[endLine];
+    const body = edit.newText.replace(/\n$/, '');
+    if (rangeEnd !== undefined) {
+      return { label, from, to: rangeEnd, text: edit.newText === '' ? '' : body + '\n' };
+    }
+    // The range runs to the end of a file without a final newline
+    const appending = from === content.length && content !== '';
+    return { label, from, to: content.length, text: appending ? '\n' + body : body };
+  });
+
+  // Apply in file order; insertions at the same point keep the order they were given
+  const sorted = [...replacements].sort((a, b) => a.from - b.from);
+  let result = '';
+  let position = 0;
+  for (const replacement of sorted) {
+    if (replacement.from < position) {
+      throw new Error(`${replacement.label} overlaps another edit`);
+    }
+    result += content.slice(position, replacement.from) + replacement.text;
+    position = replacement.to;
+  }
+  return result + content.slice(position);
+}
+
+/**
+ * Format a unified diff of a file's old and new content.
+ * Unchanged lines at the start and end are trimmed before computing the LCS,
+ * so small edits to large files stay cheap.
+ */
+export function formatUnifiedDiff(path: string, before: string, after: string, contextLines: number = 3): string {
+  const lines1 = before.split('\n');
+  const lines2 = after.split('\n');
+  const shortest = Math.min(lines1.length, lines2.length);
+
+  let prefix = 0;
+  while (prefix < shortest && lines1[prefix] === lines2[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < shortest - prefix &&
+    lines1[lines1.length - 1 - suffix] === lines2[lines2.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // Keep enough unchanged lines around the change for context
+  const start = Math.max(0, prefix - contextLines);
+  const trimmedSuffix = Math.max(0, suffix - contextLines);
+  const slice1 = lines1.slice(start, lines1.length - trimmedSuffix);
+  const slice2 = lines2.slice(start, lines2.length - trimmedSuffix);
+
+  const hunks = generateDiffHunks(slice1, slice2, computeLCS(slice1, slice2), contextLines);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const diffLines = [`--- ${path}`, `+++ ${path}`];
+  for (const hunk of hunks) {
+    diffLines.push(
+      hunk.header.replace(
+        /^@@ -(\d+),(\d+) \+(\d+),(\d+) @@/,
+        (_match, line1, count1, line2, count2) =>
+          `@@ -${Number(line1) + start},${count1} +${Number(line2) + start},${count2} @@`
+      )
+    );
+    diffLines.push(...hunk.lines);
+  }
+  return diffLines.join('\n');
+}
+
+/**
+ * Edit part of an existing file
+ */
+export const editFileTool = tool({
+  description: `Edit part of an existing file without rewriting all of it. Prefer this over write_file for changes to existing files.
+
+Each edit is either:
+- { oldText, newText }: replace oldText, which must appear exactly once in the file (include surrounding lines to make it unique)
+- { startLine, endLine?, newText }: replace lines startLine to endLine (1-based, inclusive; endLine defaults to startLine). An empty newText deletes the lines; set endLine to startLine - 1 to insert before startLine.
+
+All edits refer to the file as it was before any of them were applied and must not overlap. If any edit fails, nothing is written. Returns a unified diff of the change.`,
+  inputSchema: z.object({
+    path: z.string().describe('The path to the file relative to the root directory'),
+    edits: z
+      .array(
+        z.object({
+          oldText: z.string().optional().describe('Exact text to replace'),
+          newText: z.string().describe('The replacement text'),
+          startLine: z.number().int().min(1).optional().describe('First line to replace (1-based)'),
+          endLine: z.number().int().min(0).optional().describe('Last line to replace (inclusive)'),
+        })
+      )
+      .min(1)
+      .describe('The replacements to make'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'edit_file',
+      { path: input.path, edits: input.edits },
+      auditLog.getCall(toolCallId)
+    );
+    if (!allowed) {
+      return { error: 'Permission denied to edit file' };
+    }
+
+    try {
+      const content = await readTextFile(input.path);
+      const updated = applyFileEdits(content, input.edits);
+
+      if (updated === content) {
+        return {
+          success: true,
+          path: input.path,
+          changed: false,
+          message: `No changes to ${input.path}`,
+        };
+      }
+
+      await fileSystemManager.writeFile(input.path, updated);
+      return {
+        success: true,
+        path: input.path,
+        changed: true,
+        edits: input.edits.length,
+        diff: formatUnifiedDiff(input.path, content, updated),
+      };
+    } catch (error) {
+      return {
+        error: `Failed to edit file: ${(error as Error).message}`,
+      };
+    }
+  },
+});
+
+/**
+ * A file change from apply_patch, planned before anything is written
+ */
+interface PatchFileChange {
+  path: string;
+  action: 'create' | 'modify' | 'delete' | 'rename';
+  /** The file's path before a rename */
+  oldPath?: string;
+  /** Content before the patch ('' for a created file) */
+  original: string;
+  /** Content after the patch ('' for a deleted file) */
+  content: string;
+}
+
+/**
+ * Write planned patch changes, restoring the files already changed if a write fails
+ */
+async function writePatchChanges(changes: PatchFileChange[]): Promise<void> {
+  const undo: Array<() => Promise<unknown>> = [];
+
+  try {
+    for (const change of changes) {
+      const { path, oldPath, original, content } = change;
+      switch (change.action) {
+        case 'create':
+          await fileSystemManager.createFile(path, content);
+          undo.push(() => fileSystemManager.deleteFile(path));
+          break;
+        case 'modify':
+          await fileSystemManager.writeFile(path, content);
+          undo.push(() => fileSystemManager.writeFile(path, original));
+          break;
+        case 'delete':
+          await fileSystemManager.deleteFile(path);
+          undo.push(() => fileSystemManager.createFile(path, original));
+          break;
+        case 'rename':
+          await fileSystemManager.createFile(path, content);
+          undo.push(() => fileSystemManager.deleteFile(path));
+          await fileSystemManager.deleteFile(oldPath!);
+          undo.push(() => fileSystemManager.createFile(oldPath!, original));
+          break;
+      }
+    }
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch {
+        // Keep restoring the remaining files
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a unified diff to one or more files
+ */
+export const applyPatchTool = tool({
+  description: `Apply a unified diff (as produced by diff or git diff) to one or more files. Use /dev/null as the old path to create a file and as the new path to delete one; differing old and new paths rename the file.
+
+Hunks are matched near the line numbers in their headers, so patches still apply when lines have moved. If a hunk's context doesn't match exactly, up to fuzz context lines at each end are ignored. The patch is atomic: if any hunk fails, no files are changed. Returns a per-hunk report for each file.`,
+  inputSchema: z.object({
+    patch: z.string().describe('The unified diff, with --- / +++ headers for each file'),
+    fuzz: z
+      .number()
+      .int()
+      .min(0)
+      .max(3)
+      .optional()
+      .default(2)
+      .describe('Context lines that may be ignored at each end of a hunk (default: 2)'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    let patches: FilePatch[];
+    try {
+      patches = parsePatch(input.patch);
+    } catch (error) {
+      return { error: `Failed to parse patch: ${(error as Error).message}` };
+    }
+
+    const allowed = await checkPermission(
+      'apply_patch',
+      { files: patches.map((patch) => patch.newPath ?? patch.oldPath), patch: input.patch },
+      auditLog.getCall(toolCallId)
+    );
+    if (!allowed) {
+      return { error: 'Permission denied to apply patch' };
+    }
+
+    try {
+      const changes: PatchFileChange[] = [];
+      const files: Array<{
+        path: string;
+        action: PatchFileChange['action'];
+        oldPath?: string;
+        hunks?: HunkResult[];
+        error?: string;
+      }> = [];
+      const seenPaths = new Set<string>();
+
+      for (const patch of patches) {
+        const path = (patch.newPath ?? patch.oldPath)!;
+        const action: PatchFileChange['action'] =
+          patch.oldPath === null ? 'create'
+            : patch.newPath === null ? 'delete'
+              : patch.oldPath !== patch.newPath ? 'rename'
+                : 'modify';
+        const oldPath = action === 'rename' ? patch.oldPath! : undefined;
+
+        for (const patchPath of new Set([patch.oldPath, patch.newPath])) {
+          if (patchPath === null) continue;
+          if (seenPaths.has(patchPath)) {
+            return { error: `Failed to apply patch: ${patchPath} is changed more than once` };
+          }
+          seenPaths.add(patchPath);
+        }
+
+        if ((action === 'create' || action === 'rename') && (await fileSystemManager.resolvePath(path))) {
+          files.push({ path, action, ...(oldPath && { oldPath }), error: `${path} already exists` });
+          continue;
+        }
+
+        let original = '';
+        if (action !== 'create') {
+          try {
+            original = await readTextFile(patch.oldPath!);
+          } catch (error) {
+            files.push({ path, action, ...(oldPath && { oldPath }), error: (error as Error).message });
+            continue;
+          }
+        }
+
+        const { content, results } = applyHunks(original, patch.hunks, input.fuzz);
+        const failedHunks = results.filter((result) => !result.applied).length;
+        const error = failedHunks > 0
+          ? `${failedHunks} of ${results.length} hunks failed`
+          : action === 'delete' && content !== ''
+            ? 'file content does not match the deleted lines'
+            : undefined;
+
+        files.push({ path, action, ...(oldPath && { oldPath }), hunks: results, ...(error && { error }) });
+        if (!error) {
+          changes.push({ path, action, oldPath, original, content: content ?? '' });
+        }
+      }
+
+      if (files.some((file) => file.error)) {
+        return {
+          error: 'Patch not applied: some files or hunks failed, so no files were changed',
+          files,
+        };
+      }
+
+      await writePatchChanges(changes);
+      return {
+        success: true,
+        files,
+        message: `Patched ${files.length} file${files.length === 1 ? '' : 's'}`,
+      };
+    } catch (error) {
+      return {
+        error: `Failed to apply patch: ${(error as Error).message}`,
+      };
+    }
+  },
+});
+
 /**
  * Rename a file
  */
@@ -176,8 +825,12 @@ export const renameFileTool = tool({
       .string()
       .describe('The new path for the file relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('rename_file', { oldPath: input.oldPath, newPath: input.newPath });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'rename_file',
+      { oldPath: input.oldPath, newPath: input.newPath },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to rename file' };
     }
@@ -211,11 +864,12 @@ export const moveFileTool = tool({
       .string()
       .describe('The destination path for the file relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('move_file', {
-      sourcePath: input.sourcePath,
-      destinationPath: input.destinationPath,
-    });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'move_file',
+      { sourcePath: input.sourcePath, destinationPath: input.destinationPath },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to move file' };
     }
@@ -245,8 +899,8 @@ export const deleteFileTool = tool({
   inputSchema: z.object({
     path: z.string().describe('The path to the file to delete relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('delete_file', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('delete_file', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to delete file' };
     }
@@ -271,17 +925,29 @@ export const deleteFileTool = tool({
  */
 export const listFilesTool = tool({
   description:
-    'List all files in the directory. Returns an array of file paths. Use this to see what files are available before performing operations.',
-  inputSchema: z.object({}),
-  execute: async () => {
-    const allowed = await checkPermission('list_files', {});
+    'List all files in the directory. Returns an array of file paths. Use this to see what files are available before performing operations. Files ignored by .gitignore or .codoignore are left out unless includeIgnored is set.',
+  inputSchema: z.object({
+    includeIgnored: z.boolean().optional().default(false).describe('Also list files ignored by .gitignore and .codoignore (default: false)'),
+    maxDepth: z.number().int().positive().optional().describe('Only list files this many directory levels deep (1 = top-level files only, default: unlimited)'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'list_files',
+      { includeIgnored: input.includeIgnored },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to list files' };
     }
 
     try {
-      const entries = await fileSystemManager.listFiles();
-      const files = entries.filter((e) => e.kind === 'file').map((e) => e.path);
+      const entries = await fileSystemManager.listFiles({
+        includeIgnored: input.includeIgnored,
+        maxDepth: input.maxDepth,
+      });
+      const files = withoutRuleProtectedEntries('list_files', entries)
+        .filter((e) => e.kind === 'file')
+        .map((e) => e.path);
       return {
         success: true,
         files,
@@ -303,8 +969,8 @@ export const getFileMetadataTool = tool({
   inputSchema: z.object({
     path: z.string().describe('The path to the file relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('get_file_metadata', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('get_file_metadata', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to get file metadata' };
     }
@@ -338,14 +1004,14 @@ export const catTool = tool({
   inputSchema: z.object({
     path: z.string().describe('The path to the file relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('cat', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('cat', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to cat file' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       const { summary, lineCount, byteSize, fileType, preview } = generateContentSummary(content, input.path);
 
       // Store full content in cache for UI display
@@ -374,56 +1040,137 @@ export const catTool = tool({
   },
 });
 
+/**
+ * Directories skipped by grep unless an exclude list is given or ignored files are included
+ */
+const DEFAULT_GREP_EXCLUDES = ['node_modules', '.git'];
+
+/**
+ * Check whether a path, or any directory above it, matches one of the globs
+ */
+function matchesAnyGlob(path: string, globs: string[]): boolean {
+  const parts = path.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const prefix = parts.slice(0, i).join('/');
+    if (globs.some((glob) => matchesGlob(prefix, glob))) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Grep - Search for patterns in files
  */
 export const grepTool = tool({
-  description: 'Search for a pattern in files (like Unix grep command). Searches in specified file or all files if no path provided. Returns matching lines with line numbers.',
+  description: `Search for a pattern in files (like Unix grep command). Searches the specified file, every file under the specified directory, or all files if no path provided. Returns matching lines with line numbers.
+
+Use include/exclude globs to narrow the search (e.g. include: ["*.ts"], exclude: ["dist"]). Files ignored by .gitignore or .codoignore are skipped unless includeIgnored is set; without an exclude list, ${DEFAULT_GREP_EXCLUDES.join(' and ')} are skipped too. Binary files are skipped. Results stop at maxResults matches and are marked truncated.`,
   inputSchema: z.object({
     pattern: z.string().describe('The pattern or text to search for'),
-    path: z.string().optional().describe('Optional: specific file path to search in. If not provided, searches all files'),
+    path: z.string().optional().describe('Optional: file or directory to search in. If not provided, searches all files'),
     caseInsensitive: z.boolean().optional().default(false).describe('Whether to perform case-insensitive search'),
+    include: z.array(z.string()).optional().describe('Only search files matching one of these globs, e.g. ["*.ts", "src/**"]'),
+    exclude: z.array(z.string()).optional().describe(`Skip files and directories matching any of these globs (default: ${JSON.stringify(DEFAULT_GREP_EXCLUDES)})`),
+    before: z.number().int().min(0).optional().describe('Lines of context to show before each match (like grep -B)'),
+    after: z.number().int().min(0).optional().describe('Lines of context to show after each match (like grep -A)'),
+    context: z.number().int().min(0).optional().describe('Lines of context before and after each match (like grep -C)'),
+    maxMatchesPerFile: z.number().int().positive().optional().describe('Stop searching a file after this many matches'),
+    maxResults: z.number().int().positive().optional().default(200).describe('Stop after this many matches in total (default: 200)'),
+    includeIgnored: z.boolean().optional().default(false).describe('Also search files ignored by .gitignore and .codoignore, and drop the default excludes'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('grep', { pattern: input.pattern, path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'grep',
+      { pattern: input.pattern, path: input.path },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to grep files' };
     }
 
     try {
       const filesToSearch: string[] = [];
+      const searchDirectory = input.path !== undefined
+        && (await fileSystemManager.resolvePath(input.path))?.kind === 'directory';
 
-      if (input.path) {
+      if (input.path && !searchDirectory) {
         // Search specific file
         filesToSearch.push(input.path);
       } else {
-        // Search all files
-        const entries = await fileSystemManager.listFiles();
-        filesToSearch.push(...entries.filter((e) => e.kind === 'file').map((e) => e.path));
+        // Search all files, or all files under a directory
+        const directory = searchDirectory ? fileSystemManager.normalizePath(input.path!) : '';
+        const prefix = directory ? directory + '/' : '';
+        const exclude = input.exclude ?? (input.includeIgnored ? [] : DEFAULT_GREP_EXCLUDES);
+        const entries = await fileSystemManager.listFiles({
+          path: directory,
+          includeIgnored: input.includeIgnored,
+        });
+        filesToSearch.push(
+          ...withoutRuleProtectedEntries('grep', entries, directory)
+            .filter((e) => e.kind === 'file' && e.path.startsWith(prefix))
+            .map((e) => e.path)
+            .filter((path) => !input.include || input.include.some((glob) => matchesGlob(path, glob)))
+            .filter((path) => !matchesAnyGlob(path, exclude))
+        );
       }
 
-      const matches: Array<{ file: string; lineNumber: number; line: string }> = [];
+      const before = input.before ?? input.context ?? 0;
+      const after = input.after ?? input.context ?? 0;
+      const maxResults = input.maxResults ?? 200;
+
+      const matches: Array<{
+        file: string;
+        lineNumber: number;
+        line: string;
+        before?: string[];
+        after?: string[];
+      }> = [];
+      const skippedBinary: string[] = [];
+      let filesSearched = 0;
+      let truncated = false;
       const pattern = input.caseInsensitive
         ? new RegExp(input.pattern, 'i')
         : new RegExp(input.pattern);
 
       for (const filePath of filesToSearch) {
+        if (truncated) break;
+
         try {
+          if (await fileSystemManager.isBinaryFile(filePath)) {
+            skippedBinary.push(filePath);
+            continue;
+          }
+
           const content = await fileSystemManager.readFile(filePath);
           const lines = content.split('\n');
+          let fileMatches = 0;
+          filesSearched++;
+
+          for (let index = 0; index < lines.length; index++) {
+            if (!pattern.test(lines[index]!)) continue;
 
-          lines.forEach((line, index) => {
-            if (pattern.test(line)) {
-              matches.push({
-                file: filePath,
-                lineNumber: index + 1,
-                line: line.trim(),
-              });
+            if (matches.length >= maxResults) {
+              truncated = true;
+              break;
             }
-          });
+
+            matches.push({
+              file: filePath,
+              lineNumber: index + 1,
+              line: lines[index]!.trim(),
+              ...(before > 0 && { before: lines.slice(Math.max(0, index - before), index) }),
+              ...(after > 0 && { after: lines.slice(index + 1, index + 1 + after) }),
+            });
+
+            fileMatches++;
+            if (input.maxMatchesPerFile !== undefined && fileMatches >= input.maxMatchesPerFile) {
+              break;
+            }
+          }
         } catch (error) {
           // If searching a specific file, surface the error
-          if (input.path) {
+          if (input.path && !searchDirectory) {
             return {
               error: `Failed to read file '${filePath}': ${(error as Error).message}`,
             };
@@ -437,8 +1184,11 @@ export const grepTool = tool({
         success: true,
         pattern: input.pattern,
         searchPath: input.path || 'all files',
+        filesSearched,
         matchCount: matches.length,
         matches,
+        ...(truncated && { truncated: true, note: `Stopped after ${maxResults} matches; narrow the search or raise maxResults` }),
+        ...(skippedBinary.length > 0 && { skippedBinary }),
       };
     } catch (error) {
       return {
@@ -457,14 +1207,18 @@ export const headFileTool = tool({
     path: z.string().describe('The path to the file relative to the root directory'),
     lines: z.number().int().positive().max(10000).default(10).describe('Number of lines to read from the beginning (default: 10, max: 10,000)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('head_file', { path: input.path, lines: input.lines });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'head_file',
+      { path: input.path, lines: input.lines },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to read file head' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       // Split by newlines and filter out trailing empty string if file ends with newline
       const allLines = content.split('\n');
       // Remove trailing empty element caused by final newline
@@ -499,14 +1253,18 @@ export const tailFileTool = tool({
     path: z.string().describe('The path to the file relative to the root directory'),
     lines: z.number().int().positive().max(10000).default(10).describe('Number of lines to read from the end (default: 10, max: 10,000)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('tail_file', { path: input.path, lines: input.lines });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'tail_file',
+      { path: input.path, lines: input.lines },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to read file tail' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       // Split by newlines and filter out trailing empty string if file ends with newline
       const allLines = content.split('\n');
       // Remove trailing empty element caused by final newline
@@ -544,11 +1302,12 @@ export const cpTool = tool({
       .string()
       .describe('The destination path for the copy relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('cp', {
-      source: input.source,
-      destination: input.destination,
-    });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'cp',
+      { source: input.source, destination: input.destination },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to copy file' };
     }
@@ -585,8 +1344,8 @@ export const mkdirTool = tool({
   inputSchema: z.object({
     path: z.string().describe('The path for the new directory relative to the root directory'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('mkdir', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('mkdir', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to create directory' };
     }
@@ -607,14 +1366,203 @@ export const mkdirTool = tool({
 });
 
 /**
- * Display directory structure as a tree (like Unix tree command)
+ * Describe how many files and directories a listing holds, e.g. "3 files, 1 directory"
  */
-export const treeTool = tool({
+function describeEntryCount(entries: FileSystemEntry[]): string {
+  const files = entries.filter((entry) => entry.kind === 'file').length;
+  const directories = entries.length - files;
+  return `${files} ${files === 1 ? 'file' : 'files'}, ${directories} ${directories === 1 ? 'directory' : 'directories'}`;
+}
+
+/**
+ * Delete a directory (like Unix rmdir, or rm -r when recursive)
+ */
+export const deleteDirectoryTool = tool({
   description:
-    'Display the directory structure as a tree (like Unix tree command). Shows a hierarchical view of files and directories.',
+    'Delete a directory. Without recursive, the directory must be empty. With recursive, everything inside it is deleted too, including ignored files; the permission request shows how many entries will be removed. Always confirm with the user before deleting directories.',
   inputSchema: z.object({
-    path: z
-      .string()
+    path: z.string().describe('The path to the directory to delete relative to the root directory'),
+    recursive: z.boolean().optional().default(false).describe('Delete the directory and everything inside it (default: false)'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    const auditCall = auditLog.getCall(toolCallId);
+    // Refuse a call that is never allowed before reading anything, so the error says nothing about the directory
+    if (getCallPermission('delete_directory', { path: input.path, recursive: input.recursive }) === 'never') {
+      await checkPermission('delete_directory', { path: input.path, recursive: input.recursive }, auditCall);
+      return { error: 'Permission denied to delete directory' };
+    }
+
+    const entry = await fileSystemManager.resolvePath(input.path);
+    if (!entry || entry.kind !== 'directory') {
+      return { error: `Directory not found: ${input.path}` };
+    }
+
+    let contents: FileSystemEntry[];
+    try {
+      contents = await fileSystemManager.listFiles({ path: entry.path, includeIgnored: true });
+    } catch (error) {
+      return { error: `Failed to read directory: ${(error as Error).message}` };
+    }
+
+    if (contents.length > 0 && !input.recursive) {
+      return {
+        error: `Directory not empty (${describeEntryCount(contents)}). Set recursive to delete it and everything inside it.`,
+      };
+    }
+
+    // Only a request the user sees needs the entry count
+    const args = withProtectedPaths(
+      'delete_directory',
+      { path: entry.path, recursive: input.recursive },
+      contents,
+      entry.path
+    );
+    const allowed = await checkPermission(
+      'delete_directory',
+      getCallPermission('delete_directory', args) === 'ask' ? { ...args, contains: describeEntryCount(contents) } : args,
+      auditCall
+    );
+    if (!allowed) {
+      return { error: 'Permission denied to delete directory' };
+    }
+
+    try {
+      await fileSystemManager.deleteDirectory(entry.path, input.recursive);
+      return {
+        success: true,
+        path: entry.path,
+        deleted: contents.length + 1,
+        message: `Directory deleted: ${entry.path} (${describeEntryCount(contents)} inside)`,
+      };
+    } catch (error) {
+      return {
+        error: `Failed to delete directory: ${(error as Error).message}`,
+      };
+    }
+  },
+});
+
+/**
+ * List everything inside a directory, including ignored files, or nothing if
+ * there is no directory at the path, which the call then reports itself
+ */
+async function listDirectoryContents(path: string): Promise<FileSystemEntry[]> {
+  const entry = await fileSystemManager.resolvePath(path);
+  return entry?.kind === 'directory' ? fileSystemManager.listFiles({ path: entry.path, includeIgnored: true }) : [];
+}
+
+/**
+ * Copy a directory recursively (like Unix cp -r)
+ */
+export const copyDirectoryTool = tool({
+  description:
+    'Copy a directory and everything inside it, including ignored files, to a new location (like Unix cp -r). The destination must not exist.',
+  inputSchema: z.object({
+    source: z.string().describe('The directory to copy relative to the root directory'),
+    destination: z.string().describe('The path of the new copy relative to the root directory'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    const auditCall = auditLog.getCall(toolCallId);
+    const args = { source: input.source, destination: input.destination };
+    if (getCallPermission('copy_directory', args) === 'never') {
+      await checkPermission('copy_directory', args, auditCall);
+      return { error: 'Permission denied to copy directory' };
+    }
+
+    let contents: FileSystemEntry[];
+    try {
+      contents = await listDirectoryContents(input.source);
+    } catch (error) {
+      return { error: `Failed to read directory: ${(error as Error).message}` };
+    }
+
+    const allowed = await checkPermission(
+      'copy_directory',
+      withProtectedPaths('copy_directory', args, contents, input.source, input.destination),
+      auditCall
+    );
+    if (!allowed) {
+      return { error: 'Permission denied to copy directory' };
+    }
+
+    try {
+      const { files, directories } = await fileSystemManager.copyDirectory(input.source, input.destination);
+      return {
+        success: true,
+        source: input.source,
+        destination: input.destination,
+        files,
+        directories,
+        message: `Directory copied: ${input.source} → ${input.destination} (${files} files)`,
+      };
+    } catch (error) {
+      return {
+        error: `Failed to copy directory: ${(error as Error).message}`,
+      };
+    }
+  },
+});
+
+/**
+ * Move or rename a directory
+ */
+export const moveDirectoryTool = tool({
+  description:
+    'Move or rename a directory, with everything inside it, to a new location. The destination must not exist.',
+  inputSchema: z.object({
+    sourcePath: z.string().describe('The current path of the directory relative to the root directory'),
+    destinationPath: z.string().describe('The new path for the directory relative to the root directory'),
+  }),
+  execute: async (input, { toolCallId }) => {
+    const auditCall = auditLog.getCall(toolCallId);
+    const args = { sourcePath: input.sourcePath, destinationPath: input.destinationPath };
+    if (getCallPermission('move_directory', args) === 'never') {
+      await checkPermission('move_directory', args, auditCall);
+      return { error: 'Permission denied to move directory' };
+    }
+
+    let contents: FileSystemEntry[];
+    try {
+      contents = await listDirectoryContents(input.sourcePath);
+    } catch (error) {
+      return { error: `Failed to read directory: ${(error as Error).message}` };
+    }
+
+    const allowed = await checkPermission(
+      'move_directory',
+      withProtectedPaths('move_directory', args, contents, input.sourcePath, input.destinationPath),
+      auditCall
+    );
+    if (!allowed) {
+      return { error: 'Permission denied to move directory' };
+    }
+
+    try {
+      const { files } = await fileSystemManager.moveDirectory(input.sourcePath, input.destinationPath);
+      return {
+        success: true,
+        sourcePath: input.sourcePath,
+        destinationPath: input.destinationPath,
+        files,
+        message: `Directory moved: ${input.sourcePath} → ${input.destinationPath} (${files} files)`,
+      };
+    } catch (error) {
+      return {
+        error: `Failed to move directory: ${(error as Error).message}`,
+      };
+    }
+  },
+});
+
+/**
+ * Display directory structure as a tree (like Unix tree command)
+ */
+export const treeTool = tool({
+  description:
+    'Display the directory structure as a tree (like Unix tree command). Shows a hierarchical view of files and directories. Entries ignored by .gitignore or .codoignore are hidden unless includeIgnored is set.',
+  inputSchema: z.object({
+    path: z
+      .string()
       .optional()
       .describe('Optional: starting directory path. If not provided, shows the entire tree'),
     maxDepth: z
@@ -624,23 +1572,26 @@ export const treeTool = tool({
       .max(20)
       .optional()
       .describe('Optional: maximum depth to display (0 = root only, default: unlimited, max: 20)'),
+    includeIgnored: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Optional: also show entries ignored by .gitignore and .codoignore (default: false)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('tree', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('tree', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to display tree' };
     }
 
     try {
-      const entries = await fileSystemManager.listFiles();
-
-      // Normalize basePath: remove trailing slashes
-      const basePath = input.path ? input.path.replace(/\/+$/, '') : '';
+      // Normalize basePath: remove slashes at the ends and a redundant root prefix
+      const basePath = input.path ? fileSystemManager.normalizePath(input.path) : '';
       const maxDepth = input.maxDepth;
 
       // If a path was provided, check if it exists
       if (basePath) {
-        const pathEntry = entries.find((e) => e.path === basePath);
+        const pathEntry = await fileSystemManager.resolvePath(basePath);
         if (!pathEntry) {
           return {
             error: `Path not found: "${basePath}". Check that the path exists and is accessible.`,
@@ -659,84 +1610,19 @@ export const treeTool = tool({
         }
       }
 
-      // Filter entries by base path if provided
-      const filteredEntries = basePath
-        ? entries.filter((e) => e.path === basePath || e.path.startsWith(basePath + '/'))
-        : entries;
-
-      // Build tree structure
-      interface TreeNode {
-        name: string;
-        kind: 'file' | 'directory';
-        children: Map<string, TreeNode>;
-      }
-
-      const root: TreeNode = { name: '', kind: 'directory', children: new Map() };
-
-      for (const entry of filteredEntries) {
-        // Get path relative to base path
-        const relativePath = basePath ? entry.path.slice(basePath.length + 1) || entry.name : entry.path;
-        const parts = relativePath.split('/').filter((p) => p.length > 0);
-
-        // Check depth limit
-        if (maxDepth !== undefined && parts.length > maxDepth) {
-          continue;
-        }
-
-        let current = root;
-        for (let i = 0; i < parts.length; i++) {
-          const part = parts[i]!;
-          if (!current.children.has(part)) {
-            const isLast = i === parts.length - 1;
-            current.children.set(part, {
-              name: part,
-              kind: isLast ? entry.kind : 'directory',
-              children: new Map(),
-            });
-          }
-          current = current.children.get(part)!;
-        }
-      }
-
-      // Generate tree string
-      const lines: string[] = [];
-      let fileCount = 0;
-      let dirCount = 0;
-
-      function renderTree(node: TreeNode, prefix: string, isLast: boolean, isRoot: boolean): void {
-        if (!isRoot) {
-          const connector = isLast ? '└── ' : '├── ';
-          lines.push(prefix + connector + node.name);
-        }
-
-        const children = Array.from(node.children.values()).sort((a, b) => {
-          // Directories first, then alphabetical
-          if (a.kind !== b.kind) {
-            return a.kind === 'directory' ? -1 : 1;
-          }
-          return a.name.localeCompare(b.name);
-        });
-
-        children.forEach((child, index) => {
-          const isChildLast = index === children.length - 1;
-          const newPrefix = isRoot ? '' : prefix + (isLast ? '    ' : '│   ');
-
-          if (child.kind === 'directory') {
-            dirCount++;
-          } else {
-            fileCount++;
-          }
+      const entries = await fileSystemManager.listFiles({
+        path: basePath,
+        includeIgnored: input.includeIgnored,
+        maxDepth,
+      });
 
-          renderTree(child, newPrefix, isChildLast, false);
-        });
-      }
+      // Filter entries by base path if provided
+      const filteredEntries = withoutRuleProtectedEntries('tree', entries, basePath).filter(
+        (e) => !basePath || e.path === basePath || e.path.startsWith(basePath + '/')
+      );
 
       const rootName = basePath || fileSystemManager.getRootPath() || '.';
-      lines.push(rootName);
-      renderTree(root, '', true, true);
-
-      lines.push('');
-      lines.push(`${dirCount} directories, ${fileCount} files`);
+      const { lines, dirCount, fileCount } = renderTree(filteredEntries, basePath, rootName, maxDepth);
 
       return {
         success: true,
@@ -752,6 +1638,90 @@ export const treeTool = tool({
   },
 });
 
+/**
+ * Render directory entries as tree lines (like Unix tree command)
+ */
+function renderTree(
+  entries: FileSystemEntry[],
+  basePath: string,
+  rootName: string,
+  maxDepth?: number
+): { lines: string[]; dirCount: number; fileCount: number } {
+  interface TreeNode {
+    name: string;
+    kind: 'file' | 'directory';
+    children: Map<string, TreeNode>;
+  }
+
+  const root: TreeNode = { name: '', kind: 'directory', children: new Map() };
+
+  for (const entry of entries) {
+    // Get path relative to base path
+    const relativePath = basePath ? entry.path.slice(basePath.length + 1) || entry.name : entry.path;
+    const parts = relativePath.split('/').filter((p) => p.length > 0);
+
+    // Check depth limit
+    if (maxDepth !== undefined && parts.length > maxDepth) {
+      continue;
+    }
+
+    let current = root;
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!;
+      if (!current.children.has(part)) {
+        const isLast = i === parts.length - 1;
+        current.children.set(part, {
+          name: part,
+          kind: isLast ? entry.kind : 'directory',
+          children: new Map(),
+        });
+      }
+      current = current.children.get(part)!;
+    }
+  }
+
+  // Generate tree string
+  const lines: string[] = [];
+  let fileCount = 0;
+  let dirCount = 0;
+
+  function renderNode(node: TreeNode, prefix: string, isLast: boolean, isRoot: boolean): void {
+    if (!isRoot) {
+      const connector = isLast ? '└── ' : '├── ';
+      lines.push(prefix + connector + node.name);
+    }
+
+    const children = Array.from(node.children.values()).sort((a, b) => {
+      // Directories first, then alphabetical
+      if (a.kind !== b.kind) {
+        return a.kind === 'directory' ? -1 : 1;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    children.forEach((child, index) => {
+      const isChildLast = index === children.length - 1;
+      const newPrefix = isRoot ? '' : prefix + (isLast ? '    ' : '│   ');
+
+      if (child.kind === 'directory') {
+        dirCount++;
+      } else {
+        fileCount++;
+      }
+
+      renderNode(child, newPrefix, isChildLast, false);
+    });
+  }
+
+  lines.push(rootName);
+  renderNode(root, '', true, true);
+
+  lines.push('');
+  lines.push(`${dirCount} directories, ${fileCount} files`);
+
+  return { lines, dirCount, fileCount };
+}
+
 /**
  * Compare two files and show differences (like Unix diff command)
  */
@@ -770,15 +1740,19 @@ export const diffTool = tool({
       .default(3)
       .describe('Number of context lines around changes (default: 3)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('diff', { file1: input.file1, file2: input.file2 });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission(
+      'diff',
+      { file1: input.file1, file2: input.file2 },
+      auditLog.getCall(toolCallId)
+    );
     if (!allowed) {
       return { error: 'Permission denied to diff files' };
     }
 
     try {
-      const content1 = await fileSystemManager.readFile(input.file1);
-      const content2 = await fileSystemManager.readFile(input.file2);
+      const content1 = await readTextFile(input.file1);
+      const content2 = await readTextFile(input.file2);
 
       const lines1 = content1.split('\n');
       const lines2 = content2.split('\n');
@@ -1025,8 +1999,8 @@ export const wcTool = tool({
     countWords: z.boolean().optional().default(true).describe('Count words (default: true)'),
     countChars: z.boolean().optional().default(true).describe('Count characters (default: true)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('wc', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('wc', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to count file contents' };
     }
@@ -1038,7 +2012,11 @@ export const wcTool = tool({
         filesToCount.push(input.path);
       } else {
         const entries = await fileSystemManager.listFiles();
-        filesToCount.push(...entries.filter((e) => e.kind === 'file').map((e) => e.path));
+        filesToCount.push(
+          ...withoutRuleProtectedEntries('wc', entries)
+            .filter((e) => e.kind === 'file')
+            .map((e) => e.path)
+        );
       }
 
       const results: Array<{
@@ -1054,7 +2032,7 @@ export const wcTool = tool({
 
       for (const filePath of filesToCount) {
         try {
-          const content = await fileSystemManager.readFile(filePath);
+          const content = await readTextFile(filePath);
 
           // Count newlines to match Unix wc -l behavior (counts newline characters, not lines)
           // An empty file has 0 lines, a file with trailing newline doesn't get an extra count
@@ -1120,14 +2098,14 @@ export const sortTool = tool({
       .default(false)
       .describe('Ignore case when sorting (default: false)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('sort', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('sort', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to sort file' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       let lines = content.split('\n');
       const originalLineCount = lines.length;
 
@@ -1252,14 +2230,14 @@ export const uniqTool = tool({
       .default(false)
       .describe('Ignore case when comparing (default: false)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('uniq', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('uniq', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to process file' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       const lines = content.split('\n');
 
       // Remove trailing empty line if present
@@ -1368,14 +2346,14 @@ export const readFileContentTool = tool({
       .default(1)
       .describe('Line number to start from (1-indexed, default: 1)'),
   }),
-  execute: async (input) => {
-    const allowed = await checkPermission('read_file_content', { path: input.path });
+  execute: async (input, { toolCallId }) => {
+    const allowed = await checkPermission('read_file_content', { path: input.path }, auditLog.getCall(toolCallId));
     if (!allowed) {
       return { error: 'Permission denied to read file content' };
     }
 
     try {
-      const content = await fileSystemManager.readFile(input.path);
+      const content = await readTextFile(input.path);
       const allLines = content.split('\n');
       const totalLines = allLines.length;
 
@@ -1415,8 +2393,41 @@ export const readFileContentTool = tool({
  */
 interface PipeableResult {
   success: boolean;
-  output?: string;
+  output?: LineStream;
   error?: string;
+  /** Set when the output can be read as records by the record stages */
+  format?: RecordFormat;
+}
+
+/**
+ * Default limit on the bytes any one pipe stage may output
+ */
+const PIPE_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Default number of output lines shown per stage in a dry run
+ */
+const PIPE_PREVIEW_LINES = 5;
+
+/**
+ * What a pipe would do, reported by a dry run and shown in write permission dialogs
+ */
+export interface PipeDryRunReport {
+  filesRead: Array<{ path: string; size: number }>;
+  filesWritten: Array<{ path: string; size: number; action: 'create' | 'overwrite' | 'append' }>;
+  stages: Array<{ tool: string; lines: number; preview: string[] }>;
+}
+
+/**
+ * State shared by the stages of a single pipe execution
+ */
+interface PipeContext {
+  /** Named in-memory buffers written by tee and read back by cat */
+  buffers: Map<string, string>;
+  /** Set during a dry run: reads and writes are recorded here, and nothing is written */
+  dryRun?: PipeDryRunReport;
+  /** The pipe's audit call, which permission checks made while it runs are folded into */
+  auditCall?: PendingAuditCall | null;
 }
 
 /**
@@ -1425,153 +2436,699 @@ interface PipeableResult {
 type PipeableToolName =
   | 'cat'
   | 'read_file'
+  | 'ls'
+  | 'find'
+  | 'tree'
   | 'grep'
   | 'sort'
   | 'uniq'
   | 'head'
   | 'tail'
   | 'wc'
-  | 'write_file';
+  | 'sed'
+  | 'cut'
+  | 'tr'
+  | 'tee'
+  | 'write_file'
+  | 'foreach'
+  | 'where'
+  | 'select'
+  | 'sort_by'
+  | 'group_by'
+  | 'count_by'
+  | 'format';
 
 /**
- * Maps pipeable tool names to their required permission names
+ * Maps pipeable tool names to their required permission names.
+ * null means the stage only transforms piped input and is covered by the pipe permission.
  */
-const PIPEABLE_TOOL_PERMISSIONS: Record<PipeableToolName, ToolName> = {
+const PIPEABLE_TOOL_PERMISSIONS: Record<PipeableToolName, ToolName | null> = {
   cat: 'cat',
   read_file: 'read_file_content',
+  ls: 'list_files',
+  find: 'list_files',
+  tree: 'tree',
   grep: 'grep',
   sort: 'sort',
   uniq: 'uniq',
   head: 'head_file',
   tail: 'tail_file',
   wc: 'wc',
+  sed: null,
+  cut: null,
+  tr: null,
+  tee: null,
   write_file: 'write_file',
+  foreach: null,
+  where: null,
+  select: null,
+  sort_by: null,
+  group_by: null,
+  count_by: null,
+  format: null,
 };
 
 /**
- * Internal pipeable functions that accept stdin and return output
+ * Tools that foreach can run once per input path
  */
-const pipeableFunctions: Record<
-  PipeableToolName,
-  (args: Record<string, unknown>, stdin?: string) => Promise<PipeableResult>
-> = {
+const FOREACH_SUBCOMMANDS: PipeableToolName[] = [
+  'cat',
+  'read_file',
+  'grep',
+  'sort',
+  'uniq',
+  'head',
+  'tail',
+  'wc',
+];
+
+/**
+ * A permission that must be granted before a pipe command runs
+ */
+interface PipePermissionRequirement {
+  name: string;
   /**
-   * Cat - read file(s) or pass through stdin
+   * Receives a dry-run preview of the pipe, for permission dialogs that can show it,
+   * and the audit call to record the decision and paths in
    */
-  cat: async (args, stdin) => {
-    const paths = args.paths as string[] | undefined;
-    const path = args.path as string | undefined;
+  check?: (getPreview: () => Promise<PipeDryRunReport | undefined>, auditCall: PendingAuditCall) => Promise<boolean>;
+  error?: string;
+  /** Writes are checked after everything else, and skipped in a dry run */
+  write?: boolean;
+}
 
-    // If no paths provided, pass through stdin
-    if (!paths && !path) {
-      if (stdin !== undefined) {
-        return { success: true, output: stdin };
-      }
-      return { success: false, error: 'cat: no input (provide paths or pipe input)' };
-    }
+/**
+ * Check whether a pipe command names a built-in pipeable function
+ */
+function isPipeableToolName(tool: string): tool is PipeableToolName {
+  return Object.hasOwn(pipeableFunctions, tool);
+}
 
-    // Read file(s)
-    const filePaths = paths || (path ? [path] : []);
-    const contents: string[] = [];
+/**
+ * Check permission for a pipe stage that writes a file. When the user will be
+ * asked, the request includes a dry-run preview of what the pipe would do.
+ */
+async function checkPipeWritePermission(
+  permission: ToolName,
+  args: Record<string, unknown>,
+  getPreview: () => Promise<PipeDryRunReport | undefined>,
+  auditCall: PendingAuditCall
+): Promise<boolean> {
+  // Only build the preview, a dry run of the whole pipe, when the user will actually be asked
+  if (
+    getCallPermission(permission, args) !== 'ask' ||
+    (isGrantable(permission, args) && permissionGrants.isGranted(permission, getPermissionPaths(permission, args)))
+  ) {
+    return checkPermission(permission, args, auditCall);
+  }
 
-    for (const filePath of filePaths) {
-      try {
-        const content = await fileSystemManager.readFile(filePath);
-        contents.push(content);
-      } catch (error) {
-        return { success: false, error: `cat: ${filePath}: ${(error as Error).message}` };
-      }
-    }
+  const preview = await getPreview();
+  return checkPermission(permission, preview ? { ...args, preview } : args, auditCall);
+}
 
-    return { success: true, output: contents.join('\n') };
-  },
+/**
+ * Collect the permissions a pipe command needs.
+ * foreach is covered by the pipe permission itself, so only its sub-command is checked.
+ * Any other name is looked up as an enabled WASM tool and checked with its own permission.
+ */
+function getPipeCommandPermissions(
+  tool: string,
+  args: Record<string, unknown>
+): PipePermissionRequirement[] {
+  if (!isPipeableToolName(tool)) {
+    if (!wasmToolManager.getEnabledToolByAIName(tool)) {
+      return [{ name: tool, error: `Unknown tool: ${tool}` }];
+    }
+    return [{ name: tool, check: (_getPreview, auditCall) => checkWasmPermission(tool, args, auditCall) }];
+  }
 
-  /**
-   * Read file - read a single file
-   */
-  read_file: async (args) => {
-    const path = args.path as string;
+  if (tool === 'cat' && args.buffer !== undefined) {
+    // Reading a pipe buffer doesn't touch the file system
+    return [];
+  }
+
+  if (tool === 'tee') {
+    const path = args.path as string | undefined;
     if (!path) {
-      return { success: false, error: 'read_file: path required' };
-    }
+      return [];
+    }
+    return [{
+      name: `tee ${path}`,
+      write: true,
+      check: async (getPreview, auditCall) => {
+        const permission: ToolName = (await isExistingFile(path)) ? 'write_file' : 'create_file';
+        return checkPipeWritePermission(permission, { path }, getPreview, auditCall);
+      },
+    }];
+  }
 
-    try {
-      const content = await fileSystemManager.readFile(path);
-      return { success: true, output: content };
-    } catch (error) {
-      return { success: false, error: `read_file: ${(error as Error).message}` };
+  if (tool !== 'foreach') {
+    const permission = PIPEABLE_TOOL_PERMISSIONS[tool];
+    if (permission === null) {
+      return [];
     }
-  },
+    if (permission === 'write_file') {
+      return [{
+        name: tool,
+        write: true,
+        check: (getPreview, auditCall) => checkPipeWritePermission(permission, args, getPreview, auditCall),
+      }];
+    }
+    return [{ name: tool, check: (_getPreview, auditCall) => checkPermission(permission, args, auditCall) }];
+  }
 
-  /**
-   * Grep - filter lines matching pattern
-   */
-  grep: async (args, stdin) => {
-    const pattern = args.pattern as string;
-    const path = args.path as string | undefined;
-    const caseInsensitive = args.caseInsensitive as boolean | undefined;
-    const invertMatch = args.invertMatch as boolean | undefined;
+  const subTool = args.tool as string | undefined;
+  if (!subTool) {
+    // Reported by foreach itself when it runs
+    return [];
+  }
+  if (!isPipeableToolName(subTool) || !FOREACH_SUBCOMMANDS.includes(subTool)) {
+    return [{ name: `foreach ${subTool}`, error: `foreach: ${subTool} cannot be run per file` }];
+  }
 
-    if (!pattern) {
-      return { success: false, error: 'grep: pattern required' };
-    }
+  const subPermission = PIPEABLE_TOOL_PERMISSIONS[subTool];
+  if (subPermission === null) {
+    return [];
+  }
+  return [{
+    name: `foreach ${subTool}`,
+    check: (_getPreview, auditCall) => checkPermission(subPermission, args.args ?? {}, auditCall),
+  }];
+}
 
-    let content: string;
+/**
+ * Run an enabled WASM tool as a pipe stage.
+ *
+ * Piped input becomes the tool's stdin, or the argument named by inputArg for
+ * tools that take their text as an argument. Permission has already been
+ * checked by the pipe's up-front validation.
+ */
+async function runWasmPipeStage(
+  toolName: string,
+  args: Record<string, unknown>,
+  inputArg: string | undefined,
+  stdinLines: LineStream | undefined,
+  context: PipeContext
+): Promise<PipeableResult> {
+  const storedTool = wasmToolManager.getEnabledToolByAIName(toolName);
+  if (!storedTool) {
+    return { success: false, error: `${toolName}: WASM tool not found or disabled` };
+  }
 
-    // If path provided, read from file; otherwise use stdin
-    if (path) {
-      try {
-        content = await fileSystemManager.readFile(path);
-      } catch (error) {
-        return { success: false, error: `grep: ${path}: ${(error as Error).message}` };
-      }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'grep: no input (provide path or pipe input)' };
-    }
+  const { fileAccess } = storedTool.manifest.execution;
+  if (context.dryRun && (fileAccess === 'write' || fileAccess === 'readwrite')) {
+    return { success: false, error: `${toolName}: can write files, so it is not run in a dry run` };
+  }
 
-    const regex = caseInsensitive ? new RegExp(pattern, 'i') : new RegExp(pattern);
-    const lines = content.split('\n');
-    const matchedLines = lines.filter(line => {
-      const matches = regex.test(line);
-      return invertMatch ? !matches : matches;
-    });
+  // WASM tools take their input in one piece
+  const stdin = stdinLines !== undefined ? await joinLines(stdinLines) : undefined;
+  let toolArgs = args;
+  let toolStdin = stdin;
+
+  if (inputArg) {
+    if (stdin === undefined) {
+      return { success: false, error: `${toolName}: no input for ${inputArg} (pipe input required)` };
+    }
+    toolArgs = { ...args, [inputArg]: stdin };
+    toolStdin = undefined;
+  } else if (stdin !== undefined && storedTool.manifest.execution.argStyle === 'json') {
+    return {
+      success: false,
+      error: `${toolName}: reads its arguments from stdin; set inputArg to pass piped input as an argument`,
+    };
+  }
 
-    return { success: true, output: matchedLines.join('\n') };
-  },
+  const result = await wasmToolManager.executeTool(storedTool.manifest.name, toolArgs, {
+    stdin: toolStdin,
+    permissionChecked: true,
+  });
 
-  /**
-   * Sort - sort lines
-   */
-  sort: async (args, stdin) => {
+  if (!result.success) {
+    const message = result.error || result.stderr.trim() || `exited with code ${result.exitCode}`;
+    return { success: false, error: `${toolName}: ${message}` };
+  }
+
+  // Drop the trailing newline most CLI tools print, to match the native stages
+  return { success: true, output: linesFromText(result.stdout.replace(/\n$/, '')) };
+}
+
+/**
+ * A listing entry with the metadata needed by listing filters
+ */
+interface ListingEntry {
+  entry: FileSystemEntry;
+  size?: number;
+  lastModified?: number;
+}
+
+/**
+ * List entries below a directory for the ls/find/tree pipe stages, down to `maxDepth` levels,
+ * leaving out entries a path rule protects from `toolName`.
+ * Returns entries with depth relative to the base directory.
+ */
+async function listEntriesUnder(
+  toolName: ToolName,
+  basePath: string,
+  includeIgnored: boolean = false,
+  maxDepth?: number
+): Promise<Array<{ entry: FileSystemEntry; depth: number }>> {
+  if (basePath) {
+    const baseEntry = await fileSystemManager.resolvePath(basePath);
+    if (!baseEntry) {
+      throw new Error(`${basePath}: No such directory`);
+    }
+    if (baseEntry.kind !== 'directory') {
+      throw new Error(`${basePath}: Not a directory`);
+    }
+  }
+
+  const entries = await fileSystemManager.listFiles({ path: basePath, includeIgnored, maxDepth });
+  const prefix = basePath ? basePath + '/' : '';
+  return withoutRuleProtectedEntries(toolName, entries, basePath)
+    .filter((e) => e.path.startsWith(prefix))
+    .map((e) => ({ entry: e, depth: e.path.slice(prefix.length).split('/').length }));
+}
+
+/**
+ * Normalize a listing base path: strip "./" and trailing slashes, treat "." as the root
+ */
+function normalizeListingPath(path: string | undefined): string {
+  if (!path) return '';
+  const normalized = path.replace(/^\.\//, '').replace(/\/+$/, '');
+  return normalized === '.' ? '' : fileSystemManager.normalizePath(normalized);
+}
+
+/**
+ * Parse a date filter value (ISO date string or epoch milliseconds)
+ */
+function parseDateFilter(value: unknown, argName: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new Error(`invalid date for ${argName}: ${String(value)}`);
+  }
+  return time;
+}
+
+/**
+ * Apply the shared listing filters (name glob, name regex, type, size, mtime).
+ * File metadata is only fetched when a size/mtime filter or long output needs it.
+ */
+async function filterListing(
+  entries: FileSystemEntry[],
+  args: Record<string, unknown>
+): Promise<ListingEntry[]> {
+  const name = args.name as string | undefined;
+  const regex = args.regex ? new RegExp(args.regex as string) : undefined;
+  const type = args.type as 'file' | 'directory' | undefined;
+  const minSize = args.minSize as number | undefined;
+  const maxSize = args.maxSize as number | undefined;
+  const modifiedAfter = parseDateFilter(args.modifiedAfter, 'modifiedAfter');
+  const modifiedBefore = parseDateFilter(args.modifiedBefore, 'modifiedBefore');
+  const needsMetadata =
+    minSize !== undefined ||
+    maxSize !== undefined ||
+    modifiedAfter !== undefined ||
+    modifiedBefore !== undefined ||
+    args.long === true;
+
+  const results: ListingEntry[] = [];
+
+  for (const entry of entries) {
+    if (type && entry.kind !== type) continue;
+    if (name && !matchesGlob(entry.name, name)) continue;
+    if (regex && !regex.test(entry.name)) continue;
+
+    if (!needsMetadata) {
+      results.push({ entry });
+      continue;
+    }
+
+    if (entry.kind === 'directory') {
+      // Size and modification time only apply to files
+      if (minSize !== undefined || maxSize !== undefined) continue;
+      if (modifiedAfter !== undefined || modifiedBefore !== undefined) continue;
+      results.push({ entry });
+      continue;
+    }
+
+    const metadata = await fileSystemManager.getFileMetadata(entry.path);
+    if (minSize !== undefined && metadata.size < minSize) continue;
+    if (maxSize !== undefined && metadata.size > maxSize) continue;
+    if (modifiedAfter !== undefined && metadata.lastModified <= modifiedAfter) continue;
+    if (modifiedBefore !== undefined && metadata.lastModified >= modifiedBefore) continue;
+
+    results.push({ entry, size: metadata.size, lastModified: metadata.lastModified });
+  }
+
+  return results;
+}
+
+/**
+ * Format listing entries one path per line, or "size  mtime  path" with long output
+ */
+function formatListing(entries: ListingEntry[], long: boolean): string {
+  const sorted = [...entries].sort((a, b) => a.entry.path.localeCompare(b.entry.path));
+
+  if (!long) {
+    return sorted.map(({ entry }) => entry.path).join('\n');
+  }
+
+  return sorted
+    .map(({ entry, size, lastModified }) => {
+      const sizeText = (size !== undefined ? size.toString() : '-').padStart(10);
+      const timeText = lastModified !== undefined ? new Date(lastModified).toISOString() : '-'.padEnd(24);
+      return `${sizeText}  ${timeText}  ${entry.path}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Pass a stage's output through, reporting any error raised while it streams
+ */
+async function* trackStageErrors(
+  lines: LineStream,
+  onError: (error: Error) => void
+): LineStream {
+  try {
+    yield* lines;
+  } catch (error) {
+    onError(error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Note a file read in the dry-run report
+ */
+async function recordDryRunRead(report: PipeDryRunReport, path: string): Promise<void> {
+  if (report.filesRead.some((file) => file.path === path)) {
+    return;
+  }
+  const metadata = await fileSystemManager.getFileMetadata(path);
+  report.filesRead.push({ path, size: metadata.size });
+}
+
+/**
+ * Note a file write in the dry-run report instead of writing it
+ */
+function recordDryRunWrite(
+  report: PipeDryRunReport,
+  path: string,
+  content: string,
+  action: 'create' | 'overwrite' | 'append'
+): void {
+  const size = new TextEncoder().encode(content).length;
+  const existing = report.filesWritten.find((file) => file.path === path);
+  if (existing) {
+    existing.size = size;
+  } else {
+    report.filesWritten.push({ path, size, action });
+  }
+}
+
+/**
+ * Open a file as a line stream for a pipe stage
+ */
+async function readFileLines(stage: string, path: string, context: PipeContext): Promise<PipeableResult> {
+  try {
+    const stream = await readTextFileStream(path);
+    if (context.dryRun) {
+      await recordDryRunRead(context.dryRun, path);
+    }
+    return { success: true, output: linesFromStream(stream) };
+  } catch (error) {
+    return { success: false, error: `${stage}: ${path}: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Resolve a stage's input: the file at path if given, otherwise the piped input
+ */
+async function readStageInput(
+  stage: string,
+  path: string | undefined,
+  stdin: LineStream | undefined,
+  context: PipeContext
+): Promise<PipeableResult> {
+  if (path) {
+    return readFileLines(stage, path, context);
+  }
+  if (stdin !== undefined) {
+    return { success: true, output: stdin };
+  }
+  return { success: false, error: `${stage}: no input (provide path or pipe input)` };
+}
+
+/**
+ * Add the stage name to errors raised while parsing records
+ */
+async function* prefixRecordErrors(stage: string, records: RecordStream): RecordStream {
+  try {
+    yield* records;
+  } catch (error) {
+    throw new Error(`${stage}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse a record stage's piped input, in the format given by the `from` arg,
+ * else the format reported by the previous stage, else JSON Lines
+ */
+function openRecordInput(
+  stage: string,
+  args: Record<string, unknown>,
+  stdin: LineStream | undefined,
+  stdinFormat: RecordFormat | undefined
+): { records?: RecordStream; error?: string } {
+  if (stdin === undefined) {
+    return { error: `${stage}: no input (pipe records from read_file)` };
+  }
+
+  const from = args.from as RecordFormat | undefined;
+  if (from !== undefined && !RECORD_FORMATS.includes(from)) {
+    return { error: `${stage}: unknown input format: ${from}` };
+  }
+
+  return { records: prefixRecordErrors(stage, parseRecords(stdin, from ?? stdinFormat ?? 'jsonl')) };
+}
+
+/**
+ * Check a path foreach read from its input. The up-front check couldn't see the piped paths,
+ * so rules denying or asking about one still apply. A dry run doesn't ask: the real run will.
+ * The decision and path are added to the pipe's audit entry.
+ */
+async function checkForeachPath(
+  permission: ToolName,
+  args: Record<string, unknown> & { path: string },
+  context: PipeContext
+): Promise<boolean> {
+  const call: PendingAuditCall = { decision: 'auto', paths: [args.path] };
+  let allowed = true;
+  if (getCallPermission(permission, args) === 'never') {
+    call.decision = 'denied';
+    allowed = false;
+  } else if (getPathRuleDecision(permission, args.path) === 'ask' && !context.dryRun) {
+    allowed = await checkPermission(permission, args, call);
+  }
+  if (context.auditCall) {
+    mergeAuditCall(context.auditCall, call);
+  }
+  return allowed;
+}
+
+/**
+ * Internal pipeable functions that accept stdin and return output.
+ *
+ * Stages validate their arguments and open their inputs when called, then
+ * process lines lazily as the next stage pulls them, so head can stop
+ * reading early. Stages with side effects (tee, write_file) and WASM tools
+ * consume their whole input when called, keeping the pipe's order of effects.
+ */
+const pipeableFunctions: Record<
+  PipeableToolName,
+  (
+    args: Record<string, unknown>,
+    stdin: LineStream | undefined,
+    context: PipeContext,
+    stdinFormat?: RecordFormat
+  ) => Promise<PipeableResult>
+> = {
+  /**
+   * Cat - read file(s) or a named buffer, or pass through stdin
+   */
+  cat: async (args, stdin, context, stdinFormat) => {
+    const paths = args.paths as string[] | undefined;
     const path = args.path as string | undefined;
-    const reverse = args.reverse as boolean | undefined;
-    const numeric = args.numeric as boolean | undefined;
-    const unique = args.unique as boolean | undefined;
-    const ignoreCase = args.ignoreCase as boolean | undefined;
+    const buffer = args.buffer as string | undefined;
 
-    let content: string;
+    // Read back a buffer saved earlier in this pipe by tee
+    if (buffer !== undefined) {
+      if (paths || path) {
+        return { success: false, error: 'cat: provide either buffer or paths, not both' };
+      }
+      const content = context.buffers.get(buffer);
+      if (content === undefined) {
+        return { success: false, error: `cat: buffer not found: ${buffer}` };
+      }
+      return { success: true, output: linesFromText(content) };
+    }
 
-    if (path) {
-      try {
-        content = await fileSystemManager.readFile(path);
-      } catch (error) {
-        return { success: false, error: `sort: ${path}: ${(error as Error).message}` };
+    // If no paths provided, pass through stdin
+    if (!paths && !path) {
+      if (stdin !== undefined) {
+        return { success: true, output: stdin, format: stdinFormat };
       }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'sort: no input (provide path or pipe input)' };
+      return { success: false, error: 'cat: no input (provide paths or pipe input)' };
     }
 
-    let lines = content.split('\n');
+    // Open file(s) up front so a missing file fails before any output
+    const filePaths = paths || (path ? [path] : []);
+    const streams: LineStream[] = [];
 
-    // Remove trailing empty line if present
-    if (lines.length > 0 && lines[lines.length - 1] === '') {
-      lines.pop();
+    for (const filePath of filePaths) {
+      const opened = await readFileLines('cat', filePath, context);
+      if (!opened.output) {
+        return opened;
+      }
+      streams.push(opened.output);
     }
 
+    // Like read_file, a JSON, JSON Lines or CSV file can be read as records by the next stage.
+    // Several files only still make records when they are all JSON Lines.
+    const formats = filePaths.map((filePath) => recordFormatForPath(filePath));
+    const format = formats.length === 1 || formats.every((f) => f === 'jsonl') ? formats[0] ?? undefined : undefined;
+    return { success: true, output: concatLines(streams), format };
+  },
+
+  /**
+   * Read file - read a single file
+   */
+  read_file: async (args, _stdin, context) => {
+    const path = args.path as string;
+    if (!path) {
+      return { success: false, error: 'read_file: path required' };
+    }
+
+    try {
+      const stream = await readTextFileStream(path);
+      if (context.dryRun) {
+        await recordDryRunRead(context.dryRun, path);
+      }
+      // JSON, JSON Lines and CSV files can be read as records by the next stage
+      const format = recordFormatForPath(path) ?? undefined;
+      return { success: true, output: linesFromStream(stream), format };
+    } catch (error) {
+      return { success: false, error: `read_file: ${(error as Error).message}` };
+    }
+  },
+
+  /**
+   * Ls - list the direct children of a directory
+   */
+  ls: async (args) => {
+    const basePath = normalizeListingPath(args.path as string | undefined);
+    const all = args.all as boolean | undefined;
+
+    try {
+      const children = (await listEntriesUnder('list_files', basePath, args.includeIgnored === true, 1))
+        .filter(({ entry, depth }) => depth === 1 && (all || !entry.name.startsWith('.')))
+        .map(({ entry }) => entry);
+      const listing = await filterListing(children, args);
+      return { success: true, output: linesFromText(formatListing(listing, args.long === true)) };
+    } catch (error) {
+      return { success: false, error: `ls: ${(error as Error).message}` };
+    }
+  },
+
+  /**
+   * Find - recursively list entries matching filters
+   */
+  find: async (args) => {
+    const basePath = normalizeListingPath(args.path as string | undefined);
+    const maxDepth = args.maxDepth as number | undefined;
+
+    try {
+      const entries = (await listEntriesUnder('list_files', basePath, args.includeIgnored === true, maxDepth))
+        .filter(({ depth }) => maxDepth === undefined || depth <= maxDepth)
+        .map(({ entry }) => entry);
+      const listing = await filterListing(entries, args);
+      return { success: true, output: linesFromText(formatListing(listing, args.long === true)) };
+    } catch (error) {
+      return { success: false, error: `find: ${(error as Error).message}` };
+    }
+  },
+
+  /**
+   * Tree - render the directory structure, keeping only entries matching filters
+   */
+  tree: async (args) => {
+    const basePath = normalizeListingPath(args.path as string | undefined);
+    const maxDepth = args.maxDepth as number | undefined;
+
+    try {
+      const entries = (await listEntriesUnder('tree', basePath, args.includeIgnored === true, maxDepth)).map(
+        ({ entry }) => entry
+      );
+      const listing = await filterListing(entries, { ...args, long: false });
+      const rootName = basePath || fileSystemManager.getRootPath() || '.';
+      const { lines } = renderTree(listing.map(({ entry }) => entry), basePath, rootName, maxDepth);
+      return { success: true, output: linesFromText(lines.join('\n')) };
+    } catch (error) {
+      return { success: false, error: `tree: ${(error as Error).message}` };
+    }
+  },
+
+  /**
+   * Grep - filter lines matching pattern
+   */
+  grep: async (args, stdin, context) => {
+    const pattern = args.pattern as string;
+    const path = args.path as string | undefined;
+    const caseInsensitive = args.caseInsensitive as boolean | undefined;
+    const invertMatch = args.invertMatch as boolean | undefined;
+
+    if (!pattern) {
+      return { success: false, error: 'grep: pattern required' };
+    }
+
+    // If path provided, read from file; otherwise use stdin
+    const input = await readStageInput('grep', path, stdin, context);
+    if (!input.output) {
+      return input;
+    }
+    const lines = input.output;
+
+    const regex = caseInsensitive ? new RegExp(pattern, 'i') : new RegExp(pattern);
+
+    async function* matchingLines(): LineStream {
+      for await (const line of lines) {
+        const matches = regex.test(line);
+        if (invertMatch ? !matches : matches) {
+          yield line;
+        }
+      }
+    }
+
+    return { success: true, output: matchingLines() };
+  },
+
+  /**
+   * Sort - sort lines
+   */
+  sort: async (args, stdin, context) => {
+    const path = args.path as string | undefined;
+    const reverse = args.reverse as boolean | undefined;
+    const numeric = args.numeric as boolean | undefined;
+    const unique = args.unique as boolean | undefined;
+    const ignoreCase = args.ignoreCase as boolean | undefined;
+
+    const input = await readStageInput('sort', path, stdin, context);
+    if (!input.output) {
+      return input;
+    }
+    const inputLines = input.output;
+
     // Sort function
     const compareFn = (a: string, b: string): number => {
       const valA = ignoreCase ? a.toLowerCase() : a;
@@ -1598,220 +3155,723 @@ const pipeableFunctions: Record<
       return reverse ? -result : result;
     };
 
-    lines.sort(compareFn);
+    async function* sortedLines(): LineStream {
+      // Sorting needs every line; the trailing empty line from a final newline is dropped
+      let lines = await collectLines(dropTrailingEmptyLine(inputLines));
+      lines.sort(compareFn);
 
-    // Remove duplicates if requested
-    if (unique) {
-      const seen = new Set<string>();
-      lines = lines.filter(line => {
-        const key = ignoreCase ? line.toLowerCase() : line;
-        if (seen.has(key)) return false;
-        seen.add(key);
-        return true;
-      });
+      // Remove duplicates if requested
+      if (unique) {
+        const seen = new Set<string>();
+        lines = lines.filter(line => {
+          const key = ignoreCase ? line.toLowerCase() : line;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+
+      yield* lines;
     }
 
-    return { success: true, output: lines.join('\n') };
+    return { success: true, output: sortedLines() };
   },
 
   /**
    * Uniq - filter adjacent duplicate lines
    */
-  uniq: async (args, stdin) => {
+  uniq: async (args, stdin, context) => {
     const path = args.path as string | undefined;
     const count = args.count as boolean | undefined;
     const duplicatesOnly = args.duplicatesOnly as boolean | undefined;
     const uniqueOnly = args.uniqueOnly as boolean | undefined;
     const ignoreCase = args.ignoreCase as boolean | undefined;
 
-    let content: string;
+    const input = await readStageInput('uniq', path, stdin, context);
+    if (!input.output) {
+      return input;
+    }
+    const lines = input.output;
 
-    if (path) {
-      try {
-        content = await fileSystemManager.readFile(path);
-      } catch (error) {
-        return { success: false, error: `uniq: ${path}: ${(error as Error).message}` };
+    // Filter and format a run of adjacent duplicates
+    const formatRun = (line: string, runCount: number): string | null => {
+      if (duplicatesOnly && runCount === 1) return null;
+      if (uniqueOnly && !duplicatesOnly && runCount > 1) return null;
+      return count ? `${runCount.toString().padStart(7)} ${line}` : line;
+    };
+
+    async function* uniqueLines(): LineStream {
+      let current: { line: string; key: string; count: number } | null = null;
+
+      for await (const line of dropTrailingEmptyLine(lines)) {
+        const key = ignoreCase ? line.toLowerCase() : line;
+        if (current && current.key === key) {
+          current.count++;
+          continue;
+        }
+
+        if (current) {
+          const formatted = formatRun(current.line, current.count);
+          if (formatted !== null) yield formatted;
+        }
+        current = { line, key, count: 1 };
+      }
+
+      if (current) {
+        const formatted = formatRun(current.line, current.count);
+        if (formatted !== null) yield formatted;
       }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'uniq: no input (provide path or pipe input)' };
     }
 
-    const lines = content.split('\n');
+    return { success: true, output: uniqueLines() };
+  },
 
-    // Remove trailing empty line if present
-    if (lines.length > 0 && lines[lines.length - 1] === '') {
-      lines.pop();
-    }
+  /**
+   * Head - get first N lines, stopping the upstream read once they have arrived
+   */
+  head: async (args, stdin, context) => {
+    const path = args.path as string | undefined;
+    const lines = (args.lines as number | undefined) ?? 10;
 
-    // Process lines, tracking adjacent duplicates
-    const processed: Array<{ line: string; count: number }> = [];
+    const input = await readStageInput('head', path, stdin, context);
+    if (!input.output) {
+      return input;
+    }
+    // Remove trailing empty element caused by final newline
+    const allLines = dropTrailingEmptyLine(input.output);
 
-    for (const line of lines) {
-      const compareKey = ignoreCase ? line.toLowerCase() : line;
-      const lastItem = processed[processed.length - 1];
-      const lastKey = lastItem
-        ? ignoreCase ? lastItem.line.toLowerCase() : lastItem.line
-        : null;
+    async function* headLines(): LineStream {
+      if (lines < 0) {
+        // Negative counts keep everything but the last N lines
+        yield* (await collectLines(allLines)).slice(0, lines);
+        return;
+      }
 
-      if (lastKey === compareKey && lastItem) {
-        lastItem.count++;
-      } else {
-        processed.push({ line, count: 1 });
+      if (lines === 0) return;
+      let emitted = 0;
+      for await (const line of allLines) {
+        yield line;
+        if (++emitted >= lines) return;
       }
     }
 
-    // Filter based on options
-    let filtered = processed;
-    if (duplicatesOnly) {
-      filtered = filtered.filter(item => item.count > 1);
-    } else if (uniqueOnly) {
-      filtered = filtered.filter(item => item.count === 1);
+    return { success: true, output: headLines() };
+  },
+
+  /**
+   * Tail - get last N lines
+   */
+  tail: async (args, stdin, context) => {
+    const path = args.path as string | undefined;
+    const lines = (args.lines as number | undefined) ?? 10;
+
+    const input = await readStageInput('tail', path, stdin, context);
+    if (!input.output) {
+      return input;
     }
+    // Remove trailing empty element caused by final newline
+    const allLines = dropTrailingEmptyLine(input.output);
 
-    // Format output
-    let outputLines: string[];
-    if (count) {
-      outputLines = filtered.map(item => `${item.count.toString().padStart(7)} ${item.line}`);
-    } else {
-      outputLines = filtered.map(item => item.line);
+    async function* tailLines(): LineStream {
+      yield* (await collectLines(allLines)).slice(-lines);
     }
 
-    return { success: true, output: outputLines.join('\n') };
+    return { success: true, output: tailLines() };
   },
 
   /**
-   * Head - get first N lines
+   * Wc - count lines, words, characters
    */
-  head: async (args, stdin) => {
+  wc: async (args, stdin, context) => {
     const path = args.path as string | undefined;
-    const lines = (args.lines as number | undefined) ?? 10;
+    const countLines = args.countLines as boolean | undefined ?? true;
+    const countWords = args.countWords as boolean | undefined ?? true;
+    const countChars = args.countChars as boolean | undefined ?? true;
 
-    let content: string;
+    const input = await readStageInput('wc', path, stdin, context);
+    if (!input.output) {
+      return input;
+    }
+    const inputLines = input.output;
 
-    if (path) {
-      try {
-        content = await fileSystemManager.readFile(path);
-      } catch (error) {
-        return { success: false, error: `head: ${path}: ${(error as Error).message}` };
+    async function* counts(): LineStream {
+      // Lines are counted as newlines, so the stream's line count is one more
+      let lineCount = 0;
+      let words = 0;
+      let chars = 0;
+
+      for await (const line of inputLines) {
+        lineCount++;
+        if (countWords) words += line.split(/\s+/).filter(w => w.length > 0).length;
+        if (countChars) chars += line.length;
       }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'head: no input (provide path or pipe input)' };
+
+      const lines = countLines ? Math.max(lineCount - 1, 0) : 0;
+      if (countChars) chars += Math.max(lineCount - 1, 0);
+
+      // Format like Unix wc output
+      const parts: string[] = [];
+      if (countLines) parts.push(lines.toString().padStart(8));
+      if (countWords) parts.push(words.toString().padStart(8));
+      if (countChars) parts.push(chars.toString().padStart(8));
+
+      yield parts.join('');
     }
 
-    const allLines = content.split('\n');
-    // Remove trailing empty element caused by final newline
-    if (allLines.length > 0 && allLines[allLines.length - 1] === '') {
-      allLines.pop();
+    return { success: true, output: counts() };
+  },
+
+  /**
+   * Sed - stream edit lines with s///, d and p commands
+   */
+  sed: async (args, stdin) => {
+    const script = args.script as string | undefined;
+    const quiet = args.quiet as boolean | undefined;
+
+    if (!script) {
+      return { success: false, error: 'sed: script required' };
+    }
+    if (stdin === undefined) {
+      return { success: false, error: 'sed: no input (pipe input required)' };
+    }
+
+    // Check the script before any input is read
+    try {
+      runSed([], script, quiet);
+    } catch (error) {
+      return { success: false, error: `sed: ${(error as Error).message}` };
     }
 
-    const headLines = allLines.slice(0, lines);
-    return { success: true, output: headLines.join('\n') };
+    async function* editedLines(input: LineStream, sedScript: string): LineStream {
+      // Addresses like $ need the whole input; remove trailing empty element caused by final newline
+      const lines = await collectLines(dropTrailingEmptyLine(input));
+      yield* runSed(lines, sedScript, quiet);
+    }
+
+    return { success: true, output: editedLines(stdin, script) };
   },
 
   /**
-   * Tail - get last N lines
+   * Cut - select fields or characters from each line
    */
-  tail: async (args, stdin) => {
-    const path = args.path as string | undefined;
-    const lines = (args.lines as number | undefined) ?? 10;
+  cut: async (args, stdin) => {
+    if (stdin === undefined) {
+      return { success: false, error: 'cut: no input (pipe input required)' };
+    }
 
-    let content: string;
+    const options: CutOptions = {
+      fields: args.fields as string | undefined,
+      characters: args.characters as string | undefined,
+      delimiter: args.delimiter as string | undefined,
+      outputDelimiter: args.outputDelimiter as string | undefined,
+      onlyDelimited: args.onlyDelimited as boolean | undefined,
+    };
 
-    if (path) {
-      try {
-        content = await fileSystemManager.readFile(path);
-      } catch (error) {
-        return { success: false, error: `tail: ${path}: ${(error as Error).message}` };
+    // Check the options before any input is read
+    try {
+      runCut([], options);
+    } catch (error) {
+      return { success: false, error: `cut: ${(error as Error).message}` };
+    }
+
+    async function* cutLines(input: LineStream): LineStream {
+      // Remove trailing empty element caused by final newline
+      for await (const line of dropTrailingEmptyLine(input)) {
+        yield* runCut([line], options);
       }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'tail: no input (provide path or pipe input)' };
     }
 
-    const allLines = content.split('\n');
-    // Remove trailing empty element caused by final newline
-    if (allLines.length > 0 && allLines[allLines.length - 1] === '') {
-      allLines.pop();
+    return { success: true, output: cutLines(stdin) };
+  },
+
+  /**
+   * Tr - translate, delete or squeeze characters
+   */
+  tr: async (args, stdin) => {
+    const set1 = args.set1 as string | undefined;
+
+    if (!set1) {
+      return { success: false, error: 'tr: set1 required' };
+    }
+    if (stdin === undefined) {
+      return { success: false, error: 'tr: no input (pipe input required)' };
+    }
+
+    const options: TrOptions = {
+      set1,
+      set2: args.set2 as string | undefined,
+      delete: args.delete as boolean | undefined,
+      squeeze: args.squeeze as boolean | undefined,
+    };
+
+    // Check the sets before any input is read
+    try {
+      runTr('', options);
+    } catch (error) {
+      return { success: false, error: `tr: ${(error as Error).message}` };
+    }
+
+    async function* translatedLines(input: LineStream): LineStream {
+      // Sets may include newlines, so translate the text as a whole
+      yield* linesFromText(runTr(await joinLines(input), options));
     }
 
-    const tailLines = allLines.slice(-lines);
-    return { success: true, output: tailLines.join('\n') };
+    return { success: true, output: translatedLines(stdin) };
   },
 
   /**
-   * Wc - count lines, words, characters
+   * Tee - save a copy of the input to a file and/or named buffer, passing it through unchanged
    */
-  wc: async (args, stdin) => {
+  tee: async (args, stdin, context, stdinFormat) => {
     const path = args.path as string | undefined;
-    const countLines = args.countLines as boolean | undefined ?? true;
-    const countWords = args.countWords as boolean | undefined ?? true;
-    const countChars = args.countChars as boolean | undefined ?? true;
+    const buffer = args.buffer as string | undefined;
+    const append = args.append as boolean | undefined;
 
-    let content: string;
+    if (!path && !buffer) {
+      return { success: false, error: 'tee: path or buffer required' };
+    }
+    if (stdin === undefined) {
+      return { success: false, error: 'tee: no input (pipe input required)' };
+    }
+
+    // Read the whole input now so later stages see the buffer or file
+    const text = await joinLines(stdin);
+    const appendTo = (existing: string | undefined): string =>
+      append && existing ? (existing.endsWith('\n') ? existing : existing + '\n') + text : text;
+
+    if (buffer) {
+      context.buffers.set(buffer, appendTo(context.buffers.get(buffer)));
+    }
 
     if (path) {
       try {
-        content = await fileSystemManager.readFile(path);
+        if (await isExistingFile(path)) {
+          const existing = append ? await readTextFile(path) : undefined;
+          if (context.dryRun) {
+            recordDryRunWrite(context.dryRun, path, appendTo(existing), append ? 'append' : 'overwrite');
+          } else {
+            await fileSystemManager.writeFile(path, appendTo(existing));
+          }
+        } else if (context.dryRun) {
+          recordDryRunWrite(context.dryRun, path, text, 'create');
+        } else {
+          await fileSystemManager.createFile(path, text);
+        }
       } catch (error) {
-        return { success: false, error: `wc: ${path}: ${(error as Error).message}` };
+        return { success: false, error: `tee: ${path}: ${(error as Error).message}` };
       }
-    } else if (stdin !== undefined) {
-      content = stdin;
-    } else {
-      return { success: false, error: 'wc: no input (provide path or pipe input)' };
     }
 
-    const lines = countLines ? (content.match(/\n/g) || []).length : 0;
-    const words = countWords ? content.split(/\s+/).filter(w => w.length > 0).length : 0;
-    const chars = countChars ? content.length : 0;
-
-    // Format like Unix wc output
-    const parts: string[] = [];
-    if (countLines) parts.push(lines.toString().padStart(8));
-    if (countWords) parts.push(words.toString().padStart(8));
-    if (countChars) parts.push(chars.toString().padStart(8));
-
-    return { success: true, output: parts.join('') };
+    return { success: true, output: linesFromText(text), format: stdinFormat };
   },
 
   /**
    * Write file - write stdin to file (terminal command)
    */
-  write_file: async (args, stdin) => {
+  write_file: async (args, stdin, context) => {
     const path = args.path as string;
-    const content = (args.content as string | undefined) ?? stdin;
 
     if (!path) {
       return { success: false, error: 'write_file: path required' };
     }
+
+    const content = (args.content as string | undefined) ??
+      (stdin !== undefined ? await joinLines(stdin) : undefined);
     if (content === undefined) {
       return { success: false, error: 'write_file: no content (provide content or pipe input)' };
     }
 
+    if (context.dryRun) {
+      if (!(await isExistingFile(path))) {
+        return { success: false, error: `write_file: File not found: ${path}` };
+      }
+      recordDryRunWrite(context.dryRun, path, content, 'overwrite');
+      return { success: true, output: linesFromText(`Would write to ${path}`) };
+    }
+
     try {
       await fileSystemManager.writeFile(path, content);
-      return { success: true, output: `Written to ${path}` };
+      return { success: true, output: linesFromText(`Written to ${path}`) };
     } catch (error) {
       return { success: false, error: `write_file: ${(error as Error).message}` };
     }
   },
+
+  /**
+   * Foreach - run a sub-command once per input line, treating each line as a file path
+   */
+  foreach: async (args, stdin, context) => {
+    const subTool = args.tool as PipeableToolName | undefined;
+    const subArgs = (args.args as Record<string, unknown> | undefined) ?? {};
+
+    if (!subTool) {
+      return { success: false, error: 'foreach: tool required' };
+    }
+    if (!FOREACH_SUBCOMMANDS.includes(subTool)) {
+      return { success: false, error: `foreach: ${subTool} cannot be run per file` };
+    }
+    if (stdin === undefined) {
+      return { success: false, error: 'foreach: no input (pipe a list of file paths)' };
+    }
+    const subPermission = PIPEABLE_TOOL_PERMISSIONS[subTool];
+
+    async function* outputLines(pathLines: LineStream, command: PipeableToolName): LineStream {
+      for await (const line of pathLines) {
+        const filePath = line.trim();
+        if (filePath.length === 0) continue;
+
+        const fileArgs = { ...subArgs, paths: undefined, path: filePath };
+
+        if (subPermission && !(await checkForeachPath(subPermission, fileArgs, context))) {
+          throw new Error(`foreach: permission denied for ${filePath}`);
+        }
+
+        const result = await pipeableFunctions[command](fileArgs, undefined, context);
+        if (!result.output) {
+          throw new Error(`foreach: ${result.error}`);
+        }
+
+        // Prefix each output line with the file it came from, like grep across multiple files
+        for await (const outputLine of result.output) {
+          if (outputLine.length > 0) {
+            yield `${filePath}:${outputLine}`;
+          }
+        }
+      }
+    }
+
+    return { success: true, output: outputLines(stdin, subTool) };
+  },
+
+  /**
+   * Where - keep records whose field matches a condition
+   */
+  where: async (args, stdin, _context, stdinFormat) => {
+    const field = args.field as string | undefined;
+    if (!field) {
+      return { success: false, error: 'where: field required' };
+    }
+
+    const input = openRecordInput('where', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+
+    let matches: (record: PipeRecord) => boolean;
+    try {
+      matches = createRecordFilter({
+        field,
+        op: (args.op as WhereOperator | undefined) ?? '==',
+        value: args.value,
+      });
+    } catch (error) {
+      return { success: false, error: `where: ${(error as Error).message}` };
+    }
+
+    async function* matchingRecords(): RecordStream {
+      for await (const record of records) {
+        if (matches(record)) {
+          yield record;
+        }
+      }
+    }
+
+    return { success: true, output: recordsToJsonLines(matchingRecords()), format: 'jsonl' };
+  },
+
+  /**
+   * Select - keep only the given fields of each record
+   */
+  select: async (args, stdin, _context, stdinFormat) => {
+    const fields = args.fields;
+    if (fields === undefined || (Array.isArray(fields) && fields.length === 0)) {
+      return { success: false, error: 'select: fields required' };
+    }
+    if (!Array.isArray(fields) || !fields.every((field) => typeof field === 'string' && field !== '')) {
+      return { success: false, error: 'select: fields must be a list of field names, e.g. ["name", "address.city"]' };
+    }
+
+    const input = openRecordInput('select', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+
+    async function* selectedRecords(fieldNames: string[]): RecordStream {
+      for await (const record of records) {
+        yield selectFields(record, fieldNames);
+      }
+    }
+
+    return { success: true, output: recordsToJsonLines(selectedRecords(fields)), format: 'jsonl' };
+  },
+
+  /**
+   * Sort by - sort records by a field, numerically when the values are numbers
+   */
+  sort_by: async (args, stdin, _context, stdinFormat) => {
+    const field = args.field as string | undefined;
+    const reverse = args.reverse as boolean | undefined;
+    if (!field) {
+      return { success: false, error: 'sort_by: field required' };
+    }
+
+    const input = openRecordInput('sort_by', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+
+    async function* sortedRecords(sortField: string): RecordStream {
+      const all = await collectRecords(records);
+      all.sort((a, b) => compareValues(getField(a, sortField), getField(b, sortField), reverse));
+      yield* all;
+    }
+
+    return { success: true, output: recordsToJsonLines(sortedRecords(field)), format: 'jsonl' };
+  },
+
+  /**
+   * Group by - one record per distinct field value, with a count and optional aggregates
+   */
+  group_by: async (args, stdin, _context, stdinFormat) => {
+    const field = args.field as string | undefined;
+    if (!field) {
+      return { success: false, error: 'group_by: field required' };
+    }
+
+    const input = openRecordInput('group_by', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+    const aggregates: GroupAggregates = {
+      sum: args.sum as string[] | undefined,
+      avg: args.avg as string[] | undefined,
+      min: args.min as string[] | undefined,
+      max: args.max as string[] | undefined,
+    };
+
+    async function* groupedRecords(groupField: string): RecordStream {
+      yield* groupRecords(await collectRecords(records), groupField, aggregates);
+    }
+
+    return { success: true, output: recordsToJsonLines(groupedRecords(field)), format: 'jsonl' };
+  },
+
+  /**
+   * Count by - count records per distinct field value, most common first
+   */
+  count_by: async (args, stdin, _context, stdinFormat) => {
+    const field = args.field as string | undefined;
+    if (!field) {
+      return { success: false, error: 'count_by: field required' };
+    }
+
+    const input = openRecordInput('count_by', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+
+    async function* countedRecords(countField: string): RecordStream {
+      const groups = groupRecords(await collectRecords(records), countField);
+      groups.sort((a, b) => (b.count as number) - (a.count as number));
+      yield* groups;
+    }
+
+    return { success: true, output: recordsToJsonLines(countedRecords(field)), format: 'jsonl' };
+  },
+
+  /**
+   * Format - render records as JSON, JSON Lines, CSV or a table
+   */
+  format: async (args, stdin, _context, stdinFormat) => {
+    const as = (args.as as string | undefined) ?? 'table';
+    if (as !== 'json' && as !== 'jsonl' && as !== 'csv' && as !== 'table') {
+      return { success: false, error: `format: unknown output format: ${as}` };
+    }
+
+    const input = openRecordInput('format', args, stdin, stdinFormat);
+    if (!input.records) {
+      return { success: false, error: input.error };
+    }
+    const records = input.records;
+
+    async function* formattedLines(): LineStream {
+      const all = await collectRecords(records);
+      if (as === 'json') {
+        yield* linesFromText(JSON.stringify(all, null, 2));
+      } else if (as === 'jsonl') {
+        yield* all.map((record) => JSON.stringify(record));
+      } else if (as === 'csv') {
+        yield* linesFromText(renderCsv(all));
+      } else {
+        yield* linesFromText(renderTable(all));
+      }
+    }
+
+    const format: RecordFormat | undefined = as === 'table' ? undefined : as;
+    return { success: true, output: formattedLines(), format };
+  },
 };
 
 /**
  * Command definition for the pipe tool
  */
 const pipeCommandSchema = z.object({
-  tool: z.enum(['cat', 'read_file', 'grep', 'sort', 'uniq', 'head', 'tail', 'wc', 'write_file'])
-    .describe('The tool to execute'),
+  tool: z.string()
+    .describe('The tool to execute: one of the built-in pipe commands, or the name of an enabled WASM tool'),
   args: z.record(z.unknown()).optional().default({})
     .describe('Arguments for the tool'),
+  inputArg: z.string().optional()
+    .describe('WASM tools only: pass the piped input as this argument instead of stdin'),
 });
 
+/**
+ * A single command in a pipe
+ */
+interface PipeCommand {
+  tool: string;
+  args?: Record<string, unknown>;
+  inputArg?: string;
+}
+
+/**
+ * Stages that need their whole input before they output anything. The byte limit
+ * applies to their input as they read it, so the stage before them stops as soon
+ * as it goes over, and to their output, as well as WASM stages' and the pipe's final
+ * output; stages that stream, such as read_file or grep, can pass more than that through.
+ */
+const BUFFERED_PIPE_STAGES: ReadonlySet<string> = new Set([
+  'sort',
+  'tail',
+  'sed',
+  'tr',
+  'tee',
+  'write_file',
+  'where',
+  'select',
+  'sort_by',
+  'group_by',
+  'count_by',
+  'format',
+]);
+
+/**
+ * Options for running a pipe's commands
+ */
+interface PipeRunOptions {
+  maxBytes: number;
+  debug?: boolean;
+  auditCall?: PendingAuditCall | null;
+  /** Record reads and writes instead of writing, and keep this many lines of each stage's output */
+  dryRunPreviewLines?: number;
+}
+
+/**
+ * Outcome of running a pipe's commands
+ */
+interface PipeRunResult {
+  output?: string;
+  error?: string;
+  intermediateResults?: Array<{ tool: string; output?: string; error?: string }>;
+  dryRun?: PipeDryRunReport;
+}
+
+/**
+ * Run a pipe's commands in order. Permissions must already have been checked.
+ */
+async function runPipeCommands(commands: PipeCommand[], options: PipeRunOptions): Promise<PipeRunResult> {
+  const { maxBytes, debug, dryRunPreviewLines, auditCall } = options;
+  const dryRun: PipeDryRunReport | undefined = dryRunPreviewLines !== undefined
+    ? { filesRead: [], filesWritten: [], stages: [] }
+    : undefined;
+
+  // Connect the commands; buffers only live for this execution
+  const context: PipeContext = { buffers: new Map(), dryRun, auditCall };
+  let currentOutput: LineStream | undefined;
+  let currentFormat: RecordFormat | undefined;
+  const intermediateResults: Array<{ tool: string; output?: string; error?: string }> = [];
+
+  // Errors raised while lines are streaming are recorded by the stage they came from
+  let streamFailure: { index: number; tool: string; error: string } | undefined;
+  let output: string;
+
+  try {
+    for (let i = 0; i < commands.length; i++) {
+      const cmd = commands[i]!;
+      const buffered = !isPipeableToolName(cmd.tool) || BUFFERED_PIPE_STAGES.has(cmd.tool);
+      if (buffered && currentOutput) {
+        currentOutput = trackStageErrors(limitBytes(currentOutput, maxBytes, 'input'), (error) => {
+          streamFailure ??= { index: i, tool: cmd.tool, error: error.message };
+        });
+      }
+
+      const result = isPipeableToolName(cmd.tool)
+        ? await pipeableFunctions[cmd.tool](cmd.args || {}, currentOutput, context, currentFormat)
+        : await runWasmPipeStage(cmd.tool, cmd.args || {}, cmd.inputArg, currentOutput, context);
+
+      if (!result.success) {
+        if (debug) {
+          intermediateResults.push({ tool: cmd.tool, error: result.error });
+        }
+        return {
+          error: `Command ${i + 1} (${cmd.tool}) failed: ${result.error}`,
+          ...(debug && { intermediateResults }),
+        };
+      }
+
+      currentFormat = result.format;
+      const stageOutput = result.output ?? linesFromText('');
+      const isLast = i === commands.length - 1;
+      currentOutput = trackStageErrors(
+        buffered || isLast ? limitBytes(stageOutput, maxBytes) : stageOutput,
+        (error) => {
+          streamFailure ??= { index: i, tool: cmd.tool, error: error.message };
+        }
+      );
+
+      // Debug and dry-run output need each stage's full text, so stages run one after another
+      if (debug || dryRun) {
+        const stageOutput = await joinLines(currentOutput);
+        if (debug) {
+          intermediateResults.push({ tool: cmd.tool, output: stageOutput });
+        }
+        if (dryRun) {
+          const lines = stageOutput === '' ? [] : stageOutput.split('\n');
+          dryRun.stages.push({
+            tool: cmd.tool,
+            lines: lines.length,
+            preview: lines.slice(0, dryRunPreviewLines),
+          });
+        }
+        currentOutput = linesFromText(stageOutput);
+      }
+    }
+
+    output = currentOutput ? await joinLines(currentOutput) : '';
+  } catch (error) {
+    if (!streamFailure) {
+      throw error;
+    }
+    if (debug) {
+      intermediateResults.push({ tool: streamFailure.tool, error: streamFailure.error });
+    }
+    return {
+      error: `Command ${streamFailure.index + 1} (${streamFailure.tool}) failed: ${streamFailure.error}`,
+      ...(debug && { intermediateResults }),
+    };
+  }
+
+  return {
+    output,
+    ...(debug && { intermediateResults }),
+    ...(dryRun && { dryRun }),
+  };
+}
+
 /**
  * Pipe tool - chain multiple commands together
  *
@@ -1821,96 +3881,157 @@ const pipeCommandSchema = z.object({
 export const pipeTool = tool({
   description: `Chain multiple commands together like Unix pipes. Output of each command becomes input to the next. Only the final output is returned, reducing context usage.
 
+Lines stream from one command to the next, so grep and head can work through large files and head stops reading once it has enough lines. sort, tail, sed, tr, tee, write_file, the record commands and WASM tools need their whole input. The pipe is aborted if one of those commands reads or outputs more than maxBytes, or the last command outputs more.
+
+Set dryRun to check a pipe before running it: nothing is written, and the result lists the files that would be read and written with their sizes, and the first previewLines lines each command would output. WASM tools that can write files are not run in a dry run.
+
 Available commands:
-- cat: Read file(s) or pass through input. Args: { paths?: string[], path?: string }
+- cat: Read file(s), read back a named buffer, or pass through input. Args: { paths?: string[], path?: string, buffer?: string }
 - read_file: Read a single file. Args: { path: string }
+- ls: List entries directly inside a directory, one path per line. Args: { path?: string, all?: boolean, long?: boolean, ...filters }
+- find: Recursively list entries, one path per line. Args: { path?: string, maxDepth?: number, long?: boolean, ...filters }
+- tree: Render the directory structure. Args: { path?: string, maxDepth?: number, ...filters }
+  Listing commands skip entries ignored by .gitignore and .codoignore unless includeIgnored: true is set.
+  Listing filters: { name?: glob on the entry name, e.g. "*.json", regex?: regex on the entry name, type?: "file" | "directory", minSize?: bytes, maxSize?: bytes, modifiedAfter?: ISO date, modifiedBefore?: ISO date }
+  long: prefix each path with its size in bytes and modification time, so output can be sorted numerically by size
 - grep: Filter lines matching pattern. Args: { pattern: string, path?: string, caseInsensitive?: boolean, invertMatch?: boolean }
 - sort: Sort lines. Args: { path?: string, reverse?: boolean, numeric?: boolean, unique?: boolean, ignoreCase?: boolean }
 - uniq: Filter adjacent duplicates. Args: { path?: string, count?: boolean, duplicatesOnly?: boolean, uniqueOnly?: boolean, ignoreCase?: boolean }
 - head: First N lines. Args: { path?: string, lines?: number }
 - tail: Last N lines. Args: { path?: string, lines?: number }
 - wc: Count lines/words/chars. Args: { path?: string, countLines?: boolean, countWords?: boolean, countChars?: boolean }
+- sed: Edit lines with a sed script (JavaScript regex syntax). Supports s/regex/replacement/[gip], d, p, addresses (N, $, /regex/), ranges (N,M) and ! negation; commands separated by ";". Args: { script: string, quiet?: boolean (like sed -n) }
+- cut: Select fields or characters. Args: { fields?: string (e.g. "1,3-5"), characters?: string, delimiter?: string (default: tab), outputDelimiter?: string, onlyDelimited?: boolean }
+- tr: Translate or delete characters. Args: { set1: string, set2?: string, delete?: boolean, squeeze?: boolean } (sets support ranges like a-z and classes like [:upper:])
+- tee: Save a copy of the input to a file and/or a named buffer, and pass the input on unchanged. Buffers only exist during this pipe call; read them back later in the pipe with cat { buffer }. Args: { path?: string, buffer?: string, append?: boolean }
 - write_file: Write to file (terminal). Args: { path: string, content?: string }
+- foreach: Treat each input line as a file path and run a sub-command on that file. Output lines are prefixed with "path:". Args: { tool: "cat" | "read_file" | "grep" | "sort" | "uniq" | "head" | "tail" | "wc", args?: object }
+
+Record commands work on structured records instead of lines. read_file of a .json (array of objects), .jsonl or .csv (with a header row, quoted fields allowed) file feeds them records; record commands pass records on as JSON Lines. Fields can be nested paths like "user.name". Values compare numerically when both are numbers. Each also accepts from?: "json" | "jsonl" | "csv" to parse other piped text.
+- where: Keep records matching a condition. Args: { field: string, op?: "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "matches" | "exists" (default "=="), value?: any }
+- select: Keep only some fields. Args: { fields: string[] }
+- sort_by: Sort records by a field. Args: { field: string, reverse?: boolean }
+- group_by: One record per distinct value with a count. Args: { field: string, sum?: string[], avg?: string[], min?: string[], max?: string[] } (adds fields like "sum_amount")
+- count_by: Count records per distinct value, most common first. Args: { field: string }
+- format: Render records. Args: { as?: "table" | "json" | "jsonl" | "csv" (default "table") }
+
+Any enabled WASM tool can also be used as a command, by the same name you would call it directly (e.g. "yq", "awk", "csvtool", "sha256sum"). Its args are the WASM tool's own parameters. The previous command's output is passed on stdin; for tools that take their text as a parameter instead (e.g. "input" or "text"), set inputArg on the command to that parameter name.
 
 Example: Read file, filter imports, sort:
-{ commands: [{ tool: "read_file", args: { path: "src/main.ts" } }, { tool: "grep", args: { pattern: "^import" } }, { tool: "sort", args: {} }] }`,
+{ commands: [{ tool: "read_file", args: { path: "src/main.ts" } }, { tool: "grep", args: { pattern: "^import" } }, { tool: "sort", args: {} }] }
+
+Example: Find TODOs in TypeScript files:
+{ commands: [{ tool: "find", args: { type: "file" } }, { tool: "grep", args: { pattern: "\\.ts$" } }, { tool: "foreach", args: { tool: "grep", args: { pattern: "TODO" } } }] }
+
+Example: Save all imports to imports.txt and return only the relative ones:
+{ commands: [{ tool: "read_file", args: { path: "src/main.ts" } }, { tool: "grep", args: { pattern: "^import" } }, { tool: "tee", args: { path: "imports.txt", buffer: "imports" } }, { tool: "grep", args: { pattern: "from '\\./" } }] }
+
+Example: Hash the sorted contents of a file with a WASM tool:
+{ commands: [{ tool: "read_file", args: { path: "users.txt" } }, { tool: "sort", args: {} }, { tool: "sha256sum", args: {}, inputArg: "input" }] }
+
+Example: Total sales per region from a CSV export, as a table:
+{ commands: [{ tool: "read_file", args: { path: "sales.csv" } }, { tool: "where", args: { field: "status", value: "paid" } }, { tool: "group_by", args: { field: "region", sum: ["amount"] } }, { tool: "sort_by", args: { field: "sum_amount", reverse: true } }, { tool: "format", args: { as: "table" } }] }
+
+Example: All JSON files under config/, largest first:
+{ commands: [{ tool: "find", args: { path: "config", name: "*.json", type: "file", long: true } }, { tool: "sort", args: { numeric: true, reverse: true } }] }`,
   inputSchema: z.object({
     commands: z.array(pipeCommandSchema).min(1)
       .describe('Commands to execute in sequence. Output of each becomes input to the next.'),
     debug: z.boolean().optional().default(false)
       .describe('If true, include intermediate results in output for debugging'),
+    maxBytes: z.number().int().positive().optional()
+      .describe(`Abort the pipe if a command that needs its whole input, or the last command, outputs more than this many bytes (default: ${PIPE_MAX_BYTES})`),
+    dryRun: z.boolean().optional().default(false)
+      .describe('If true, write nothing: report the files that would be read and written with their sizes, and the first lines each command would output'),
+    previewLines: z.number().int().positive().optional()
+      .describe(`Dry run only: lines of output to show per command (default: ${PIPE_PREVIEW_LINES})`),
   }),
-  execute: async (input) => {
-    const { commands, debug } = input;
-
-    // First, check permission for the pipe tool itself
-    const pipeAllowed = await checkPermission('pipe', { commands: commands.map(c => c.tool) });
+  execute: async (input, { toolCallId }) => {
+    const { commands, debug, dryRun } = input;
+    const maxBytes = input.maxBytes ?? PIPE_MAX_BYTES;
+    const previewLines = input.previewLines ?? PIPE_PREVIEW_LINES;
+
+    // First, check permission for the pipe tool itself. The stages' checks are added to its audit entry.
+    const auditCall = auditLog.getCall(toolCallId);
+    const pipeAllowed = await checkPermission('pipe', { commands: commands.map(c => c.tool) }, auditCall);
     if (!pipeAllowed) {
       return { error: 'Permission denied for pipe command' };
     }
 
-    // Pre-validate all command permissions before executing any
+    // Pre-validate all command permissions before executing any.
+    // Writes are checked last so their dialogs can preview the result;
+    // a dry run writes nothing and doesn't need them.
+    const required = commands.flatMap(cmd => getPipeCommandPermissions(cmd.tool, cmd.args || {}));
+    const reads = required.filter(requirement => !requirement.write);
+    const writes = dryRun ? [] : required.filter(requirement => requirement.write);
+
+    // The preview is a dry run of the whole pipe, made at most once and only if a dialog needs it
+    let previewPromise: Promise<PipeDryRunReport | undefined> | undefined;
+    const getPreview = () => {
+      previewPromise ??= runPipeCommands(commands, { maxBytes, dryRunPreviewLines: previewLines })
+        .then(result => result.dryRun)
+        .catch(() => undefined);
+      return previewPromise;
+    };
+
     const permissionErrors: string[] = [];
-    for (const cmd of commands) {
-      const permissionName = PIPEABLE_TOOL_PERMISSIONS[cmd.tool as PipeableToolName];
-      if (!permissionName) {
-        permissionErrors.push(`Unknown tool: ${cmd.tool}`);
-        continue;
+    for (const requirements of [reads, writes]) {
+      for (const { name, check, error } of requirements) {
+        if (error || !check) {
+          permissionErrors.push(error ?? `Unknown tool: ${name}`);
+          continue;
+        }
+
+        const stageCall: PendingAuditCall = { decision: 'auto', paths: [] };
+        const allowed = await check(getPreview, stageCall);
+        if (auditCall) {
+          mergeAuditCall(auditCall, stageCall);
+        }
+        if (!allowed) {
+          permissionErrors.push(`Permission denied for ${name}`);
+        }
       }
 
-      const allowed = await checkPermission(permissionName, cmd.args);
-      if (!allowed) {
-        permissionErrors.push(`Permission denied for ${cmd.tool}`);
+      if (permissionErrors.length > 0) {
+        return {
+          error: `Permission check failed. No commands executed.\n${permissionErrors.join('\n')}`,
+        };
       }
     }
 
-    if (permissionErrors.length > 0) {
+    const result = await runPipeCommands(commands, {
+      maxBytes,
+      debug,
+      auditCall,
+      dryRunPreviewLines: dryRun ? previewLines : undefined,
+    });
+
+    if (result.error) {
       return {
-        error: `Permission check failed. No commands executed.\n${permissionErrors.join('\n')}`,
+        error: result.error,
+        ...(debug && { intermediateResults: result.intermediateResults }),
       };
     }
 
-    // Execute commands in sequence
-    let currentOutput: string | undefined;
-    const intermediateResults: Array<{ tool: string; output?: string; error?: string }> = [];
-
-    for (let i = 0; i < commands.length; i++) {
-      const cmd = commands[i]!;
-      const pipeableFn = pipeableFunctions[cmd.tool as PipeableToolName];
-
-      if (!pipeableFn) {
-        return { error: `Unknown tool: ${cmd.tool}` };
-      }
-
-      const result = await pipeableFn(cmd.args || {}, currentOutput);
-
-      if (debug) {
-        intermediateResults.push({
-          tool: cmd.tool,
-          output: result.success ? result.output : undefined,
-          error: result.error,
-        });
-      }
-
-      if (!result.success) {
-        return {
-          error: `Command ${i + 1} (${cmd.tool}) failed: ${result.error}`,
-          ...(debug && { intermediateResults }),
-        };
-      }
-
-      currentOutput = result.output;
+    // A dry run reports what would happen instead of the output
+    if (result.dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        ...result.dryRun,
+        ...(debug && { intermediateResults: result.intermediateResults }),
+      };
     }
 
     // Return final result
     const response: Record<string, unknown> = {
       success: true,
-      output: currentOutput,
+      output: result.output,
       commandsExecuted: commands.length,
     };
 
     if (debug) {
-      response.intermediateResults = intermediateResults;
+      response.intermediateResults = result.intermediateResults;
     }
 
     return response;
@@ -1925,6 +4046,8 @@ export const fileTools: Record<string, Tool> = {
   read_file_content: readFileContentTool,
   create_file: createFileTool,
   write_file: writeFileTool,
+  edit_file: editFileTool,
+  apply_patch: applyPatchTool,
   rename_file: renameFileTool,
   move_file: moveFileTool,
   delete_file: deleteFileTool,
@@ -1936,6 +4059,9 @@ export const fileTools: Record<string, Tool> = {
   tail_file: tailFileTool,
   cp: cpTool,
   mkdir: mkdirTool,
+  delete_directory: deleteDirectoryTool,
+  copy_directory: copyDirectoryTool,
+  move_directory: moveDirectoryTool,
   tree: treeTool,
   diff: diffTool,
   wc: wcTool,
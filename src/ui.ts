@@ -6,12 +6,47 @@ import {
   fileSystemManager,
   FileSystemEntry,
   FileSystemChangeRecord,
+  isBinaryContent,
 } from './fileSystem';
-import { preferencesManager, ToolName } from './preferences';
+import {
+  preferencesManager,
+  PermissionLevel,
+  PermissionProfile,
+  PermissionRule,
+  RootPermission,
+  ToolName,
+  ToolPermissions,
+  TOOL_NAMES,
+} from './preferences';
+import { ANY_TOOL } from './permissionRules';
 import { aiManager, AVAILABLE_MODELS } from './ai';
-import { fileTools, setPermissionCallback } from './tools';
+import {
+  fileTools,
+  setPermissionCallback,
+  getPermissionPaths,
+  getApprovalReach,
+  FILE_CHANGING_TOOLS,
+  PipeDryRunReport,
+  formatUnifiedDiff,
+} from './tools';
+import { permissionGrants, PermissionGrant, ApprovalReach, FILE_GRANT_DURATION } from './permissionGrants';
+import { auditLog, AuditEntry, AuditFilter, AuditDecision, AuditStatus, filterAuditEntries, toJsonLines } from './auditLog';
 import { toolResultCache } from './toolResultCache';
-import { wasmToolManager, setWasmPermissionCallback } from './wasm-tools';
+import { changeJournal, JournalDirection, JournalTurn } from './changeJournal';
+import { checkpointManager, Checkpoint, CheckpointChange } from './checkpoints';
+import { recentFolders, RecentFolder } from './recentFolders';
+import {
+  wasmToolManager,
+  setWasmPermissionCallback,
+  getWasmApprovalReach,
+  getWasmToolName,
+} from './wasm-tools';
+import {
+  BUILT_IN_PROFILES,
+  findPermissionProfile,
+  getProfileLevel,
+  wasmToolChangesFiles,
+} from './permissionProfiles';
 import type { StoredWasmTool } from './wasm-tools/types';
 import { toastManager, showToast } from './toasts';
 import { ProviderConfig, storageManager, Conversation, StoredMessage, StoredToolActivity } from './storage';
@@ -20,6 +55,11 @@ import { createMarkdownIframe, updateMarkdownIframe, checkContentOverflow } from
 import { withViewTransition, generateUniqueTransitionName } from './viewTransitions';
 import { ModelMessage, Tool } from 'ai';
 
+/**
+ * How far an approval in a permission dialog reaches
+ */
+type GrantScope = 'once' | 'conversation' | 'files' | 'always';
+
 /**
  * UI Manager handles all user interface interactions
  */
@@ -28,6 +68,24 @@ export class UIManager {
     selectFolderBtn: HTMLButtonElement | null;
     folderInfo: HTMLDivElement | null;
     fileList: HTMLDivElement | null;
+    rootName: HTMLInputElement | null;
+    addRootBtn: HTMLButtonElement | null;
+    rootList: HTMLDivElement | null;
+    recentFolderList: HTMLDivElement | null;
+    folderNotice: HTMLDivElement | null;
+    folderNoticeText: HTMLSpanElement | null;
+    folderNoticeSwitch: HTMLButtonElement | null;
+    permissionRuleList: HTMLDivElement | null;
+    permissionRuleTool: HTMLSelectElement | null;
+    permissionRulePath: HTMLInputElement | null;
+    permissionRuleDecision: HTMLSelectElement | null;
+    permissionRuleAddBtn: HTMLButtonElement | null;
+    grantList: HTMLDivElement | null;
+    permissionProfileSelect: HTMLSelectElement | null;
+    permissionProfileBindBtn: HTMLButtonElement | null;
+    permissionProfileList: HTMLDivElement | null;
+    permissionProfileName: HTMLInputElement | null;
+    permissionProfileSaveBtn: HTMLButtonElement | null;
     promptInput: HTMLTextAreaElement;
     sendBtn: HTMLButtonElement;
     voiceBtn: HTMLButtonElement;
@@ -64,12 +122,33 @@ export class UIManager {
     // Conversation tabs elements
     tabsContainer: HTMLDivElement;
     newConversationBtn: HTMLButtonElement;
+    // Checkpoint elements
+    checkpointName: HTMLInputElement;
+    createCheckpointBtn: HTMLButtonElement;
+    checkpointList: HTMLDivElement;
+    checkpointRestoreModal: HTMLDialogElement;
+    checkpointRestoreSummary: HTMLParagraphElement;
+    checkpointRestoreChanges: HTMLDivElement;
+    checkpointRestoreCancel: HTMLButtonElement;
+    checkpointRestoreConfirm: HTMLButtonElement;
+    // Audit log elements
+    auditLogBtn: HTMLButtonElement;
+    auditLogModal: HTMLDialogElement;
+    auditFilterTool: HTMLSelectElement;
+    auditFilterConversation: HTMLSelectElement;
+    auditFilterDecision: HTMLSelectElement;
+    auditFilterStatus: HTMLSelectElement;
+    auditFilterPath: HTMLInputElement;
+    auditLogSummary: HTMLParagraphElement;
+    auditLogList: HTMLDivElement;
+    auditLogExportBtn: HTMLButtonElement;
   };
 
   private currentText: string = '';
   private isProcessing: boolean = false;
   private currentOpenModal: HTMLDialogElement | null = null;
-  private pendingFolderSelection: boolean = false;
+  /** Folder picker to open once the data sharing notice is accepted: replace the roots, or add one */
+  private pendingFolderSelection: 'select' | 'add' | null = null;
 
   // Conversation state
   private conversations: Map<string, Conversation> = new Map();
@@ -77,6 +156,11 @@ export class UIManager {
   private conversationMessages: Map<string, ModelMessage[]> = new Map();
 
   private currentEditingProviderId: string | null = null;
+  private pendingRestoreCheckpoint: Checkpoint | null = null;
+  private auditEntries: AuditEntry[] = [];
+  private readonly MAX_AUDIT_ROWS = 200; // entries shown at once; export includes every match
+  /** Folders the active conversation was started in, when they aren't the ones mounted */
+  private conversationFolders: RecentFolder[] | null = null;
   private currentAbortController: AbortController | null = null;
   private currentMarkdownIframe: HTMLIFrameElement | null = null;
   private currentMarkdownWrapper: HTMLDivElement | null = null;
@@ -102,6 +186,7 @@ export class UIManager {
   }> = [];
   private permissionBatchTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly PERMISSION_BATCH_DELAY = 50; // ms to wait for additional permission requests
+  private grantExpiryTimeout: ReturnType<typeof setTimeout> | null = null;
 
   // Voice recognition
   private recognition: SpeechRecognition | null = null;
@@ -115,6 +200,24 @@ export class UIManager {
       selectFolderBtn: document.getElementById('select-folder-btn') as HTMLButtonElement | null,
       folderInfo: document.getElementById('folder-info') as HTMLDivElement | null,
       fileList: document.getElementById('file-list') as HTMLDivElement | null,
+      rootName: document.getElementById('root-name') as HTMLInputElement | null,
+      addRootBtn: document.getElementById('add-root-btn') as HTMLButtonElement | null,
+      rootList: document.getElementById('root-list') as HTMLDivElement | null,
+      recentFolderList: document.getElementById('recent-folder-list') as HTMLDivElement | null,
+      folderNotice: document.getElementById('conversation-folder-notice') as HTMLDivElement | null,
+      folderNoticeText: document.getElementById('conversation-folder-text') as HTMLSpanElement | null,
+      folderNoticeSwitch: document.getElementById('conversation-folder-switch') as HTMLButtonElement | null,
+      permissionRuleList: document.getElementById('permission-rule-list') as HTMLDivElement | null,
+      permissionRuleTool: document.getElementById('permission-rule-tool') as HTMLSelectElement | null,
+      permissionRulePath: document.getElementById('permission-rule-path') as HTMLInputElement | null,
+      permissionRuleDecision: document.getElementById('permission-rule-decision') as HTMLSelectElement | null,
+      permissionRuleAddBtn: document.getElementById('permission-rule-add-btn') as HTMLButtonElement | null,
+      grantList: document.getElementById('grant-list') as HTMLDivElement | null,
+      permissionProfileSelect: document.getElementById('permission-profile-select') as HTMLSelectElement | null,
+      permissionProfileBindBtn: document.getElementById('permission-profile-bind-btn') as HTMLButtonElement | null,
+      permissionProfileList: document.getElementById('permission-profile-list') as HTMLDivElement | null,
+      permissionProfileName: document.getElementById('permission-profile-name') as HTMLInputElement | null,
+      permissionProfileSaveBtn: document.getElementById('permission-profile-save-btn') as HTMLButtonElement | null,
       promptInput: document.getElementById('prompt-input') as HTMLTextAreaElement,
       sendBtn: document.getElementById('send-btn') as HTMLButtonElement,
       voiceBtn: document.getElementById('voice-btn') as HTMLButtonElement,
@@ -151,6 +254,26 @@ export class UIManager {
       // Conversation tabs elements
       tabsContainer: document.getElementById('tabs-container') as HTMLDivElement,
       newConversationBtn: document.getElementById('new-conversation-btn') as HTMLButtonElement,
+      // Checkpoint elements
+      checkpointName: document.getElementById('checkpoint-name') as HTMLInputElement,
+      createCheckpointBtn: document.getElementById('create-checkpoint-btn') as HTMLButtonElement,
+      checkpointList: document.getElementById('checkpoint-list') as HTMLDivElement,
+      checkpointRestoreModal: document.getElementById('checkpoint-restore-modal') as HTMLDialogElement,
+      checkpointRestoreSummary: document.getElementById('checkpoint-restore-summary') as HTMLParagraphElement,
+      checkpointRestoreChanges: document.getElementById('checkpoint-restore-changes') as HTMLDivElement,
+      checkpointRestoreCancel: document.getElementById('checkpoint-restore-cancel-btn') as HTMLButtonElement,
+      checkpointRestoreConfirm: document.getElementById('checkpoint-restore-confirm-btn') as HTMLButtonElement,
+      // Audit log elements
+      auditLogBtn: document.getElementById('audit-log-btn') as HTMLButtonElement,
+      auditLogModal: document.getElementById('audit-log-modal') as HTMLDialogElement,
+      auditFilterTool: document.getElementById('audit-filter-tool') as HTMLSelectElement,
+      auditFilterConversation: document.getElementById('audit-filter-conversation') as HTMLSelectElement,
+      auditFilterDecision: document.getElementById('audit-filter-decision') as HTMLSelectElement,
+      auditFilterStatus: document.getElementById('audit-filter-status') as HTMLSelectElement,
+      auditFilterPath: document.getElementById('audit-filter-path') as HTMLInputElement,
+      auditLogSummary: document.getElementById('audit-log-summary') as HTMLParagraphElement,
+      auditLogList: document.getElementById('audit-log-list') as HTMLDivElement,
+      auditLogExportBtn: document.getElementById('audit-log-export-btn') as HTMLButtonElement,
     };
 
     this.initializeUI();
@@ -177,8 +300,11 @@ export class UIManager {
       }
     });
 
+    this.renderPermissionProfiles();
+
     // Set permission callback for tools
     setPermissionCallback(this.requestPermission.bind(this));
+    permissionGrants.setChangeCallback(() => this.renderPermissionGrants());
 
     // Set permission callback for WASM tools (reuse the same UI)
     // Note: WASM tools use string names instead of ToolName type
@@ -203,6 +329,9 @@ export class UIManager {
 
     // Initialize permission group collapse states
     this.initPermissionGroups();
+
+    // Show the checkpoint list's empty state until a folder is loaded
+    this.renderCheckpoints();
   }
 
   /**
@@ -288,22 +417,7 @@ export class UIManager {
           return;
         }
 
-        // Start observing
-        const observerStarted = await fileSystemManager.startObserving();
-
-        // Display folder info
-        let folderInfoHtml = `<strong>Selected folder:</strong> ${handle.name}`;
-
-        if (observerStarted && fileSystemManager.isObserving()) {
-          folderInfoHtml += ' <span class="live-updates-indicator">(Live updates enabled)</span>';
-        }
-
-        if (this.elements.folderInfo) {
-          this.elements.folderInfo.innerHTML = folderInfoHtml;
-        }
-
-        // List files
-        await this.refreshFileList();
+        await this.showMountedFolders();
 
         this.setStatus('Folder restored successfully', 'success');
 
@@ -315,8 +429,9 @@ export class UIManager {
           }
         }, 10000);
       } else {
-        // Restoration failed (likely permission denied)
+        // Restoration failed (likely permission denied); the folder can be re-granted from recent folders
         this.setStatus('', 'info');
+        await this.renderRecentFolders();
       }
     } catch (error) {
       console.error('Failed to restore directory:', error);
@@ -330,6 +445,14 @@ export class UIManager {
   private attachEventListeners(): void {
     // Folder selection (optional - may not exist in OPFS-only mode)
     this.elements.selectFolderBtn?.addEventListener('click', () => this.handleSelectFolder());
+    this.elements.addRootBtn?.addEventListener('click', () => this.handleSelectFolder('add'));
+    this.elements.rootName?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.handleSelectFolder('add');
+      }
+    });
+    this.elements.folderNoticeSwitch?.addEventListener('click', () => this.handleSwitchToConversationFolders());
 
     // Send prompt
     this.elements.sendBtn.addEventListener('click', () => this.handleSendPrompt());
@@ -363,6 +486,8 @@ export class UIManager {
     this.setupModalCloseHandlers(this.elements.settingsModal);
     this.setupModalCloseHandlers(this.elements.toolsModal);
     this.setupModalCloseHandlers(this.elements.providerEditModal);
+    this.setupModalCloseHandlers(this.elements.checkpointRestoreModal);
+    this.setupModalCloseHandlers(this.elements.auditLogModal);
 
     // Data share warning modal
     this.elements.dataShareAccept.addEventListener('click', () => this.handleDataShareAccept());
@@ -401,23 +526,73 @@ export class UIManager {
         const permission = select.value as 'always' | 'ask' | 'never';
         if (toolName) {
           preferencesManager.setToolPermission(toolName, permission);
+          this.renderPermissionProfiles();
         }
       });
     });
 
+    // Permission profiles
+    this.elements.permissionProfileSelect?.addEventListener('change', (e) =>
+      this.handleSelectPermissionProfile((e.target as HTMLSelectElement).value)
+    );
+    this.elements.permissionProfileBindBtn?.addEventListener('click', () => this.handleTogglePermissionProfileBinding());
+    this.elements.permissionProfileSaveBtn?.addEventListener('click', () => this.handleSavePermissionProfile());
+    this.elements.permissionProfileName?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.handleSavePermissionProfile();
+      }
+    });
+
     // WASM tool upload
     const wasmUploadInput = document.getElementById('wasm-tool-upload') as HTMLInputElement;
     if (wasmUploadInput) {
       wasmUploadInput.addEventListener('change', (e) => this.handleWasmToolUpload(e));
     }
 
-    // Render WASM tools when tools modal opens
+    // Path rules
+    this.elements.permissionRuleAddBtn?.addEventListener('click', () => this.handleAddPermissionRule());
+    this.elements.permissionRulePath?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.handleAddPermissionRule();
+      }
+    });
+
+    // Render WASM tools and path rules when tools modal opens
     this.elements.toolsBtn.addEventListener('click', () => {
       this.renderWasmToolsList();
+      this.renderPermissionRules();
     });
 
     // Conversation tabs
     this.elements.newConversationBtn.addEventListener('click', () => this.createNewConversation());
+
+    // Checkpoints
+    this.elements.createCheckpointBtn.addEventListener('click', () => this.handleCreateCheckpoint());
+    this.elements.checkpointName.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.handleCreateCheckpoint();
+      }
+    });
+    this.elements.checkpointRestoreCancel.addEventListener('click', () =>
+      this.closeModal(this.elements.checkpointRestoreModal)
+    );
+    this.elements.checkpointRestoreConfirm.addEventListener('click', () => this.handleConfirmRestore());
+
+    // Audit log
+    this.elements.auditLogBtn.addEventListener('click', () => this.openAuditLog());
+    for (const filter of [
+      this.elements.auditFilterTool,
+      this.elements.auditFilterConversation,
+      this.elements.auditFilterDecision,
+      this.elements.auditFilterStatus,
+    ]) {
+      filter.addEventListener('change', () => this.renderAuditLog());
+    }
+    this.elements.auditFilterPath.addEventListener('input', () => this.renderAuditLog());
+    this.elements.auditLogExportBtn.addEventListener('click', () => this.exportAuditLog());
   }
 
   /**
@@ -598,6 +773,329 @@ export class UIManager {
     }
   }
 
+  /**
+   * Render the path rules in the permissions modal, and the tools a new rule can apply to
+   */
+  private async renderPermissionRules(): Promise<void> {
+    const list = this.elements.permissionRuleList;
+    const toolSelect = this.elements.permissionRuleTool;
+    if (!list || !toolSelect) return;
+
+    // Native tools are labelled as in their permission settings; WASM tools by the name the AI calls them
+    const toolLabels = new Map<string, string>([[ANY_TOOL, 'All tools']]);
+    this.elements.permissionSelects.forEach((select) => {
+      const label = select.closest('.permission-item')?.querySelector('.tool-name')?.textContent;
+      if (select.dataset.tool) {
+        toolLabels.set(select.dataset.tool, label ?? select.dataset.tool);
+      }
+    });
+    try {
+      for (const tool of await wasmToolManager.getAllTools()) {
+        const name = getWasmToolName(tool.manifest);
+        toolLabels.set(name, `${tool.manifest.name} (WebAssembly)`);
+      }
+    } catch (error) {
+      console.error('Failed to list WASM tools for path rules:', error);
+    }
+
+    const selectedTool = toolSelect.value;
+    toolSelect.replaceChildren(...[...toolLabels].map(([value, label]) => new Option(label, value)));
+    toolSelect.value = toolLabels.has(selectedTool) ? selectedTool : ANY_TOOL;
+
+    const rules = preferencesManager.getPermissionRules();
+    if (rules.length === 0) {
+      list.innerHTML = '<p class="wasm-tools-empty">No path rules. Every tool uses its own setting.</p>';
+      return;
+    }
+
+    const decisionLabels: Record<PermissionLevel, string> = {
+      always: 'Always allow',
+      ask: 'Ask',
+      never: 'Never allow',
+    };
+    list.replaceChildren(
+      ...rules.map((rule, index) => {
+        const item = document.createElement('div');
+        item.className = 'permission-item';
+        item.innerHTML = `
+          <span class="permission-rule-text">
+            ${this.escapeHtml(decisionLabels[rule.decision])}
+            ${this.escapeHtml(toolLabels.get(rule.tool) ?? rule.tool)} on <code>${this.escapeHtml(rule.pathGlob)}</code>
+          </span>
+        `;
+
+        const upBtn = document.createElement('button');
+        upBtn.type = 'button';
+        upBtn.className = 'root-btn';
+        upBtn.textContent = '↑';
+        upBtn.title = 'Check this rule earlier';
+        upBtn.setAttribute('aria-label', `Move rule for ${rule.pathGlob} up`);
+        upBtn.disabled = index === 0;
+        upBtn.addEventListener('click', () => {
+          preferencesManager.movePermissionRule(rule.id, -1);
+          this.renderPermissionRules();
+        });
+
+        const removeBtn = document.createElement('button');
+        removeBtn.type = 'button';
+        removeBtn.className = 'root-btn';
+        removeBtn.textContent = 'Remove';
+        removeBtn.setAttribute('aria-label', `Remove rule for ${rule.pathGlob}`);
+        removeBtn.addEventListener('click', () => this.handleRemovePermissionRule(rule));
+
+        item.append(upBtn, removeBtn);
+        return item;
+      })
+    );
+  }
+
+  /**
+   * Add a path rule from the form in the permissions modal
+   */
+  private handleAddPermissionRule(): void {
+    const { permissionRuleTool, permissionRulePath, permissionRuleDecision } = this.elements;
+    if (!permissionRuleTool || !permissionRulePath || !permissionRuleDecision) return;
+
+    try {
+      preferencesManager.addPermissionRule({
+        tool: permissionRuleTool.value,
+        pathGlob: permissionRulePath.value,
+        decision: permissionRuleDecision.value as PermissionLevel,
+      });
+      permissionRulePath.value = '';
+      this.renderPermissionRules();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(message, 'error');
+    }
+  }
+
+  /**
+   * Remove a path rule
+   */
+  private handleRemovePermissionRule(rule: PermissionRule): void {
+    preferencesManager.removePermissionRule(rule.id);
+    this.renderPermissionRules();
+  }
+
+  /**
+   * Render the profile switcher in the header, whether the active conversation
+   * is bound to a profile, and the saved profiles in the permissions modal
+   */
+  private renderPermissionProfiles(): void {
+    const savedProfiles = preferencesManager.getPermissionProfiles();
+    const activeProfileId = preferencesManager.getActivePermissionProfileId();
+    const activeProfile = activeProfileId ? findPermissionProfile(activeProfileId, savedProfiles) : undefined;
+
+    const select = this.elements.permissionProfileSelect;
+    if (select) {
+      const options = [...BUILT_IN_PROFILES, ...savedProfiles].map((profile) => new Option(profile.name, profile.id));
+      if (!activeProfile) {
+        const custom = new Option('Custom levels', '');
+        custom.disabled = true;
+        options.unshift(custom);
+      }
+      select.replaceChildren(...options);
+      select.value = activeProfile?.id ?? '';
+    }
+
+    const bindBtn = this.elements.permissionProfileBindBtn;
+    if (bindBtn) {
+      const conversation = this.activeConversationId ? this.conversations.get(this.activeConversationId) : undefined;
+      const bound = !!conversation?.permissionProfileId && conversation.permissionProfileId === activeProfile?.id;
+      bindBtn.setAttribute('aria-pressed', String(bound));
+      bindBtn.classList.toggle('active', bound);
+      bindBtn.title = bound
+        ? `This conversation uses ${activeProfile!.name}. Click to unbind.`
+        : 'Use this profile whenever this conversation is open';
+    }
+
+    const list = this.elements.permissionProfileList;
+    if (!list) return;
+
+    if (savedProfiles.length === 0) {
+      list.innerHTML = '<p class="wasm-tools-empty">No saved profiles.</p>';
+      return;
+    }
+
+    list.replaceChildren(
+      ...savedProfiles.map((profile) => {
+        const item = document.createElement('div');
+        item.className = 'permission-item';
+        item.innerHTML = `<span class="permission-rule-text">${this.escapeHtml(profile.name)}</span>`;
+
+        const removeBtn = document.createElement('button');
+        removeBtn.type = 'button';
+        removeBtn.className = 'root-btn';
+        removeBtn.textContent = 'Remove';
+        removeBtn.setAttribute('aria-label', `Remove profile ${profile.name}`);
+        removeBtn.addEventListener('click', () => this.handleRemovePermissionProfile(profile));
+
+        item.appendChild(removeBtn);
+        return item;
+      })
+    );
+  }
+
+  /**
+   * Set every native and WASM tool's level from a profile: the stored levels, or
+   * only those of `conversationId`, which is bound to the profile
+   */
+  private async applyPermissionProfile(
+    profile: PermissionProfile,
+    conversationId: string | null = null
+  ): Promise<void> {
+    const toolPermissions: ToolPermissions = preferencesManager.getAllToolPermissions();
+    for (const tool of TOOL_NAMES) {
+      toolPermissions[tool] = getProfileLevel(profile, tool, FILE_CHANGING_TOOLS.has(tool));
+    }
+
+    const wasmToolPermissions: Record<string, PermissionLevel> = {};
+    try {
+      for (const tool of await wasmToolManager.getAllTools()) {
+        const name = getWasmToolName(tool.manifest);
+        wasmToolPermissions[name] = getProfileLevel(
+          profile,
+          name,
+          wasmToolChangesFiles(tool.manifest.execution.fileAccess)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to set WASM tool levels from profile:', error);
+    }
+
+    if (conversationId) {
+      preferencesManager.setConversationPermissionProfile(
+        conversationId,
+        profile.id,
+        toolPermissions,
+        wasmToolPermissions
+      );
+    } else {
+      preferencesManager.applyPermissionProfile(profile.id, toolPermissions, wasmToolPermissions);
+    }
+    this.renderToolPermissions();
+  }
+
+  /**
+   * Show the tool levels in effect in the permission settings, along with the profiles
+   */
+  private renderToolPermissions(): void {
+    const toolPermissions = preferencesManager.getAllToolPermissions();
+    this.elements.permissionSelects.forEach((select) => {
+      const toolName = select.dataset.tool as ToolName;
+      if (toolName) {
+        select.value = toolPermissions[toolName];
+      }
+    });
+
+    this.renderPermissionProfiles();
+  }
+
+  /**
+   * Switch to a profile chosen in the header. A conversation bound to a profile
+   * is bound to the new one instead, leaving the stored levels alone.
+   */
+  private async handleSelectPermissionProfile(profileId: string): Promise<void> {
+    const profile = findPermissionProfile(profileId, preferencesManager.getPermissionProfiles());
+    if (!profile) return;
+
+    if (this.isProcessing) {
+      showToast('Wait for the current response before switching profiles', 'info');
+      this.renderPermissionProfiles();
+      return;
+    }
+
+    const conversationId = this.activeConversationId;
+    const conversation = conversationId ? this.conversations.get(conversationId) : undefined;
+    const bound = !!conversationId && !!conversation?.permissionProfileId;
+    if (bound) {
+      try {
+        const updated = await storageManager.updateConversation(conversationId, { permissionProfileId: profile.id });
+        this.conversations.set(conversationId, updated);
+      } catch (error) {
+        console.error('Failed to bind profile to conversation:', error);
+      }
+    }
+
+    await this.applyPermissionProfile(profile, bound ? conversationId : null);
+    showToast(`Using the ${profile.name} profile`, 'success');
+  }
+
+  /**
+   * Bind the active profile to the active conversation, or unbind it
+   */
+  private async handleTogglePermissionProfileBinding(): Promise<void> {
+    const conversationId = this.activeConversationId;
+    const conversation = conversationId ? this.conversations.get(conversationId) : undefined;
+    if (!conversationId || !conversation) return;
+
+    const activeProfileId = preferencesManager.getActivePermissionProfileId();
+    const bound = !!conversation.permissionProfileId && conversation.permissionProfileId === activeProfileId;
+    if (!bound && !activeProfileId) {
+      showToast('Choose a profile to use for this conversation first', 'info');
+      return;
+    }
+
+    try {
+      const updated = await storageManager.updateConversation(conversationId, {
+        permissionProfileId: bound ? undefined : activeProfileId!,
+      });
+      this.conversations.set(conversationId, updated);
+      const profile = bound ? undefined : findPermissionProfile(activeProfileId!, preferencesManager.getPermissionProfiles());
+      if (profile) {
+        await this.applyPermissionProfile(profile, conversationId);
+      } else {
+        // Unbinding brings the stored levels back
+        preferencesManager.setConversationPermissionProfile(conversationId, null);
+        this.renderToolPermissions();
+      }
+    } catch (error) {
+      console.error('Failed to bind profile to conversation:', error);
+      showToast('Failed to bind profile to conversation', 'error');
+    }
+  }
+
+  /**
+   * Save the current native and WASM tool levels as a profile
+   */
+  private async handleSavePermissionProfile(): Promise<void> {
+    const nameInput = this.elements.permissionProfileName;
+    if (!nameInput) return;
+
+    const toolPermissions: Record<string, PermissionLevel> = { ...preferencesManager.getAllToolPermissions() };
+    try {
+      for (const tool of await wasmToolManager.getAllTools()) {
+        const name = getWasmToolName(tool.manifest);
+        toolPermissions[name] = preferencesManager.getOpenWasmToolPermission(name);
+      }
+    } catch (error) {
+      console.error('Failed to read WASM tool levels for profile:', error);
+    }
+
+    try {
+      const profile = preferencesManager.addPermissionProfile({
+        name: nameInput.value,
+        toolPermissions,
+        defaults: { read: 'ask', write: 'ask' },
+      });
+      nameInput.value = '';
+      await this.applyPermissionProfile(profile);
+      showToast(`Saved the ${profile.name} profile`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(message, 'error');
+    }
+  }
+
+  /**
+   * Remove a saved profile. Conversations bound to it keep the levels they have.
+   */
+  private handleRemovePermissionProfile(profile: PermissionProfile): void {
+    preferencesManager.removePermissionProfile(profile.id);
+    this.renderPermissionProfiles();
+  }
+
   /**
    * Create a WASM tool element for the permissions list
    */
@@ -730,10 +1228,10 @@ export class UIManager {
    */
   private getAllTools(): Record<string, Tool> {
     const wasmTools = wasmToolManager.getAITools();
-    return {
+    return auditLog.wrapTools({
       ...fileTools,
       ...wasmTools,
-    };
+    });
   }
 
   /**
@@ -763,6 +1261,8 @@ export class UIManager {
       argsDiv.textContent = JSON.stringify(args, null, 2);
       toolCallDiv.appendChild(argsDiv);
 
+      const grantScope = this.createGrantScopeElement(null, getWasmApprovalReach(toolName, args));
+
       const actionsDiv = document.createElement('div');
       actionsDiv.className = 'permission-actions';
       const cancelBtn = document.createElement('button');
@@ -779,11 +1279,13 @@ export class UIManager {
       dialog.appendChild(h3);
       dialog.appendChild(p);
       dialog.appendChild(toolCallDiv);
+      dialog.appendChild(grantScope.element);
       dialog.appendChild(actionsDiv);
 
       allowBtn.addEventListener('click', () => {
         dialog.close();
         dialog.remove();
+        this.applyGrantScope(grantScope.select.value as GrantScope, toolName, args, 'wasm');
         resolve(true);
       });
 
@@ -853,6 +1355,7 @@ export class UIManager {
     }
 
     this.activeConversationId = conversationId;
+    preferencesManager.setOpenConversation(conversationId);
 
     // Clear current messages display
     this.elements.messages.innerHTML = '';
@@ -869,6 +1372,20 @@ export class UIManager {
 
     // Update tab styling
     this.renderTabs();
+    this.renderPermissionGrants();
+
+    // A conversation bound to a profile uses its levels while open or running; others use the stored levels
+    const profile = conversation.permissionProfileId
+      ? findPermissionProfile(conversation.permissionProfileId, preferencesManager.getPermissionProfiles())
+      : undefined;
+    if (profile) {
+      await this.applyPermissionProfile(profile, conversationId);
+    } else {
+      preferencesManager.setConversationPermissionProfile(conversationId, null);
+      this.renderToolPermissions();
+    }
+
+    await this.updateConversationFolderNotice();
   }
 
   /**
@@ -879,6 +1396,17 @@ export class UIManager {
       // For assistant messages with tool activity, render the tool activity first
       if (message.role === 'assistant' && message.toolActivity && message.toolActivity.length > 0) {
         this.renderRestoredToolActivity(message.toolActivity);
+
+        // Show the turn's file changes, if they're still in the undo history
+        const group = this.currentToolActivityGroup;
+        if (group && message.journalTurnId) {
+          changeJournal
+            .getTurn(message.journalTurnId)
+            .then((turn) => {
+              if (turn) this.renderJournalChanges(group, turn);
+            })
+            .catch((error) => console.error('Failed to load change journal turn:', error));
+        }
       }
       this.addMessage(message.role, message.content);
     }
@@ -984,6 +1512,7 @@ export class UIManager {
       await storageManager.deleteConversation(conversationId);
       this.conversations.delete(conversationId);
       this.conversationMessages.delete(conversationId);
+      permissionGrants.clearConversation(conversationId);
 
       // If we deleted the active conversation, switch to another one
       if (this.activeConversationId === conversationId) {
@@ -1553,12 +2082,12 @@ export class UIManager {
   }
 
   /**
-   * Handle folder selection
+   * Handle folder selection: replace the mounted folders, or add one with 'add'
    */
-  private async handleSelectFolder(): Promise<void> {
+  private async handleSelectFolder(action: 'select' | 'add' = 'select'): Promise<void> {
     // Check if user has acknowledged the data sharing warning
     if (!preferencesManager.hasAcknowledgedDataShareWarning()) {
-      this.pendingFolderSelection = true;
+      this.pendingFolderSelection = action;
       this.currentOpenModal = this.elements.dataShareModal;
       this.elements.dataShareModal.showModal();
 
@@ -1571,13 +2100,13 @@ export class UIManager {
       return;
     }
 
-    await this.performFolderSelection();
+    await this.performFolderSelection(action);
   }
 
   /**
    * Perform the actual folder selection
    */
-  private async performFolderSelection(): Promise<void> {
+  private async performFolderSelection(action: 'select' | 'add'): Promise<void> {
     try {
       this.setStatus('Selecting folder...', 'info');
 
@@ -1592,7 +2121,17 @@ export class UIManager {
         this.handleFileSystemChanges(changes);
       });
 
-      const handle = await fileSystemManager.selectDirectory();
+      if (action === 'add') {
+        const root = await fileSystemManager.addRoot(this.elements.rootName?.value);
+        if (this.elements.rootName) {
+          this.elements.rootName.value = '';
+        }
+        if (fileSystemManager.getRoots().length > 1) {
+          showToast(`Mounted "${root.handle.name}" as ${root.name}:/`, 'success');
+        }
+      } else {
+        await fileSystemManager.selectDirectory();
+      }
 
       // Verify permissions
       const hasPermission = await fileSystemManager.verifyPermission('readwrite');
@@ -1602,22 +2141,7 @@ export class UIManager {
       }
 
       // Start observing AFTER permission verification
-      const observerStarted = await fileSystemManager.startObserving();
-
-      // Display folder info
-      let folderInfoHtml = `<strong>Selected folder:</strong> ${handle.name}`;
-
-      // Add observer status indicator only if observer actually started successfully
-      if (observerStarted && fileSystemManager.isObserving()) {
-        folderInfoHtml += ' <span class="live-updates-indicator">(Live updates enabled)</span>';
-      }
-
-      if (this.elements.folderInfo) {
-        this.elements.folderInfo.innerHTML = folderInfoHtml;
-      }
-
-      // List files
-      await this.refreshFileList();
+      await this.showMountedFolders();
 
       this.setStatus('Folder loaded successfully', 'success');
 
@@ -1646,8 +2170,9 @@ export class UIManager {
 
     // If there's a pending folder selection, proceed with it
     if (this.pendingFolderSelection) {
-      this.pendingFolderSelection = false;
-      await this.performFolderSelection();
+      const action = this.pendingFolderSelection;
+      this.pendingFolderSelection = null;
+      await this.performFolderSelection(action);
     }
   }
 
@@ -1659,99 +2184,423 @@ export class UIManager {
     this.closeModal(this.elements.dataShareModal);
 
     // Reset the pending flag
-    this.pendingFolderSelection = false;
+    this.pendingFolderSelection = null;
 
     // Optionally show a message
     this.setStatus('Folder selection cancelled', 'info');
   }
 
   /**
-   * Refresh the file list
+   * Start observing the mounted folders and refresh everything that shows them
    */
-  private async refreshFileList(): Promise<void> {
-    try {
-      const entries = await fileSystemManager.listFiles();
-      this.displayFileList(entries);
-    } catch (error) {
-      console.error('Failed to list files:', error);
-      this.setStatus(`Failed to list files: ${(error as Error).message}`, 'error');
-    }
-  }
+  private async showMountedFolders(): Promise<void> {
+    const observerStarted = await fileSystemManager.startObserving();
 
-  /**
-   * Handle file system changes from the observer
-   */
-  private async handleFileSystemChanges(changes: FileSystemChangeRecord[]): Promise<void> {
-    console.log('UI: File system changes detected, refreshing file list');
+    // Display folder info
+    let folderInfoHtml = this.describeFolders();
 
-    // Show brief notification with improved grammar
-    const changeTypes = new Set(changes.map((c) => c.type));
-    const typeList = Array.from(changeTypes).join(', ');
-    const changeCount = changes.length;
-    const fileWord = changeCount === 1 ? 'file' : 'files';
+    // Add observer status indicator only if observer actually started successfully
+    if (observerStarted && fileSystemManager.isObserving()) {
+      folderInfoHtml += ' <span class="live-updates-indicator">(Live updates enabled)</span>';
+    }
 
-    this.setStatus(`Detected ${changeCount} ${fileWord} ${typeList} - refreshing...`, 'info');
+    if (this.elements.folderInfo) {
+      this.elements.folderInfo.innerHTML = folderInfoHtml;
+    }
 
-    // Refresh the file list to reflect changes
+    // List files
     await this.refreshFileList();
-
-    // Clear the status after a short delay
-    setTimeout(() => {
-      this.setStatus('File list updated', 'success');
-    }, 500);
+    this.renderRoots();
+    await this.renderRecentFolders();
+    await this.renderCheckpoints();
+    await this.updateConversationFolderNotice();
   }
 
   /**
-   * Display file list
+   * Describe the mounted folders for the folder info panel
    */
-  private displayFileList(entries: FileSystemEntry[]): void {
-    if (!this.elements.fileList) return;
+  private describeFolders(): string {
+    const roots = fileSystemManager.getRoots();
+    if (roots.length === 1) {
+      return `<strong>Selected folder:</strong> ${this.escapeHtml(roots[0]!.handle.name)}`;
+    }
+    return `<strong>${roots.length} folders mounted</strong>`;
+  }
 
-    const fileList = this.elements.fileList;
+  /**
+   * Render the mounted folders with their prefix, permission and a remove button
+   */
+  private renderRoots(): void {
+    const list = this.elements.rootList;
+    if (!list) return;
 
-    // Use view transition for file list updates
-    withViewTransition(() => {
-      fileList.innerHTML = '';
+    list.innerHTML = '';
+    fileSystemManager.getRoots().forEach((root, index) => {
+      const item = document.createElement('div');
+      item.className = 'root-item';
+      const prefix = index === 0 ? 'default, no prefix' : `${root.name}:/`;
+      item.innerHTML = `
+        <div class="root-info">
+          <span class="root-name">${this.escapeHtml(root.name)}</span>
+          <span class="root-meta">${this.escapeHtml(root.handle.name)} · ${this.escapeHtml(prefix)}</span>
+        </div>
+      `;
 
-      if (entries.length === 0) {
-        fileList.innerHTML = '<p>No files found in the selected folder.</p>';
-        return;
+      const permissionSelect = document.createElement('select');
+      permissionSelect.className = 'root-permission';
+      permissionSelect.title = `Tool permission for ${root.name}`;
+      permissionSelect.setAttribute('aria-label', `Tool permission for ${root.name}`);
+      const options: Array<[RootPermission, string]> = [
+        ['default', 'Tool settings'],
+        ['ask', 'Always ask'],
+        ['read-only', 'Read-only'],
+      ];
+      for (const [value, label] of options) {
+        permissionSelect.add(new Option(label, value));
       }
-
-      const files = entries.filter((e) => e.kind === 'file');
-      const directories = entries.filter((e) => e.kind === 'directory');
-
-      // Group by type
-      const fragment = document.createDocumentFragment();
-
-      // Directories first
-      directories.forEach((entry) => {
-        const item = document.createElement('div');
-        item.className = 'file-item';
-        item.innerHTML = `
-          <span class="file-icon">📁</span>
-          <span class="file-name">${entry.path}</span>
-        `;
-        fragment.appendChild(item);
+      permissionSelect.value = preferencesManager.getRootPermission(root.name);
+      permissionSelect.addEventListener('change', () => {
+        preferencesManager.setRootPermission(root.name, permissionSelect.value as RootPermission);
       });
 
-      // Then files
-      files.forEach((entry) => {
-        const item = document.createElement('div');
-        item.className = 'file-item';
-        item.innerHTML = `
-          <span class="file-icon">📄</span>
-          <span class="file-name">${entry.path}</span>
-        `;
-        fragment.appendChild(item);
-      });
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.className = 'root-btn';
+      removeBtn.textContent = 'Remove';
+      removeBtn.title = 'Unmount this folder (its files are not touched)';
+      removeBtn.addEventListener('click', () => this.handleRemoveRoot(root.name));
 
-      fileList.appendChild(fragment);
+      item.append(permissionSelect, removeBtn);
+      list.appendChild(item);
     });
   }
 
   /**
-   * Handle send prompt
+   * Unmount a folder and refresh the sidebar
+   */
+  private async handleRemoveRoot(name: string): Promise<void> {
+    if (this.isProcessing) {
+      showToast('Wait for the current response to finish before removing a folder', 'error');
+      return;
+    }
+
+    try {
+      await fileSystemManager.removeRoot(name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to remove folder: ${message}`, 'error');
+      return;
+    }
+
+    const remaining = fileSystemManager.getRoots();
+    if (remaining.length === 0) {
+      fileSystemManager.stopObserving();
+      if (this.elements.folderInfo) {
+        this.elements.folderInfo.innerHTML = '';
+      }
+      if (this.elements.fileList) {
+        this.elements.fileList.innerHTML = '';
+      }
+    } else {
+      if (this.elements.folderInfo) {
+        // Keep the live updates indicator that follows the description
+        const indicator = this.elements.folderInfo.querySelector('.live-updates-indicator');
+        this.elements.folderInfo.innerHTML = `${this.describeFolders()} ${indicator?.outerHTML ?? ''}`;
+      }
+      await this.refreshFileList();
+    }
+
+    this.renderRoots();
+    await this.renderRecentFolders();
+    await this.renderCheckpoints();
+    await this.updateConversationFolderNotice();
+    showToast(
+      remaining.length > 0 ? `Removed ${name}; ${remaining[0]!.name} is now the default folder` : `Removed ${name}`,
+      'success'
+    );
+  }
+
+  /**
+   * Render the recently used folders, with buttons to open one (re-granting
+   * permission if it has lapsed), mount it alongside the current folders, or forget it
+   */
+  private async renderRecentFolders(): Promise<void> {
+    const list = this.elements.recentFolderList;
+    if (!list) return;
+
+    let folders: RecentFolder[];
+    try {
+      folders = await recentFolders.list();
+    } catch (error) {
+      console.error('Failed to load recent folders:', error);
+      list.innerHTML = '<p class="recent-folder-empty">Could not load recent folders.</p>';
+      return;
+    }
+
+    if (folders.length === 0) {
+      list.innerHTML = '<p class="recent-folder-empty">Folders you open appear here.</p>';
+      return;
+    }
+
+    const mounted = fileSystemManager.getRoots().map((root) => root.handle);
+    const items: HTMLDivElement[] = [];
+    for (const folder of folders) {
+      const isMounted = await recentFolders.areMounted([folder], mounted);
+      const needsPermission = !isMounted && (await recentFolders.getPermission(folder)) !== 'granted';
+      const state = isMounted ? 'mounted' : needsPermission ? 'needs permission' : new Date(folder.lastUsedAt).toLocaleString();
+
+      const item = document.createElement('div');
+      item.className = 'recent-folder-item';
+      item.innerHTML = `
+        <div class="root-info">
+          <span class="root-name">${this.escapeHtml(folder.handle.name)}</span>
+          <span class="root-meta">${this.escapeHtml(folder.rootName)} · ${this.escapeHtml(state)}</span>
+        </div>
+      `;
+
+      if (!isMounted) {
+        const openBtn = document.createElement('button');
+        openBtn.type = 'button';
+        openBtn.className = 'root-btn';
+        openBtn.textContent = 'Open';
+        openBtn.title = needsPermission ? 'Grant access and open this folder' : 'Open this folder in place of the current ones';
+        openBtn.addEventListener('click', () => this.handleOpenRecentFolder(folder, 'select'));
+
+        const addBtn = document.createElement('button');
+        addBtn.type = 'button';
+        addBtn.className = 'root-btn';
+        addBtn.textContent = 'Add';
+        addBtn.title = 'Mount this folder alongside the current ones';
+        addBtn.addEventListener('click', () => this.handleOpenRecentFolder(folder, 'add'));
+
+        item.append(openBtn, addBtn);
+      }
+
+      const forgetBtn = document.createElement('button');
+      forgetBtn.type = 'button';
+      forgetBtn.className = 'root-btn';
+      forgetBtn.textContent = '×';
+      forgetBtn.title = 'Forget this folder';
+      forgetBtn.setAttribute('aria-label', `Forget ${folder.handle.name}`);
+      forgetBtn.addEventListener('click', () => this.handleForgetRecentFolder(folder));
+
+      item.append(forgetBtn);
+      items.push(item);
+    }
+
+    list.replaceChildren(...items);
+  }
+
+  /**
+   * Open a recent folder, or mount it alongside the current folders, requesting permission if needed
+   */
+  private async handleOpenRecentFolder(folder: RecentFolder, action: 'select' | 'add'): Promise<void> {
+    if (this.isProcessing) {
+      showToast('Wait for the current response to finish before changing folders', 'error');
+      return;
+    }
+
+    fileSystemManager.setChangeCallback((changes) => {
+      this.handleFileSystemChanges(changes);
+    });
+
+    try {
+      if (action === 'add') {
+        const name = fileSystemManager.getRoot(folder.rootName) ? undefined : folder.rootName;
+        await fileSystemManager.addRoot(name, folder.handle);
+      } else {
+        await fileSystemManager.openRoots([{ name: folder.rootName, handle: folder.handle }]);
+      }
+      await this.showMountedFolders();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to open "${folder.handle.name}": ${message}`, 'error');
+      await this.renderRecentFolders();
+    }
+  }
+
+  /**
+   * Remove a folder from the recent folders list
+   */
+  private async handleForgetRecentFolder(folder: RecentFolder): Promise<void> {
+    try {
+      await recentFolders.remove(folder.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to forget folder: ${message}`, 'error');
+    }
+    await this.renderRecentFolders();
+    await this.updateConversationFolderNotice();
+  }
+
+  /**
+   * Link the active conversation to the mounted folders, the first time it is used
+   */
+  private async linkConversationFolders(conversationId: string): Promise<void> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation || conversation.folderIds) {
+      return;
+    }
+
+    try {
+      const folderIds = await recentFolders.linkConversation(conversationId, fileSystemManager.getRoots());
+      const updated = await storageManager.updateConversation(conversationId, { folderIds });
+      this.conversations.set(conversationId, updated);
+    } catch (error) {
+      console.error('Failed to link conversation to its folders:', error);
+    }
+  }
+
+  /**
+   * Offer to switch back to the folders the active conversation was started in,
+   * when they aren't the ones mounted
+   */
+  private async updateConversationFolderNotice(): Promise<void> {
+    const notice = this.elements.folderNotice;
+    if (!notice) return;
+
+    const conversationId = this.activeConversationId;
+    const folderIds = conversationId ? this.conversations.get(conversationId)?.folderIds : undefined;
+    let folders: RecentFolder[] = [];
+    try {
+      if (folderIds && folderIds.length > 0) {
+        folders = await recentFolders.get(folderIds);
+      }
+      const mounted = fileSystemManager.getRoots().map((root) => root.handle);
+      if (folders.length > 0 && (await recentFolders.areMounted(folders, mounted))) {
+        folders = [];
+      }
+    } catch (error) {
+      console.error('Failed to check the conversation\'s folders:', error);
+      folders = [];
+    }
+
+    // Another conversation may have become active while checking
+    if (conversationId !== this.activeConversationId) {
+      return;
+    }
+
+    this.conversationFolders = folders.length > 0 ? folders : null;
+    notice.hidden = folders.length === 0;
+    if (this.elements.folderNoticeText) {
+      const names = folders.map((folder) => folder.handle.name).join(', ');
+      this.elements.folderNoticeText.textContent = `This conversation was started in ${names}.`;
+    }
+  }
+
+  /**
+   * Mount the folders the active conversation was started in
+   */
+  private async handleSwitchToConversationFolders(): Promise<void> {
+    const folders = this.conversationFolders;
+    if (!folders) return;
+
+    if (this.isProcessing) {
+      showToast('Wait for the current response to finish before changing folders', 'error');
+      return;
+    }
+
+    fileSystemManager.setChangeCallback((changes) => {
+      this.handleFileSystemChanges(changes);
+    });
+
+    try {
+      await fileSystemManager.openRoots(folders.map((folder) => ({ name: folder.rootName, handle: folder.handle })));
+      await this.showMountedFolders();
+      showToast(`Switched to ${folders.map((folder) => folder.handle.name).join(', ')}`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to switch folders: ${message}`, 'error');
+    }
+  }
+
+  /**
+   * Refresh the file list
+   */
+  private async refreshFileList(): Promise<void> {
+    try {
+      const entries = await fileSystemManager.listFiles();
+      this.displayFileList(entries);
+    } catch (error) {
+      console.error('Failed to list files:', error);
+      this.setStatus(`Failed to list files: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  /**
+   * Handle file system changes from the observer
+   */
+  private async handleFileSystemChanges(changes: FileSystemChangeRecord[]): Promise<void> {
+    console.log('UI: File system changes detected, refreshing file list');
+
+    // Show brief notification with improved grammar
+    const changeTypes = new Set(changes.map((c) => c.type));
+    const typeList = Array.from(changeTypes).join(', ');
+    const changeCount = changes.length;
+    const fileWord = changeCount === 1 ? 'file' : 'files';
+
+    this.setStatus(`Detected ${changeCount} ${fileWord} ${typeList} - refreshing...`, 'info');
+
+    // Refresh the file list to reflect changes
+    await this.refreshFileList();
+
+    // Clear the status after a short delay
+    setTimeout(() => {
+      this.setStatus('File list updated', 'success');
+    }, 500);
+  }
+
+  /**
+   * Display file list
+   */
+  private displayFileList(entries: FileSystemEntry[]): void {
+    if (!this.elements.fileList) return;
+
+    const fileList = this.elements.fileList;
+
+    // Use view transition for file list updates
+    withViewTransition(() => {
+      fileList.innerHTML = '';
+
+      if (entries.length === 0) {
+        fileList.innerHTML = '<p>No files found in the selected folder.</p>';
+        return;
+      }
+
+      const files = entries.filter((e) => e.kind === 'file');
+      const directories = entries.filter((e) => e.kind === 'directory');
+
+      // Group by type
+      const fragment = document.createDocumentFragment();
+
+      // Directories first
+      directories.forEach((entry) => {
+        const item = document.createElement('div');
+        item.className = 'file-item';
+        item.innerHTML = `
+          <span class="file-icon">📁</span>
+          <span class="file-name">${entry.path}</span>
+        `;
+        fragment.appendChild(item);
+      });
+
+      // Then files
+      files.forEach((entry) => {
+        const item = document.createElement('div');
+        item.className = 'file-item';
+        item.innerHTML = `
+          <span class="file-icon">📄</span>
+          <span class="file-name">${entry.path}</span>
+        `;
+        fragment.appendChild(item);
+      });
+
+      fileList.appendChild(fragment);
+    });
+  }
+
+  /**
+   * Handle send prompt
    */
   private async handleSendPrompt(): Promise<void> {
     // Prevent race condition: check flag before processing
@@ -1796,6 +2645,7 @@ export class UIManager {
     // Update tab title if this is the first message
     const isFirstMessage = conversation.messages.length === 0;
     if (isFirstMessage) {
+      await this.linkConversationFolders(conversationId);
       this.updateTabTitle(conversationId, prompt);
     }
 
@@ -1823,6 +2673,14 @@ export class UIManager {
     this.toolCallCount = 0;
     this.currentToolActivity = [];
 
+    // Snapshot files before tools change them, so this turn can be undone
+    changeJournal.beginTurn(conversationId);
+    // The conversation's permission grants apply while its turn runs
+    permissionGrants.setActiveConversation(conversationId);
+    auditLog.setActiveConversation(conversationId);
+    // So do the levels of its profile, even if another conversation is opened meanwhile
+    preferencesManager.setActiveConversation(conversationId);
+
     this.setStatus('Processing...', 'info');
 
     // Create an AbortController for this request
@@ -1877,6 +2735,11 @@ export class UIManager {
         },
         // On finish
         async (responseText) => {
+          const journalTurn = await changeJournal.endTurn();
+          if (journalTurn && this.currentToolActivityGroup) {
+            this.renderJournalChanges(this.currentToolActivityGroup, journalTurn);
+          }
+
           this.setStatus('Response complete', 'success');
 
           // Save assistant message to storage (including tool activity if any)
@@ -1891,6 +2754,7 @@ export class UIManager {
                 role: 'assistant',
                 content: responseText,
                 toolActivity,
+                journalTurnId: journalTurn?.id,
               });
               const messages = this.conversationMessages.get(startingConversationId) || [];
               messages.push({ role: 'assistant', content: responseText });
@@ -1947,6 +2811,16 @@ export class UIManager {
         showToast(errorMessage, 'error');
       }
     } finally {
+      // A cancelled or failed turn may still have changed files
+      const journalTurn = await changeJournal.endTurn();
+      if (journalTurn && this.currentToolActivityGroup) {
+        this.renderJournalChanges(this.currentToolActivityGroup, journalTurn);
+      }
+
+      permissionGrants.setActiveConversation(null);
+      auditLog.setActiveConversation(null);
+      preferencesManager.setActiveConversation(null);
+
       // Always re-enable UI in finally block to ensure proper cleanup
       this.currentAbortController = null;
       this.currentMarkdownIframe = null;
@@ -2289,6 +3163,434 @@ export class UIManager {
     this.elements.messages.scrollTop = this.elements.messages.scrollHeight;
   }
 
+  /**
+   * Show the files a turn changed in its tool activity group, with undo and redo buttons
+   */
+  private renderJournalChanges(group: HTMLDivElement, turn: JournalTurn): void {
+    group.querySelector('.tool-activity-changes')?.remove();
+
+    const section = document.createElement('div');
+    section.className = 'tool-activity-changes';
+
+    const header = document.createElement('div');
+    header.className = 'tool-changes-header';
+
+    const title = document.createElement('span');
+    title.className = 'tool-changes-title';
+    title.textContent = `${turn.files.length} ${turn.files.length === 1 ? 'file' : 'files'} changed`;
+    header.appendChild(title);
+
+    const undoable = turn.files.filter((file) => !file.skipped);
+    if (undoable.length > 0) {
+      const allUndone = undoable.every((file) => file.undone);
+      header.appendChild(
+        this.createJournalButton(allUndone ? 'Redo all' : 'Undo all', () =>
+          this.applyJournalChange(group, turn.id, allUndone ? 'redo' : 'undo')
+        )
+      );
+    }
+    section.appendChild(header);
+
+    const list = document.createElement('ul');
+    list.className = 'tool-changes-list';
+
+    for (const file of turn.files) {
+      const item = document.createElement('li');
+      item.className = 'tool-changes-item';
+      item.classList.toggle('undone', file.undone);
+
+      const action = document.createElement('span');
+      action.className = 'tool-changes-action';
+      action.textContent = file.skipped ? 'changed' : file.before === null ? 'created' : file.after === null ? 'deleted' : 'modified';
+      item.appendChild(action);
+
+      const path = document.createElement('span');
+      path.className = 'tool-changes-path';
+      path.textContent = file.path;
+      item.appendChild(path);
+
+      if (file.skipped) {
+        const note = document.createElement('span');
+        note.className = 'tool-changes-note';
+        note.textContent = 'no snapshot, can\'t undo';
+        item.appendChild(note);
+      } else {
+        item.appendChild(
+          this.createJournalButton(file.undone ? 'Redo' : 'Undo', () =>
+            this.applyJournalChange(group, turn.id, file.undone ? 'redo' : 'undo', [file.path])
+          )
+        );
+      }
+
+      list.appendChild(item);
+    }
+
+    section.appendChild(list);
+    group.appendChild(section);
+  }
+
+  private createJournalButton(label: string, onClick: () => Promise<void>): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'tool-changes-btn';
+    button.textContent = label;
+    button.addEventListener('click', async () => {
+      button.disabled = true;
+      await onClick();
+      button.disabled = false;
+    });
+    return button;
+  }
+
+  /**
+   * Undo or redo some or all of a turn's file changes, confirming before
+   * overwriting files that have changed since
+   */
+  private async applyJournalChange(
+    group: HTMLDivElement,
+    turnId: string,
+    direction: JournalDirection,
+    paths?: string[]
+  ): Promise<void> {
+    if (this.isProcessing) {
+      showToast(`Wait for the current response to finish before you ${direction} changes`, 'error');
+      return;
+    }
+
+    const verb = direction === 'undo' ? 'Undo' : 'Redo';
+    try {
+      const conflicts = await changeJournal.findConflicts(turnId, direction, paths);
+      if (
+        conflicts.length > 0 &&
+        !confirm(`${conflicts.join(', ')} changed since this turn. ${verb} anyway and lose those changes?`)
+      ) {
+        return;
+      }
+
+      const turn = direction === 'undo'
+        ? await changeJournal.undo(turnId, paths)
+        : await changeJournal.redo(turnId, paths);
+      this.renderJournalChanges(group, turn);
+      showToast(`${verb} complete`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`${verb} failed: ${message}`, 'error');
+    }
+
+    try {
+      await this.refreshFileList();
+    } catch (refreshError) {
+      console.error('Failed to refresh file list:', refreshError);
+    }
+  }
+
+  /**
+   * Render the checkpoints saved for the current folder
+   */
+  private async renderCheckpoints(): Promise<void> {
+    const list = this.elements.checkpointList;
+
+    if (!fileSystemManager.getRootHandle()) {
+      list.innerHTML = '<p class="checkpoint-empty">Select a folder to save checkpoints.</p>';
+      return;
+    }
+
+    let checkpoints: Checkpoint[];
+    try {
+      checkpoints = await checkpointManager.list();
+    } catch (error) {
+      console.error('Failed to load checkpoints:', error);
+      list.innerHTML = '<p class="checkpoint-empty">Could not load checkpoints.</p>';
+      return;
+    }
+
+    if (checkpoints.length === 0) {
+      list.innerHTML = '<p class="checkpoint-empty">No checkpoints yet. Save one before a long session.</p>';
+      return;
+    }
+
+    list.innerHTML = '';
+    for (const checkpoint of checkpoints) {
+      const item = document.createElement('div');
+      item.className = 'checkpoint-item';
+      item.innerHTML = `
+        <div class="checkpoint-info">
+          <span class="checkpoint-name">${this.escapeHtml(checkpoint.name)}</span>
+          <span class="checkpoint-meta">${new Date(checkpoint.createdAt).toLocaleString()} · ${checkpoint.files.length} files</span>
+        </div>
+      `;
+
+      const restoreBtn = document.createElement('button');
+      restoreBtn.type = 'button';
+      restoreBtn.className = 'checkpoint-btn';
+      restoreBtn.textContent = 'Restore';
+      restoreBtn.addEventListener('click', () => this.openCheckpointRestore(checkpoint));
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.type = 'button';
+      deleteBtn.className = 'checkpoint-btn';
+      deleteBtn.textContent = 'Delete';
+      deleteBtn.addEventListener('click', () => this.handleDeleteCheckpoint(checkpoint));
+
+      item.append(restoreBtn, deleteBtn);
+      list.appendChild(item);
+    }
+  }
+
+  /**
+   * Save a checkpoint of the current folder
+   */
+  private async handleCreateCheckpoint(): Promise<void> {
+    if (!fileSystemManager.getRootHandle()) {
+      showToast('Select a folder before saving a checkpoint', 'error');
+      return;
+    }
+
+    const button = this.elements.createCheckpointBtn;
+    button.disabled = true;
+    try {
+      const checkpoint = await checkpointManager.create(this.elements.checkpointName.value);
+      this.elements.checkpointName.value = '';
+      const skipped = checkpoint.skipped.length > 0 ? ` (${checkpoint.skipped.length} large files left out)` : '';
+      showToast(`Saved checkpoint "${checkpoint.name}"${skipped}`, 'success');
+      await this.renderCheckpoints();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to save checkpoint: ${message}`, 'error');
+    } finally {
+      button.disabled = false;
+    }
+  }
+
+  /**
+   * Show the changes restoring a checkpoint would make, before restoring it
+   */
+  private async openCheckpointRestore(checkpoint: Checkpoint): Promise<void> {
+    if (this.isProcessing) {
+      showToast('Wait for the current response to finish before restoring a checkpoint', 'error');
+      return;
+    }
+
+    let changes: CheckpointChange[];
+    try {
+      changes = await checkpointManager.preview(checkpoint.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to compare checkpoint: ${message}`, 'error');
+      return;
+    }
+
+    if (changes.length === 0) {
+      showToast(`The folder already matches "${checkpoint.name}"`, 'success');
+      return;
+    }
+
+    const count = (action: CheckpointChange['action']) => changes.filter((change) => change.action === action).length;
+    this.elements.checkpointRestoreSummary.textContent =
+      `Restoring "${checkpoint.name}" will recreate ${count('create')}, revert ${count('modify')} ` +
+      `and delete ${count('delete')} files. A checkpoint of the current state is saved first.`;
+
+    const container = this.elements.checkpointRestoreChanges;
+    container.innerHTML = '';
+    for (const change of changes) {
+      const details = document.createElement('details');
+      details.className = 'checkpoint-change';
+      details.innerHTML = `
+        <summary>
+          <span class="checkpoint-change-action checkpoint-change-${change.action}">${change.action}</span>
+          <span class="checkpoint-change-path">${this.escapeHtml(change.path)}</span>
+        </summary>
+        <pre class="checkpoint-change-diff">Loading diff...</pre>
+      `;
+      details.addEventListener('toggle', () => this.loadCheckpointDiff(details, change), { once: true });
+      container.appendChild(details);
+    }
+
+    this.pendingRestoreCheckpoint = checkpoint;
+    this.currentOpenModal = this.elements.checkpointRestoreModal;
+    this.elements.checkpointRestoreModal.showModal();
+  }
+
+  /**
+   * Open the audit log, loading its entries and the choices of its filters
+   */
+  private async openAuditLog(): Promise<void> {
+    this.currentOpenModal = this.elements.auditLogModal;
+    this.elements.auditLogModal.showModal();
+
+    try {
+      this.auditEntries = await auditLog.list();
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      this.auditEntries = [];
+      showToast('Failed to load audit log', 'error');
+    }
+
+    const { auditFilterTool, auditFilterConversation } = this.elements;
+    const selectedTool = auditFilterTool.value;
+    const toolNames = [...new Set(this.auditEntries.map((entry) => entry.toolName))].sort();
+    auditFilterTool.replaceChildren(
+      new Option('All tools', ''),
+      ...toolNames.map((toolName) => new Option(toolName, toolName))
+    );
+    auditFilterTool.value = toolNames.includes(selectedTool) ? selectedTool : '';
+
+    const selectedConversation = auditFilterConversation.value;
+    const conversationIds = [
+      ...new Set(this.auditEntries.flatMap((entry) => (entry.conversationId ? [entry.conversationId] : []))),
+    ];
+    auditFilterConversation.replaceChildren(
+      new Option('All conversations', ''),
+      ...conversationIds.map((id) => new Option(this.getAuditConversationLabel(id), id))
+    );
+    auditFilterConversation.value = conversationIds.includes(selectedConversation) ? selectedConversation : '';
+
+    this.renderAuditLog();
+  }
+
+  private getAuditFilter(): AuditFilter {
+    const { auditFilterTool, auditFilterConversation, auditFilterDecision, auditFilterStatus, auditFilterPath } =
+      this.elements;
+    return {
+      toolName: auditFilterTool.value || undefined,
+      conversationId: auditFilterConversation.value || undefined,
+      decision: (auditFilterDecision.value || undefined) as AuditDecision | undefined,
+      status: (auditFilterStatus.value || undefined) as AuditStatus | undefined,
+      path: auditFilterPath.value || undefined,
+    };
+  }
+
+  private getAuditConversationLabel(conversationId: string | null): string {
+    if (!conversationId) {
+      return 'No conversation';
+    }
+    return this.conversations.get(conversationId)?.title ?? 'Deleted conversation';
+  }
+
+  /**
+   * Render the audit log entries matching the filters, newest first
+   */
+  private renderAuditLog(): void {
+    const list = this.elements.auditLogList;
+    const entries = filterAuditEntries(this.auditEntries, this.getAuditFilter()).reverse();
+
+    this.elements.auditLogSummary.textContent =
+      entries.length > this.MAX_AUDIT_ROWS
+        ? `Showing the latest ${this.MAX_AUDIT_ROWS} of ${entries.length} matching calls (${this.auditEntries.length} in total)`
+        : `${entries.length} matching calls (${this.auditEntries.length} in total)`;
+
+    if (entries.length === 0) {
+      list.innerHTML = '<p class="checkpoint-empty">No tool calls match.</p>';
+      return;
+    }
+
+    const decisionLabels: Record<AuditDecision, string> = {
+      auto: 'allowed automatically',
+      asked: 'approved when asked',
+      denied: 'denied',
+    };
+    list.replaceChildren(
+      ...entries.slice(0, this.MAX_AUDIT_ROWS).map((entry) => {
+        const details = document.createElement('details');
+        details.className = 'audit-log-entry';
+        details.innerHTML = `
+          <summary>
+            <span class="audit-log-time">${this.escapeHtml(new Date(entry.timestamp).toLocaleString())}</span>
+            <span class="audit-log-tool">${this.escapeHtml(entry.toolName)}</span>
+            <span class="audit-log-${entry.status}">${this.escapeHtml(decisionLabels[entry.decision])}, ${this.escapeHtml(entry.status)}</span>
+            <span>${this.escapeHtml(this.getAuditConversationLabel(entry.conversationId))}</span>
+            <span class="audit-log-paths">${this.escapeHtml(entry.paths.join(', '))}</span>
+          </summary>
+          ${entry.error ? `<p class="audit-log-error">${this.escapeHtml(entry.error)}</p>` : ''}
+          <pre>${this.escapeHtml(JSON.stringify(entry.args, null, 2) ?? '')}</pre>
+        `;
+        return details;
+      })
+    );
+  }
+
+  /**
+   * Download the audit log entries matching the filters as JSON Lines, oldest first
+   */
+  private exportAuditLog(): void {
+    const entries = filterAuditEntries(this.auditEntries, this.getAuditFilter());
+    if (entries.length === 0) {
+      showToast('No audit log entries to export', 'info');
+      return;
+    }
+
+    const blob = new Blob([toJsonLines(entries)], { type: 'application/x-ndjson' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `co-do-audit-log-${new Date().toISOString().slice(0, 10)}.jsonl`;
+    a.click();
+
+    URL.revokeObjectURL(a.href);
+  }
+
+  /**
+   * Fill in the diff of one file when its preview is expanded
+   */
+  private async loadCheckpointDiff(details: HTMLDetailsElement, change: CheckpointChange): Promise<void> {
+    const pre = details.querySelector('pre')!;
+    try {
+      const current = change.action === 'create' ? new Uint8Array() : await fileSystemManager.readFileBytes(change.path);
+      const restored = change.hash === null ? new Uint8Array() : await checkpointManager.readBlob(change.hash);
+      if (isBinaryContent(current) || isBinaryContent(restored)) {
+        pre.textContent = 'Binary file; no text diff to show';
+        return;
+      }
+      const decoder = new TextDecoder();
+      pre.textContent = formatUnifiedDiff(change.path, decoder.decode(current), decoder.decode(restored));
+    } catch (error) {
+      pre.textContent = `Could not load diff: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Restore the checkpoint shown in the preview, saving the current state first
+   */
+  private async handleConfirmRestore(): Promise<void> {
+    const checkpoint = this.pendingRestoreCheckpoint;
+    this.pendingRestoreCheckpoint = null;
+    this.closeModal(this.elements.checkpointRestoreModal);
+    if (!checkpoint) return;
+
+    if (this.isProcessing) {
+      showToast('Wait for the current response to finish before restoring a checkpoint', 'error');
+      return;
+    }
+
+    try {
+      await checkpointManager.create(`Before restoring "${checkpoint.name}"`);
+      const changes = await checkpointManager.restore(checkpoint.id);
+      showToast(`Restored "${checkpoint.name}" (${changes.length} files changed)`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to restore checkpoint: ${message}`, 'error');
+    }
+
+    await this.refreshFileList();
+    await this.renderCheckpoints();
+  }
+
+  /**
+   * Delete a checkpoint after confirming
+   */
+  private async handleDeleteCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    if (!confirm(`Delete checkpoint "${checkpoint.name}"?`)) {
+      return;
+    }
+
+    try {
+      await checkpointManager.delete(checkpoint.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      showToast(`Failed to delete checkpoint: ${message}`, 'error');
+    }
+    await this.renderCheckpoints();
+  }
+
   /**
    * Format a tool result summary for display
    */
@@ -2472,11 +3774,8 @@ export class UIManager {
       const toolName = document.createElement('div');
       toolName.className = 'tool-call-name';
       toolName.textContent = p.toolName;
-      const toolArgs = document.createElement('pre');
-      toolArgs.className = 'tool-call-args';
-      toolArgs.textContent = JSON.stringify(p.args, null, 2);
       toolCall.appendChild(toolName);
-      toolCall.appendChild(toolArgs);
+      toolCall.appendChild(this.createPermissionArgsElement(p.args));
 
       item.appendChild(label);
       item.appendChild(toolCall);
@@ -2496,6 +3795,13 @@ export class UIManager {
     selectionControls.appendChild(selectAllBtn);
     selectionControls.appendChild(selectNoneBtn);
 
+    const hasPaths = permissions.every((p) => getPermissionPaths(p.toolName, p.args).length > 0);
+    const reaches = permissions.map((p) => getApprovalReach(p.toolName, p.args));
+    const grantScope = this.createGrantScopeElement(hasPaths ? 'these files' : null, {
+      grant: reaches.every((reach) => reach.grant),
+      remember: reaches.every((reach) => reach.remember),
+    });
+
     const buttonsDiv = document.createElement('div');
     buttonsDiv.className = 'permission-dialog-buttons';
     const cancelBtn = document.createElement('button');
@@ -2517,6 +3823,7 @@ export class UIManager {
     dialog.appendChild(p1);
     dialog.appendChild(batchToolList);
     dialog.appendChild(selectionControls);
+    dialog.appendChild(grantScope.element);
     dialog.appendChild(buttonsDiv);
     dialog.appendChild(hintP);
 
@@ -2565,6 +3872,9 @@ export class UIManager {
       checkboxes.forEach((checkbox, index) => {
         const permission = permissions[index];
         if (permission) {
+          if (checkbox.checked) {
+            this.applyGrantScope(grantScope.select.value as GrantScope, permission.toolName, permission.args);
+          }
           permission.resolve(checkbox.checked);
         }
       });
@@ -2587,6 +3897,164 @@ export class UIManager {
     });
   }
 
+  /**
+   * Render a permission request's args. Pipe writes carry a dry-run preview,
+   * which is shown as the files read and written and each command's first lines.
+   */
+  private createPermissionArgsElement(args: unknown): HTMLElement {
+    const toolArgs = document.createElement('pre');
+    toolArgs.className = 'tool-call-args';
+
+    const preview = args && typeof args === 'object' && 'preview' in args
+      ? (args as { preview: PipeDryRunReport }).preview
+      : undefined;
+    if (!preview) {
+      toolArgs.textContent = JSON.stringify(args, null, 2);
+      return toolArgs;
+    }
+
+    const { preview: _preview, ...otherArgs } = args as Record<string, unknown>;
+    const formatSize = (bytes: number): string => {
+      if (bytes < 1024) return `${bytes} bytes`;
+      if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    };
+
+    const lines: string[] = [JSON.stringify(otherArgs, null, 2), ''];
+    if (preview.filesRead.length > 0) {
+      lines.push('Reads:');
+      preview.filesRead.forEach(file => lines.push(`  ${file.path} (${formatSize(file.size)})`));
+    }
+    if (preview.filesWritten.length > 0) {
+      lines.push('Writes:');
+      preview.filesWritten.forEach(file => lines.push(`  ${file.path} (${file.action}, ${formatSize(file.size)})`));
+    }
+    preview.stages.forEach((stage, index) => {
+      lines.push(`${index + 1}. ${stage.tool} → ${stage.lines} line${stage.lines === 1 ? '' : 's'}`);
+      stage.preview.forEach(line => lines.push(`     ${line}`));
+      if (stage.lines > stage.preview.length) {
+        lines.push('     …');
+      }
+    });
+
+    // textContent keeps file contents from being interpreted as HTML
+    toolArgs.textContent = lines.join('\n');
+    return toolArgs;
+  }
+
+  /**
+   * Create the choice of how far an approval reaches, offered in permission dialogs.
+   * Choices that wouldn't take effect are left out, and the choice is hidden if only "once" remains.
+   * @param files how to refer to the files of the request, or null if it names none
+   */
+  private createGrantScopeElement(
+    files: string | null,
+    reach: ApprovalReach
+  ): { element: HTMLLabelElement; select: HTMLSelectElement } {
+    const element = document.createElement('label');
+    element.className = 'permission-grant-scope';
+    element.textContent = 'Allow ';
+
+    const select = document.createElement('select');
+    select.add(new Option('just this once', 'once'));
+    if (reach.grant) {
+      select.add(new Option('for the rest of this conversation', 'conversation'));
+      if (files) {
+        select.add(new Option(`for ${files} for ${FILE_GRANT_DURATION / 60000} minutes`, 'files'));
+      }
+    }
+    if (reach.remember) {
+      select.add(new Option('always, and remember', 'always'));
+    }
+    element.appendChild(select);
+    element.hidden = select.options.length === 1;
+
+    return { element, select };
+  }
+
+  /**
+   * Record an approval that reaches beyond a single call
+   */
+  private applyGrantScope(
+    scope: GrantScope,
+    toolName: string,
+    args: unknown,
+    kind: 'native' | 'wasm' = 'native'
+  ): void {
+    const conversationId = permissionGrants.getActiveConversation();
+
+    if (scope === 'always') {
+      if (kind === 'wasm') {
+        preferencesManager.setWasmToolPermission(toolName, 'always');
+      } else {
+        preferencesManager.setToolPermission(toolName as ToolName, 'always');
+        this.elements.permissionSelects.forEach((select) => {
+          if (select.dataset.tool === toolName) {
+            select.value = 'always';
+          }
+        });
+      }
+      this.renderPermissionProfiles();
+      showToast(`${toolName} is now always allowed. Change this in Tool Permissions.`, 'info');
+    } else if (scope === 'conversation' && conversationId) {
+      permissionGrants.grantForConversation(conversationId, toolName);
+    } else if (scope === 'files' && conversationId) {
+      permissionGrants.grantForFiles(conversationId, toolName, getPermissionPaths(toolName as ToolName, args));
+    }
+  }
+
+  /**
+   * Render the active conversation's permission grants, each of which can be revoked
+   */
+  private renderPermissionGrants(): void {
+    const list = this.elements.grantList;
+    if (!list) return;
+
+    if (this.grantExpiryTimeout) {
+      clearTimeout(this.grantExpiryTimeout);
+      this.grantExpiryTimeout = null;
+    }
+
+    const grants = this.activeConversationId ? permissionGrants.list(this.activeConversationId) : [];
+    if (grants.length === 0) {
+      list.innerHTML = '<p class="checkpoint-empty">Tools set to ask will ask every time.</p>';
+      return;
+    }
+
+    list.replaceChildren(...grants.map((grant) => this.createPermissionGrantElement(grant)));
+
+    // Drop file grants from the list as they lapse
+    const nextExpiry = Math.min(...grants.map((grant) => grant.expiresAt ?? Infinity));
+    if (nextExpiry !== Infinity) {
+      this.grantExpiryTimeout = setTimeout(() => this.renderPermissionGrants(), nextExpiry - Date.now() + 100);
+    }
+  }
+
+  private createPermissionGrantElement(grant: PermissionGrant): HTMLDivElement {
+    const item = document.createElement('div');
+    item.className = 'root-item';
+
+    const scope = grant.paths
+      ? `${grant.paths.join(', ')} until ${new Date(grant.expiresAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : 'every call in this conversation';
+    item.innerHTML = `
+      <div class="root-info">
+        <span class="root-name">${this.escapeHtml(grant.toolName)}</span>
+        <span class="root-meta">${this.escapeHtml(scope)}</span>
+      </div>
+    `;
+
+    const revokeBtn = document.createElement('button');
+    revokeBtn.type = 'button';
+    revokeBtn.className = 'root-btn';
+    revokeBtn.textContent = 'Revoke';
+    revokeBtn.setAttribute('aria-label', `Revoke permission for ${grant.toolName}`);
+    revokeBtn.addEventListener('click', () => permissionGrants.revoke(grant.id));
+    item.appendChild(revokeBtn);
+
+    return item;
+  }
+
   /**
    * Show a single permission dialog (original behavior for single requests)
    */
@@ -2608,15 +4076,18 @@ export class UIManager {
     const toolNameDiv = document.createElement('div');
     toolNameDiv.className = 'tool-call-name';
     toolNameDiv.textContent = toolName;
-    const toolArgsDiv = document.createElement('pre');
-    toolArgsDiv.className = 'tool-call-args';
-    toolArgsDiv.textContent = JSON.stringify(args, null, 2);
     toolCallDiv.appendChild(toolNameDiv);
-    toolCallDiv.appendChild(toolArgsDiv);
+    toolCallDiv.appendChild(this.createPermissionArgsElement(args));
 
     const p2 = document.createElement('p');
     p2.textContent = 'Do you want to allow this action?';
 
+    const paths = getPermissionPaths(toolName, args);
+    const grantScope = this.createGrantScopeElement(
+      paths.length === 0 ? null : paths.length === 1 ? 'this file' : 'these files',
+      getApprovalReach(toolName, args)
+    );
+
     const buttonsDiv = document.createElement('div');
     buttonsDiv.className = 'permission-dialog-buttons';
     const cancelBtn = document.createElement('button');
@@ -2635,13 +4106,14 @@ export class UIManager {
     const hintP = document.createElement('p');
     hintP.className = 'permission-hint';
     const small = document.createElement('small');
-    small.textContent = 'Cancel: Skip this action silently. Deny: Reject and notify AI. Approve: Allow the action.';
+    small.textContent = 'Cancel: Skip this action silently. Deny: Reject and notify AI. Approve: Allow the action, as far as chosen above.';
     hintP.appendChild(small);
 
     dialog.appendChild(h3);
     dialog.appendChild(p1);
     dialog.appendChild(toolCallDiv);
     dialog.appendChild(p2);
+    dialog.appendChild(grantScope.element);
     dialog.appendChild(buttonsDiv);
     dialog.appendChild(hintP);
 
@@ -2663,6 +4135,7 @@ export class UIManager {
     // Handle approve
     approveBtn.addEventListener('click', () => {
       closeDialog();
+      this.applyGrantScope(grantScope.select.value as GrantScope, toolName, args);
       resolve(true);
     });
 
@@ -32,6 +32,6 @@ export {
   WasmToolManager,
   wasmToolManager,
   setWasmPermissionCallback,
-  getWasmToolPermission,
-  setWasmToolPermission,
+  checkWasmPermission,
+  getWasmApprovalReach,
 } from './manager';
@@ -16,6 +16,11 @@ import { tool, type Tool } from 'ai';
 import { z } from 'zod';
 import { storageManager } from '../storage';
 import { fileSystemManager } from '../fileSystem';
+import { preferencesManager, type PermissionLevel } from '../preferences';
+import { applyPermissionRules } from '../permissionRules';
+import { applyRootPermissions, touchesAskRoot, type CallPath } from '../rootPermissions';
+import { permissionGrants, type ApprovalReach } from '../permissionGrants';
+import { auditLog, type PendingAuditCall } from '../auditLog';
 import { WasmRuntime } from './runtime';
 import { VirtualFileSystem } from './vfs';
 import { WasmToolLoader } from './loader';
@@ -33,9 +38,18 @@ import type {
 type PermissionCallback = (toolName: string, args: unknown) => Promise<boolean>;
 
 /**
- * Default permission callback that always allows execution.
+ * Options for executing a tool
  */
-let permissionCallback: PermissionCallback = async () => true;
+interface ToolExecutionOptions {
+  stdin?: string;
+  permissionChecked?: boolean;
+  auditCall?: PendingAuditCall | null;
+}
+
+/**
+ * Default permission callback, denying execution until the UI sets one.
+ */
+let permissionCallback: PermissionCallback = async () => false;
 
 /**
  * Set the permission callback function.
@@ -45,37 +59,93 @@ export function setWasmPermissionCallback(callback: PermissionCallback): void {
 }
 
 /**
- * Get WASM tool permission level from localStorage.
+ * Get the paths a WASM tool call may name, and whether it may change files there,
+ * or null for a tool without file access. The manifest doesn't say which arguments
+ * are paths, so every string argument counts, changed if the tool can write.
  */
-export function getWasmToolPermission(toolName: string): 'always' | 'ask' | 'never' {
-  const stored = localStorage.getItem(`wasm_tool_permission_${toolName}`);
-  if (stored === 'always' || stored === 'ask' || stored === 'never') {
-    return stored;
+function getWasmCallPaths(toolName: string, args: unknown): CallPath[] | null {
+  const storedTool = wasmToolManager.getEnabledToolByAIName(toolName);
+  const fileAccess = storedTool?.manifest.execution.fileAccess ?? 'none';
+  if (fileAccess === 'none') {
+    return null;
   }
-  return 'ask'; // Default
+
+  const changed = fileAccess === 'write' || fileAccess === 'readwrite';
+  return Object.values((args ?? {}) as Record<string, unknown>)
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => ({ path: fileSystemManager.normalizePath(value), changed }));
+}
+
+/**
+ * Get a WASM tool's permission level for a call, after the path rules matching
+ * its arguments and, for a tool with file access, the permissions of the roots
+ * it touches, as for native tools. Through its virtual file system such a tool
+ * can reach every root, so one naming no path touches them all.
+ * @param level the tool's own level, by default the one set in preferences
+ */
+function getWasmCallPermission(
+  toolName: string,
+  callPaths: CallPath[] | null,
+  level: PermissionLevel = preferencesManager.getWasmToolPermission(toolName)
+): PermissionLevel {
+  const permission = applyPermissionRules(
+    preferencesManager.getPermissionRules(),
+    toolName,
+    (callPaths ?? []).map(({ path }) => path),
+    level
+  );
+  return callPaths ? applyRootPermissions(callPaths, permission) : permission;
 }
 
 /**
- * Set WASM tool permission level in localStorage.
+ * Get how far approving a WASM tool call that asks can reach: a grant can't
+ * cover a call touching an "ask" root, and remembering the tool as always
+ * allowed doesn't stop a path rule or root from asking
  */
-export function setWasmToolPermission(toolName: string, level: 'always' | 'ask' | 'never'): void {
-  localStorage.setItem(`wasm_tool_permission_${toolName}`, level);
+export function getWasmApprovalReach(toolName: string, args: unknown): ApprovalReach {
+  const callPaths = getWasmCallPaths(toolName, args);
+  return {
+    grant: !callPaths || !touchesAskRoot(callPaths),
+    remember: getWasmCallPermission(toolName, callPaths, 'always') === 'always',
+  };
 }
 
 /**
- * Check if a WASM tool has permission to execute.
+ * Check if a WASM tool has permission to execute, after the path rules matching
+ * its arguments, the roots it touches and the running conversation's grants.
+ * The decision and paths are recorded in `auditCall`, the audit log entry of
+ * the call being executed, if given.
  */
-async function checkWasmPermission(toolName: string, args: unknown): Promise<boolean> {
-  const permission = getWasmToolPermission(toolName);
+export async function checkWasmPermission(
+  toolName: string,
+  args: unknown,
+  auditCall: PendingAuditCall | null = null
+): Promise<boolean> {
+  const callPaths = getWasmCallPaths(toolName, args);
+  const paths = (callPaths ?? []).map(({ path }) => path);
+  if (auditCall) {
+    auditCall.paths = paths;
+  }
 
-  switch (permission) {
+  switch (getWasmCallPermission(toolName, callPaths)) {
     case 'always':
       return true;
+    case 'ask': {
+      if ((!callPaths || !touchesAskRoot(callPaths)) && permissionGrants.isGranted(toolName, paths)) {
+        return true;
+      }
+      const allowed = await permissionCallback(toolName, args);
+      if (auditCall) {
+        auditCall.decision = allowed ? 'asked' : 'denied';
+      }
+      return allowed;
+    }
     case 'never':
-      return false;
-    case 'ask':
-      return await permissionCallback(toolName, args);
     default:
+      if (auditCall) {
+        auditCall.decision = 'denied';
+      }
       return false;
   }
 }
@@ -251,6 +321,19 @@ export class WasmToolManager {
     return Array.from(this.tools.values()).filter(t => t.enabled);
   }
 
+  /**
+   * Find an enabled tool by the name it is exposed to the AI under
+   * (e.g. "wasm_grep" for a tool whose manifest name conflicts with a native tool).
+   */
+  getEnabledToolByAIName(name: string): StoredWasmTool | undefined {
+    for (const storedTool of this.tools.values()) {
+      if (storedTool.enabled && getWasmToolName(storedTool.manifest) === name) {
+        return storedTool;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Convert all enabled WASM tools to Vercel AI SDK format.
    */
@@ -278,18 +361,24 @@ export class WasmToolManager {
     return tool({
       description: manifest.description,
       inputSchema: zodSchema,
-      execute: async (input: Record<string, unknown>) => {
-        return this.executeTool(toolName, input);
+      execute: async (input: Record<string, unknown>, { toolCallId }) => {
+        return this.executeTool(toolName, input, { auditCall: auditLog.getCall(toolCallId) });
       },
     });
   }
 
   /**
    * Execute a tool by name. Public method for testing and direct invocation.
+   *
+   * @param options.stdin - Input piped from a previous command, passed to the tool's stdin
+   * @param options.permissionChecked - Skip the permission check because the caller
+   *   (e.g. the pipe tool's up-front validation) has already checked it
+   * @param options.auditCall - Audit log entry of the call, for the permission check to fill in
    */
   async executeTool(
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    options: ToolExecutionOptions = {}
   ): Promise<ToolExecutionResult> {
     const storedTool = this.tools.get(toolName);
     if (!storedTool) {
@@ -302,7 +391,7 @@ export class WasmToolManager {
       };
     }
 
-    return this.executeToolInternal(storedTool, args);
+    return this.executeToolInternal(storedTool, args, options);
   }
 
   /**
@@ -313,13 +402,14 @@ export class WasmToolManager {
    */
   private async executeToolInternal(
     storedTool: StoredWasmTool,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    options: ToolExecutionOptions = {}
   ): Promise<ToolExecutionResult> {
     const { manifest } = storedTool;
     const toolDisplayName = getWasmToolName(manifest);
 
     // 1. Check permissions
-    const allowed = await checkWasmPermission(toolDisplayName, args);
+    const allowed = options.permissionChecked || await checkWasmPermission(toolDisplayName, args, options.auditCall);
     if (!allowed) {
       return {
         success: false,
@@ -331,7 +421,10 @@ export class WasmToolManager {
     }
 
     // 2. Convert args based on argStyle
-    const { cliArgs, stdin } = this.convertArgsToCliFormat(manifest, args);
+    const converted = this.convertArgsToCliFormat(manifest, args);
+    const cliArgs = converted.cliArgs;
+    // JSON-style tools read their args from stdin, so piped input can't replace it
+    const stdin = converted.stdin ?? options.stdin;
 
     // 3. Determine execution mode
     // Worker mode currently only supports stdin/stdout tools (no file access)
@@ -418,7 +511,9 @@ export class WasmToolManager {
     const hasDirectoryAccess = fileSystemManager.getRootHandle() !== null;
     const vfs = new VirtualFileSystem(
       hasDirectoryAccess ? fileSystemManager : null,
-      manifest.execution.fileAccess
+      manifest.execution.fileAccess,
+      // Paths can name any root, including ones the permission check didn't see
+      (path) => applyRootPermissions([{ path, changed: true }], 'always') !== 'never'
     );
 
     // Set stdin
@@ -26,6 +26,7 @@ const textDecoder = new TextDecoder();
 export class VirtualFileSystem {
   private fileSystem: FileSystemManager | null;
   private fileAccess: 'none' | 'read' | 'write' | 'readwrite';
+  private canChange: (path: string) => boolean;
 
   // Standard I/O buffers
   private stdinBuffer: Uint8Array = new Uint8Array(0);
@@ -37,9 +38,17 @@ export class VirtualFileSystem {
   private openFiles: Map<number, { path: string; mode: 'read' | 'write' }> = new Map();
   private nextFd: number = 3; // Start after stdin/stdout/stderr
 
-  constructor(fileSystem: FileSystemManager | null, fileAccess: 'none' | 'read' | 'write' | 'readwrite' = 'none') {
+  /**
+   * @param canChange whether files at a normalized path may be written, e.g. not in a read-only root
+   */
+  constructor(
+    fileSystem: FileSystemManager | null,
+    fileAccess: 'none' | 'read' | 'write' | 'readwrite' = 'none',
+    canChange: (path: string) => boolean = () => true
+  ) {
     this.fileSystem = fileSystem;
     this.fileAccess = fileAccess;
+    this.canChange = canChange;
   }
 
   // ===========================================================================
@@ -150,6 +159,15 @@ export class VirtualFileSystem {
     }
   }
 
+  /**
+   * Check a normalized path may be written.
+   */
+  private checkWritable(path: string): void {
+    if (!this.canChange(path)) {
+      throw new Error(`Write access to "${path}" is not allowed: its workspace root is read-only`);
+    }
+  }
+
   /**
    * Normalize a path to prevent directory traversal.
    */
@@ -187,8 +205,7 @@ export class VirtualFileSystem {
     }
 
     const normalizedPath = this.normalizePath(path);
-    const content = await this.fileSystem.readFile(normalizedPath);
-    return textEncoder.encode(content);
+    return await this.fileSystem.readFileBytes(normalizedPath);
   }
 
   /**
@@ -208,7 +225,7 @@ export class VirtualFileSystem {
   /**
    * Write data to a file in the project directory.
    */
-  async writeFile(path: string, data: Uint8Array | string): Promise<void> {
+  async writeFile(path: string, data: Uint8Array<ArrayBuffer> | string): Promise<void> {
     this.checkAccess('write');
 
     if (!this.fileSystem) {
@@ -216,8 +233,12 @@ export class VirtualFileSystem {
     }
 
     const normalizedPath = this.normalizePath(path);
-    const content = typeof data === 'string' ? data : textDecoder.decode(data);
-    await this.fileSystem.writeFile(normalizedPath, content);
+    this.checkWritable(normalizedPath);
+    if (typeof data === 'string') {
+      await this.fileSystem.writeFile(normalizedPath, data);
+    } else {
+      await this.fileSystem.writeFileBytes(normalizedPath, data);
+    }
   }
 
   /**
@@ -260,7 +281,6 @@ export class VirtualFileSystem {
 
   /**
    * Read directory contents.
-   * Note: Currently returns all files in the project, filtered by path prefix.
    */
   async readdir(path: string): Promise<string[]> {
     this.checkAccess('read');
@@ -270,8 +290,8 @@ export class VirtualFileSystem {
     }
 
     const normalizedPath = this.normalizePath(path);
-    // listFiles returns all entries recursively from the root
-    const allEntries = await this.fileSystem.listFiles();
+    // Only the directory's own children are needed; WASM tools see ignored files too
+    const allEntries = await this.fileSystem.listFiles({ path: normalizedPath, includeIgnored: true, maxDepth: 1 });
 
     // Filter to entries in the requested directory (direct children only)
     const prefix = normalizedPath ? `${normalizedPath}/` : '';
@@ -309,8 +329,11 @@ export class VirtualFileSystem {
       this.checkAccess('write');
     }
 
-    const fd = this.nextFd++;
     const normalizedPath = this.normalizePath(path);
+    if (mode === 'write') {
+      this.checkWritable(normalizedPath);
+    }
+    const fd = this.nextFd++;
     this.openFiles.set(fd, { path: normalizedPath, mode });
     return fd;
   }
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the audit log
+ *
+ * Tests that recorded calls get the decision and paths of their permission
+ * check and the status of their result, also when a wrapped tool checks after
+ * awaiting, and filtering and export of entries
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../src/storage', () => ({
+  storageManager: {
+    addAuditEntry: vi.fn(),
+    getAllAuditEntries: vi.fn(),
+  },
+}));
+
+import { AuditEntry, AuditLog, PendingAuditCall, filterAuditEntries, shortenArgs, toJsonLines } from '../../src/auditLog';
+import { storageManager } from '../../src/storage';
+
+/** A stand-in for a tool's permission check, which fills in the entry it is given */
+async function checkPermission(call: PendingAuditCall | null, allowed: boolean): Promise<boolean> {
+  if (call) {
+    call.paths = ['src/a.ts'];
+  }
+  const answer = await Promise.resolve(allowed);
+  if (call) {
+    call.decision = answer ? 'asked' : 'denied';
+  }
+  return answer;
+}
+
+function lastEntry(): AuditEntry {
+  return vi.mocked(storageManager.addAuditEntry).mock.calls.at(-1)![0];
+}
+
+describe('AuditLog', () => {
+  let log: AuditLog;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    log = new AuditLog();
+    log.setActiveConversation('conv-1');
+  });
+
+  it('records the decision and paths of the permission check and the result', async () => {
+    const result = await log.record('write_file', { path: 'src/a.ts' }, async (call) => {
+      if (!(await checkPermission(call, true))) return { error: 'Permission denied' };
+      return { success: true };
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(lastEntry()).toMatchObject({
+      conversationId: 'conv-1',
+      toolName: 'write_file',
+      args: { path: 'src/a.ts' },
+      decision: 'asked',
+      paths: ['src/a.ts'],
+      status: 'success',
+    });
+  });
+
+  it('records denied and failed calls, and calls without a permission check as automatic', async () => {
+    await log.record('delete_file', {}, async (call) => {
+      if (!(await checkPermission(call, false))) return { error: 'Permission denied' };
+      return { success: true };
+    });
+    expect(lastEntry()).toMatchObject({ decision: 'denied', status: 'denied' });
+
+    await expect(log.record('cat', {}, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(lastEntry()).toMatchObject({ decision: 'auto', status: 'error', error: 'boom' });
+
+    await log.record('wasm_jq', {}, async () => ({ success: false, stderr: 'bad filter' }));
+    expect(lastEntry()).toMatchObject({ status: 'error', error: 'bad filter' });
+  });
+
+  it('gives a wrapped tool its entry by tool call id, however long it awaits before checking', async () => {
+    const { slow, fast } = log.wrapTools({
+      slow: {
+        inputSchema: {} as never,
+        execute: async (_input: unknown, { toolCallId }: { toolCallId: string }) => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return (await checkPermission(log.getCall(toolCallId), false)) ? {} : { error: 'Permission denied' };
+        },
+      },
+      fast: {
+        inputSchema: {} as never,
+        execute: async (_input: unknown, { toolCallId }: { toolCallId: string }) => {
+          await checkPermission(log.getCall(toolCallId), true);
+          return {};
+        },
+      },
+    });
+
+    // Both run at once, so only the ids tell their entries apart
+    await Promise.all([
+      slow!.execute!({}, { toolCallId: 'slow-1', messages: [] }),
+      fast!.execute!({}, { toolCallId: 'fast-1', messages: [] }),
+    ]);
+
+    const entries = vi.mocked(storageManager.addAuditEntry).mock.calls.map(([entry]) => entry);
+    expect(entries.find((entry) => entry.toolName === 'slow')).toMatchObject({ decision: 'denied', status: 'denied' });
+    expect(entries.find((entry) => entry.toolName === 'fast')).toMatchObject({ decision: 'asked', status: 'success' });
+    expect(log.getCall('slow-1')).toBeNull();
+  });
+
+  it('does not fail a call when its entry cannot be stored', async () => {
+    vi.mocked(storageManager.addAuditEntry).mockRejectedValueOnce(new Error('quota'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(log.record('cat', {}, async () => ({ content: 'x' }))).resolves.toEqual({ content: 'x' });
+  });
+
+  it('shortens long strings in arguments', () => {
+    const args = shortenArgs({ path: 'a.ts', content: 'x'.repeat(5000), edits: [{ old: 'y' }] }) as Record<string, unknown>;
+
+    expect(args.path).toBe('a.ts');
+    expect(args.content).toMatch(/^x{1000}… \(5000 characters\)$/);
+    expect(args.edits).toEqual([{ old: 'y' }]);
+  });
+});
+
+describe('audit entries', () => {
+  const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+    id: 'id',
+    timestamp: 0,
+    conversationId: 'conv-1',
+    toolName: 'cat',
+    args: {},
+    decision: 'auto',
+    paths: [],
+    status: 'success',
+    ...overrides,
+  });
+  const entries = [
+    entry({ id: '1', paths: ['src/a.ts'] }),
+    entry({ id: '2', toolName: 'write_file', decision: 'asked', paths: ['docs/b.md'] }),
+    entry({ id: '3', toolName: 'write_file', decision: 'denied', status: 'denied', conversationId: 'conv-2' }),
+  ];
+
+  it('filters by every criterion given', () => {
+    const ids = (filter: Parameters<typeof filterAuditEntries>[1]) =>
+      filterAuditEntries(entries, filter).map((e) => e.id);
+
+    expect(ids({})).toEqual(['1', '2', '3']);
+    expect(ids({ toolName: 'write_file' })).toEqual(['2', '3']);
+    expect(ids({ toolName: 'write_file', conversationId: 'conv-1' })).toEqual(['2']);
+    expect(ids({ status: 'denied' })).toEqual(['3']);
+    expect(ids({ path: 'docs/' })).toEqual(['2']);
+  });
+
+  it('exports one JSON object per line', () => {
+    const lines = toJsonLines(entries).split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe('');
+    expect(JSON.parse(lines[1]!)).toEqual(entries[1]);
+    expect(toJsonLines([])).toBe('');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the change journal
+ *
+ * Tests snapshotting files per turn, undo/redo of whole turns and single files,
+ * conflict detection and the size cap
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with an in-memory file map that runs the before-change callback
+vi.mock('../../src/fileSystem', () => {
+  const mockFiles: Map<string, string> = new Map();
+  let beforeChange: ((path: string) => Promise<void>) | null = null;
+  const toText = (content: string | Uint8Array) =>
+    typeof content === 'string' ? content : new TextDecoder().decode(content);
+
+  return {
+    fileSystemManager: {
+      setBeforeChangeCallback: vi.fn((callback: ((path: string) => Promise<void>) | null) => {
+        beforeChange = callback;
+      }),
+      resolvePath: vi.fn((path: string) =>
+        Promise.resolve(mockFiles.has(path) ? { path, kind: 'file' } : null)
+      ),
+      getFileMetadata: vi.fn((path: string) => Promise.resolve({ size: mockFiles.get(path)!.length })),
+      readFileBytes: vi.fn((path: string) => Promise.resolve(new TextEncoder().encode(mockFiles.get(path)!))),
+      writeFile: vi.fn(async (path: string, content: string) => {
+        await beforeChange?.(path);
+        mockFiles.set(path, content);
+      }),
+      writeFileBytes: vi.fn(async (path: string, data: Uint8Array) => {
+        await beforeChange?.(path);
+        mockFiles.set(path, toText(data));
+      }),
+      createFile: vi.fn(async (path: string, content: string | Uint8Array = '') => {
+        await beforeChange?.(path);
+        mockFiles.set(path, toText(content));
+      }),
+      deleteFile: vi.fn(async (path: string) => {
+        await beforeChange?.(path);
+        mockFiles.delete(path);
+      }),
+      _mockFiles: mockFiles,
+    },
+  };
+});
+
+// Mock the journal's IndexedDB storage with a map
+vi.mock('../../src/storage', () => {
+  const turns: Map<string, unknown> = new Map();
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  return {
+    storageManager: {
+      saveJournalTurn: vi.fn((turn: { id: string }) => {
+        turns.set(turn.id, copy(turn));
+        return Promise.resolve();
+      }),
+      getJournalTurn: vi.fn((id: string) => Promise.resolve(turns.has(id) ? copy(turns.get(id)) : null)),
+      getAllJournalTurns: vi.fn(() => Promise.resolve([...turns.values()].map(copy))),
+      deleteJournalTurn: vi.fn((id: string) => {
+        turns.delete(id);
+        return Promise.resolve();
+      }),
+      _turns: turns,
+    },
+  };
+});
+
+import { ChangeJournal } from '../../src/changeJournal';
+import { fileSystemManager } from '../../src/fileSystem';
+import { storageManager } from '../../src/storage';
+
+const mockFs = fileSystemManager as unknown as {
+  _mockFiles: Map<string, string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  createFile: (path: string, content: string) => Promise<void>;
+  deleteFile: (path: string) => Promise<void>;
+};
+const mockStorage = storageManager as unknown as { _turns: Map<string, unknown> };
+
+describe('ChangeJournal', () => {
+  let journal: ChangeJournal;
+
+  beforeEach(() => {
+    mockFs._mockFiles.clear();
+    mockStorage._turns.clear();
+    journal = new ChangeJournal();
+    mockFs._mockFiles.set('a.txt', 'original a');
+    mockFs._mockFiles.set('b.txt', 'original b');
+  });
+
+  async function runTurn(changes: () => Promise<void>) {
+    journal.beginTurn('conversation-1');
+    await changes();
+    return journal.endTurn();
+  }
+
+  it('records the first snapshot and final content of each file', async () => {
+    const turn = await runTurn(async () => {
+      await mockFs.writeFile('a.txt', 'first edit');
+      await mockFs.writeFile('a.txt', 'second edit');
+      await mockFs.createFile('c.txt', 'new');
+      await mockFs.deleteFile('b.txt');
+    });
+
+    const decode = (bytes: Uint8Array | null) => bytes && new TextDecoder().decode(bytes);
+    expect(turn!.files.map((file) => ({ ...file, before: decode(file.before), after: decode(file.after) }))).toEqual([
+      { path: 'a.txt', before: 'original a', after: 'second edit', undone: false },
+      { path: 'c.txt', before: null, after: 'new', undone: false },
+      { path: 'b.txt', before: 'original b', after: null, undone: false },
+    ]);
+  });
+
+  it('returns null for a turn that changed nothing', async () => {
+    expect(await runTurn(async () => {})).toBeNull();
+    expect(await journal.endTurn()).toBeNull();
+  });
+
+  it('undoes and redoes a whole turn', async () => {
+    const turn = await runTurn(async () => {
+      await mockFs.writeFile('a.txt', 'changed');
+      await mockFs.createFile('c.txt', 'new');
+      await mockFs.deleteFile('b.txt');
+    });
+
+    await journal.undo(turn!.id);
+    expect(Object.fromEntries(mockFs._mockFiles)).toEqual({ 'a.txt': 'original a', 'b.txt': 'original b' });
+
+    const redone = await journal.redo(turn!.id);
+    expect(Object.fromEntries(mockFs._mockFiles)).toEqual({ 'a.txt': 'changed', 'c.txt': 'new' });
+    expect(redone.files.every((file) => !file.undone)).toBe(true);
+  });
+
+  it('undoes a single file', async () => {
+    const turn = await runTurn(async () => {
+      await mockFs.writeFile('a.txt', 'changed a');
+      await mockFs.writeFile('b.txt', 'changed b');
+    });
+
+    const updated = await journal.undo(turn!.id, ['b.txt']);
+
+    expect(mockFs._mockFiles.get('a.txt')).toBe('changed a');
+    expect(mockFs._mockFiles.get('b.txt')).toBe('original b');
+    expect(updated.files.map((file) => file.undone)).toEqual([false, true]);
+  });
+
+  it('reports files changed since the turn as conflicts', async () => {
+    const turn = await runTurn(async () => {
+      await mockFs.writeFile('a.txt', 'changed a');
+      await mockFs.writeFile('b.txt', 'changed b');
+    });
+    mockFs._mockFiles.set('a.txt', 'edited by hand');
+
+    expect(await journal.findConflicts(turn!.id, 'undo')).toEqual(['a.txt']);
+  });
+
+  it('does not record changes made outside a turn', async () => {
+    const turn = await runTurn(async () => {
+      await mockFs.writeFile('a.txt', 'changed');
+    });
+
+    await journal.undo(turn!.id);
+
+    const saved = (await journal.getTurn(turn!.id))!;
+    expect(saved.files).toHaveLength(1);
+    expect(saved.files[0]!.undone).toBe(true);
+  });
+
+  it('drops the oldest turns once over the size cap', async () => {
+    const large = 'x'.repeat(4 * 1024 * 1024);
+    const turnIds: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      const turn = await runTurn(async () => {
+        await mockFs.writeFile('a.txt', large + i);
+      });
+      turnIds.push(turn!.id);
+    }
+
+    expect(await journal.getTurn(turnIds[0]!)).toBeNull();
+    expect(await journal.getTurn(turnIds[7]!)).not.toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for workspace checkpoints
+ *
+ * Tests recording manifests with deduplicated blobs, previewing and restoring
+ * a checkpoint, leaving roots it doesn't cover alone, and deleting unused blobs
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with in-memory roots; paths outside the default root start with `name:/`
+vi.mock('../../src/fileSystem', () => {
+  const mockFiles: Map<string, string> = new Map();
+  const roots = [{ name: 'project' }];
+  const toText = (content: string | Uint8Array) =>
+    typeof content === 'string' ? content : new TextDecoder().decode(content);
+
+  return {
+    fileSystemManager: {
+      getRootPath: vi.fn(() => 'project'),
+      getRoots: vi.fn(() => [...roots]),
+      getRootName: vi.fn((path: string) => /^([\w-]+):/.exec(path)?.[1] ?? roots[0]!.name),
+      listFiles: vi.fn(() =>
+        Promise.resolve([...mockFiles.keys()].map((path) => ({ path, kind: 'file' })))
+      ),
+      getFileMetadata: vi.fn((path: string) => Promise.resolve({ size: mockFiles.get(path)!.length })),
+      readFileBytes: vi.fn((path: string) => Promise.resolve(new TextEncoder().encode(mockFiles.get(path)!))),
+      writeFileBytes: vi.fn((path: string, data: Uint8Array) => {
+        mockFiles.set(path, toText(data));
+        return Promise.resolve();
+      }),
+      createFile: vi.fn((path: string, content: string | Uint8Array) => {
+        mockFiles.set(path, toText(content));
+        return Promise.resolve();
+      }),
+      deleteFile: vi.fn((path: string) => {
+        mockFiles.delete(path);
+        return Promise.resolve();
+      }),
+      _mockFiles: mockFiles,
+      _roots: roots,
+    },
+  };
+});
+
+// Mock OPFS blob storage with a map
+vi.mock('../../src/opfsFileSystem', () => {
+  const blobs: Map<string, Uint8Array> = new Map();
+  const read = (path: string) => {
+    const content = blobs.get(path);
+    return content === undefined ? Promise.reject(new Error('NotFoundError')) : Promise.resolve(content);
+  };
+
+  return {
+    opfsFileSystem: {
+      getFileMetadata: vi.fn((path: string) => read(path).then((content) => ({ size: content.byteLength }))),
+      readFileBytes: vi.fn(read),
+      createFile: vi.fn((path: string, content: Uint8Array) => {
+        blobs.set(path, content);
+        return Promise.resolve();
+      }),
+      deleteFile: vi.fn((path: string) => {
+        blobs.delete(path);
+        return Promise.resolve();
+      }),
+      _blobs: blobs,
+    },
+  };
+});
+
+// Mock the manifest store with a map
+vi.mock('../../src/storage', () => {
+  const checkpoints: Map<string, unknown> = new Map();
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  return {
+    storageManager: {
+      saveCheckpoint: vi.fn((checkpoint: { id: string }) => {
+        checkpoints.set(checkpoint.id, copy(checkpoint));
+        return Promise.resolve();
+      }),
+      getCheckpoint: vi.fn((id: string) => Promise.resolve(checkpoints.has(id) ? copy(checkpoints.get(id)) : null)),
+      getAllCheckpoints: vi.fn(() => Promise.resolve([...checkpoints.values()].map(copy))),
+      deleteCheckpoint: vi.fn((id: string) => {
+        checkpoints.delete(id);
+        return Promise.resolve();
+      }),
+      _checkpoints: checkpoints,
+    },
+  };
+});
+
+import { CheckpointManager } from '../../src/checkpoints';
+import { fileSystemManager } from '../../src/fileSystem';
+import { opfsFileSystem } from '../../src/opfsFileSystem';
+import { storageManager } from '../../src/storage';
+
+const mockFs = fileSystemManager as unknown as { _mockFiles: Map<string, string>; _roots: Array<{ name: string }> };
+const mockOpfs = opfsFileSystem as unknown as { _blobs: Map<string, Uint8Array> };
+const mockStorage = storageManager as unknown as { _checkpoints: Map<string, unknown> };
+
+describe('CheckpointManager', () => {
+  let checkpoints: CheckpointManager;
+
+  beforeEach(() => {
+    mockFs._mockFiles.clear();
+    mockOpfs._blobs.clear();
+    mockStorage._checkpoints.clear();
+    mockFs._roots.splice(1);
+    checkpoints = new CheckpointManager();
+    mockFs._mockFiles.set('a.txt', 'same');
+    mockFs._mockFiles.set('b.txt', 'same');
+    mockFs._mockFiles.set('c.txt', 'other');
+  });
+
+  it('records a manifest and stores identical content once', async () => {
+    const checkpoint = await checkpoints.create('before refactor');
+
+    expect(checkpoint.name).toBe('before refactor');
+    expect(checkpoint.files.map((file) => file.path)).toEqual(['a.txt', 'b.txt', 'c.txt']);
+    expect(checkpoint.files[0]!.hash).toBe(checkpoint.files[1]!.hash);
+    expect(mockOpfs._blobs.size).toBe(2);
+
+    await checkpoints.create('again');
+    expect(mockOpfs._blobs.size).toBe(2);
+  });
+
+  it('previews and restores created, modified and deleted files', async () => {
+    const checkpoint = await checkpoints.create('start');
+    mockFs._mockFiles.set('a.txt', 'edited');
+    mockFs._mockFiles.delete('b.txt');
+    mockFs._mockFiles.set('d.txt', 'new');
+
+    const changes = await checkpoints.preview(checkpoint.id);
+    expect(changes.map(({ path, action }) => ({ path, action }))).toEqual([
+      { path: 'a.txt', action: 'modify' },
+      { path: 'b.txt', action: 'create' },
+      { path: 'd.txt', action: 'delete' },
+    ]);
+
+    await checkpoints.restore(checkpoint.id);
+    expect(Object.fromEntries(mockFs._mockFiles)).toEqual({ 'a.txt': 'same', 'b.txt': 'same', 'c.txt': 'other' });
+    expect(await checkpoints.preview(checkpoint.id)).toEqual([]);
+  });
+
+  it('leaves a root mounted after the checkpoint alone', async () => {
+    const checkpoint = await checkpoints.create('single root');
+    expect(checkpoint.roots).toEqual(['project']);
+
+    mockFs._roots.push({ name: 'web' });
+    mockFs._mockFiles.set('web:/index.html', '<html>');
+    mockFs._mockFiles.set('a.txt', 'edited');
+
+    expect((await checkpoints.preview(checkpoint.id)).map(({ path, action }) => ({ path, action }))).toEqual([
+      { path: 'a.txt', action: 'modify' },
+    ]);
+    await checkpoints.restore(checkpoint.id);
+    expect(mockFs._mockFiles.get('web:/index.html')).toBe('<html>');
+    expect(mockFs._mockFiles.get('a.txt')).toBe('same');
+  });
+
+  it('only offers a checkpoint while every root it covers is mounted', async () => {
+    mockFs._roots.push({ name: 'web' });
+    mockFs._mockFiles.set('web:/index.html', '<html>');
+    const checkpoint = await checkpoints.create('two roots');
+    expect(checkpoint.roots).toEqual(['project', 'web']);
+    expect(checkpoint.files.map((file) => file.path)).toContain('web:/index.html');
+
+    mockFs._roots.splice(1);
+    mockFs._mockFiles.delete('web:/index.html');
+
+    expect(await checkpoints.list()).toEqual([]);
+    await expect(checkpoints.preview(checkpoint.id)).rejects.toThrow('Mount project, web to restore this checkpoint');
+  });
+
+  it('deletes only the blobs no other checkpoint uses', async () => {
+    const first = await checkpoints.create('first');
+    mockFs._mockFiles.set('c.txt', 'changed');
+    await checkpoints.create('second');
+    expect(mockOpfs._blobs.size).toBe(3);
+
+    await checkpoints.delete(first.id);
+
+    expect(mockOpfs._blobs.size).toBe(2);
+    expect((await checkpoints.list()).map((checkpoint) => checkpoint.name)).toEqual(['second']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the directory index
+ *
+ * Tests which listings and metadata each kind of change drops, that results
+ * read before a change aren't stored, how old results may be, and when ignore
+ * rules can be reused
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DirectoryIndex, IndexedDirectory, parentPath, sameIgnoreFiles } from '../../src/directoryIndex';
+
+const listing: IndexedDirectory = { entries: [], rules: [], ignoreFiles: [] };
+const metadata = { name: 'a.ts', size: 1, lastModified: 0, type: '' };
+
+describe('DirectoryIndex', () => {
+  let index: DirectoryIndex;
+
+  beforeEach(() => {
+    index = new DirectoryIndex();
+    for (const path of ['', 'src', 'src/lib', 'web:', 'web:/src']) {
+      index.setDirectory(path, listing, index.getVersion());
+    }
+    index.setMetadata('src/lib/a.ts', metadata, index.getVersion());
+  });
+
+  it('finds the parent of paths in the default and other roots', () => {
+    expect(parentPath('src')).toBe('');
+    expect(parentPath('src/lib/a.ts')).toBe('src/lib');
+    expect(parentPath('web:/src')).toBe('web:');
+  });
+
+  it('lists the parent again when an entry is added', () => {
+    index.added('src/new.ts');
+
+    expect(index.getDirectory('src')).toBeUndefined();
+    expect(index.getDirectory('')).toBe(listing);
+    expect(index.getDirectory('src/lib')).toBe(listing);
+  });
+
+  it('drops everything below a removed directory', () => {
+    index.removed('src');
+
+    expect(index.getDirectory('')).toBeUndefined();
+    expect(index.getDirectory('src')).toBeUndefined();
+    expect(index.getDirectory('src/lib')).toBeUndefined();
+    expect(index.getMetadata('src/lib/a.ts')).toBeUndefined();
+    expect(index.getDirectory('web:/src')).toBe(listing);
+  });
+
+  it('drops metadata when a file changes, and the listing when it is an ignore file', () => {
+    index.modified('src/lib/a.ts');
+    expect(index.getMetadata('src/lib/a.ts')).toBeUndefined();
+    expect(index.getDirectory('src/lib')).toBe(listing);
+
+    index.modified('web:/src/.gitignore');
+    expect(index.getDirectory('web:/src')).toBeUndefined();
+  });
+
+  it('lists both directories again when an entry moves', () => {
+    index.moved('src/lib', 'web:/src/lib');
+
+    expect(index.getDirectory('src')).toBeUndefined();
+    expect(index.getDirectory('src/lib')).toBeUndefined();
+    expect(index.getDirectory('web:/src')).toBeUndefined();
+    expect(index.getDirectory('web:')).toBe(listing);
+  });
+
+  it('does not store results read before a change', () => {
+    const version = index.getVersion();
+    index.added('docs/readme.md');
+
+    index.setDirectory('docs', listing, version);
+    index.setMetadata('docs/readme.md', metadata, version);
+
+    expect(index.getDirectory('docs')).toBeUndefined();
+    expect(index.getMetadata('docs/readme.md')).toBeUndefined();
+  });
+
+  describe('age', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('returns listings and metadata only if they were stored at most maxAge ago', () => {
+      index.setDirectory('docs', listing, index.getVersion());
+      index.setMetadata('docs/readme.md', metadata, index.getVersion());
+
+      vi.advanceTimersByTime(1000);
+      expect(index.getDirectory('docs', 1000)).toBe(listing);
+      expect(index.getMetadata('docs/readme.md', 1000)).toBe(metadata);
+
+      vi.advanceTimersByTime(1);
+      expect(index.getDirectory('docs', 1000)).toBeUndefined();
+      expect(index.getMetadata('docs/readme.md', 1000)).toBeUndefined();
+      expect(index.getDirectory('docs')).toBe(listing);
+
+      index.setDirectory('docs', listing, index.getVersion());
+      expect(index.getDirectory('docs', 1000)).toBe(listing);
+    });
+  });
+
+  it('reuses ignore rules only while the ignore files keep their sizes and modification times', () => {
+    const gitignore = { name: '.gitignore', size: 12, lastModified: 1000 };
+    const codoignore = { name: '.codoignore', size: 4, lastModified: 2000 };
+
+    expect(sameIgnoreFiles([], [])).toBe(true);
+    expect(sameIgnoreFiles([gitignore, codoignore], [{ ...gitignore }, { ...codoignore }])).toBe(true);
+    expect(sameIgnoreFiles([gitignore], [{ ...gitignore, lastModified: 1001 }])).toBe(false);
+    expect(sameIgnoreFiles([gitignore], [{ ...gitignore, size: 13 }])).toBe(false);
+    expect(sameIgnoreFiles([gitignore], [gitignore, codoignore])).toBe(false);
+    expect(sameIgnoreFiles([gitignore], [])).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for the directory tools
+ *
+ * Tests the recursive flag and entry counts of delete_directory, read-only
+ * roots and path rules, including rules on entries inside the directory, how
+ * far an approval can reach, and that copy_directory and move_directory report
+ * what they did
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with a fixed tree: src/ holds two files and a subdirectory
+vi.mock('../../src/fileSystem', () => {
+  const entries = [
+    { name: 'src', path: 'src', kind: 'directory' },
+    { name: 'lib', path: 'src/lib', kind: 'directory' },
+    { name: 'a.ts', path: 'src/lib/a.ts', kind: 'file' },
+    { name: 'b.ts', path: 'src/b.ts', kind: 'file' },
+    { name: 'empty', path: 'empty', kind: 'directory' },
+  ];
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      resolvePath: vi.fn((path: string) => Promise.resolve(entries.find((entry) => entry.path === path) ?? null)),
+      listFiles: vi.fn(({ path }: { path: string }) =>
+        Promise.resolve(entries.filter((entry) => entry.path.startsWith(`${path}/`)))
+      ),
+      deleteDirectory: vi.fn(() => Promise.resolve()),
+      copyDirectory: vi.fn(() => Promise.resolve({ files: 2, directories: 2 })),
+      moveDirectory: vi.fn(() => Promise.reject(new Error('Destination already exists: lib'))),
+    },
+  };
+});
+
+// Mock the preferences manager to ask, so permission requests reach the callback
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'ask'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import {
+  deleteDirectoryTool,
+  copyDirectoryTool,
+  moveDirectoryTool,
+  setPermissionCallback,
+  getApprovalReach,
+} from '../../src/tools';
+import { permissionGrants } from '../../src/permissionGrants';
+import { fileSystemManager } from '../../src/fileSystem';
+import { preferencesManager } from '../../src/preferences';
+
+const mockFs = fileSystemManager as unknown as { deleteDirectory: ReturnType<typeof vi.fn> };
+const mockPreferences = preferencesManager as unknown as {
+  getRootPermission: ReturnType<typeof vi.fn>;
+  getPermissionRules: ReturnType<typeof vi.fn>;
+};
+const options = { toolCallId: 'test', messages: [] };
+
+type Result = { success?: boolean; error?: string; message?: string; files?: number };
+
+describe('directory tools', () => {
+  const permissionCallback = vi.fn(() => Promise.resolve(true));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setPermissionCallback(permissionCallback);
+    mockPreferences.getRootPermission.mockReturnValue('default');
+    mockPreferences.getPermissionRules.mockReturnValue([]);
+    vi.mocked(preferencesManager.getToolPermission).mockReturnValue('ask');
+  });
+
+  it('refuses to delete a non-empty directory without recursive, reporting its contents', async () => {
+    const result = (await deleteDirectoryTool.execute!({ path: 'src', recursive: false }, options)) as Result;
+
+    expect(result.error).toBe('Directory not empty (2 files, 1 directory). Set recursive to delete it and everything inside it.');
+    expect(permissionCallback).not.toHaveBeenCalled();
+    expect(mockFs.deleteDirectory).not.toHaveBeenCalled();
+  });
+
+  it('shows the entry count in the permission request for a recursive delete', async () => {
+    const result = (await deleteDirectoryTool.execute!({ path: 'src', recursive: true }, options)) as Result;
+
+    expect(permissionCallback).toHaveBeenCalledWith('delete_directory', {
+      path: 'src',
+      recursive: true,
+      contains: '2 files, 1 directory',
+    });
+    expect(mockFs.deleteDirectory).toHaveBeenCalledWith('src', true);
+    expect(result.success).toBe(true);
+  });
+
+  it('deletes an empty directory without recursive', async () => {
+    const result = (await deleteDirectoryTool.execute!({ path: 'empty', recursive: false }, options)) as Result;
+
+    expect(result.success).toBe(true);
+    expect(mockFs.deleteDirectory).toHaveBeenCalledWith('empty', false);
+  });
+
+  it('denies deleting in a read-only root without asking', async () => {
+    mockPreferences.getRootPermission.mockReturnValue('read-only');
+
+    const result = (await deleteDirectoryTool.execute!({ path: 'empty', recursive: false }, options)) as Result;
+
+    expect(result.error).toBe('Permission denied to delete directory');
+    expect(permissionCallback).not.toHaveBeenCalled();
+    expect(mockFs.deleteDirectory).not.toHaveBeenCalled();
+  });
+
+  it('denies deleting a directory a path rule protects without asking', async () => {
+    mockPreferences.getPermissionRules.mockReturnValue([
+      { id: 'rule', tool: '*', pathGlob: 'src/**', decision: 'never' },
+    ]);
+
+    const result = (await deleteDirectoryTool.execute!({ path: 'src', recursive: true }, options)) as Result;
+
+    expect(result.error).toBe('Permission denied to delete directory');
+    expect(permissionCallback).not.toHaveBeenCalled();
+  });
+
+  it('refuses a delete that is never allowed before reading the directory', async () => {
+    vi.mocked(preferencesManager.getToolPermission).mockReturnValueOnce('never');
+
+    const result = (await deleteDirectoryTool.execute!({ path: 'src', recursive: true }, options)) as Result;
+
+    expect(result.error).toBe('Permission denied to delete directory');
+    expect(fileSystemManager.resolvePath).not.toHaveBeenCalled();
+    expect(fileSystemManager.listFiles).not.toHaveBeenCalled();
+  });
+
+  it('denies deleting a directory holding an entry a path rule protects without asking', async () => {
+    mockPreferences.getPermissionRules.mockReturnValue([
+      { id: 'rule', tool: '*', pathGlob: 'src/lib/**', decision: 'never' },
+    ]);
+
+    const result = (await deleteDirectoryTool.execute!({ path: 'src', recursive: true }, options)) as Result;
+
+    expect(result.error).toBe('Permission denied to delete directory');
+    expect(permissionCallback).not.toHaveBeenCalled();
+    expect(mockFs.deleteDirectory).not.toHaveBeenCalled();
+  });
+
+  it('denies copying a directory holding an entry a path rule protects, where it is or where it would go', async () => {
+    mockPreferences.getPermissionRules.mockReturnValue([{ id: 'rule', tool: '*', pathGlob: 'b.ts', decision: 'never' }]);
+    const copied = (await copyDirectoryTool.execute!({ source: 'src', destination: 'backup' }, options)) as Result;
+    expect(copied.error).toBe('Permission denied to copy directory');
+
+    mockPreferences.getPermissionRules.mockReturnValue([
+      { id: 'rule', tool: '*', pathGlob: 'backup/lib/**', decision: 'never' },
+    ]);
+    const moved = (await moveDirectoryTool.execute!({ sourcePath: 'src', destinationPath: 'backup' }, options)) as Result;
+    expect(moved.error).toBe('Permission denied to move directory');
+
+    expect(permissionCallback).not.toHaveBeenCalled();
+    expect(fileSystemManager.copyDirectory).not.toHaveBeenCalled();
+    expect(fileSystemManager.moveDirectory).not.toHaveBeenCalled();
+  });
+
+  it('asks about a directory holding an entry a path rule asks about, naming the entry', async () => {
+    vi.mocked(preferencesManager.getToolPermission).mockReturnValue('always');
+    mockPreferences.getPermissionRules.mockReturnValue([
+      { id: 'rule', tool: '*', pathGlob: 'src/lib/**', decision: 'ask' },
+    ]);
+
+    await copyDirectoryTool.execute!({ source: 'src', destination: 'backup' }, options);
+    expect(permissionCallback).toHaveBeenCalledWith('copy_directory', {
+      source: 'src',
+      destination: 'backup',
+      protected: ['src/lib'],
+    });
+
+    // The rule covering the directory itself was already checked, so its contents don't add to the request
+    await copyDirectoryTool.execute!({ source: 'src/lib', destination: 'backup' }, options);
+    expect(permissionCallback).toHaveBeenLastCalledWith('copy_directory', { source: 'src/lib', destination: 'backup' });
+  });
+
+  it('asks in an "ask" root even when a conversation grant covers the tool', async () => {
+    mockPreferences.getRootPermission.mockReturnValue('ask');
+    permissionGrants.grantForConversation('conv-1', 'delete_directory');
+    permissionGrants.setActiveConversation('conv-1');
+
+    try {
+      await deleteDirectoryTool.execute!({ path: 'empty', recursive: false }, options);
+
+      expect(permissionCallback).toHaveBeenCalledTimes(1);
+    } finally {
+      mockPreferences.getRootPermission.mockReturnValue('default');
+      permissionGrants.clearConversation('conv-1');
+      permissionGrants.setActiveConversation(null);
+    }
+  });
+
+  it('only offers to remember a tool as always allowed when that stops the asking', () => {
+    const args = { path: 'src', recursive: true };
+    expect(getApprovalReach('delete_directory', args)).toEqual({ grant: true, remember: true });
+
+    mockPreferences.getPermissionRules.mockReturnValueOnce([
+      { id: 'rule', tool: '*', pathGlob: 'src/**', decision: 'ask' },
+    ]);
+    expect(getApprovalReach('delete_directory', args)).toEqual({ grant: true, remember: false });
+
+    mockPreferences.getRootPermission.mockReturnValue('ask');
+    try {
+      expect(getApprovalReach('delete_directory', args)).toEqual({ grant: false, remember: false });
+    } finally {
+      mockPreferences.getRootPermission.mockReturnValue('default');
+    }
+  });
+
+  it('reports a missing directory', async () => {
+    const result = (await deleteDirectoryTool.execute!({ path: 'src/b.ts', recursive: true }, options)) as Result;
+
+    expect(result.error).toBe('Directory not found: src/b.ts');
+  });
+
+  it('reports copies and move failures', async () => {
+    const copied = (await copyDirectoryTool.execute!({ source: 'src', destination: 'backup' }, options)) as Result;
+    expect(copied.files).toBe(2);
+
+    const moved = (await moveDirectoryTool.execute!({ sourcePath: 'src', destinationPath: 'lib' }, options)) as Result;
+    expect(moved.error).toBe('Failed to move directory: Destination already exists: lib');
+  });
+});
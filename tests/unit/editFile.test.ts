@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the edit_file tool
+ *
+ * Tests search/replace and line-range edits, anchor validation and the returned diff
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager before importing tools
+vi.mock('../../src/fileSystem', () => {
+  const mockFiles: Map<string, string> = new Map();
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      readFile: vi.fn((path: string) => {
+        const content = mockFiles.get(path);
+        if (content === undefined) {
+          throw new Error(`File not found: ${path}`);
+        }
+        return Promise.resolve(content);
+      }),
+      isBinaryFile: vi.fn((path: string) => Promise.resolve(mockFiles.get(path)?.includes('\0') ?? false)),
+      writeFile: vi.fn((path: string, content: string) => {
+        mockFiles.set(path, content);
+        return Promise.resolve();
+      }),
+      _mockFiles: mockFiles,
+    },
+  };
+});
+
+// Mock the preferences manager to always allow permissions
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import { editFileTool } from '../../src/tools';
+import { fileSystemManager } from '../../src/fileSystem';
+
+const mockFs = fileSystemManager as unknown as {
+  _mockFiles: Map<string, string>;
+  writeFile: ReturnType<typeof vi.fn>;
+};
+
+type Edit = { oldText?: string; newText: string; startLine?: number; endLine?: number };
+
+function edit(path: string, edits: Edit[]) {
+  return editFileTool.execute!({ path, edits }, { toolCallId: 'test', messages: [] }) as Promise<{
+    success?: boolean;
+    error?: string;
+    changed?: boolean;
+    diff?: string;
+  }>;
+}
+
+describe('edit_file tool', () => {
+  beforeEach(() => {
+    mockFs._mockFiles.clear();
+    vi.clearAllMocks();
+    mockFs._mockFiles.set('app.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+  });
+
+  it('replaces a unique oldText', async () => {
+    const result = await edit('app.ts', [{ oldText: 'b = 2', newText: 'b = 20' }]);
+
+    expect(result.success).toBe(true);
+    expect(mockFs._mockFiles.get('app.ts')).toBe('const a = 1;\nconst b = 20;\nconst c = 3;\n');
+  });
+
+  it('fails on an ambiguous oldText without writing', async () => {
+    const result = await edit('app.ts', [{ oldText: 'const', newText: 'let' }]);
+
+    expect(result.error).toContain('edit 1: oldText matches 3 times');
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('fails on a missing oldText without applying other edits', async () => {
+    const result = await edit('app.ts', [
+      { oldText: 'a = 1', newText: 'a = 10' },
+      { oldText: 'd = 4', newText: 'd = 40' },
+    ]);
+
+    expect(result.error).toContain('edit 2: oldText not found');
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('replaces, deletes and inserts line ranges against the original line numbers', async () => {
+    const result = await edit('app.ts', [
+      { startLine: 1, endLine: 0, newText: '// header' },
+      { startLine: 2, newText: '' },
+      { startLine: 3, endLine: 3, newText: 'const c = 30;\nconst d = 4;' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(mockFs._mockFiles.get('app.ts')).toBe('// header\nconst a = 1;\nconst c = 30;\nconst d = 4;\n');
+  });
+
+  it('appends after the last line of a file without a final newline', async () => {
+    mockFs._mockFiles.set('notes.txt', 'one\ntwo');
+
+    await edit('notes.txt', [{ startLine: 3, endLine: 2, newText: 'three' }]);
+
+    expect(mockFs._mockFiles.get('notes.txt')).toBe('one\ntwo\nthree');
+  });
+
+  it('rejects out-of-range and overlapping edits', async () => {
+    expect((await edit('app.ts', [{ startLine: 5, newText: 'x' }])).error).toContain('out of range');
+
+    const overlapping = await edit('app.ts', [
+      { startLine: 1, endLine: 2, newText: 'x' },
+      { oldText: 'const b', newText: 'let b' },
+    ]);
+    expect(overlapping.error).toContain('edit 2 overlaps another edit');
+  });
+
+  it('returns a unified diff with line numbers from the whole file', async () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    mockFs._mockFiles.set('long.txt', lines.join('\n'));
+
+    const result = await edit('long.txt', [{ oldText: 'line 15', newText: 'line fifteen' }]);
+
+    expect(result.diff).toBe(
+      [
+        '--- long.txt',
+        '+++ long.txt',
+        '@@ -12,7 +12,7 @@',
+        ' line 12',
+        ' line 13',
+        ' line 14',
+        '-line 15',
+        '+line fifteen',
+        ' line 16',
+        ' line 17',
+        ' line 18',
+      ].join('\n')
+    );
+  });
+
+  it('refuses to edit a binary file', async () => {
+    mockFs._mockFiles.set('logo.png', '\x89PNG\0\0');
+
+    const result = await edit('logo.png', [{ oldText: 'PNG', newText: 'GIF' }]);
+
+    expect(result.error).toContain('binary file');
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('reports when the edits change nothing', async () => {
+    const result = await edit('app.ts', [{ oldText: 'a = 1', newText: 'a = 1' }]);
+
+    expect(result.changed).toBe(false);
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+});
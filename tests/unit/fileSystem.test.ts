@@ -0,0 +1,424 @@
+/**
+ * Unit tests for the FileSystemManager
+ *
+ * Runs the manager against in-memory directory handles. Tests moving files
+ * with the native FileSystemHandle.move(), the copy-and-delete fallback when
+ * the browser can't move a handle, and that a copy with missing bytes leaves
+ * the original in place, addressing several roots with `name:/path`, and how
+ * long listings are trusted without a FileSystemObserver
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/storage', () => ({
+  storageManager: {
+    saveWorkspaceRoots: vi.fn(() => Promise.resolve()),
+    getWorkspaceRoots: vi.fn(() => Promise.resolve([])),
+  },
+}));
+
+vi.mock('../../src/recentFolders', () => ({
+  recentFolders: { record: vi.fn(() => Promise.resolve()) },
+}));
+
+import { FileSystemManager } from '../../src/fileSystem';
+import { UNOBSERVED_MAX_AGE_MS } from '../../src/directoryIndex';
+
+const encoder = new TextEncoder();
+
+function notFound(name: string): DOMException {
+  return new DOMException(`${name} not found`, 'NotFoundError');
+}
+
+/**
+ * A writable that replaces its file's contents on close, like FileSystemWritableFileStream.
+ * With `truncate` set, the last byte written is lost.
+ */
+class FakeWritable extends WritableStream<Uint8Array | string> {
+  constructor(file: FakeFileHandle, truncate: boolean) {
+    const chunks: Uint8Array[] = [];
+    super({
+      write(chunk) {
+        chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      },
+      close() {
+        const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        file.bytes = truncate ? bytes.slice(0, -1) : bytes;
+      },
+    });
+  }
+
+  async write(data: Uint8Array | string): Promise<void> {
+    const writer = this.getWriter();
+    await writer.write(data);
+    writer.releaseLock();
+  }
+}
+
+abstract class FakeHandle {
+  parent: FakeDirectoryHandle | null = null;
+  moves: Array<{ parent: FakeDirectoryHandle; name: string }> = [];
+  /** Set to make move() fail, e.g. with a NotSupportedError */
+  moveError: Error | null = null;
+
+  constructor(public name: string) {}
+
+  async move(parent: FakeDirectoryHandle, name: string): Promise<void> {
+    if (this.moveError) {
+      throw this.moveError;
+    }
+    this.moves.push({ parent, name });
+    this.parent!.children.delete(this.name);
+    this.name = name;
+    this.parent = parent;
+    parent.children.set(name, this as unknown as FakeFileHandle | FakeDirectoryHandle);
+  }
+
+  async isSameEntry(other: FakeHandle): Promise<boolean> {
+    return other === this;
+  }
+
+  async queryPermission(): Promise<PermissionState> {
+    return 'granted';
+  }
+
+  async requestPermission(): Promise<PermissionState> {
+    return 'granted';
+  }
+}
+
+class FakeFileHandle extends FakeHandle {
+  readonly kind = 'file';
+  bytes: Uint8Array;
+
+  constructor(name: string, content: string, private root: FakeDirectoryHandle) {
+    super(name);
+    this.bytes = encoder.encode(content);
+  }
+
+  async getFile(): Promise<File> {
+    return new File([this.bytes], this.name, { lastModified: 0 });
+  }
+
+  async createWritable(): Promise<FakeWritable> {
+    return new FakeWritable(this, this.root.truncateWrites);
+  }
+}
+
+class FakeDirectoryHandle extends FakeHandle {
+  readonly kind = 'directory';
+  children = new Map<string, FakeFileHandle | FakeDirectoryHandle>();
+  /** Set on a root to make every write lose its last byte, like a copy cut short */
+  truncateWrites = false;
+
+  constructor(name: string, private root: FakeDirectoryHandle | null = null) {
+    super(name);
+  }
+
+  private get top(): FakeDirectoryHandle {
+    return this.root ?? this;
+  }
+
+  async *entries(): AsyncIterableIterator<[string, FakeFileHandle | FakeDirectoryHandle]> {
+    yield* [...this.children.entries()];
+  }
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}): Promise<FakeFileHandle> {
+    const existing = this.children.get(name);
+    if (existing?.kind === 'file') {
+      return existing;
+    }
+    if (existing || !options.create) {
+      throw existing ? new DOMException(`${name} is a directory`, 'TypeMismatchError') : notFound(name);
+    }
+    return this.add(new FakeFileHandle(name, '', this.top));
+  }
+
+  async getDirectoryHandle(name: string, options: { create?: boolean } = {}): Promise<FakeDirectoryHandle> {
+    const existing = this.children.get(name);
+    if (existing?.kind === 'directory') {
+      return existing;
+    }
+    if (existing || !options.create) {
+      throw existing ? new DOMException(`${name} is a file`, 'TypeMismatchError') : notFound(name);
+    }
+    return this.add(new FakeDirectoryHandle(name, this.top));
+  }
+
+  async removeEntry(name: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const entry = this.children.get(name);
+    if (!entry) {
+      throw notFound(name);
+    }
+    if (entry.kind === 'directory' && entry.children.size > 0 && !options.recursive) {
+      throw new DOMException(`${name} is not empty`, 'InvalidModificationError');
+    }
+    this.children.delete(name);
+  }
+
+  /** Add a file with text content, creating directories on the way */
+  addFile(path: string, content: string): FakeFileHandle {
+    const parts = path.split('/');
+    const name = parts.pop()!;
+    let directory: FakeDirectoryHandle = this;
+    for (const part of parts) {
+      const child = directory.children.get(part);
+      directory = child?.kind === 'directory' ? child : directory.add(new FakeDirectoryHandle(part, this.top));
+    }
+    return directory.add(new FakeFileHandle(name, content, this.top));
+  }
+
+  /** Read a file's text, or undefined if there is none at the path */
+  readText(path: string): string | undefined {
+    let entry: FakeFileHandle | FakeDirectoryHandle | undefined = this;
+    for (const part of path.split('/')) {
+      entry = entry?.kind === 'directory' ? entry.children.get(part) : undefined;
+    }
+    return entry?.kind === 'file' ? new TextDecoder().decode(entry.bytes) : undefined;
+  }
+
+  private add<T extends FakeFileHandle | FakeDirectoryHandle>(handle: T): T {
+    handle.parent = this;
+    this.children.set(handle.name, handle);
+    return handle;
+  }
+}
+
+/** A handle for a browser without FileSystemHandle.move() */
+function withoutMove<T extends FakeHandle>(handle: T): T {
+  Object.defineProperty(handle, 'move', { value: undefined });
+  return handle;
+}
+
+async function mount(...roots: FakeDirectoryHandle[]): Promise<FileSystemManager> {
+  const manager = new FileSystemManager();
+  await manager.openRoots(roots.map((handle) => ({ name: handle.name, handle: handle as unknown as FileSystemDirectoryHandle })));
+  return manager;
+}
+
+describe('FileSystemManager', () => {
+  let root: FakeDirectoryHandle;
+
+  beforeEach(() => {
+    root = new FakeDirectoryHandle('project');
+  });
+
+  describe('renameFile', () => {
+    it('moves the file handle natively, noting both paths before the change', async () => {
+      const file = root.addFile('a.txt', 'hello');
+      const manager = await mount(root);
+      const beforeChange = vi.fn(() => Promise.resolve());
+      manager.setBeforeChangeCallback(beforeChange);
+
+      await manager.renameFile('a.txt', 'docs/b.txt');
+
+      expect(file.moves).toHaveLength(1);
+      expect(root.readText('a.txt')).toBeUndefined();
+      expect(root.readText('docs/b.txt')).toBe('hello');
+      expect(beforeChange.mock.calls).toEqual([['a.txt'], ['docs/b.txt']]);
+      expect(await manager.readFile('docs/b.txt')).toBe('hello');
+    });
+
+    it('copies and then deletes the file when the browser cannot move it', async () => {
+      const file = root.addFile('a.txt', 'hello');
+      file.moveError = new DOMException('not supported', 'NotSupportedError');
+      const manager = await mount(root);
+
+      await manager.renameFile('a.txt', 'b.txt');
+
+      expect(root.readText('a.txt')).toBeUndefined();
+      expect(root.readText('b.txt')).toBe('hello');
+    });
+
+    it('copies and then deletes the file when handles have no move()', async () => {
+      withoutMove(root.addFile('a.txt', 'hello'));
+      const manager = await mount(root);
+
+      await manager.renameFile('a.txt', 'b.txt');
+
+      expect(root.readText('a.txt')).toBeUndefined();
+      expect(root.readText('b.txt')).toBe('hello');
+    });
+
+    it('keeps the original when the copy is shorter, and removes the copy', async () => {
+      withoutMove(root.addFile('a.txt', 'hello'));
+      root.truncateWrites = true;
+      const manager = await mount(root);
+
+      await expect(manager.renameFile('a.txt', 'b.txt')).rejects.toThrow(
+        'Failed to complete rename: the copy of "a.txt" has 4 of 5 bytes, so the original was kept'
+      );
+      expect(root.readText('a.txt')).toBe('hello');
+      expect(root.readText('b.txt')).toBeUndefined();
+    });
+
+    it('passes on move errors other than NotSupportedError without copying', async () => {
+      const file = root.addFile('a.txt', 'hello');
+      file.moveError = new DOMException('locked', 'NoModificationAllowedError');
+      const manager = await mount(root);
+
+      await expect(manager.renameFile('a.txt', 'b.txt')).rejects.toThrow('locked');
+      expect(root.readText('a.txt')).toBe('hello');
+      expect(root.readText('b.txt')).toBeUndefined();
+    });
+  });
+
+  describe('moveDirectory', () => {
+    it('moves the directory handle natively', async () => {
+      root.addFile('src/lib/a.ts', 'a');
+      root.addFile('src/b.ts', 'b');
+      const manager = await mount(root);
+
+      const counts = await manager.moveDirectory('src', 'app');
+
+      expect(counts).toEqual({ files: 2, directories: 2 });
+      expect(root.readText('app/lib/a.ts')).toBe('a');
+      expect(root.children.has('src')).toBe(false);
+    });
+
+    it('copies the tree and deletes the original when the browser cannot move it', async () => {
+      root.addFile('src/lib/a.ts', 'a');
+      root.addFile('src/b.ts', 'b');
+      (root.children.get('src') as FakeDirectoryHandle).moveError = new DOMException('not supported', 'NotSupportedError');
+      const manager = await mount(root);
+
+      const counts = await manager.moveDirectory('src', 'app');
+
+      expect(counts).toEqual({ files: 2, directories: 2 });
+      expect(root.readText('app/lib/a.ts')).toBe('a');
+      expect(root.readText('app/b.ts')).toBe('b');
+      expect(root.children.has('src')).toBe(false);
+    });
+  });
+
+  describe('listing without an observer', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      root.addFile('src/a.ts', 'a');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const paths = async (manager: FileSystemManager) => (await manager.listFiles()).map((entry) => entry.path);
+
+    it('reuses a recent listing, and reads directories again once it is older', async () => {
+      const manager = await mount(root);
+      const src = root.children.get('src') as FakeDirectoryHandle;
+      const entries = vi.spyOn(src, 'entries');
+
+      expect(await paths(manager)).toEqual(['src', 'src/a.ts']);
+      src.addFile('b.ts', 'b');
+      vi.advanceTimersByTime(UNOBSERVED_MAX_AGE_MS);
+      expect(await paths(manager)).toEqual(['src', 'src/a.ts']);
+      expect(entries).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      expect(await paths(manager)).toEqual(['src', 'src/a.ts', 'src/b.ts']);
+      expect(entries).toHaveBeenCalledTimes(2);
+    });
+
+    it('shows its own changes at once', async () => {
+      const manager = await mount(root);
+
+      expect(await paths(manager)).toEqual(['src', 'src/a.ts']);
+      await manager.createFile('src/b.ts', 'b');
+      await manager.deleteFile('src/a.ts');
+
+      expect(await paths(manager)).toEqual(['src', 'src/b.ts']);
+    });
+
+    it('reuses recent metadata', async () => {
+      const manager = await mount(root);
+      const file = root.addFile('c.txt', 'abc');
+
+      expect((await manager.getFileMetadata('c.txt')).size).toBe(3);
+      file.bytes = encoder.encode('abcdef');
+      expect((await manager.getFileMetadata('c.txt')).size).toBe(3);
+
+      vi.advanceTimersByTime(UNOBSERVED_MAX_AGE_MS + 1);
+      expect((await manager.getFileMetadata('c.txt')).size).toBe(6);
+    });
+  });
+
+  describe('workspace roots', () => {
+    let docs: FakeDirectoryHandle;
+
+    beforeEach(() => {
+      docs = new FakeDirectoryHandle('docs');
+      root.addFile('README.md', 'project readme');
+      docs.addFile('README.md', 'docs readme');
+      docs.addFile('guide/intro.md', 'intro');
+    });
+
+    it('normalizes paths to no prefix in the default root and name:/ in the others', async () => {
+      const manager = await mount(root, docs);
+
+      expect(manager.normalizePath('/src/app.ts/')).toBe('src/app.ts');
+      expect(manager.normalizePath('project:/src/app.ts')).toBe('src/app.ts');
+      expect(manager.normalizePath('docs:/guide/intro.md')).toBe('docs:/guide/intro.md');
+      expect(manager.normalizePath('docs:///guide/')).toBe('docs:/guide');
+      expect(manager.normalizePath('docs:')).toBe('docs:');
+      expect(manager.normalizePath('docs:/')).toBe('docs:');
+      expect(manager.normalizePath('wiki:/page.md')).toBe('wiki:/page.md');
+    });
+
+    it('finds the root a path belongs to', async () => {
+      const manager = await mount(root, docs);
+
+      expect(manager.getRootName('README.md')).toBe('project');
+      expect(manager.getRootName('docs:/README.md')).toBe('docs');
+      expect(manager.getRootName('docs:')).toBe('docs');
+      expect(manager.getRootName('wiki:/page.md')).toBeNull();
+    });
+
+    it('reads and writes the same relative path in each root separately', async () => {
+      const manager = await mount(root, docs);
+
+      expect(await manager.readFile('README.md')).toBe('project readme');
+      expect(await manager.readFile('docs:/README.md')).toBe('docs readme');
+
+      await manager.writeFile('docs:/README.md', 'changed');
+      expect(docs.readText('README.md')).toBe('changed');
+      expect(root.readText('README.md')).toBe('project readme');
+
+      await expect(manager.readFile('wiki:/README.md')).rejects.toThrow('File not found: wiki:/README.md');
+    });
+
+    it('resolves the top directory of another root, but not of the default one', async () => {
+      const manager = await mount(root, docs);
+
+      expect(await manager.resolvePath('docs:')).toMatchObject({ name: 'docs:', path: 'docs:', kind: 'directory' });
+      expect(await manager.resolvePath('')).toBeNull();
+    });
+
+    it('lists the other roots as prefixed directories after the default root', async () => {
+      const manager = await mount(root, docs);
+
+      expect((await manager.listFiles()).map((entry) => entry.path)).toEqual([
+        'README.md',
+        'docs:',
+        'docs:/README.md',
+        'docs:/guide',
+        'docs:/guide/intro.md',
+      ]);
+      expect((await manager.listFiles({ path: 'docs:/guide' })).map((entry) => entry.path)).toEqual([
+        'docs:/guide/intro.md',
+      ]);
+    });
+
+    it('drops the prefix of the root that becomes the default when the first is removed', async () => {
+      const manager = await mount(root, docs);
+
+      await manager.removeRoot('project');
+
+      expect(manager.normalizePath('docs:/README.md')).toBe('README.md');
+      expect(await manager.readFile('README.md')).toBe('docs readme');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the grep tool
+ *
+ * Tests include/exclude globs, context lines, the per-file and total match
+ * limits, binary skipping and the count of files actually searched
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with a small in-memory project
+vi.mock('../../src/fileSystem', () => {
+  const files: Record<string, string> = {
+    'src/app.ts': 'import x\nconst a = 1;\nTODO: one\nconst b = 2;\nTODO: two\nend',
+    'src/util.js': 'TODO: js\n',
+    'docs/notes.md': 'TODO: docs\n',
+    'node_modules/pkg/index.js': 'TODO: dependency\n',
+    'logo.png': '\u0000PNG TODO',
+  };
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      resolvePath: vi.fn((path: string) => {
+        if (path in files) return Promise.resolve({ name: path, path, kind: 'file' });
+        const isDirectory = Object.keys(files).some((file) => file.startsWith(`${path}/`));
+        return Promise.resolve(isDirectory ? { name: path, path, kind: 'directory' } : null);
+      }),
+      listFiles: vi.fn(() =>
+        Promise.resolve(Object.keys(files).map((path) => ({ name: path.split('/').pop(), path, kind: 'file' })))
+      ),
+      isBinaryFile: vi.fn((path: string) =>
+        path in files ? Promise.resolve(files[path]!.includes('\u0000')) : Promise.reject(new Error('File not found'))
+      ),
+      readFile: vi.fn((path: string) =>
+        path in files ? Promise.resolve(files[path]!) : Promise.reject(new Error('File not found'))
+      ),
+    },
+  };
+});
+
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import { grepTool } from '../../src/tools';
+import { fileSystemManager } from '../../src/fileSystem';
+
+const mockFs = fileSystemManager as unknown as { readFile: ReturnType<typeof vi.fn> };
+const options = { toolCallId: 'test', messages: [] };
+
+type Match = { file: string; lineNumber: number; line: string; before?: string[]; after?: string[] };
+type Result = {
+  success?: boolean;
+  error?: string;
+  filesSearched?: number;
+  matchCount?: number;
+  matches?: Match[];
+  truncated?: boolean;
+  skippedBinary?: string[];
+};
+
+async function grep(input: Record<string, unknown>): Promise<Result> {
+  return (await grepTool.execute!({ caseInsensitive: false, maxResults: 200, includeIgnored: false, ...input } as never, options)) as Result;
+}
+
+function files(result: Result): string[] {
+  return [...new Set(result.matches!.map((match) => match.file))];
+}
+
+describe('grep tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('skips node_modules by default and binary files always', async () => {
+    const result = await grep({ pattern: 'TODO' });
+
+    expect(files(result)).toEqual(['src/app.ts', 'src/util.js', 'docs/notes.md']);
+    expect(result.skippedBinary).toEqual(['logo.png']);
+    expect(result.filesSearched).toBe(3);
+  });
+
+  it('only searches files matching an include glob', async () => {
+    const result = await grep({ pattern: 'TODO', include: ['*.ts', 'docs/**'] });
+
+    expect(files(result)).toEqual(['src/app.ts', 'docs/notes.md']);
+  });
+
+  it('replaces the default excludes with an explicit exclude list', async () => {
+    const result = await grep({ pattern: 'TODO', exclude: ['src'] });
+
+    expect(files(result)).toEqual(['docs/notes.md', 'node_modules/pkg/index.js']);
+  });
+
+  it('searches only under a directory path', async () => {
+    const result = await grep({ pattern: 'TODO', path: 'src' });
+
+    expect(files(result)).toEqual(['src/app.ts', 'src/util.js']);
+  });
+
+  it('returns context lines around each match', async () => {
+    const result = await grep({ pattern: 'TODO: one', path: 'src/app.ts', context: 1 });
+
+    expect(result.matches).toEqual([
+      { file: 'src/app.ts', lineNumber: 3, line: 'TODO: one', before: ['const a = 1;'], after: ['const b = 2;'] },
+    ]);
+  });
+
+  it('lets before and after override context', async () => {
+    const result = await grep({ pattern: 'TODO: two', path: 'src/app.ts', context: 1, before: 2, after: 0 });
+
+    expect(result.matches![0]!.before).toEqual(['TODO: one', 'const b = 2;']);
+    expect(result.matches![0]!.after).toBeUndefined();
+  });
+
+  it('stops searching a file after maxMatchesPerFile matches', async () => {
+    const result = await grep({ pattern: 'TODO', path: 'src', maxMatchesPerFile: 1 });
+
+    expect(result.matches!.map((match) => `${match.file}:${match.lineNumber}`)).toEqual(['src/app.ts:3', 'src/util.js:1']);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  it('stops at maxResults, marks the result truncated and counts only the files it read', async () => {
+    const result = await grep({ pattern: 'TODO', maxResults: 1 });
+
+    expect(result.matchCount).toBe(1);
+    expect(result.truncated).toBe(true);
+    expect(result.filesSearched).toBe(1);
+    expect(mockFs.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('surfaces a read error for a single file', async () => {
+    const result = await grep({ pattern: 'TODO', path: 'missing.ts' });
+
+    expect(result.error).toBe("Failed to read file 'missing.ts': File not found");
+  });
+});
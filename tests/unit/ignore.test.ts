@@ -0,0 +1,88 @@
+/**
+ * Unit tests for .gitignore-style ignore rules
+ *
+ * Tests comments and escapes, negation, anchored and unanchored patterns,
+ * directory-only patterns and rules from nested ignore files
+ */
+import { describe, it, expect } from 'vitest';
+import { parseIgnoreFile, isIgnored, DEFAULT_IGNORE_RULES } from '../../src/ignore';
+
+describe('parseIgnoreFile', () => {
+  it('skips blank lines and comments but keeps escaped hashes', () => {
+    const rules = parseIgnoreFile('# build output\n\ndist\n\\#notes\n');
+
+    expect(rules).toHaveLength(2);
+    expect(isIgnored('#notes', false, rules)).toBe(true);
+  });
+
+  it('drops trailing whitespace and carriage returns', () => {
+    const rules = parseIgnoreFile('dist  \r\n');
+
+    expect(isIgnored('dist', true, rules)).toBe(true);
+  });
+
+  it('records the base, negation and directory-only flags', () => {
+    const [rule] = parseIgnoreFile('!build/', 'packages/app');
+
+    expect(rule).toMatchObject({ base: 'packages/app', negate: true, directoryOnly: true });
+  });
+});
+
+describe('isIgnored', () => {
+  it('matches an unanchored pattern at any depth', () => {
+    const rules = parseIgnoreFile('*.log');
+
+    expect(isIgnored('debug.log', false, rules)).toBe(true);
+    expect(isIgnored('logs/2024/debug.log', false, rules)).toBe(true);
+    expect(isIgnored('debug.log.txt', false, rules)).toBe(false);
+  });
+
+  it('anchors a pattern with a leading or middle slash to the ignore file directory', () => {
+    const rules = parseIgnoreFile('/todo.txt\ndocs/build');
+
+    expect(isIgnored('todo.txt', false, rules)).toBe(true);
+    expect(isIgnored('src/todo.txt', false, rules)).toBe(false);
+    expect(isIgnored('docs/build', true, rules)).toBe(true);
+    expect(isIgnored('site/docs/build', true, rules)).toBe(false);
+  });
+
+  it('only matches directories with a trailing slash', () => {
+    const rules = parseIgnoreFile('cache/');
+
+    expect(isIgnored('cache', true, rules)).toBe(true);
+    expect(isIgnored('src/cache', true, rules)).toBe(true);
+    expect(isIgnored('cache', false, rules)).toBe(false);
+  });
+
+  it('re-includes a path with a later negation, and the last match wins', () => {
+    const rules = parseIgnoreFile('*.log\n!keep.log\nlogs/keep.log');
+
+    expect(isIgnored('debug.log', false, rules)).toBe(true);
+    expect(isIgnored('keep.log', false, rules)).toBe(false);
+    expect(isIgnored('logs/keep.log', false, rules)).toBe(true);
+  });
+
+  it('applies rules from a nested ignore file only below its directory', () => {
+    const rules = parseIgnoreFile('/out\n*.tmp', 'packages/app');
+
+    expect(isIgnored('packages/app/out', true, rules)).toBe(true);
+    expect(isIgnored('packages/app/src/out', true, rules)).toBe(false);
+    expect(isIgnored('packages/app/src/a.tmp', false, rules)).toBe(true);
+    expect(isIgnored('out', true, rules)).toBe(false);
+    expect(isIgnored('packages/lib/a.tmp', false, rules)).toBe(false);
+    expect(isIgnored('packages/application/a.tmp', false, rules)).toBe(false);
+  });
+
+  it('lets a nested ignore file re-include what the root one ignores', () => {
+    const rules = [...parseIgnoreFile('*.tmp'), ...parseIgnoreFile('!fixture.tmp', 'tests')];
+
+    expect(isIgnored('tests/fixture.tmp', false, rules)).toBe(false);
+    expect(isIgnored('src/fixture.tmp', false, rules)).toBe(true);
+  });
+
+  it('ignores .git directories by default', () => {
+    expect(isIgnored('.git', true, DEFAULT_IGNORE_RULES)).toBe(true);
+    expect(isIgnored('vendor/lib/.git', true, DEFAULT_IGNORE_RULES)).toBe(true);
+    expect(isIgnored('.gitignore', false, DEFAULT_IGNORE_RULES)).toBe(false);
+  });
+});
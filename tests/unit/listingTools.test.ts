@@ -0,0 +1,113 @@
+/**
+ * Unit tests for path rules in the tools that walk directories
+ *
+ * Tests that list_files, tree, wc and grep leave out entries a rule denies or
+ * asks about, even though the call itself names no such path
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with a project holding secrets next to its sources
+vi.mock('../../src/fileSystem', () => {
+  const files: Record<string, string> = {
+    '.env': 'TOKEN=secret\n',
+    'secrets/key.pem': 'secret key\n',
+    'src/app.ts': 'const secret = 1;\n',
+    'src/.env.local': 'TOKEN=secret\n',
+  };
+  const entries = [
+    { name: '.env', path: '.env', kind: 'file' },
+    { name: 'secrets', path: 'secrets', kind: 'directory' },
+    { name: 'key.pem', path: 'secrets/key.pem', kind: 'file' },
+    { name: 'src', path: 'src', kind: 'directory' },
+    { name: 'app.ts', path: 'src/app.ts', kind: 'file' },
+    { name: '.env.local', path: 'src/.env.local', kind: 'file' },
+  ];
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      getRootPath: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      resolvePath: vi.fn((path: string) => Promise.resolve(entries.find((entry) => entry.path === path) ?? null)),
+      listFiles: vi.fn(({ path }: { path?: string } = {}) =>
+        Promise.resolve(entries.filter((entry) => !path || entry.path.startsWith(`${path}/`)))
+      ),
+      isBinaryFile: vi.fn(() => Promise.resolve(false)),
+      readFile: vi.fn((path: string) => Promise.resolve(files[path]!)),
+    },
+  };
+});
+
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => [
+      { id: 'env', tool: '*', pathGlob: '.env*', decision: 'never' },
+      { id: 'secrets', tool: '*', pathGlob: 'secrets', decision: 'ask' },
+    ]),
+  },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import { listFilesTool, treeTool, wcTool, grepTool } from '../../src/tools';
+import { fileSystemManager } from '../../src/fileSystem';
+
+const mockFs = fileSystemManager as unknown as { readFile: ReturnType<typeof vi.fn> };
+const options = { toolCallId: 'test', messages: [] };
+
+type Result = {
+  files?: string[] | number;
+  tree?: string;
+  results?: Array<{ file: string }>;
+  matches?: Array<{ file: string }>;
+};
+
+describe('path rules in directory walks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('list_files leaves out denied files and the contents of directories a rule asks about', async () => {
+    const result = (await listFilesTool.execute!({ includeIgnored: false }, options)) as Result;
+
+    expect(result.files).toEqual(['src/app.ts']);
+  });
+
+  it('tree leaves them out', async () => {
+    const result = (await treeTool.execute!({ includeIgnored: false }, options)) as Result;
+
+    expect(result.tree).toContain('app.ts');
+    expect(result.tree).not.toMatch(/\.env|secrets|key\.pem/);
+    expect(result.files).toBe(1);
+  });
+
+  it('wc counts only the files it may read', async () => {
+    const result = (await wcTool.execute!({ countLines: true, countWords: true, countChars: true }, options)) as Result;
+
+    expect(result.results!.map((entry) => entry.file)).toEqual(['src/app.ts']);
+    expect(mockFs.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('grep searches neither all files nor a directory into denied files', async () => {
+    const input = { pattern: 'secret', caseInsensitive: false, maxResults: 200, includeIgnored: false };
+    const everywhere = (await grepTool.execute!(input, options)) as Result;
+    const underSrc = (await grepTool.execute!({ ...input, path: 'src' }, options)) as Result;
+
+    expect(everywhere.matches!.map((match) => match.file)).toEqual(['src/app.ts']);
+    expect(underSrc.matches!.map((match) => match.file)).toEqual(['src/app.ts']);
+    expect(mockFs.readFile).not.toHaveBeenCalledWith('.env');
+    expect(mockFs.readFile).not.toHaveBeenCalledWith('src/.env.local');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for unified diff patches and the apply_patch tool
+ *
+ * Tests parsing multi-file diffs, offset and fuzz matching, and atomic application
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager before importing tools
+vi.mock('../../src/fileSystem', () => {
+  const mockFiles: Map<string, string> = new Map();
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      readFile: vi.fn((path: string) => {
+        const content = mockFiles.get(path);
+        if (content === undefined) {
+          throw new Error(`File not found: ${path}`);
+        }
+        return Promise.resolve(content);
+      }),
+      isBinaryFile: vi.fn((path: string) => Promise.resolve(mockFiles.get(path)?.includes('\0') ?? false)),
+      writeFile: vi.fn((path: string, content: string) => {
+        mockFiles.set(path, content);
+        return Promise.resolve();
+      }),
+      createFile: vi.fn((path: string, content: string = '') => {
+        mockFiles.set(path, content);
+        return Promise.resolve();
+      }),
+      deleteFile: vi.fn((path: string) => {
+        mockFiles.delete(path);
+        return Promise.resolve();
+      }),
+      resolvePath: vi.fn((path: string) =>
+        Promise.resolve(mockFiles.has(path) ? { path, kind: 'file' } : null)
+      ),
+      _mockFiles: mockFiles,
+    },
+  };
+});
+
+// Mock the preferences manager to always allow permissions
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import { parsePatch, applyHunks } from '../../src/patch';
+import { applyPatchTool } from '../../src/tools';
+import { fileSystemManager } from '../../src/fileSystem';
+
+const mockFs = fileSystemManager as unknown as {
+  _mockFiles: Map<string, string>;
+  writeFile: ReturnType<typeof vi.fn>;
+  createFile: ReturnType<typeof vi.fn>;
+  deleteFile: ReturnType<typeof vi.fn>;
+};
+
+function applyPatch(patch: string) {
+  return applyPatchTool.execute!({ patch, fuzz: 2 }, { toolCallId: 'test', messages: [] }) as Promise<{
+    success?: boolean;
+    error?: string;
+    files?: Array<{ path: string; action: string; error?: string; hunks?: Array<{ applied: boolean }> }>;
+  }>;
+}
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('parsePatch', () => {
+  it('parses several files, stripping git prefixes', () => {
+    const patches = parsePatch(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 123..456 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' keep',
+        '-old',
+        '+new',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+created',
+      ].join('\n')
+    );
+
+    expect(patches).toHaveLength(2);
+    expect(patches[0]).toMatchObject({ oldPath: 'src/a.ts', newPath: 'src/a.ts' });
+    expect(patches[0]!.hunks[0]!.lines).toEqual([' keep', '-old', '+new']);
+    expect(patches[1]).toMatchObject({ oldPath: null, newPath: 'src/new.ts' });
+    expect(patches[1]!.hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newLines: 1 });
+  });
+
+  it('treats blank lines inside a hunk as context but drops trailing separators', () => {
+    const [patch] = parsePatch('--- a.txt\n+++ a.txt\n@@ -1,3 +1,3 @@\n one\n\n-two\n+2\n\n');
+
+    expect(patch!.hunks[0]!.lines).toEqual([' one', ' ', '-two', '+2']);
+  });
+
+  it('rejects text without file headers', () => {
+    expect(() => parsePatch('just some text')).toThrow('no file headers');
+  });
+});
+
+describe('applyHunks', () => {
+  it('applies a hunk whose lines have moved, reporting the offset', () => {
+    const content = 'extra\nextra\n' + numbered(10);
+    const [patch] = parsePatch('--- f\n+++ f\n@@ -4,3 +4,3 @@\n line 4\n-line 5\n+LINE 5\n line 6\n');
+
+    const { content: result, results } = applyHunks(content, patch!.hunks);
+
+    expect(result).toContain('line 4\nLINE 5\nline 6');
+    expect(results[0]).toMatchObject({ applied: true, line: 6, offset: 2, fuzz: 0 });
+  });
+
+  it('ignores mismatched context lines with fuzz', () => {
+    const [patch] = parsePatch('--- f\n+++ f\n@@ -3,5 +3,5 @@\n changed 3\n line 4\n-line 5\n+LINE 5\n line 6\n line 7\n');
+
+    expect(applyHunks(numbered(10), patch!.hunks, 0).content).toBeNull();
+
+    const { content, results } = applyHunks(numbered(10), patch!.hunks, 1);
+    expect(content).toContain('line 4\nLINE 5\nline 6');
+    expect(results[0]).toMatchObject({ applied: true, fuzz: 1 });
+  });
+
+  it('handles missing final newlines', () => {
+    const [patch] = parsePatch(
+      '--- f\n+++ f\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n'
+    );
+
+    expect(applyHunks('a\nb', patch!.hunks).content).toBe('a\nb\n');
+  });
+});
+
+describe('apply_patch tool', () => {
+  beforeEach(() => {
+    mockFs._mockFiles.clear();
+    vi.clearAllMocks();
+    mockFs._mockFiles.set('a.txt', numbered(5));
+    mockFs._mockFiles.set('old.txt', 'bye\n');
+  });
+
+  it('creates, modifies and deletes files in one patch', async () => {
+    const result = await applyPatch(
+      [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -2,3 +2,3 @@',
+        ' line 2',
+        '-line 3',
+        '+line three',
+        ' line 4',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-bye',
+      ].join('\n')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.files!.map((file) => file.action)).toEqual(['modify', 'create', 'delete']);
+    expect(mockFs._mockFiles.get('a.txt')).toBe('line 1\nline 2\nline three\nline 4\nline 5\n');
+    expect(mockFs._mockFiles.get('new.txt')).toBe('hello\nworld\n');
+    expect(mockFs._mockFiles.has('old.txt')).toBe(false);
+  });
+
+  it('writes nothing when any hunk fails', async () => {
+    const result = await applyPatch(
+      [
+        '--- a.txt',
+        '+++ a.txt',
+        '@@ -1,2 +1,2 @@',
+        '-line 1',
+        '+line one',
+        ' line 2',
+        '--- old.txt',
+        '+++ old.txt',
+        '@@ -1 +1 @@',
+        '-hello',
+        '+goodbye',
+      ].join('\n')
+    );
+
+    expect(result.error).toContain('no files were changed');
+    expect(result.files![0]!.hunks![0]!.applied).toBe(true);
+    expect(result.files![1]!.error).toBe('1 of 1 hunks failed');
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+    expect(mockFs._mockFiles.get('a.txt')).toBe(numbered(5));
+  });
+
+  it('restores files already written when a later write fails', async () => {
+    mockFs.createFile.mockImplementationOnce(() => Promise.reject(new Error('disk full')));
+
+    const result = await applyPatch(
+      '--- a.txt\n+++ a.txt\n@@ -1 +1 @@\n-line 1\n+line one\n--- /dev/null\n+++ new.txt\n@@ -0,0 +1 @@\n+x\n'
+    );
+
+    expect(result.error).toContain('disk full');
+    expect(mockFs._mockFiles.get('a.txt')).toBe(numbered(5));
+  });
+
+  it('refuses to create a file that already exists', async () => {
+    const result = await applyPatch('--- /dev/null\n+++ a.txt\n@@ -0,0 +1 @@\n+x\n');
+
+    expect(result.files![0]!.error).toBe('a.txt already exists');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for permission grants
+ *
+ * Tests conversation and file grants, their expiry, and that only the
+ * conversation whose turn is running can use them
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FILE_GRANT_DURATION, PermissionGrantManager } from '../../src/permissionGrants';
+
+describe('PermissionGrantManager', () => {
+  let grants: PermissionGrantManager;
+
+  beforeEach(() => {
+    grants = new PermissionGrantManager();
+    grants.setActiveConversation('conv-1');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows every call of a tool granted for the conversation', () => {
+    grants.grantForConversation('conv-1', 'write_file');
+
+    expect(grants.isGranted('write_file', ['src/a.ts'])).toBe(true);
+    expect(grants.isGranted('write_file', [])).toBe(true);
+    expect(grants.isGranted('delete_file', ['src/a.ts'])).toBe(false);
+  });
+
+  it('allows a call only when file grants cover every path, until they expire', () => {
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    grants.grantForFiles('conv-1', 'edit_file', ['src/a.ts', 'src/b.ts']);
+
+    expect(grants.isGranted('edit_file', ['src/a.ts'])).toBe(true);
+    expect(grants.isGranted('edit_file', ['src/a.ts', 'src/c.ts'])).toBe(false);
+    expect(grants.isGranted('edit_file', [])).toBe(false);
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + FILE_GRANT_DURATION);
+    expect(grants.isGranted('edit_file', ['src/a.ts'])).toBe(false);
+    expect(grants.list('conv-1')).toEqual([]);
+  });
+
+  it('applies only the grants of the conversation whose turn is running', () => {
+    grants.grantForConversation('conv-2', 'write_file');
+    expect(grants.isGranted('write_file', ['a.ts'])).toBe(false);
+
+    grants.setActiveConversation('conv-2');
+    expect(grants.isGranted('write_file', ['a.ts'])).toBe(true);
+
+    grants.setActiveConversation(null);
+    expect(grants.isGranted('write_file', ['a.ts'])).toBe(false);
+  });
+
+  it('revokes single grants and every grant of a conversation', () => {
+    const onChange = vi.fn();
+    grants.setChangeCallback(onChange);
+    const grant = grants.grantForConversation('conv-1', 'write_file');
+    grants.grantForFiles('conv-1', 'edit_file', ['a.ts']);
+
+    grants.revoke(grant.id);
+    expect(grants.isGranted('write_file', ['a.ts'])).toBe(false);
+    expect(grants.isGranted('edit_file', ['a.ts'])).toBe(true);
+
+    grants.clearConversation('conv-1');
+    expect(grants.list('conv-1')).toEqual([]);
+    expect(onChange).toHaveBeenCalledTimes(4);
+  });
+});
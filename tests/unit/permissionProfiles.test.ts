@@ -0,0 +1,56 @@
+/**
+ * Unit tests for permission profiles
+ *
+ * Tests the levels the built-in profiles give reading and file-changing
+ * tools, and that levels a profile lists win over its defaults
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PROFILES,
+  findPermissionProfile,
+  getProfileLevel,
+  wasmToolChangesFiles,
+} from '../../src/permissionProfiles';
+import type { PermissionProfile } from '../../src/preferences';
+
+const saved: PermissionProfile = {
+  id: 'saved',
+  name: 'Docs',
+  toolPermissions: { write_file: 'always', wasm_jq: 'never' },
+  defaults: { read: 'ask', write: 'ask' },
+};
+
+describe('permission profiles', () => {
+  it('allows reads in every built-in profile and sets writes per profile', () => {
+    const levels = BUILT_IN_PROFILES.map((profile) => [
+      profile.name,
+      getProfileLevel(profile, 'cat', false),
+      getProfileLevel(profile, 'delete_file', true),
+    ]);
+
+    expect(levels).toEqual([
+      ['Read-only', 'always', 'never'],
+      ['Review', 'always', 'ask'],
+      ['Autopilot', 'always', 'always'],
+    ]);
+  });
+
+  it('uses the levels a profile lists before its defaults', () => {
+    expect(getProfileLevel(saved, 'write_file', true)).toBe('always');
+    expect(getProfileLevel(saved, 'wasm_jq', false)).toBe('never');
+    expect(getProfileLevel(saved, 'edit_file', true)).toBe('ask');
+  });
+
+  it('finds built-in and saved profiles by id', () => {
+    expect(findPermissionProfile('review', [saved])?.name).toBe('Review');
+    expect(findPermissionProfile('saved', [saved])).toBe(saved);
+    expect(findPermissionProfile('gone', [saved])).toBeUndefined();
+  });
+
+  it('counts WASM tools that may write files as changing them', () => {
+    expect(wasmToolChangesFiles('readwrite')).toBe(true);
+    expect(wasmToolChangesFiles('write')).toBe(true);
+    expect(wasmToolChangesFiles('read')).toBe(false);
+    expect(wasmToolChangesFiles('none')).toBe(false);
+  });
+});
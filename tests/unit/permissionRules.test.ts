@@ -0,0 +1,45 @@
+/**
+ * Unit tests for path-scoped permission rules
+ *
+ * Tests glob and tool matching, first-match ordering, and how the decisions
+ * for several paths combine
+ */
+import { describe, it, expect } from 'vitest';
+import { applyPermissionRules, ruleMatches } from '../../src/permissionRules';
+import type { PermissionLevel, PermissionRule } from '../../src/preferences';
+
+function rule(tool: string, pathGlob: string, decision: PermissionLevel): PermissionRule {
+  return { id: `${tool} ${pathGlob}`, tool, pathGlob, decision };
+}
+
+const rules = [
+  rule('*', '.env*', 'never'),
+  rule('*', 'secrets/**', 'never'),
+  rule('write_file', 'docs/**', 'always'),
+  rule('write_file', '**/*.md', 'ask'),
+];
+
+describe('permission rules', () => {
+  it('matches names at any depth, whole paths, and the directory of a /** glob', () => {
+    expect(ruleMatches(rules[0]!, 'cat', 'config/.env.local')).toBe(true);
+    expect(ruleMatches(rules[1]!, 'delete_directory', 'secrets')).toBe(true);
+    expect(ruleMatches(rules[1]!, 'cat', 'secrets/keys/prod.pem')).toBe(true);
+    expect(ruleMatches(rules[1]!, 'cat', 'app/secrets/key')).toBe(false);
+    expect(ruleMatches(rules[2]!, 'edit_file', 'docs/guide.md')).toBe(false);
+  });
+
+  it('lets the first matching rule decide and leaves other paths at the tool level', () => {
+    expect(applyPermissionRules(rules, 'write_file', ['docs/guide.md'], 'ask')).toBe('always');
+    expect(applyPermissionRules(rules, 'write_file', ['README.md'], 'always')).toBe('ask');
+    expect(applyPermissionRules(rules, 'write_file', ['src/app.ts'], 'never')).toBe('never');
+  });
+
+  it('denies a call if any path is denied and asks if any path asks', () => {
+    expect(applyPermissionRules(rules, 'cp', ['docs/a.md', '.env'], 'always')).toBe('never');
+    expect(applyPermissionRules(rules, 'write_file', ['docs/a.md', 'src/app.ts'], 'ask')).toBe('ask');
+  });
+
+  it('keeps the tool level for calls naming no path', () => {
+    expect(applyPermissionRules(rules, 'list_files', [], 'always')).toBe('always');
+  });
+});
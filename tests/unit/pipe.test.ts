@@ -1,16 +1,39 @@
 /**
  * Unit tests for the pipe (command chaining) tool
  *
- * Tests the pipeable functions: cat, grep, sort, head, tail, uniq, wc, write_file
+ * Tests the pipeable functions: cat, ls, find, tree, grep, sort, head, tail, uniq, wc, sed, cut, tr, tee, write_file, foreach,
+ * and the record commands: where, select, sort_by, group_by, count_by, format
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock the fileSystemManager before importing tools
 vi.mock('../../src/fileSystem', () => {
   const mockFiles: Map<string, string> = new Map();
+  const mockModified: Map<string, number> = new Map();
+
+  // Derive file and directory entries from the mock files, like listFiles() does
+  const listEntries = () => {
+    const entries: Array<{ name: string; path: string; kind: 'file' | 'directory' }> = [];
+    const dirs = new Set<string>();
+    for (const path of mockFiles.keys()) {
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        const dirPath = parts.slice(0, i).join('/');
+        if (!dirs.has(dirPath)) {
+          dirs.add(dirPath);
+          entries.push({ name: parts[i - 1]!, path: dirPath, kind: 'directory' });
+        }
+      }
+      entries.push({ name: parts[parts.length - 1]!, path, kind: 'file' });
+    }
+    return entries;
+  };
 
   return {
     fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
       readFile: vi.fn((path: string) => {
         const content = mockFiles.get(path);
         if (content === undefined) {
@@ -18,20 +41,49 @@ vi.mock('../../src/fileSystem', () => {
         }
         return Promise.resolve(content);
       }),
+      readFileStream: vi.fn((path: string) => {
+        const content = mockFiles.get(path);
+        if (content === undefined) {
+          throw new Error(`File not found: ${path}`);
+        }
+        return Promise.resolve(new Blob([content]).stream());
+      }),
+      isBinaryFile: vi.fn((path: string) => Promise.resolve(mockFiles.get(path)?.includes('\0') ?? false)),
       writeFile: vi.fn((path: string, content: string) => {
         mockFiles.set(path, content);
         return Promise.resolve();
       }),
+      createFile: vi.fn((path: string, content: string = '') => {
+        mockFiles.set(path, content);
+        return Promise.resolve();
+      }),
       isFile: vi.fn((path: string) => mockFiles.has(path)),
-      listFiles: vi.fn(() => Promise.resolve([])),
+      listFiles: vi.fn(() => Promise.resolve(listEntries())),
+      resolvePath: vi.fn((path: string) => Promise.resolve(listEntries().find((e) => e.path === path) ?? null)),
+      getFileMetadata: vi.fn((path: string) => {
+        const content = mockFiles.get(path);
+        if (content === undefined) {
+          throw new Error(`File not found: ${path}`);
+        }
+        return Promise.resolve({
+          name: path.split('/').pop(),
+          size: content.length,
+          lastModified: mockModified.get(path) ?? 0,
+          type: '',
+        });
+      }),
       getRootPath: vi.fn(() => '/mock-root'),
       // Helper to set up mock files for tests
       _mockFiles: mockFiles,
-      _setMockFile: (path: string, content: string) => {
+      _setMockFile: (path: string, content: string, lastModified?: number) => {
         mockFiles.set(path, content);
+        if (lastModified !== undefined) {
+          mockModified.set(path, lastModified);
+        }
       },
       _clearMockFiles: () => {
         mockFiles.clear();
+        mockModified.clear();
       },
     },
   };
@@ -41,6 +93,8 @@ vi.mock('../../src/fileSystem', () => {
 vi.mock('../../src/preferences', () => ({
   preferencesManager: {
     getToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
   },
 }));
 
@@ -58,17 +112,76 @@ vi.mock('../../src/toolResultCache', () => ({
   })),
 }));
 
+// Mock the WASM tool manager with a stdin-reading tool and an argument-taking tool
+vi.mock('../../src/wasm-tools', () => {
+  const tools = [
+    { name: 'upper', enabled: true, argStyle: 'positional' },
+    { name: 'sha256sum', enabled: true, argStyle: 'positional' },
+    { name: 'sqlite', enabled: true, argStyle: 'json' },
+    { name: 'disabled-tool', enabled: false, argStyle: 'positional' },
+  ];
+
+  return {
+    wasmToolManager: {
+      getEnabledToolByAIName: vi.fn((name: string) => {
+        const found = tools.find((t) => t.name === name && t.enabled);
+        return found
+          ? { manifest: { name: found.name, execution: { argStyle: found.argStyle } }, enabled: true }
+          : undefined;
+      }),
+      executeTool: vi.fn(
+        (name: string, args: Record<string, unknown>, options: { stdin?: string }) => {
+          if (name === 'upper') {
+            return Promise.resolve({
+              success: true,
+              stdout: (options.stdin ?? '').toUpperCase() + '\n',
+              stderr: '',
+              exitCode: 0,
+            });
+          }
+          if (name === 'sha256sum') {
+            if (typeof args.input !== 'string') {
+              return Promise.resolve({
+                success: false,
+                stdout: '',
+                stderr: 'Usage: sha256sum <text>\n',
+                exitCode: 1,
+              });
+            }
+            return Promise.resolve({
+              success: true,
+              stdout: `hash(${args.input})\n`,
+              stderr: '',
+              exitCode: 0,
+            });
+          }
+          return Promise.resolve({ success: false, stdout: '', stderr: '', exitCode: 1 });
+        }
+      ),
+    },
+    checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+  };
+});
+
 // Import after mocks are set up
-import { pipeTool } from '../../src/tools';
+import { pipeTool, setPermissionCallback } from '../../src/tools';
+import { preferencesManager } from '../../src/preferences';
 import { fileSystemManager } from '../../src/fileSystem';
+import { wasmToolManager, checkWasmPermission } from '../../src/wasm-tools';
+import { permissionGrants } from '../../src/permissionGrants';
+
+const options = { toolCallId: 'test', messages: [] };
 
 // Get access to the mock file helpers
 const mockFs = fileSystemManager as unknown as {
   _mockFiles: Map<string, string>;
-  _setMockFile: (path: string, content: string) => void;
+  _setMockFile: (path: string, content: string, lastModified?: number) => void;
   _clearMockFiles: () => void;
   readFile: ReturnType<typeof vi.fn>;
+  readFileStream: ReturnType<typeof vi.fn>;
   writeFile: ReturnType<typeof vi.fn>;
+  createFile: ReturnType<typeof vi.fn>;
+  listFiles: ReturnType<typeof vi.fn>;
 };
 
 describe('Pipe Tool', () => {
@@ -88,7 +201,7 @@ describe('Pipe Tool', () => {
       const result = await pipeTool.execute({
         commands: [{ tool: 'cat', args: { path: 'test.txt' } }],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('Hello, World!');
@@ -101,7 +214,7 @@ describe('Pipe Tool', () => {
       const result = await pipeTool.execute({
         commands: [{ tool: 'cat', args: { paths: ['file1.txt', 'file2.txt'] } }],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('First file\nSecond file');
@@ -113,12 +226,24 @@ describe('Pipe Tool', () => {
           { tool: 'cat', args: { path: 'nonexistent.txt' } },
         ],
         debug: false,
-      });
+      }, options);
 
       // When there's an error, success is undefined and error is set
       expect(result.success).toBeUndefined();
       expect(result.error).toContain('nonexistent.txt');
     });
+
+    it('refuses to read a binary file as text', async () => {
+      mockFs._setMockFile('image.png', '\x89PNG\r\n\x1a\n\0\0\0\rIHDR');
+
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'cat', args: { path: 'image.png' } }],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain("image.png is a binary file and can't be read as text");
+      expect(mockFs.readFileStream).not.toHaveBeenCalled();
+    });
   });
 
   describe('grep command', () => {
@@ -131,7 +256,7 @@ describe('Pipe Tool', () => {
           { tool: 'grep', args: { pattern: '^a' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\napricot');
@@ -146,7 +271,7 @@ describe('Pipe Tool', () => {
           { tool: 'grep', args: { pattern: 'apple', caseInsensitive: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('APPLE\napple');
@@ -161,7 +286,7 @@ describe('Pipe Tool', () => {
           { tool: 'grep', args: { pattern: '^a', invertMatch: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('banana');
@@ -173,7 +298,7 @@ describe('Pipe Tool', () => {
       const result = await pipeTool.execute({
         commands: [{ tool: 'grep', args: { pattern: '2', path: 'test.txt' } }],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('line2');
@@ -190,7 +315,7 @@ describe('Pipe Tool', () => {
           { tool: 'sort', args: {} },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\nbanana\ncherry');
@@ -205,7 +330,7 @@ describe('Pipe Tool', () => {
           { tool: 'sort', args: { reverse: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('cherry\nbanana\napple');
@@ -220,7 +345,7 @@ describe('Pipe Tool', () => {
           { tool: 'sort', args: { numeric: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('1\n2\n10\n20');
@@ -235,7 +360,7 @@ describe('Pipe Tool', () => {
           { tool: 'sort', args: { unique: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\nbanana\ncherry');
@@ -250,7 +375,7 @@ describe('Pipe Tool', () => {
           { tool: 'sort', args: { ignoreCase: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\nBanana\nCherry');
@@ -268,7 +393,7 @@ describe('Pipe Tool', () => {
           { tool: 'head', args: {} },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe(lines.slice(0, 10).join('\n'));
@@ -283,7 +408,7 @@ describe('Pipe Tool', () => {
           { tool: 'head', args: { lines: 3 } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('line1\nline2\nline3');
@@ -301,7 +426,7 @@ describe('Pipe Tool', () => {
           { tool: 'tail', args: {} },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe(lines.slice(-10).join('\n'));
@@ -316,7 +441,7 @@ describe('Pipe Tool', () => {
           { tool: 'tail', args: { lines: 2 } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('line4\nline5');
@@ -333,7 +458,7 @@ describe('Pipe Tool', () => {
           { tool: 'uniq', args: {} },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\nbanana\napple');
@@ -348,7 +473,7 @@ describe('Pipe Tool', () => {
           { tool: 'uniq', args: { count: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toContain('3');
@@ -366,7 +491,7 @@ describe('Pipe Tool', () => {
           { tool: 'uniq', args: { duplicatesOnly: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('apple\ncherry');
@@ -381,7 +506,7 @@ describe('Pipe Tool', () => {
           { tool: 'uniq', args: { uniqueOnly: true } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       expect(result.output).toBe('banana');
@@ -398,7 +523,7 @@ describe('Pipe Tool', () => {
           { tool: 'wc', args: {} },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
       // Output should contain counts (format: lines words chars)
@@ -408,167 +533,1650 @@ describe('Pipe Tool', () => {
     });
   });
 
-  describe('write_file command', () => {
-    it('writes piped content to a file', async () => {
-      mockFs._setMockFile('input.txt', 'test content');
+  describe('sed command', () => {
+    it('substitutes the first match per line', async () => {
+      mockFs._setMockFile('test.txt', 'foo foo\nbar foo');
 
       const result = await pipeTool.execute({
         commands: [
-          { tool: 'cat', args: { path: 'input.txt' } },
-          { tool: 'write_file', args: { path: 'output.txt' } },
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sed', args: { script: 's/foo/baz/' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(mockFs.writeFile).toHaveBeenCalledWith('output.txt', 'test content');
+      expect(result.output).toBe('baz foo\nbar baz');
     });
-  });
 
-  describe('command chaining', () => {
-    it('chains multiple commands together', async () => {
-      mockFs._setMockFile('test.txt', 'banana\napple\ncherry\napple\ndate\napricot');
+    it('supports global and case-insensitive flags with groups and &', async () => {
+      mockFs._setMockFile('test.txt', 'Key=1, key=2');
 
       const result = await pipeTool.execute({
         commands: [
           { tool: 'cat', args: { path: 'test.txt' } },
-          { tool: 'grep', args: { pattern: '^a' } },
-          { tool: 'sort', args: {} },
-          { tool: 'uniq', args: {} },
+          { tool: 'sed', args: { script: 's/(key)=(\\d)/\\2:\\1 [&]/gi' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.output).toBe('apple\napricot');
+      expect(result.output).toBe('1:Key [Key=1], 2:key [key=2]');
     });
 
-    it('handles complex pipeline: read, filter, sort, take first 2', async () => {
-      mockFs._setMockFile('numbers.txt', '5\n3\n8\n1\n9\n2\n7');
+    it('supports alternate delimiters', async () => {
+      mockFs._setMockFile('test.txt', 'src/a/b.ts');
 
       const result = await pipeTool.execute({
         commands: [
-          { tool: 'cat', args: { path: 'numbers.txt' } },
-          { tool: 'sort', args: { numeric: true } },
-          { tool: 'head', args: { lines: 2 } },
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sed', args: { script: 's|src/|lib/|' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.output).toBe('1\n2');
+      expect(result.output).toBe('lib/a/b.ts');
     });
 
-    it('handles pipeline: sort descending, take last 3', async () => {
-      mockFs._setMockFile('data.txt', 'zebra\napple\nmango\nbanana\ncherry');
+    it('deletes a line range', async () => {
+      mockFs._setMockFile('test.txt', 'l1\nl2\nl3\nl4\nl5');
 
       const result = await pipeTool.execute({
         commands: [
-          { tool: 'cat', args: { path: 'data.txt' } },
-          { tool: 'sort', args: { reverse: true } },
-          { tool: 'tail', args: { lines: 3 } },
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sed', args: { script: '2,4d' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.output).toBe('cherry\nbanana\napple');
+      expect(result.output).toBe('l1\nl5');
     });
 
-    it('returns correct command count', async () => {
-      mockFs._setMockFile('test.txt', 'hello');
+    it('deletes lines matching a regex address', async () => {
+      mockFs._setMockFile('test.txt', '# comment\ncode\n# another\nmore');
 
       const result = await pipeTool.execute({
         commands: [
           { tool: 'cat', args: { path: 'test.txt' } },
-          { tool: 'head', args: { lines: 1 } },
+          { tool: 'sed', args: { script: '/^#/d' } },
         ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.commandsExecuted).toBe(2);
+      expect(result.output).toBe('code\nmore');
     });
-  });
 
-  describe('debug mode', () => {
-    it('includes intermediate results when debug is true', async () => {
-      mockFs._setMockFile('test.txt', 'hello\nworld');
+    it('applies substitutions within a regex range and runs multiple commands', async () => {
+      mockFs._setMockFile('test.txt', 'a\nBEGIN\na\nEND\na');
 
       const result = await pipeTool.execute({
         commands: [
           { tool: 'cat', args: { path: 'test.txt' } },
-          { tool: 'head', args: { lines: 1 } },
+          { tool: 'sed', args: { script: '/BEGIN/,/END/s/a/x/; $d' } },
         ],
-        debug: true,
-      });
+        debug: false,
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.intermediateResults).toBeDefined();
-      expect(Array.isArray(result.intermediateResults)).toBe(true);
-      expect(result.intermediateResults).toHaveLength(2);
+      expect(result.output).toBe('a\nBEGIN\nx\nEND');
     });
-  });
 
-  describe('error handling', () => {
-    it('returns error when file not found', async () => {
+    it('prints only selected lines in quiet mode', async () => {
+      mockFs._setMockFile('test.txt', 'l1\nl2\nl3\nl4');
+
       const result = await pipeTool.execute({
-        commands: [{ tool: 'cat', args: { path: 'nonexistent.txt' } }],
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sed', args: { script: '2,3p', quiet: true } },
+        ],
         debug: false,
-      });
+      }, options);
 
-      expect(result.success).toBeUndefined();
-      expect(result.error).toContain('nonexistent.txt');
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('l2\nl3');
     });
 
-    it('returns error when command fails mid-pipeline', async () => {
+    it('supports negated addresses', async () => {
+      mockFs._setMockFile('test.txt', 'keep\ndrop\nkeep too');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sed', args: { script: '/keep/!d' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('keep\nkeep too');
+    });
+
+    it('returns error for invalid scripts', async () => {
       mockFs._setMockFile('test.txt', 'hello');
 
       const result = await pipeTool.execute({
         commands: [
           { tool: 'cat', args: { path: 'test.txt' } },
-          { tool: 'grep', args: {} }, // Missing required pattern
+          { tool: 'sed', args: { script: 's/unterminated' } },
         ],
         debug: false,
-      });
+      }, options);
 
-      expect(result.error).toBeDefined();
-      expect(result.error).toContain('grep');
+      expect(result.error).toContain('sed:');
     });
+  });
 
-    it('handles empty commands array gracefully', async () => {
-      // The schema requires at least 1 command, so this tests validation
-      // The tool should handle this edge case
-      try {
-        await pipeTool.execute({
-          commands: [],
-          debug: false,
-        });
-        // If no error is thrown, the tool handled it
-      } catch {
-        // Expected - schema validation should reject empty commands
-      }
+  describe('cut command', () => {
+    it('selects fields with a delimiter', async () => {
+      mockFs._setMockFile('data.csv', 'name,age,city\nalice,30,paris\nbob,25,rome');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.csv' } },
+          { tool: 'cut', args: { delimiter: ',', fields: '1,3' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('name,city\nalice,paris\nbob,rome');
+    });
+
+    it('supports open-ended field ranges and output delimiter', async () => {
+      mockFs._setMockFile('data.txt', 'a:b:c:d');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.txt' } },
+          { tool: 'cut', args: { delimiter: ':', fields: '2-', outputDelimiter: ' ' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('b c d');
+    });
+
+    it('uses tab as the default delimiter and passes undelimited lines through', async () => {
+      mockFs._setMockFile('data.tsv', 'one\ttwo\nplain');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.tsv' } },
+          { tool: 'cut', args: { fields: '2' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('two\nplain');
+    });
+
+    it('skips undelimited lines with onlyDelimited', async () => {
+      mockFs._setMockFile('data.tsv', 'one\ttwo\nplain');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.tsv' } },
+          { tool: 'cut', args: { fields: '1', onlyDelimited: true } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('one');
+    });
+
+    it('selects characters', async () => {
+      mockFs._setMockFile('data.txt', '2025-01-18T10:00:00');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.txt' } },
+          { tool: 'cut', args: { characters: '1-10' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('2025-01-18');
+    });
+
+    it('returns error for invalid lists', async () => {
+      mockFs._setMockFile('data.txt', 'a,b');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.txt' } },
+          { tool: 'cut', args: { delimiter: ',', fields: '0' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('cut:');
     });
   });
 
-  describe('read_file command', () => {
-    it('reads a file', async () => {
-      mockFs._setMockFile('test.txt', 'file content');
+  describe('tr command', () => {
+    it('translates character ranges', async () => {
+      mockFs._setMockFile('test.txt', 'Hello World');
 
       const result = await pipeTool.execute({
-        commands: [{ tool: 'read_file', args: { path: 'test.txt' } }],
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tr', args: { set1: 'a-z', set2: 'A-Z' } },
+        ],
         debug: false,
-      });
+      }, options);
 
       expect(result.success).toBe(true);
-      expect(result.output).toBe('file content');
+      expect(result.output).toBe('HELLO WORLD');
     });
 
-    it('returns error when path is missing', async () => {
+    it('supports character classes', async () => {
+      mockFs._setMockFile('test.txt', 'Hello World');
+
       const result = await pipeTool.execute({
-        commands: [{ tool: 'read_file', args: {} }],
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tr', args: { set1: '[:upper:]', set2: '[:lower:]' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('hello world');
+    });
+
+    it('deletes characters', async () => {
+      mockFs._setMockFile('test.txt', 'a1b2c3');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tr', args: { set1: '0-9', delete: true } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('abc');
+    });
+
+    it('squeezes repeated characters and translates escapes', async () => {
+      mockFs._setMockFile('test.txt', 'a   b    c');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tr', args: { set1: ' ', set2: '\\n', squeeze: true } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('a\nb\nc');
+    });
+
+    it('returns error when set2 is missing for translation', async () => {
+      mockFs._setMockFile('test.txt', 'abc');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tr', args: { set1: 'a' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('tr:');
+    });
+  });
+
+  describe('WASM tool stages', () => {
+    it('passes the previous output as stdin', async () => {
+      mockFs._setMockFile('test.txt', 'hello\nworld');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'upper', args: {} },
+        ],
         debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('HELLO\nWORLD');
+      expect(wasmToolManager.executeTool).toHaveBeenCalledWith('upper', {}, {
+        stdin: 'hello\nworld',
+        permissionChecked: true,
       });
+    });
+
+    it('passes the previous output as a named argument with inputArg', async () => {
+      mockFs._setMockFile('test.txt', 'b\na');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sort', args: {} },
+          { tool: 'sha256sum', args: {}, inputArg: 'input' },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('hash(a\nb)');
+    });
+
+    it('checks WASM permissions during up-front validation', async () => {
+      vi.mocked(checkWasmPermission).mockResolvedValueOnce(false);
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'upper', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('Permission denied for upper');
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+      expect(wasmToolManager.executeTool).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown and disabled tools before executing anything', async () => {
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'disabled-tool', args: {} },
+          { tool: 'toString', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('Unknown tool: disabled-tool');
+      expect(result.error).toContain('Unknown tool: toString');
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+    });
+
+    it('surfaces stderr when the tool fails', async () => {
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sha256sum', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('sha256sum: Usage: sha256sum <text>');
+    });
+
+    it('requires inputArg for tools that read their arguments from stdin', async () => {
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'sqlite', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('inputArg');
+      expect(wasmToolManager.executeTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('write_file command', () => {
+    it('writes piped content to a file', async () => {
+      mockFs._setMockFile('input.txt', 'test content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'input.txt' } },
+          { tool: 'write_file', args: { path: 'output.txt' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(mockFs.writeFile).toHaveBeenCalledWith('output.txt', 'test content');
+    });
+  });
+
+  describe('listing commands', () => {
+    beforeEach(() => {
+      mockFs._setMockFile('README.md', '# readme');
+      mockFs._setMockFile('.env', 'SECRET=1');
+      mockFs._setMockFile('config/app.json', '{"name":"app"}', Date.parse('2025-01-10'));
+      mockFs._setMockFile('config/db.json', '{"host":"localhost","port":5432}', Date.parse('2025-02-10'));
+      mockFs._setMockFile('config/notes.txt', 'notes');
+      mockFs._setMockFile('config/nested/extra.json', '{}');
+    });
+
+    it('ls lists direct children and hides dotfiles', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'ls', args: {} }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('config\nREADME.md');
+    });
+
+    it('ls includes dotfiles with all', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'ls', args: { all: true } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('.env');
+    });
+
+    it('find filters by name glob and type', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'find', args: { path: 'config', name: '*.json', type: 'file' } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('config/app.json\nconfig/db.json\nconfig/nested/extra.json');
+    });
+
+    it('find respects maxDepth', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'find', args: { path: 'config', name: '*.json', maxDepth: 1 } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('config/app.json\nconfig/db.json');
+    });
+
+    it('find filters by size and modification time', async () => {
+      const result = await pipeTool.execute({
+        commands: [{
+          tool: 'find',
+          args: { name: '*.json', minSize: 10, modifiedAfter: '2025-02-01' },
+        }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('config/db.json');
+    });
+
+    it('find with long output can be sorted by size', async () => {
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'find', args: { path: 'config', regex: '\\.json$', long: true } },
+          { tool: 'sort', args: { numeric: true, reverse: true } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      const paths = (result.output as string).split('\n').map((line) => line.trim().split(/\s+/).pop());
+      expect(paths).toEqual(['config/db.json', 'config/app.json', 'config/nested/extra.json']);
+    });
+
+    it('find output feeds foreach', async () => {
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'find', args: { name: '*.json', maxDepth: 2 } },
+          { tool: 'foreach', args: { tool: 'grep', args: { pattern: 'host' } } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('config/db.json:{"host":"localhost","port":5432}');
+    });
+
+    it('tree renders matching entries', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'tree', args: { path: 'config', name: '*.json', type: 'file' } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe(
+        'config\n├── nested\n│   └── extra.json\n├── app.json\n└── db.json\n\n1 directories, 3 files'
+      );
+    });
+
+    it('returns error for a missing directory', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'find', args: { path: 'missing' } }],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('find: missing');
+    });
+
+    it('lists from the base directory and passes includeIgnored through', async () => {
+      await pipeTool.execute({
+        commands: [{ tool: 'find', args: { path: 'config/', includeIgnored: true } }],
+        debug: false,
+      }, options);
+
+      expect(mockFs.listFiles).toHaveBeenCalledWith({ path: 'config', includeIgnored: true });
+    });
+
+    it('honours ignore rules by default', async () => {
+      await pipeTool.execute({
+        commands: [{ tool: 'ls', args: {} }],
+        debug: false,
+      }, options);
+
+      expect(mockFs.listFiles).toHaveBeenCalledWith({ path: '', includeIgnored: false, maxDepth: 1 });
+    });
+
+    it('only lists as deep as find needs', async () => {
+      await pipeTool.execute({
+        commands: [{ tool: 'find', args: { path: 'config', maxDepth: 2 } }],
+        debug: false,
+      }, options);
+
+      expect(mockFs.listFiles).toHaveBeenCalledWith({ path: 'config', includeIgnored: false, maxDepth: 2 });
+    });
+
+    describe('path rules', () => {
+      afterEach(() => {
+        vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([]);
+      });
+
+      it('leaves out entries a rule denies or asks about, and everything inside them', async () => {
+        vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([
+          { id: 'env', tool: '*', pathGlob: '.env*', decision: 'never' },
+          { id: 'nested', tool: 'list_files', pathGlob: 'config/nested', decision: 'ask' },
+        ]);
+
+        const ls = await pipeTool.execute({ commands: [{ tool: 'ls', args: { all: true } }], debug: false }, options);
+        const find = await pipeTool.execute({ commands: [{ tool: 'find', args: {} }], debug: false }, options);
+        const tree = await pipeTool.execute({ commands: [{ tool: 'tree', args: {} }], debug: false }, options);
+
+        expect(ls.output).toBe('config\nREADME.md');
+        expect(find.output).toBe('config\nconfig/app.json\nconfig/db.json\nconfig/notes.txt\nREADME.md');
+        expect(tree.output).toContain('nested');
+        expect(tree.output).not.toContain('.env');
+      });
+
+      it('keeps entries covered by the same ask rule as the directory the call names', async () => {
+        setPermissionCallback(() => Promise.resolve(true));
+        vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([
+          { id: 'config', tool: '*', pathGlob: 'config/**', decision: 'ask' },
+        ]);
+
+        const result = await pipeTool.execute({
+          commands: [{ tool: 'find', args: { path: 'config', type: 'file' } }],
+          debug: false,
+        }, options);
+
+        expect(result.output).toBe('config/app.json\nconfig/db.json\nconfig/nested/extra.json\nconfig/notes.txt');
+      });
+    });
+  });
+
+  describe('tee command', () => {
+    it('saves input to a buffer that cat can read later', async () => {
+      mockFs._setMockFile('main.ts', "import a from './a';\nimport b from 'b';\nconst x = 1;");
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'main.ts' } },
+          { tool: 'grep', args: { pattern: '^import' } },
+          { tool: 'tee', args: { buffer: 'imports' } },
+          { tool: 'grep', args: { pattern: "'\\./" } },
+          { tool: 'wc', args: {} },
+          { tool: 'cat', args: { buffer: 'imports' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("import a from './a';\nimport b from 'b';");
+    });
+
+    it('passes input through unchanged', async () => {
+      mockFs._setMockFile('test.txt', 'b\na');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tee', args: { buffer: 'copy' } },
+          { tool: 'sort', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('a\nb');
+    });
+
+    it('creates a new file', async () => {
+      mockFs._setMockFile('test.txt', 'content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tee', args: { path: 'out/copy.txt' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(mockFs.createFile).toHaveBeenCalledWith('out/copy.txt', 'content');
+      expect(mockFs._mockFiles.get('out/copy.txt')).toBe('content');
+    });
+
+    it('overwrites or appends to an existing file', async () => {
+      mockFs._setMockFile('log.txt', 'first');
+      mockFs._setMockFile('input.txt', 'second');
+
+      await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'input.txt' } },
+          { tool: 'tee', args: { path: 'log.txt', append: true } },
+        ],
+        debug: false,
+      }, options);
+      expect(mockFs._mockFiles.get('log.txt')).toBe('first\nsecond');
+
+      await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'input.txt' } },
+          { tool: 'tee', args: { path: 'log.txt' } },
+        ],
+        debug: false,
+      }, options);
+      expect(mockFs._mockFiles.get('log.txt')).toBe('second');
+    });
+
+    it('writes to an existing file that is not cached yet, asking for write_file', async () => {
+      mockFs._setMockFile('log.txt', 'old');
+      mockFs._setMockFile('input.txt', 'new');
+      // The cache hasn't seen log.txt, though it exists on disk
+      vi.mocked(fileSystemManager.isFile).mockReturnValue(false);
+      const permissionCallback = vi.fn((_toolName: string, _args: unknown) => Promise.resolve(true));
+      setPermissionCallback(permissionCallback as never);
+      vi.mocked(preferencesManager.getToolPermission).mockImplementation(
+        (toolName: string) => (toolName === 'write_file' || toolName === 'create_file' ? 'ask' : 'always') as never
+      );
+
+      try {
+        const result = await pipeTool.execute({
+          commands: [
+            { tool: 'cat', args: { path: 'input.txt' } },
+            { tool: 'tee', args: { path: 'log.txt' } },
+          ],
+          debug: false,
+        }, options);
+
+        expect(result.success).toBe(true);
+        expect(permissionCallback).toHaveBeenCalledTimes(1);
+        expect(permissionCallback.mock.calls[0]![0]).toBe('write_file');
+        expect(mockFs.createFile).not.toHaveBeenCalled();
+        expect(mockFs._mockFiles.get('log.txt')).toBe('new');
+      } finally {
+        vi.mocked(fileSystemManager.isFile).mockImplementation((path: string) => mockFs._mockFiles.has(path));
+        vi.mocked(preferencesManager.getToolPermission).mockImplementation(() => 'always' as never);
+      }
+    });
+
+    it('appends to a buffer', async () => {
+      mockFs._setMockFile('a.txt', 'alpha');
+      mockFs._setMockFile('b.txt', 'beta');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'a.txt' } },
+          { tool: 'tee', args: { buffer: 'all' } },
+          { tool: 'cat', args: { path: 'b.txt' } },
+          { tool: 'tee', args: { buffer: 'all', append: true } },
+          { tool: 'cat', args: { buffer: 'all' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('alpha\nbeta');
+    });
+
+    it('fails when reading an unknown buffer', async () => {
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { buffer: 'missing' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('cat: buffer not found: missing');
+    });
+
+    it('does not keep buffers between pipe calls', async () => {
+      mockFs._setMockFile('test.txt', 'content');
+
+      await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tee', args: { buffer: 'saved' } },
+        ],
+        debug: false,
+      }, options);
+
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'cat', args: { buffer: 'saved' } }],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('buffer not found');
+    });
+
+    it('fails without a path or buffer', async () => {
+      mockFs._setMockFile('test.txt', 'content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'tee', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('tee: path or buffer required');
+    });
+  });
+
+  describe('foreach command', () => {
+    it('runs a sub-command for each piped file path and prefixes output', async () => {
+      mockFs._setMockFile('files.txt', 'a.ts\nb.md\nc.ts');
+      mockFs._setMockFile('a.ts', 'const x = 1;\n// TODO: fix a');
+      mockFs._setMockFile('c.ts', '// TODO: fix c\nconst y = 2;');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'files.txt' } },
+          { tool: 'grep', args: { pattern: '\\.ts$' } },
+          { tool: 'foreach', args: { tool: 'grep', args: { pattern: 'TODO' } } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('a.ts:// TODO: fix a\nc.ts:// TODO: fix c');
+    });
+
+    it('skips blank input lines', async () => {
+      mockFs._setMockFile('files.txt', 'a.txt\n\n  \nb.txt\n');
+      mockFs._setMockFile('a.txt', 'one\ntwo');
+      mockFs._setMockFile('b.txt', 'three');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'files.txt' } },
+          { tool: 'foreach', args: { tool: 'head', args: { lines: 1 } } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('a.txt:one\nb.txt:three');
+    });
+
+    it('fails when a listed file cannot be read', async () => {
+      mockFs._setMockFile('files.txt', 'missing.txt');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'files.txt' } },
+          { tool: 'foreach', args: { tool: 'cat' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('foreach');
+      expect(result.error).toContain('missing.txt');
+    });
+
+    it('rejects sub-commands that cannot run per file before executing anything', async () => {
+      mockFs._setMockFile('files.txt', 'a.txt');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'files.txt' } },
+          { tool: 'foreach', args: { tool: 'write_file' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('Permission check failed');
+      expect(mockFs.readFile).not.toHaveBeenCalled();
+    });
+
+    describe('path rules', () => {
+      const permissionCallback = vi.fn((_toolName: string, _args: unknown) => Promise.resolve(false));
+
+      beforeEach(() => {
+        setPermissionCallback(permissionCallback as never);
+        mockFs._setMockFile('files.txt', 'a.txt\n.env');
+        mockFs._setMockFile('a.txt', 'one');
+        mockFs._setMockFile('.env', 'TOKEN=1');
+      });
+
+      it('refuses a piped path a rule denies', async () => {
+        vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([
+          { id: 'rule', tool: '*', pathGlob: '.env*', decision: 'never' },
+        ]);
+
+        try {
+          const result = await pipeTool.execute({
+            commands: [
+              { tool: 'cat', args: { path: 'files.txt' } },
+              { tool: 'foreach', args: { tool: 'cat' } },
+            ],
+            debug: false,
+          }, options);
+
+          expect(result.error).toContain('foreach: permission denied for .env');
+          expect(permissionCallback).not.toHaveBeenCalled();
+        } finally {
+          vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([]);
+        }
+      });
+
+      it('asks about a piped path a rule asks about, and refuses it when declined', async () => {
+        vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([
+          { id: 'rule', tool: '*', pathGlob: '.env*', decision: 'ask' },
+        ]);
+
+        try {
+          const result = await pipeTool.execute({
+            commands: [
+              { tool: 'cat', args: { path: 'files.txt' } },
+              { tool: 'foreach', args: { tool: 'cat' } },
+            ],
+            debug: false,
+          }, options);
+
+          expect(result.error).toContain('foreach: permission denied for .env');
+          expect(permissionCallback).toHaveBeenCalledTimes(1);
+          expect(permissionCallback).toHaveBeenCalledWith('cat', expect.objectContaining({ path: '.env' }));
+          expect(mockFs.readFileStream).not.toHaveBeenCalledWith('.env');
+        } finally {
+          vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([]);
+        }
+      });
+    });
+  });
+
+  describe('command chaining', () => {
+    it('chains multiple commands together', async () => {
+      mockFs._setMockFile('test.txt', 'banana\napple\ncherry\napple\ndate\napricot');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'grep', args: { pattern: '^a' } },
+          { tool: 'sort', args: {} },
+          { tool: 'uniq', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('apple\napricot');
+    });
+
+    it('handles complex pipeline: read, filter, sort, take first 2', async () => {
+      mockFs._setMockFile('numbers.txt', '5\n3\n8\n1\n9\n2\n7');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'numbers.txt' } },
+          { tool: 'sort', args: { numeric: true } },
+          { tool: 'head', args: { lines: 2 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('1\n2');
+    });
+
+    it('handles pipeline: sort descending, take last 3', async () => {
+      mockFs._setMockFile('data.txt', 'zebra\napple\nmango\nbanana\ncherry');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.txt' } },
+          { tool: 'sort', args: { reverse: true } },
+          { tool: 'tail', args: { lines: 3 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('cherry\nbanana\napple');
+    });
+
+    it('returns correct command count', async () => {
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'head', args: { lines: 1 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.commandsExecuted).toBe(2);
+    });
+  });
+
+  describe('debug mode', () => {
+    it('includes intermediate results when debug is true', async () => {
+      mockFs._setMockFile('test.txt', 'hello\nworld');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'head', args: { lines: 1 } },
+        ],
+        debug: true,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.intermediateResults).toBeDefined();
+      expect(Array.isArray(result.intermediateResults)).toBe(true);
+      expect(result.intermediateResults).toHaveLength(2);
+    });
+  });
+
+  describe('error handling', () => {
+    it('returns error when file not found', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'cat', args: { path: 'nonexistent.txt' } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBeUndefined();
+      expect(result.error).toContain('nonexistent.txt');
+    });
+
+    it('returns error when command fails mid-pipeline', async () => {
+      mockFs._setMockFile('test.txt', 'hello');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'grep', args: {} }, // Missing required pattern
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toBeDefined();
+      expect(result.error).toContain('grep');
+    });
+
+    it('handles empty commands array gracefully', async () => {
+      // The schema requires at least 1 command, so this tests validation
+      // The tool should handle this edge case
+      try {
+        await pipeTool.execute({
+          commands: [],
+          debug: false,
+        }, options);
+        // If no error is thrown, the tool handled it
+      } catch {
+        // Expected - schema validation should reject empty commands
+      }
+    });
+  });
+
+  describe('record commands', () => {
+    const salesCsv = [
+      'region,customer,amount,status',
+      'north,"Smith, John",120,paid',
+      'south,Acme,80,paid',
+      'north,"Quote ""Q"" Ltd",30,refunded',
+      'north,Beta,50,paid',
+      '',
+    ].join('\n');
+
+    it('reads CSV records with quoted fields', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'select', args: { fields: ['customer'] } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe(
+        '{"customer":"Smith, John"}\n{"customer":"Acme"}\n{"customer":"Quote \\"Q\\" Ltd"}\n{"customer":"Beta"}'
+      );
+    });
+
+    it('still reads CSV files as text for text commands', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'head', args: { lines: 1 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('region,customer,amount,status');
+    });
+
+    it('filters records with where', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'where', args: { field: 'amount', op: '>=', value: 50 } },
+          { tool: 'where', args: { field: 'status', value: 'paid' } },
+          { tool: 'select', args: { fields: ['customer'] } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"customer":"Smith, John"}\n{"customer":"Acme"}\n{"customer":"Beta"}');
+    });
+
+    it('sorts records numerically with sort_by', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'sort_by', args: { field: 'amount', reverse: true } },
+          { tool: 'select', args: { fields: ['amount'] } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"amount":"120"}\n{"amount":"80"}\n{"amount":"50"}\n{"amount":"30"}');
+    });
+
+    it('groups records with aggregates', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'group_by', args: { field: 'region', sum: ['amount'], max: ['amount'] } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe(
+        '{"region":"north","count":3,"sum_amount":200,"max_amount":120}\n' +
+          '{"region":"south","count":1,"sum_amount":80,"max_amount":80}'
+      );
+    });
+
+    it('counts records with count_by, most common first', async () => {
+      mockFs._setMockFile('events.jsonl', '{"type":"click"}\n{"type":"view"}\n{"type":"view"}\n');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'events.jsonl' } },
+          { tool: 'count_by', args: { field: 'type' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"type":"view","count":2}\n{"type":"click","count":1}');
+    });
+
+    it('reads JSON arrays and nested fields', async () => {
+      mockFs._setMockFile(
+        'users.json',
+        JSON.stringify([{ user: { name: 'Ann', age: 31 } }, { user: { name: 'Bob', age: 25 } }], null, 2)
+      );
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'users.json' } },
+          { tool: 'where', args: { field: 'user.age', op: '<', value: 30 } },
+          { tool: 'select', args: { fields: ['user.name'] } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"user.name":"Bob"}');
+    });
+
+    it('renders records as a table', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'count_by', args: { field: 'region' } },
+          { tool: 'format', args: { as: 'table' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe(
+        '| region | count |\n' +
+          '| ------ | ----- |\n' +
+          '| north  | 3     |\n' +
+          '| south  | 1     |'
+      );
+    });
+
+    it('renders records as CSV and JSON', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const csv = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'select', args: { fields: ['customer', 'amount'] } },
+          { tool: 'head', args: { lines: 1 } },
+          { tool: 'format', args: { as: 'csv' } },
+        ],
+        debug: false,
+      }, options);
+      expect(csv.output).toBe('customer,amount\n"Smith, John",120');
+
+      const json = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'where', args: { field: 'customer', op: 'matches', value: '^A' } },
+          { tool: 'select', args: { fields: ['customer'] } },
+          { tool: 'format', args: { as: 'json' } },
+        ],
+        debug: false,
+      }, options);
+      expect(json.output).toBe('[\n  {\n    "customer": "Acme"\n  }\n]');
+    });
+
+    it('parses piped text with the from argument', async () => {
+      mockFs._setMockFile('data.txt', 'name,size\na,1\nb,2');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'data.txt' } },
+          { tool: 'where', args: { field: 'size', op: '>', value: 1, from: 'csv' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"name":"b","size":"2"}');
+    });
+
+    it('reports invalid JSON Lines input', async () => {
+      mockFs._setMockFile('notes.txt', 'not json');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'notes.txt' } },
+          { tool: 'count_by', args: { field: 'type' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toBe('Command 2 (count_by) failed: count_by: invalid JSON on line 1');
+    });
+
+    it('rejects unknown operators', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'where', args: { field: 'amount', op: '=~', value: 1 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('where: unknown operator: =~');
+    });
+
+    it('rejects select fields that are not a list of names', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'sales.csv' } },
+          { tool: 'select', args: { fields: 'customer' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.error).toContain('select: fields must be a list of field names');
+    });
+
+    it('reads records from a CSV file given to cat', async () => {
+      mockFs._setMockFile('sales.csv', salesCsv);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'sales.csv' } },
+          { tool: 'count_by', args: { field: 'region' } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.output).toBe('{"region":"north","count":3}\n{"region":"south","count":1}');
+    });
+  });
+
+  describe('dry run', () => {
+    it('reports reads, writes and stage previews without writing', async () => {
+      mockFs._setMockFile('app.log', 'ok 1\nerror 2\nok 3\nerror 4\nerror 5\n');
+      mockFs._setMockFile('errors.txt', 'old');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'app.log' } },
+          { tool: 'grep', args: { pattern: 'error' } },
+          { tool: 'tee', args: { path: 'new/errors.txt' } },
+          { tool: 'write_file', args: { path: 'errors.txt' } },
+        ],
+        debug: false,
+        dryRun: true,
+        previewLines: 2,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.dryRun).toBe(true);
+      expect(result.filesRead).toEqual([{ path: 'app.log', size: 34 }]);
+      expect(result.filesWritten).toEqual([
+        { path: 'new/errors.txt', size: 23, action: 'create' },
+        { path: 'errors.txt', size: 23, action: 'overwrite' },
+      ]);
+      expect(result.stages).toEqual([
+        { tool: 'cat', lines: 6, preview: ['ok 1', 'error 2'] },
+        { tool: 'grep', lines: 3, preview: ['error 2', 'error 4'] },
+        { tool: 'tee', lines: 3, preview: ['error 2', 'error 4'] },
+        { tool: 'write_file', lines: 1, preview: ['Would write to errors.txt'] },
+      ]);
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+      expect(mockFs.createFile).not.toHaveBeenCalled();
+      expect(mockFs._mockFiles.get('errors.txt')).toBe('old');
+    });
+
+    it('fails like a real run when the write target does not exist', async () => {
+      mockFs._setMockFile('test.txt', 'content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'write_file', args: { path: 'missing.txt' } },
+        ],
+        debug: false,
+        dryRun: true,
+      }, options);
+
+      expect(result.error).toContain('write_file: File not found: missing.txt');
+    });
+
+    it('previews a write to an existing file that is not cached yet', async () => {
+      mockFs._setMockFile('test.txt', 'content');
+      mockFs._setMockFile('out.txt', 'old');
+      vi.mocked(fileSystemManager.isFile).mockReturnValue(false);
+
+      try {
+        const result = await pipeTool.execute({
+          commands: [
+            { tool: 'cat', args: { path: 'test.txt' } },
+            { tool: 'write_file', args: { path: 'out.txt' } },
+          ],
+          debug: false,
+          dryRun: true,
+        }, options);
+
+        expect(result.success).toBe(true);
+        expect(result.filesWritten).toEqual([{ path: 'out.txt', size: 7, action: 'overwrite' }]);
+      } finally {
+        vi.mocked(fileSystemManager.isFile).mockImplementation((path: string) => mockFs._mockFiles.has(path));
+      }
+    });
+
+    it('does not run WASM tools that can write files', async () => {
+      const writingTool = {
+        manifest: { name: 'upper', execution: { argStyle: 'positional', fileAccess: 'readwrite' } },
+        enabled: true,
+      } as never;
+      // Looked up once for the permission check and once to run
+      vi.mocked(wasmToolManager.getEnabledToolByAIName)
+        .mockReturnValueOnce(writingTool)
+        .mockReturnValueOnce(writingTool);
+      mockFs._setMockFile('test.txt', 'content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'upper', args: {} },
+        ],
+        debug: false,
+        dryRun: true,
+      }, options);
+
+      expect(result.error).toContain('upper: can write files, so it is not run in a dry run');
+      expect(wasmToolManager.executeTool).not.toHaveBeenCalled();
+    });
+
+    describe('write permission preview', () => {
+      const permissionCallback = vi.fn((_toolName: string, _args: unknown) => Promise.resolve(true));
+
+      beforeEach(() => {
+        setPermissionCallback(permissionCallback as never);
+        vi.mocked(preferencesManager.getToolPermission).mockImplementation(
+          (toolName: string) => (toolName === 'write_file' ? 'ask' : 'always') as never
+        );
+      });
+
+      afterEach(() => {
+        vi.mocked(preferencesManager.getToolPermission).mockImplementation(() => 'always' as never);
+      });
+
+      it('asks for write permission with a preview of the pipe', async () => {
+        mockFs._setMockFile('input.txt', 'b\na');
+        mockFs._setMockFile('sorted.txt', '');
+
+        const result = await pipeTool.execute({
+          commands: [
+            { tool: 'cat', args: { path: 'input.txt' } },
+            { tool: 'sort', args: {} },
+            { tool: 'write_file', args: { path: 'sorted.txt' } },
+          ],
+          debug: false,
+        }, options);
+
+        expect(result.success).toBe(true);
+        expect(mockFs._mockFiles.get('sorted.txt')).toBe('a\nb');
+        expect(permissionCallback).toHaveBeenCalledTimes(1);
+        const [toolName, args] = permissionCallback.mock.calls[0]!;
+        expect(toolName).toBe('write_file');
+        expect(args).toMatchObject({
+          path: 'sorted.txt',
+          preview: {
+            filesRead: [{ path: 'input.txt', size: 3 }],
+            filesWritten: [{ path: 'sorted.txt', size: 3, action: 'overwrite' }],
+          },
+        });
+      });
+
+      it('does not build a preview for a write a grant already allows', async () => {
+        mockFs._setMockFile('input.txt', 'b\na');
+        mockFs._setMockFile('sorted.txt', '');
+        permissionGrants.setActiveConversation('conv-1');
+        permissionGrants.grantForFiles('conv-1', 'write_file', ['sorted.txt']);
+
+        try {
+          const result = await pipeTool.execute({
+            commands: [
+              { tool: 'cat', args: { path: 'input.txt' } },
+              { tool: 'sort', args: {} },
+              { tool: 'write_file', args: { path: 'sorted.txt' } },
+            ],
+            debug: false,
+          }, options);
+
+          expect(result.success).toBe(true);
+          expect(permissionCallback).not.toHaveBeenCalled();
+          // Read once to run the pipe, not a second time for a preview
+          expect(mockFs.readFileStream).toHaveBeenCalledTimes(1);
+        } finally {
+          permissionGrants.clearConversation('conv-1');
+          permissionGrants.setActiveConversation(null);
+        }
+      });
+
+      it('does not write or ask for writes in a dry run', async () => {
+        mockFs._setMockFile('input.txt', 'b\na');
+        mockFs._setMockFile('sorted.txt', '');
+
+        await pipeTool.execute({
+          commands: [
+            { tool: 'cat', args: { path: 'input.txt' } },
+            { tool: 'write_file', args: { path: 'sorted.txt' } },
+          ],
+          debug: false,
+          dryRun: true,
+        }, options);
+
+        expect(permissionCallback).not.toHaveBeenCalled();
+        expect(mockFs._mockFiles.get('sorted.txt')).toBe('');
+      });
+    });
+  });
+
+  describe('streaming', () => {
+    // A file stream that never ends, counting how many chunks were read
+    const endlessStream = () => {
+      const state = { pulls: 0, cancelled: false };
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          state.pulls++;
+          controller.enqueue(encoder.encode(`line ${state.pulls}\nerror ${state.pulls}\n`));
+        },
+        cancel() {
+          state.cancelled = true;
+        },
+      });
+      return { stream, state };
+    };
+
+    it('stops reading upstream once head has enough lines', async () => {
+      const { stream, state } = endlessStream();
+      mockFs._setMockFile('huge.log', '');
+      mockFs.readFileStream.mockResolvedValueOnce(stream);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'huge.log' } },
+          { tool: 'grep', args: { pattern: 'error' } },
+          { tool: 'head', args: { lines: 3 } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('error 1\nerror 2\nerror 3');
+      expect(state.cancelled).toBe(true);
+      expect(state.pulls).toBeLessThan(10);
+    });
+
+    it('aborts a pipe that outputs more than maxBytes', async () => {
+      const { stream, state } = endlessStream();
+      mockFs._setMockFile('huge.log', '');
+      mockFs.readFileStream.mockResolvedValueOnce(stream);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'huge.log' } },
+          { tool: 'grep', args: { pattern: 'line' } },
+        ],
+        debug: false,
+        maxBytes: 1000,
+      }, options);
+
+      expect(result.error).toBe('Command 2 (grep) failed: output exceeded the 1000 byte limit');
+      expect(state.cancelled).toBe(true);
+    });
+
+    it('streams more than maxBytes through grep and head', async () => {
+      mockFs._setMockFile('big.log', 'noise\n'.repeat(500) + 'error 1\nerror 2\nerror 3\nerror 4');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'big.log' } },
+          { tool: 'grep', args: { pattern: 'error' } },
+          { tool: 'head', args: { lines: 3 } },
+        ],
+        debug: false,
+        maxBytes: 1000,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('error 1\nerror 2\nerror 3');
+    });
+
+    it('stops reading the input of a stage that needs it whole once it passes maxBytes', async () => {
+      // 100 chunks of 100 bytes; the limit is passed within the first 11
+      const state = { pulls: 0, cancelled: false };
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          state.pulls++;
+          controller.enqueue(new TextEncoder().encode(`${'noise'.repeat(19)} ${String(state.pulls).padStart(3, '0')}\n`));
+          if (state.pulls === 100) {
+            controller.close();
+          }
+        },
+        cancel() {
+          state.cancelled = true;
+        },
+      });
+      mockFs._setMockFile('big.log', '');
+      mockFs.readFileStream.mockResolvedValueOnce(stream);
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'big.log' } },
+          { tool: 'sort', args: {} },
+          { tool: 'uniq', args: {} },
+        ],
+        debug: false,
+        maxBytes: 1000,
+      }, options);
+
+      expect(result.error).toBe('Command 2 (sort) failed: input exceeded the 1000 byte limit');
+      expect(state.cancelled).toBe(true);
+      expect(state.pulls).toBeLessThan(15);
+    });
+
+    it('aborts a stage that needs its whole input once its output passes maxBytes', async () => {
+      mockFs._setMockFile('words.txt', 'a b c d e f g h');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'read_file', args: { path: 'words.txt' } },
+          { tool: 'sed', args: { script: `s/ /${'-'.repeat(50)}/g` } },
+        ],
+        debug: false,
+        maxBytes: 100,
+      }, options);
+
+      expect(result.error).toBe('Command 2 (sed) failed: output exceeded the 100 byte limit');
+    });
+
+    it('allows output up to maxBytes', async () => {
+      mockFs._setMockFile('test.txt', 'abc\ndef');
+
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'cat', args: { path: 'test.txt' } }],
+        debug: false,
+        maxBytes: 7,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('abc\ndef');
+    });
+
+    it('decodes multi-byte characters split across chunks', async () => {
+      const bytes = new TextEncoder().encode('héllo\nwörld');
+      mockFs._setMockFile('utf8.txt', '');
+      mockFs.readFileStream.mockResolvedValueOnce(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            // Split inside the two-byte "é"
+            controller.enqueue(bytes.slice(0, 2));
+            controller.enqueue(bytes.slice(2));
+            controller.close();
+          },
+        })
+      );
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'utf8.txt' } },
+          { tool: 'sort', args: { reverse: true } },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('wörld\nhéllo');
+    });
+
+    it('preserves a final newline through streaming stages', async () => {
+      mockFs._setMockFile('test.txt', 'a\nb\n');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'test.txt' } },
+          { tool: 'grep', args: { pattern: 'x', invertMatch: true } },
+          { tool: 'wc', args: {} },
+        ],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('       2       2       4');
+    });
+
+    it('reports errors raised while streaming against the failing command', async () => {
+      mockFs._setMockFile('list.txt', 'a.txt\nmissing.txt');
+      mockFs._setMockFile('a.txt', 'content');
+
+      const result = await pipeTool.execute({
+        commands: [
+          { tool: 'cat', args: { path: 'list.txt' } },
+          { tool: 'foreach', args: { tool: 'cat' } },
+          { tool: 'head', args: { lines: 5 } },
+        ],
+        debug: true,
+      }, options);
+
+      expect(result.error).toContain('Command 2 (foreach) failed: foreach: cat: missing.txt');
+      expect(result.intermediateResults).toHaveLength(2);
+    });
+  });
+
+  describe('read_file command', () => {
+    it('reads a file', async () => {
+      mockFs._setMockFile('test.txt', 'file content');
+
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'read_file', args: { path: 'test.txt' } }],
+        debug: false,
+      }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('file content');
+    });
+
+    it('returns error when path is missing', async () => {
+      const result = await pipeTool.execute({
+        commands: [{ tool: 'read_file', args: {} }],
+        debug: false,
+      }, options);
 
       expect(result.error).toBeDefined();
       expect(result.error).toContain('read_file');
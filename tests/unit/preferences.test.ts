@@ -0,0 +1,149 @@
+/**
+ * Unit tests for tool levels in preferences
+ *
+ * Tests the migration of WASM tool levels from the old localStorage keys, that
+ * changing a level stops following the active profile, that a bound
+ * conversation's profile leaves the stored levels alone, and that tool calls
+ * keep the levels of the conversation whose turn is running
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../../src/storage', () => ({
+  storageManager: {},
+}));
+
+import { PreferencesManager } from '../../src/preferences';
+
+/** Minimal in-memory localStorage */
+function createLocalStorage(entries: Record<string, string>): Storage {
+  const items = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe('PreferencesManager WASM tool levels', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'localStorage',
+      createLocalStorage({
+        'co-do-preferences': JSON.stringify({ wasmToolPermissions: { wasm_jq: 'always' } }),
+        wasm_tool_permission_wasm_jq: 'never',
+        wasm_tool_permission_wasm_sed: 'never',
+        wasm_tool_permission_wasm_bad: 'sometimes',
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('moves levels from the old keys, keeping levels already in preferences', () => {
+    const preferences = new PreferencesManager();
+    preferences.migrateWasmToolPermissions();
+
+    expect(preferences.getWasmToolPermission('wasm_jq')).toBe('always');
+    expect(preferences.getWasmToolPermission('wasm_sed')).toBe('never');
+    expect(preferences.getWasmToolPermission('wasm_bad')).toBe('ask');
+    expect(localStorage.length).toBe(1);
+    expect(JSON.parse(localStorage.getItem('co-do-preferences')!).wasmToolPermissions).toEqual({
+      wasm_jq: 'always',
+      wasm_sed: 'never',
+    });
+  });
+
+  it('asks for tools without a level and stops following a profile once a level is set', () => {
+    const preferences = new PreferencesManager();
+    preferences.applyPermissionProfile('review', preferences.getAllToolPermissions(), { wasm_sed: 'ask' });
+    expect(preferences.getActivePermissionProfileId()).toBe('review');
+    expect(preferences.getWasmToolPermission('wasm_new')).toBe('ask');
+
+    preferences.setWasmToolPermission('wasm_sed', 'always');
+
+    expect(preferences.getWasmToolPermission('wasm_sed')).toBe('always');
+    expect(preferences.getActivePermissionProfileId()).toBeNull();
+    expect(preferences.export().wasmToolPermissions).toMatchObject({ wasm_jq: 'always', wasm_sed: 'always' });
+  });
+});
+
+describe('PreferencesManager conversation profiles', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createLocalStorage({}));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('brings back the hand-tuned levels when switching from a bound to an unbound conversation', () => {
+    const preferences = new PreferencesManager();
+    preferences.setToolPermission('write_file', 'always');
+    preferences.setWasmToolPermission('wasm_jq', 'always');
+    const stored = localStorage.getItem('co-do-preferences');
+
+    // Open a conversation bound to the read-only profile
+    const readOnly = { ...preferences.getAllToolPermissions(), write_file: 'never' as const };
+    preferences.setOpenConversation('bound');
+    preferences.setConversationPermissionProfile('bound', 'read-only', readOnly, { wasm_jq: 'never' });
+    expect(preferences.getToolPermission('write_file')).toBe('never');
+    expect(preferences.getWasmToolPermission('wasm_jq')).toBe('never');
+    expect(preferences.getActivePermissionProfileId()).toBe('read-only');
+    expect(localStorage.getItem('co-do-preferences')).toBe(stored);
+
+    // Switch to an unbound conversation
+    preferences.setOpenConversation('unbound');
+    expect(preferences.getToolPermission('write_file')).toBe('always');
+    expect(preferences.getWasmToolPermission('wasm_jq')).toBe('always');
+    expect(preferences.getActivePermissionProfileId()).toBeNull();
+  });
+
+  it('applies a level set in a bound conversation both now and to the stored levels', () => {
+    const preferences = new PreferencesManager();
+    preferences.setOpenConversation('bound');
+    preferences.setConversationPermissionProfile('bound', 'review', { ...preferences.getAllToolPermissions(), wc: 'ask' });
+
+    preferences.setToolPermission('wc', 'always');
+    expect(preferences.getToolPermission('wc')).toBe('always');
+
+    preferences.setConversationPermissionProfile('bound', null);
+    expect(preferences.getToolPermission('wc')).toBe('always');
+  });
+
+  it("keeps the running conversation's levels for its tool calls when another tab is opened mid-turn", () => {
+    const preferences = new PreferencesManager();
+    preferences.setToolPermission('write_file', 'always');
+    const readOnly = { ...preferences.getAllToolPermissions(), write_file: 'never' as const };
+
+    // A turn starts in a conversation bound to the read-only profile
+    preferences.setOpenConversation('bound');
+    preferences.setConversationPermissionProfile('bound', 'read-only', readOnly, { wasm_jq: 'never' });
+    preferences.setActiveConversation('bound');
+
+    // The user opens an unbound conversation while it runs
+    preferences.setOpenConversation('unbound');
+    preferences.setConversationPermissionProfile('unbound', null);
+    expect(preferences.getToolPermission('write_file')).toBe('never');
+    expect(preferences.getWasmToolPermission('wasm_jq')).toBe('never');
+    // The settings show the open conversation's levels
+    expect(preferences.getAllToolPermissions().write_file).toBe('always');
+    expect(preferences.getOpenWasmToolPermission('wasm_jq')).toBe('ask');
+    expect(preferences.getActivePermissionProfileId()).toBeNull();
+
+    // And the other way round: a turn of the unbound conversation while the bound one is open
+    preferences.setActiveConversation('unbound');
+    preferences.setOpenConversation('bound');
+    expect(preferences.getToolPermission('write_file')).toBe('always');
+    expect(preferences.getAllToolPermissions().write_file).toBe('never');
+
+    preferences.setActiveConversation(null);
+    expect(preferences.getToolPermission('write_file')).toBe('never');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the recent folders list
+ *
+ * Tests recording folders most recently used first without duplicates,
+ * the list's size limit, and linking conversations to folders
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the recent folders store with a map, keeping handles by reference
+vi.mock('../../src/storage', () => {
+  const folders: Map<string, { lastUsedAt: number }> = new Map();
+
+  return {
+    storageManager: {
+      saveRecentFolder: vi.fn((folder: { id: string; lastUsedAt: number }) => {
+        folders.set(folder.id, { ...folder });
+        return Promise.resolve();
+      }),
+      getAllRecentFolders: vi.fn(() =>
+        Promise.resolve(
+          [...folders.values()].map((folder) => ({ ...folder })).sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+        )
+      ),
+      deleteRecentFolder: vi.fn((id: string) => {
+        folders.delete(id);
+        return Promise.resolve();
+      }),
+      _folders: folders,
+    },
+  };
+});
+
+import { RecentFolderManager } from '../../src/recentFolders';
+import { storageManager } from '../../src/storage';
+
+const mockStorage = storageManager as unknown as { _folders: Map<string, unknown> };
+
+/**
+ * A directory handle that is the same entry only as itself
+ */
+function fakeHandle(name: string): FileSystemDirectoryHandle {
+  const handle = {
+    name,
+    kind: 'directory',
+    isSameEntry: (other: unknown) => Promise.resolve(other === handle),
+    queryPermission: () => Promise.resolve('prompt'),
+  };
+  return handle as unknown as FileSystemDirectoryHandle;
+}
+
+describe('RecentFolderManager', () => {
+  let recentFolders: RecentFolderManager;
+  let now: number;
+
+  beforeEach(() => {
+    mockStorage._folders.clear();
+    recentFolders = new RecentFolderManager();
+    now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  it('lists folders most recently used first without duplicates', async () => {
+    const app = fakeHandle('app');
+    const web = fakeHandle('web');
+
+    await recentFolders.record([{ name: 'app', handle: app }]);
+    await recentFolders.record([{ name: 'web', handle: web }]);
+    await recentFolders.record([{ name: 'main', handle: app }]);
+
+    const folders = await recentFolders.list();
+    expect(folders.map((folder) => folder.rootName)).toEqual(['main', 'web']);
+    expect(folders[0]!.handle).toBe(app);
+    expect(await recentFolders.getPermission(folders[0]!)).toBe('prompt');
+  });
+
+  it('keeps only the ten most recently used folders', async () => {
+    for (let i = 0; i < 12; i++) {
+      await recentFolders.record([{ name: `folder-${i}`, handle: fakeHandle(`folder-${i}`) }]);
+    }
+
+    const folders = await recentFolders.list();
+    expect(folders).toHaveLength(10);
+    expect(folders.at(-1)!.rootName).toBe('folder-2');
+  });
+
+  it('links conversations to the folders they were started against', async () => {
+    const app = fakeHandle('app');
+    const web = fakeHandle('web');
+    const roots = [
+      { name: 'app', handle: app },
+      { name: 'web', handle: web },
+    ];
+
+    const folderIds = await recentFolders.linkConversation('conversation-1', roots);
+    await recentFolders.linkConversation('conversation-2', [roots[0]!]);
+
+    const folders = await recentFolders.get(folderIds);
+    expect(folders.map((folder) => folder.conversationIds)).toEqual([
+      ['conversation-1', 'conversation-2'],
+      ['conversation-1'],
+    ]);
+    expect(await recentFolders.areMounted(folders, [web, app])).toBe(true);
+    expect(await recentFolders.areMounted(folders, [app])).toBe(false);
+  });
+});
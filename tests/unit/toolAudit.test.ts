@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the audit log entries of the native tools
+ *
+ * Tests that every tool's permission decision reaches its audit entry, which
+ * breaks when a tool doesn't pass its entry to its permission check, including
+ * tools that read files before asking, and that a pipe's entry records the
+ * paths and decisions of its stages
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with paths that resolve to whatever the tool expects
+vi.mock('../../src/fileSystem', () => {
+  const entryFor = (path: string) => ({
+    name: path.split('/').pop(),
+    path,
+    kind: /(^|\/)dir[^/]*$/.test(path) ? 'directory' : 'file',
+  });
+
+  return {
+    fileSystemManager: {
+      getRoots: vi.fn(() => [{ name: 'project' }]),
+      getRootName: vi.fn(() => 'project'),
+      getRootPath: vi.fn(() => 'project'),
+      normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+      resolvePath: vi.fn((path: string) => Promise.resolve(path.includes('missing') ? null : entryFor(path))),
+      listFiles: vi.fn(() => Promise.resolve([entryFor('dir/a.txt')])),
+      isBinaryFile: vi.fn(() => Promise.resolve(false)),
+      readFile: vi.fn(() => Promise.resolve('b\na\n')),
+      readFileStream: vi.fn(() => Promise.resolve(new Blob(['b\na\n']).stream())),
+      writeFile: vi.fn(() => Promise.resolve()),
+      getFileMetadata: vi.fn(() => Promise.resolve({ name: 'a.txt', path: 'a.txt', size: 4, lastModified: 0 })),
+    },
+  };
+});
+
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getToolPermission: vi.fn(() => 'never'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/storage', () => ({
+  storageManager: { addAuditEntry: vi.fn() },
+}));
+
+vi.mock('../../src/toolResultCache', () => ({
+  toolResultCache: { store: vi.fn(() => 'mock-result-id') },
+  generateContentSummary: vi.fn(),
+}));
+
+vi.mock('../../src/wasm-tools', () => ({
+  wasmToolManager: { getEnabledToolByAIName: vi.fn() },
+  checkWasmPermission: vi.fn(() => Promise.resolve(true)),
+}));
+
+// Import after mocks are set up
+import { fileTools, setPermissionCallback } from '../../src/tools';
+import { auditLog, AuditEntry } from '../../src/auditLog';
+import { preferencesManager } from '../../src/preferences';
+import { fileSystemManager } from '../../src/fileSystem';
+import { storageManager } from '../../src/storage';
+
+const options = { toolCallId: 'test', messages: [] };
+
+/** An input for each tool that gets it as far as its permission check */
+const inputs: Record<string, Record<string, unknown>> = {
+  open_file: { path: 'a.txt' },
+  read_file_content: { path: 'a.txt' },
+  create_file: { path: 'missing.txt', content: 'a' },
+  write_file: { path: 'a.txt', content: 'a' },
+  edit_file: { path: 'a.txt', edits: [{ oldText: 'a', newText: 'c' }] },
+  apply_patch: { patch: '--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n b\n-a\n+c\n' },
+  rename_file: { path: 'a.txt', newName: 'b.txt' },
+  move_file: { sourcePath: 'a.txt', destinationPath: 'missing.txt' },
+  delete_file: { path: 'a.txt' },
+  list_files: { includeIgnored: false },
+  get_file_metadata: { path: 'a.txt' },
+  cat: { path: 'a.txt' },
+  grep: { pattern: 'a', caseInsensitive: false, maxResults: 200, includeIgnored: false },
+  head_file: { path: 'a.txt', lines: 10 },
+  tail_file: { path: 'a.txt', lines: 10 },
+  cp: { source: 'a.txt', destination: 'missing.txt' },
+  mkdir: { path: 'missing' },
+  delete_directory: { path: 'dir', recursive: true },
+  copy_directory: { source: 'dir', destination: 'missing' },
+  move_directory: { sourcePath: 'dir', destinationPath: 'missing' },
+  tree: { includeIgnored: false },
+  diff: { file1: 'a.txt', file2: 'b.txt' },
+  wc: { countLines: true, countWords: true, countChars: true },
+  sort: { path: 'a.txt', reverse: false },
+  uniq: { path: 'a.txt' },
+  pipe: { commands: [{ tool: 'cat', args: { path: 'a.txt' } }] },
+};
+
+function lastEntry(): AuditEntry {
+  return vi.mocked(storageManager.addAuditEntry).mock.calls.at(-1)![0];
+}
+
+describe('audit entries of tool calls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(preferencesManager.getToolPermission).mockReturnValue('never');
+  });
+
+  it('has an input for every tool', () => {
+    expect(Object.keys(inputs).sort()).toEqual(Object.keys(fileTools).sort());
+  });
+
+  it.each(Object.keys(fileTools))('records the denial of %s', async (name) => {
+    const tools = auditLog.wrapTools({ [name]: fileTools[name]! });
+
+    await tools[name]!.execute!(inputs[name], options);
+
+    expect(lastEntry()).toMatchObject({ toolName: name, decision: 'denied', status: 'denied' });
+  });
+
+  it.each(['delete_directory', 'copy_directory', 'move_directory'])(
+    "records the user's denial of %s, which reads the directory before asking",
+    async (name) => {
+      vi.mocked(preferencesManager.getToolPermission).mockReturnValue('ask');
+      setPermissionCallback(() => Promise.resolve(false));
+      const tools = auditLog.wrapTools({ [name]: fileTools[name]! });
+
+      await tools[name]!.execute!(inputs[name], options);
+
+      expect(fileSystemManager.listFiles).toHaveBeenCalled();
+      expect(lastEntry()).toMatchObject({ toolName: name, decision: 'denied', status: 'denied' });
+      expect(lastEntry().paths).toContain('dir');
+    }
+  );
+});
+
+describe('audit entries of pipes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([]);
+  });
+
+  it('records the paths and decisions of its stages', async () => {
+    vi.mocked(preferencesManager.getToolPermission).mockImplementation((tool) =>
+      tool === 'write_file' ? 'ask' : 'always'
+    );
+    setPermissionCallback(() => Promise.resolve(true));
+    const { pipe } = auditLog.wrapTools({ pipe: fileTools.pipe! });
+
+    await pipe!.execute!(
+      {
+        commands: [
+          { tool: 'cat', args: { path: 'a.txt' } },
+          { tool: 'write_file', args: { path: 'out.txt' } },
+        ],
+      },
+      options
+    );
+
+    expect(lastEntry()).toMatchObject({ toolName: 'pipe', decision: 'asked', status: 'success' });
+    expect(lastEntry().paths).toEqual(expect.arrayContaining(['a.txt', 'out.txt']));
+  });
+
+  it('records the paths foreach reads and asks about while it runs', async () => {
+    vi.mocked(preferencesManager.getToolPermission).mockReturnValue('always');
+    vi.mocked(preferencesManager.getPermissionRules).mockReturnValue([
+      { id: 'b', tool: '*', pathGlob: 'b', decision: 'ask' },
+    ]);
+    setPermissionCallback(() => Promise.resolve(true));
+    const { pipe } = auditLog.wrapTools({ pipe: fileTools.pipe! });
+
+    await pipe!.execute!(
+      { commands: [{ tool: 'cat', args: { path: 'a.txt' } }, { tool: 'foreach', args: { tool: 'head', args: {} } }] },
+      options
+    );
+
+    expect(lastEntry()).toMatchObject({ toolName: 'pipe', decision: 'asked', status: 'success' });
+    expect(lastEntry().paths).toEqual(['a.txt', 'b', 'a']);
+  });
+
+  it('records a stage it denies', async () => {
+    vi.mocked(preferencesManager.getToolPermission).mockImplementation((tool) => (tool === 'cat' ? 'never' : 'always'));
+    const { pipe } = auditLog.wrapTools({ pipe: fileTools.pipe! });
+
+    await pipe!.execute!({ commands: [{ tool: 'cat', args: { path: 'a.txt' } }] }, options);
+
+    expect(lastEntry()).toMatchObject({ toolName: 'pipe', decision: 'denied', status: 'denied', paths: ['a.txt'] });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for WASM tool permissions
+ *
+ * Tests that WASM tool calls honour the permissions of the workspace roots they
+ * touch like native tools do, that grants can't cover a call touching an "ask"
+ * root, and that the virtual file system refuses writes into read-only roots
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the fileSystemManager with a default root and a second root named docs
+vi.mock('../../src/fileSystem', () => ({
+  fileSystemManager: {
+    getRoots: vi.fn(() => [{ name: 'project' }, { name: 'docs' }]),
+    getRootName: vi.fn((path: string) => (path.startsWith('docs:') ? 'docs' : 'project')),
+    normalizePath: vi.fn((path: string) => path.replace(/^\/+|\/+$/g, '')),
+    writeFile: vi.fn(() => Promise.resolve()),
+  },
+}));
+
+vi.mock('../../src/preferences', () => ({
+  preferencesManager: {
+    getWasmToolPermission: vi.fn(() => 'always'),
+    getRootPermission: vi.fn(() => 'default'),
+    getPermissionRules: vi.fn(() => []),
+  },
+}));
+
+vi.mock('../../src/storage', () => ({
+  storageManager: { addAuditEntry: vi.fn() },
+}));
+
+// Import after mocks are set up
+import {
+  wasmToolManager,
+  checkWasmPermission,
+  getWasmApprovalReach,
+  setWasmPermissionCallback,
+} from '../../src/wasm-tools/manager';
+import { VirtualFileSystem } from '../../src/wasm-tools/vfs';
+import { preferencesManager } from '../../src/preferences';
+import { permissionGrants } from '../../src/permissionGrants';
+import { fileSystemManager } from '../../src/fileSystem';
+import type { FileSystemManager } from '../../src/fileSystem';
+
+const permissionCallback = vi.fn(() => Promise.resolve(true));
+
+/** Make `name` an enabled tool with the given file access */
+function useTool(fileAccess: 'none' | 'read' | 'readwrite'): void {
+  vi.spyOn(wasmToolManager, 'getEnabledToolByAIName').mockReturnValue({
+    manifest: { name: 'tool', execution: { fileAccess } },
+    enabled: true,
+  } as never);
+}
+
+/** Set the permission of the docs root */
+function setDocsRoot(permission: 'default' | 'ask' | 'read-only'): void {
+  vi.mocked(preferencesManager.getRootPermission).mockImplementation((name) => (name === 'docs' ? permission : 'default'));
+}
+
+describe('WASM tool permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setWasmPermissionCallback(permissionCallback);
+    setDocsRoot('default');
+  });
+
+  it('denies a tool that can write when it names a path in a read-only root', async () => {
+    useTool('readwrite');
+    setDocsRoot('read-only');
+
+    expect(await checkWasmPermission('tool', { output: 'docs:/out.txt' })).toBe(false);
+    expect(await checkWasmPermission('tool', { output: 'out.txt' })).toBe(true);
+    expect(permissionCallback).not.toHaveBeenCalled();
+  });
+
+  it('lets a read-only tool read from a read-only root', async () => {
+    useTool('read');
+    setDocsRoot('read-only');
+
+    expect(await checkWasmPermission('tool', { input: 'docs:/guide.md' })).toBe(true);
+  });
+
+  it('asks for a call touching an "ask" root, even with a grant for the tool', async () => {
+    useTool('read');
+    setDocsRoot('ask');
+    permissionGrants.grantForConversation('conv-1', 'tool');
+    permissionGrants.setActiveConversation('conv-1');
+
+    try {
+      expect(getWasmApprovalReach('tool', { input: 'docs:/guide.md' })).toEqual({ grant: false, remember: false });
+      expect(await checkWasmPermission('tool', { input: 'docs:/guide.md' })).toBe(true);
+      expect(permissionCallback).toHaveBeenCalledTimes(1);
+
+      // Naming no path, the tool can reach every root through its file system
+      expect(await checkWasmPermission('tool', {})).toBe(true);
+      expect(permissionCallback).toHaveBeenCalledTimes(2);
+
+      expect(getWasmApprovalReach('tool', { input: 'guide.md' })).toEqual({ grant: true, remember: true });
+    } finally {
+      permissionGrants.clearConversation('conv-1');
+      permissionGrants.setActiveConversation(null);
+    }
+  });
+
+  it('leaves tools without file access alone', async () => {
+    useTool('none');
+    setDocsRoot('ask');
+
+    expect(await checkWasmPermission('tool', { text: 'docs:/guide.md' })).toBe(true);
+    expect(getWasmApprovalReach('tool', {})).toEqual({ grant: true, remember: true });
+    expect(permissionCallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('VirtualFileSystem', () => {
+  const canChange = (path: string) => !path.startsWith('docs:');
+
+  it('refuses to write into a path it may not change', async () => {
+    const vfs = new VirtualFileSystem(fileSystemManager as unknown as FileSystemManager, 'readwrite', canChange);
+
+    await expect(vfs.writeFile('/docs:/out.txt', 'x')).rejects.toThrow(
+      'Write access to "docs:/out.txt" is not allowed: its workspace root is read-only'
+    );
+    expect(() => vfs.openFile('docs:/out.txt', 'write')).toThrow('its workspace root is read-only');
+    expect(fileSystemManager.writeFile).not.toHaveBeenCalled();
+
+    await vfs.writeFile('out.txt', 'x');
+    expect(fileSystemManager.writeFile).toHaveBeenCalledWith('out.txt', 'x');
+  });
+});